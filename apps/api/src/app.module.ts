@@ -36,6 +36,7 @@ import { ChatModule } from './modules/chat/chat.module';
 import { CollectionsModule } from './modules/collections/collections.module';
 import { DataSourcesModule } from './modules/data-sources/data-sources.module';
 import { EmailModule } from './modules/email/email.module';
+import { EmbeddingsModule } from './modules/embeddings/embeddings.module';
 import { HealthModule } from './modules/health/health.module';
 import { IntegrationsModule } from './modules/integrations/integrations.module';
 import { McpModule } from './modules/mcp/mcp.module';
@@ -88,6 +89,7 @@ import { UsersModule } from './modules/users/users.module';
     AdminModule,
     AgentModule,
     AiModule,
+    EmbeddingsModule,
     AnalyticsModule,
     EmailModule,
     NotificationModule,
@@ -15,7 +15,9 @@ import { buildOpenApiDocument } from './config/openapi';
 import {
   CANVAS_OPS_QUEUE,
   DATA_SOURCE_QUEUE,
+  EMBEDDING_QUEUE,
   INTEGRATIONS_QUEUE,
+  REINDEX_QUEUE,
   SLACK_BOT_QUEUE,
 } from './modules/queue/queue.constants';
 import { AppModule } from './app.module';
@@ -44,6 +46,8 @@ export async function bootstrap() {
   const canvasOpsQueue = app.get<Queue>(getQueueToken(CANVAS_OPS_QUEUE));
   const integrationsQueue = app.get<Queue>(getQueueToken(INTEGRATIONS_QUEUE));
   const slackBotQueue = app.get<Queue>(getQueueToken(SLACK_BOT_QUEUE));
+  const embeddingQueue = app.get<Queue>(getQueueToken(EMBEDDING_QUEUE));
+  const reindexQueue = app.get<Queue>(getQueueToken(REINDEX_QUEUE));
 
   createBullBoard({
     queues: [
@@ -51,6 +55,8 @@ export async function bootstrap() {
       new BullMQAdapter(canvasOpsQueue),
       new BullMQAdapter(integrationsQueue),
       new BullMQAdapter(slackBotQueue),
+      new BullMQAdapter(embeddingQueue),
+      new BullMQAdapter(reindexQueue),
     ],
     serverAdapter,
   });
@@ -65,7 +71,7 @@ export async function bootstrap() {
     serverAdapter.getRouter()
   );
 
-  // Build OpenAPI spec from Zod schemas
+  // Build OpenAPI spec from the public API contract
   const openApiDocument = buildOpenApiDocument();
 
   const isDev = env.nodeEnv === 'development';
@@ -8,7 +8,7 @@ import { DbService } from '../../db/db.module';
 /**
  * Guard that validates Authorization: Bearer header for external API access.
  * Finds the API key by the gbd_ prefix, verifies bcrypt hash,
- * and attaches the orgId to the request.
+ * and attaches the orgId and key ID to the request.
  */
 @Injectable()
 export class ApiKeyGuard implements CanActivate {
@@ -55,6 +55,7 @@ export class ApiKeyGuard implements CanActivate {
 
     request.apiKey = {
       orgId: keyRecord.org_id,
+      apiKeyId: keyRecord.id,
     };
 
     return true;
@@ -1,4 +1,4 @@
-import type { UploadsMime } from '@grabdy/contracts';
+import type { ChunkingStrategy, DataSourceType, UploadsMime } from '@grabdy/contracts';
 
 // ── Auth ────────────────────────────────────────────────────────────
 export const BCRYPT_SALT_ROUNDS = 10;
@@ -30,6 +30,66 @@ export const CHUNK_SIZE_TOKENS = 400;
 export const CHUNK_OVERLAP_TOKENS = 80;
 export const MIN_CHUNK_SIZE_TOKENS = 40;
 export const EMBEDDING_BATCH_SIZE = 100;
+/** Code blocks and tables up to this size are kept in one chunk even when over CHUNK_SIZE_TOKENS. */
+export const MAX_STRUCTURED_BLOCK_TOKENS = 2000;
+
+/** Chunking strategy per data source type, unless the collection overrides it. Unlisted types use RECURSIVE. */
+export const DEFAULT_CHUNKING_STRATEGIES: Partial<Record<DataSourceType, ChunkingStrategy>> = {
+  NOTION: 'MARKDOWN',
+  CONFLUENCE: 'MARKDOWN',
+  JIRA: 'MARKDOWN',
+  GITHUB: 'MARKDOWN',
+  LINEAR: 'MARKDOWN',
+  MARKDOWN: 'MARKDOWN',
+  HTML: 'MARKDOWN',
+  EPUB: 'MARKDOWN',
+};
+
+// ── OCR ─────────────────────────────────────────────────────────────
+/** PDF pages with less extracted text than this are treated as scans and OCR'd. */
+export const PDF_OCR_MIN_TEXT_CHARS = 20;
+/** Rasterization resolution for OCR; Tesseract is most accurate around 300 DPI. */
+export const PDF_OCR_DPI = 300;
+export const PDF_OCR_PAGE_TIMEOUT_MS = 120_000;
+/** Scanned pages beyond this many are left unread, and the source marked PARTIAL. */
+export const PDF_OCR_MAX_PAGES = 300;
+/** OCR'd pages below this mean word confidence mark the source PARTIAL. */
+export const PDF_OCR_LOW_CONFIDENCE = 60;
+
+// ── Embedded Images ─────────────────────────────────────────────────
+/** Images in PDFs and DOCX narrower or shorter than this (logos, icons, bullets) are skipped. */
+export const EMBEDDED_IMAGE_MIN_SIZE_PX = 100;
+/** Each embedded image costs a vision call, so only the first this many are described. */
+export const EMBEDDED_IMAGE_MAX_PER_DOCUMENT = 50;
+/** Larger images are skipped; the vision API rejects images over 20 MB. */
+export const EMBEDDED_IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+export const PDF_IMAGES_PAGE_TIMEOUT_MS = 60_000;
+
+// ── Transcription ───────────────────────────────────────────────────
+/**
+ * Recordings are transcribed in pieces of this length, as 16 kHz mono WAV
+ * (~19 MB per 10 minutes, under the 25 MB OpenAI upload limit).
+ */
+export const TRANSCRIPTION_PIECE_SEC = 600;
+export const TRANSCRIPTION_PIECE_TIMEOUT_MS = 15 * 60_000;
+/** Longer recordings are cut off and only their start is transcribed. */
+export const TRANSCRIPTION_MAX_DURATION_SEC = 4 * 60 * 60;
+
+// ── Reindexing ──────────────────────────────────────────────────────
+/** Data sources a reindex job keeps in flight at once. */
+export const REINDEX_CONCURRENCY = 5;
+export const REINDEX_POLL_INTERVAL_MS = 2000;
+
+// ── Structured Tables ───────────────────────────────────────────────
+/** Sheets with more rows than this are only indexed as text chunks. */
+export const DATA_TABLE_MAX_ROWS = 100_000;
+/** Share of a column's filled cells that must parse as numbers (or dates) to type it so. */
+export const DATA_TABLE_TYPE_THRESHOLD = 0.9;
+export const DATA_TABLE_INSERT_BATCH_SIZE = 1000;
+export const TABLE_QUERY_TIMEOUT_MS = 5000;
+export const TABLE_QUERY_MAX_RESULTS = 100;
+/** Source row numbers returned with each aggregate result for citation. */
+export const TABLE_QUERY_CITED_ROWS = 20;
 
 // ── Retrieval / Search ──────────────────────────────────────────────
 export const HYDE_TIMEOUT_MS = 10_000;
@@ -38,6 +98,12 @@ export const CONTEXT_PREVIEW_MAX_LENGTH = 500;
 export const RERANK_MAX_DOC_LENGTH = 4000;
 export const HYDE_MAX_LENGTH = 500;
 export const THREAD_TITLE_MAX_LENGTH = 100;
+/** Only the start of a chunk is read to detect its language. */
+export const LANGUAGE_DETECTION_SAMPLE_CHARS = 2000;
+/** Stopword hits a chunk needs before its language is trusted. */
+export const LANGUAGE_DETECTION_MIN_MATCHES = 3;
+/** Stopword hits a search query needs before it is stemmed in that language alone. */
+export const QUERY_LANGUAGE_MIN_MATCHES = 2;
 
 // ── File Upload ─────────────────────────────────────────────────────
 export const MAX_FILE_SIZE_BYTES = 200 * 1024 * 1024; // 200 MB — multer ceiling
@@ -46,15 +112,32 @@ export const FILE_SIZE_LIMITS: Partial<Record<UploadsMime, number>> = {
   'application/pdf': 200 * 1024 * 1024,
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 200 * 1024 * 1024,
   'application/msword': 200 * 1024 * 1024,
+  'application/vnd.oasis.opendocument.text': 200 * 1024 * 1024,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 200 * 1024 * 1024,
+  'application/vnd.oasis.opendocument.presentation': 200 * 1024 * 1024,
   'text/csv': 50 * 1024 * 1024,
+  'text/tab-separated-values': 50 * 1024 * 1024,
   'text/plain': 50 * 1024 * 1024,
   'application/json': 50 * 1024 * 1024,
+  'application/x-ndjson': 50 * 1024 * 1024,
+  'text/markdown': 50 * 1024 * 1024,
+  'text/html': 50 * 1024 * 1024,
+  'application/epub+zip': 100 * 1024 * 1024,
   'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 50 * 1024 * 1024,
   'application/vnd.ms-excel': 50 * 1024 * 1024,
+  'application/vnd.oasis.opendocument.spreadsheet': 50 * 1024 * 1024,
   'image/png': 20 * 1024 * 1024,
   'image/jpeg': 20 * 1024 * 1024,
   'image/webp': 20 * 1024 * 1024,
   'image/gif': 20 * 1024 * 1024,
+  'audio/mpeg': 200 * 1024 * 1024,
+  'audio/mp4': 200 * 1024 * 1024,
+  'audio/wav': 200 * 1024 * 1024,
+  'audio/ogg': 200 * 1024 * 1024,
+  'audio/flac': 200 * 1024 * 1024,
+  'video/mp4': 200 * 1024 * 1024,
+  'video/quicktime': 200 * 1024 * 1024,
+  'video/webm': 200 * 1024 * 1024,
 };
 
 const DEFAULT_FILE_SIZE_LIMIT = 50 * 1024 * 1024; // 50 MB
@@ -64,6 +147,13 @@ export function getMaxFileSizeForMime(mime: string): number {
   return limits[mime] ?? DEFAULT_FILE_SIZE_LIMIT;
 }
 
+// ── Archives ────────────────────────────────────────────────────────
+/** Multer ceiling for ZIP/TAR uploads. */
+export const ARCHIVE_MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+/** Total unpacked size of an archive; files past it are skipped. Bounds memory use too. */
+export const ARCHIVE_MAX_EXPANDED_BYTES = 500 * 1024 * 1024;
+export const ARCHIVE_MAX_FILES = 500;
+
 // ── API Keys ────────────────────────────────────────────────────────
 export const API_KEY_RANDOM_BYTES = 32;
 export const API_KEY_PREFIX_LENGTH = 12;
@@ -52,6 +52,22 @@ export const env = {
 
   adminApiKey: required('ADMIN_API_KEY'),
 
+  // Tesseract language packs for OCR of scanned PDFs, joined with '+' (e.g. eng+deu)
+  ocrLanguages: process.env.OCR_LANGUAGES || 'eng',
+
+  // Speech-to-text for audio/video: whisper.cpp in-process, or an OpenAI-compatible API
+  transcriptionProvider: (() => {
+    const value = process.env.TRANSCRIPTION_PROVIDER || 'whisper-cpp';
+    if (value === 'whisper-cpp' || value === 'openai') {
+      return value;
+    }
+    throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${value}`);
+  })(),
+  whisperModelPath: process.env.WHISPER_MODEL_PATH || '/models/ggml-base.bin',
+  transcriptionApiUrl: process.env.TRANSCRIPTION_API_URL || 'https://api.openai.com/v1',
+  transcriptionApiKey: process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY || '',
+  transcriptionModel: process.env.TRANSCRIPTION_MODEL || 'whisper-1',
+
   bullBoardUsername: requiredInProd('BULL_BOARD_USERNAME', 'admin'),
   bullBoardPassword: requiredInProd('BULL_BOARD_PASSWORD', 'admin'),
 
@@ -79,12 +95,35 @@ export const env = {
   notionClientSecret: requiredInProd('NOTION_CLIENT_SECRET', ''),
   notionWebhookSecret: requiredInProd('NOTION_WEBHOOK_SECRET', ''),
 
+  // Google Drive
+  googleDriveClientId: requiredInProd('GOOGLE_DRIVE_CLIENT_ID', ''),
+  googleDriveClientSecret: requiredInProd('GOOGLE_DRIVE_CLIENT_SECRET', ''),
+
+  // Confluence
+  confluenceClientId: requiredInProd('CONFLUENCE_CLIENT_ID', ''),
+  confluenceClientSecret: requiredInProd('CONFLUENCE_CLIENT_SECRET', ''),
+  confluenceWebhookSecret: requiredInProd('CONFLUENCE_WEBHOOK_SECRET', ''),
+
+  // Jira
+  jiraClientId: requiredInProd('JIRA_CLIENT_ID', ''),
+  jiraClientSecret: requiredInProd('JIRA_CLIENT_SECRET', ''),
+  jiraWebhookSecret: requiredInProd('JIRA_WEBHOOK_SECRET', ''),
+
+  // Gmail (the IMAP mode of the email connector needs no app credentials)
+  gmailClientId: requiredInProd('GMAIL_CLIENT_ID', ''),
+  gmailClientSecret: requiredInProd('GMAIL_CLIENT_SECRET', ''),
+  // Let IMAP mailboxes on private, loopback or link-local addresses connect (local dev only)
+  allowPrivateImapHosts: process.env.ALLOW_PRIVATE_IMAP_HOSTS === 'true',
+
   // Google OAuth
   googleClientId: requiredInProd('GOOGLE_CLIENT_ID', ''),
 
   // Slack internal notifications
   slackWebhookUrl: process.env.SLACK_WEBHOOK_URL || '',
 
+  // Local embedding models — when set, models load from this directory only (offline)
+  localEmbeddingModelDir: process.env.LOCAL_EMBEDDING_MODEL_DIR || '',
+
   // KMS (resource identifier, not a secret)
   kmsKeyArn: process.env.KMS_KEY_ARN || '',
 } as const;
@@ -1,29 +1,186 @@
 import {
-  listCollectionsResponseSchema,
+  publicApiContract,
   publicApiErrorSchema,
   queryBodySchema,
-  queryResponseSchema,
-  searchBodySchema,
-  searchResponseSchema,
+  queryStreamEventSchema,
 } from '@grabdy/contracts';
+import { type AppRoute, isAppRoute, isAppRouteMutation } from '@ts-rest/core';
 import { z } from 'zod';
 
-function zodSchema(schema: z.ZodType) {
+function zodSchema(schema: z.ZodType, io: 'input' | 'output' = 'output') {
   // dbIdSchema uses .transform() to brand strings, which Zod's JSON Schema
   // converter can't represent. Use `unrepresentable: 'any'` to skip transforms
   // (they emit `{}` which is valid "any" in JSON Schema — fine for UUIDs).
-  const { $schema: _, ...rest } = z.toJSONSchema(schema, { unrepresentable: 'any' });
-  return rest;
+  const { $schema: _, ...rest } = z.toJSONSchema(schema, { unrepresentable: 'any', io });
+  // Recursive schemas (e.g. MetadataFilter) come back with local `$defs` — the
+  // caller hoists those into components, so point their refs there.
+  return JSON.parse(JSON.stringify(rest).replaceAll('"#/$defs/', '"#/components/schemas/'));
 }
 
+const RESPONSE_DESCRIPTIONS: Record<number, string> = {
+  200: 'Successful response',
+  201: 'Created',
+  400: 'Bad request',
+  401: 'Unauthorized — invalid or missing API key',
+  404: 'Not found',
+};
+
+const TAGS = [
+  { name: 'Search', description: 'Search your knowledge base for relevant content' },
+  { name: 'Query', description: 'AI-powered question answering over your knowledge base' },
+  { name: 'Collections', description: 'Manage data collections' },
+  { name: 'Data Sources', description: 'Upload and manage the files in your knowledge base' },
+  { name: 'Documents', description: 'Push text and conversations without uploading files' },
+  { name: 'Conversations', description: 'Multi-turn question answering with memory' },
+];
+
+const routeMetadataSchema = z.object({
+  openApiTags: z.array(z.string()).optional(),
+});
+
+/** `listCollections` → `ListCollections` — used to name component schemas. */
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/** ts-rest uses `:id` path params, OpenAPI uses `{id}`. */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function parameters(schema: unknown, location: 'path' | 'query') {
+  if (!(schema instanceof z.ZodObject)) return [];
+
+  return Object.entries(schema.shape).map(([name, field]) => {
+    const { description, ...fieldSchema } = zodSchema(field, 'input');
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !field.safeParse(undefined).success,
+      ...(typeof description === 'string' && { description }),
+      schema: fieldSchema,
+    };
+  });
+}
+
+/**
+ * Builds the OpenAPI document for the public API from `publicApiContract`.
+ * Every route in the contract is documented; request bodies and success
+ * responses become named component schemas (e.g. `SearchBody`, `SearchResponse`).
+ */
 export function buildOpenApiDocument() {
+  const schemas: Record<string, ReturnType<typeof zodSchema>> = {
+    Error: zodSchema(publicApiErrorSchema),
+  };
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  const ref = (name: string, schema: unknown, io: 'input' | 'output') => {
+    if (schema === publicApiErrorSchema) return { $ref: '#/components/schemas/Error' };
+    if (!(schema instanceof z.ZodType)) return {};
+    const { $defs, ...json } = zodSchema(schema, io);
+    Object.assign(schemas, $defs);
+    schemas[name] = json;
+    return { $ref: `#/components/schemas/${name}` };
+  };
+
+  for (const [operationId, route] of Object.entries(publicApiContract)) {
+    if (!isAppRoute(route)) continue;
+    const appRoute: AppRoute = route;
+    const name = pascalCase(operationId);
+    const metadata = routeMetadataSchema.safeParse(appRoute.metadata);
+
+    const hasBody =
+      isAppRouteMutation(appRoute) &&
+      appRoute.body instanceof z.ZodObject &&
+      Object.keys(appRoute.body.shape).length > 0;
+
+    const responses = Object.fromEntries(
+      Object.entries(appRoute.responses).map(([status, schema]) => [
+        status,
+        {
+          description: RESPONSE_DESCRIPTIONS[Number(status)] ?? 'Response',
+          content: {
+            'application/json': { schema: ref(`${name}Response`, schema, 'output') },
+          },
+        },
+      ])
+    );
+
+    const pathParams = parameters(appRoute.pathParams, 'path');
+    const queryParams = parameters(appRoute.query, 'query');
+    const allParams = [...pathParams, ...queryParams];
+
+    paths[toOpenApiPath(appRoute.path)] = {
+      ...paths[toOpenApiPath(appRoute.path)],
+      [appRoute.method.toLowerCase()]: {
+        operationId,
+        summary: appRoute.summary,
+        description: appRoute.description,
+        tags: metadata.success ? metadata.data.openApiTags : undefined,
+        ...(allParams.length > 0 && { parameters: allParams }),
+        ...(hasBody &&
+          isAppRouteMutation(appRoute) && {
+            requestBody: {
+              required: true,
+              content: {
+                [appRoute.contentType ?? 'application/json']: {
+                  schema: ref(`${name}Body`, appRoute.body, 'input'),
+                },
+              },
+            },
+          }),
+        responses,
+      },
+    };
+  }
+
+  // Served by a raw Express handler (ts-rest doesn't support streaming), so it
+  // isn't in the contract and is documented by hand.
+  paths['/v1/query/stream'] = {
+    post: {
+      operationId: 'streamQuery',
+      summary: 'Query your data with AI (streaming)',
+      description: [
+        'Same as POST /v1/query, but streams the answer as Server-Sent Events.',
+        'Each message is named after its `type`: `progress` (knowledge base searches),',
+        '`thinking` (model reasoning, when available), `text` (answer deltas),',
+        'a final `done` event with sources and token usage, or `error`.',
+      ].join(' '),
+      tags: ['Query'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': { schema: ref('StreamQueryBody', queryBodySchema, 'input') },
+        },
+      },
+      responses: {
+        200: {
+          description: 'Server-Sent Events stream',
+          content: {
+            'text/event-stream': {
+              schema: ref('QueryStreamEvent', queryStreamEventSchema, 'output'),
+            },
+          },
+        },
+        400: {
+          description: RESPONSE_DESCRIPTIONS[400],
+          content: { 'application/json': { schema: ref('Error', publicApiErrorSchema, 'output') } },
+        },
+        401: {
+          description: RESPONSE_DESCRIPTIONS[401],
+          content: { 'application/json': { schema: ref('Error', publicApiErrorSchema, 'output') } },
+        },
+      },
+    },
+  };
+
   return {
     openapi: '3.0.3',
     info: {
       title: 'Grabdy API',
       version: '1.0.0',
       description: [
-        'The Grabdy API lets you query your uploaded data with AI-powered search and answer generation.',
+        'The Grabdy API lets you upload data and query it with AI-powered search and answer generation.',
         '',
         '## Authentication',
         '',
@@ -44,135 +201,9 @@ export function buildOpenApiDocument() {
           description: 'API key with gbd_ prefix. Create one in the dashboard under API > Keys.',
         },
       },
-      schemas: {
-        SearchBody: zodSchema(searchBodySchema),
-        SearchResponse: zodSchema(searchResponseSchema),
-        QueryBody: zodSchema(queryBodySchema),
-        QueryResponse: zodSchema(queryResponseSchema),
-        ListCollectionsResponse: zodSchema(listCollectionsResponseSchema),
-        Error: zodSchema(publicApiErrorSchema),
-      },
-    },
-    paths: {
-      '/v1/search': {
-        post: {
-          operationId: 'search',
-          summary: 'Search your data',
-          description:
-            'Searches your uploaded data and returns the most relevant chunks ranked by relevance. ' +
-            'No AI generation is used — ideal for building your own answer pipeline or feeding results into your own models.',
-          tags: ['Search'],
-          requestBody: {
-            required: true,
-            content: {
-              'application/json': {
-                schema: { $ref: '#/components/schemas/SearchBody' },
-              },
-            },
-          },
-          responses: {
-            '200': {
-              description: 'Search results sorted by relevance',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/SearchResponse' },
-                },
-              },
-            },
-            '400': {
-              description: 'Bad request',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/Error' },
-                },
-              },
-            },
-            '401': {
-              description: 'Unauthorized — invalid or missing API key',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/Error' },
-                },
-              },
-            },
-          },
-        },
-      },
-      '/v1/query': {
-        post: {
-          operationId: 'query',
-          summary: 'Query your data with AI',
-          description:
-            'Searches your uploaded data for relevant context and generates an AI answer based on the results. ' +
-            'Returns both the answer and the source documents used.',
-          tags: ['Query'],
-          requestBody: {
-            required: true,
-            content: {
-              'application/json': {
-                schema: { $ref: '#/components/schemas/QueryBody' },
-              },
-            },
-          },
-          responses: {
-            '200': {
-              description: 'Successful query with AI-generated answer and sources',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/QueryResponse' },
-                },
-              },
-            },
-            '400': {
-              description: 'Bad request',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/Error' },
-                },
-              },
-            },
-            '401': {
-              description: 'Unauthorized — invalid or missing API key',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/Error' },
-                },
-              },
-            },
-          },
-        },
-      },
-      '/v1/collections': {
-        get: {
-          operationId: 'listCollections',
-          summary: 'List collections',
-          description: 'Returns all data collections in your organization.',
-          tags: ['Collections'],
-          responses: {
-            '200': {
-              description: 'List of collections',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/ListCollectionsResponse' },
-                },
-              },
-            },
-            '401': {
-              description: 'Unauthorized — invalid or missing API key',
-              content: {
-                'application/json': {
-                  schema: { $ref: '#/components/schemas/Error' },
-                },
-              },
-            },
-          },
-        },
-      },
+      schemas,
     },
-    tags: [
-      { name: 'Search', description: 'Search your knowledge base for relevant content' },
-      { name: 'Query', description: 'AI-powered question answering over your knowledge base' },
-      { name: 'Collections', description: 'Manage data collections' },
-    ],
+    paths,
+    tags: TAGS,
   };
 }
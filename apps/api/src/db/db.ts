@@ -38,6 +38,23 @@ type ConnectionProviderData =
       provider: 'GITHUB';
       githubInstallationId: number;
       installationOwner?: string;
+      contentRepos?: Array<{
+        repo: string;
+        branch?: string;
+        include: string[];
+        exclude: string[];
+        maxFileBytes?: number;
+      }>;
+      contentIndex: Record<
+        string,
+        {
+          branch: string;
+          commitSha: string;
+          include: string[];
+          exclude: string[];
+          maxFileBytes: number;
+        }
+      >;
       lastSyncedAt: string | null;
     }
   | {
@@ -45,25 +62,156 @@ type ConnectionProviderData =
       workspaceName?: string;
       notionWorkspaceId?: string;
       lastSyncedAt: string | null;
+    }
+  | {
+      provider: 'GOOGLE_DRIVE';
+      userEmail?: string;
+      selectedFolderIds?: string[];
+      listedFolderIds: string[];
+      changesPageToken: string | null;
+      watchChannel: { id: string; resourceId: string; token: string; expiration: number } | null;
+      lastSyncedAt: string | null;
+    }
+  | {
+      provider: 'CONFLUENCE';
+      cloudId: string;
+      siteUrl?: string;
+      selectedSpaceKeys?: string[];
+      listedSpaceKeys: string[];
+      lastSyncedAt: string | null;
+    }
+  | {
+      provider: 'JIRA';
+      cloudId: string;
+      siteUrl?: string;
+      selectedProjectKeys?: string[];
+      projectCursors: Record<
+        string,
+        {
+          updatedSince: string;
+          listing: { jql: string; pageToken: string; startedAt: string } | null;
+        }
+      >;
+      lastSyncedAt: string | null;
+    }
+  | {
+      provider: 'EMAIL';
+      mode: 'GMAIL' | 'IMAP';
+      address?: string;
+      imap?: { host: string; port: number; secure: boolean; username: string };
+      selectedMailboxes?: string[];
+      listedMailboxes: string[];
+      gmailHistoryId: string | null;
+      gmailListing: { labelId: string; pageToken: string } | null;
+      imapCursors: Record<string, { uidValidity: string; lastUid: number }>;
+      lastSyncedAt: string | null;
     };
 
+/** User-supplied key/value metadata on a data source. */
+type DataSourceMetadata = Record<string, string | number | boolean>;
+
+/** Embedding models an org can select (mirrors `EMBEDDING_MODELS` in contracts). */
+type EmbeddingModelId =
+  | 'openai/text-embedding-3-small'
+  | 'bedrock/amazon.titan-embed-text-v2:0'
+  | 'bedrock/cohere.embed-multilingual-v3'
+  | 'local/Xenova/bge-small-en-v1.5';
+
+/** Languages detected in chunk text (ISO 639-1), each with its own text-search config. */
+type ContentLanguage =
+  | 'en'
+  | 'de'
+  | 'fr'
+  | 'es'
+  | 'it'
+  | 'pt'
+  | 'nl'
+  | 'sv'
+  | 'da'
+  | 'no'
+  | 'fi'
+  | 'ru';
+
 /** Chunk metadata — discriminated union keyed on `type`. */
-type ChunkMeta =
-  | { type: 'PDF'; pages: number[] }
-  | { type: 'DOCX'; pages: number[] }
+type ChunkMeta = { language?: ContentLanguage } & (
+  | { type: 'PDF'; pages: number[]; ocrConfidence?: number; imageId?: DbId<'ExtractedImage'> }
+  | { type: 'DOCX'; pages: number[]; imageId?: DbId<'ExtractedImage'> }
+  | { type: 'PPTX'; slides: number[] }
   | { type: 'XLSX'; sheet: string; row: number; columns: string[] }
   | { type: 'CSV'; row: number; columns: string[] }
   | { type: 'TXT' }
-  | { type: 'JSON' }
+  | { type: 'MARKDOWN'; sectionPath?: string[] }
+  | { type: 'HTML'; sectionPath?: string[] }
+  | {
+      type: 'EPUB';
+      chapter: string | null;
+      chapterIndex: number;
+      sectionPath?: string[];
+    }
+  | { type: 'JSON'; pointers?: string[] }
   | { type: 'IMAGE' }
+  | { type: 'MEDIA'; startSec: number; endSec: number; speaker: string | null }
   | { type: 'SLACK'; slackChannelId: string; slackMessageTs: string; slackAuthors: string[] }
   | { type: 'LINEAR'; linearIssueId: string; linearCommentId: string | null }
   | {
       type: 'GITHUB';
-      githubItemType: 'issue' | 'pull_request' | 'discussion';
+      githubItemType: 'issue' | 'pull_request' | 'discussion' | 'file';
       githubCommentId: string | null;
+      filePath?: string;
+      commitSha?: string;
+      lineStart?: number;
+      lineEnd?: number;
     }
-  | { type: 'NOTION'; notionPageId: string; notionBlockId: string | null };
+  | { type: 'NOTION'; notionPageId: string; notionBlockId: string | null }
+  | { type: 'GOOGLE_DRIVE'; driveFileId: string; sectionPath?: string[] }
+  | {
+      type: 'CONFLUENCE';
+      confluenceSpaceKey: string;
+      confluencePageId: string;
+      confluenceAncestors: string[];
+      sectionPath?: string[];
+    }
+  | {
+      type: 'JIRA';
+      jiraIssueKey: string;
+      jiraProjectKey: string;
+      jiraCommentId: string | null;
+      jiraStatus: string;
+      sectionPath?: string[];
+    }
+  | {
+      type: 'EMAIL';
+      emailThreadId: string;
+      emailSubject: string;
+      emailFrom: string[];
+      emailTo: string[];
+      emailDate: string;
+    }
+);
+
+/** OCR results for a scanned document; confidence is 0-100, or null when a page could not be read. */
+type DataSourceOcr = {
+  status: 'COMPLETE' | 'PARTIAL';
+  pages: Array<{ page: number; confidence: number | null }>;
+};
+
+/**
+ * Text of a synced item or pushed document, kept so a reindex can re-chunk it.
+ * Messages carry their own chunk metadata and source URL.
+ */
+type DataSourceTextBody = {
+  content?: string;
+  messages?: Array<{ content: string; metadata: ChunkMeta; sourceUrl: string }>;
+};
+
+/** Reindex skip counts by reason. */
+type ReindexSkippedReasons = Partial<Record<'NO_STORED_TEXT' | 'UNSUPPORTED_FILE', number>>;
+
+/** Column of a parsed spreadsheet table, with the type inferred from its values. */
+type DataTableColumn = { name: string; type: 'number' | 'date' | 'text' };
+
+/** One table row's typed cell values, positionally aligned with the table's columns. */
+type DataTableCells = Array<string | number | null>;
 
 // ---------------------------------------------------------------------------
 // Database interface — maps schema.table names to their column types
@@ -97,6 +245,7 @@ export interface DB {
     id: Generated<DbId<'Org'>>;
     name: string;
     numeric_id: Generated<OrgNumericId>;
+    embedding_model: Generated<EmbeddingModelId>;
     created_at: Generated<Timestamp>;
     updated_at: Timestamp;
   };
@@ -124,6 +273,7 @@ export interface DB {
     org_id: DbId<'Org'>;
     name: string;
     description: string | null;
+    chunking_strategy: 'RECURSIVE' | 'MARKDOWN' | 'HTML' | null;
     created_at: Generated<Timestamp>;
     updated_at: Timestamp;
   };
@@ -139,20 +289,32 @@ export interface DB {
       | 'PDF'
       | 'CSV'
       | 'DOCX'
+      | 'PPTX'
       | 'TXT'
       | 'JSON'
       | 'XLSX'
       | 'IMAGE'
+      | 'MARKDOWN'
+      | 'HTML'
+      | 'EPUB'
+      | 'MEDIA'
       | 'SLACK'
       | 'LINEAR'
       | 'GITHUB'
-      | 'NOTION';
+      | 'NOTION'
+      | 'GOOGLE_DRIVE'
+      | 'CONFLUENCE'
+      | 'JIRA'
+      | 'EMAIL';
     status: Generated<'UPLOADED' | 'PROCESSING' | 'READY' | 'FAILED'>;
     page_count: number | null;
+    ocr: ColumnType<DataSourceOcr | null, string | null, string | null>;
+    text_body: Generated<ColumnType<DataSourceTextBody | null, string | null, string | null>>;
     collection_id: DbId<'Collection'> | null;
     connection_id: DbId<'Connection'> | null;
     external_id: string | null;
     source_url: string;
+    metadata: Generated<DataSourceMetadata>;
     uploaded_by_id: DbId<'User'> | null;
     created_at: Generated<Timestamp>;
     updated_at: Timestamp;
@@ -164,12 +326,61 @@ export interface DB {
     content: string;
     chunk_index: number;
     metadata: ChunkMeta;
+    custom_metadata: Generated<DataSourceMetadata>;
     source_url: string;
     embedding: string;
+    embedding_model: Generated<EmbeddingModelId>;
     tsv: ColumnType<string, never, never>;
+    staged: Generated<boolean>;
+    data_source_id: DbId<'DataSource'>;
+    collection_id: DbId<'Collection'> | null;
+    created_at: Generated<Timestamp>;
+  };
+
+  'data.data_tables': {
+    id: Generated<DbId<'DataTable'>>;
+    org_id: DbId<'Org'>;
+    data_source_id: DbId<'DataSource'>;
+    sheet: string | null;
+    columns: ColumnType<DataTableColumn[], string, string>;
+    row_count: number;
+    created_at: Generated<Timestamp>;
+  };
+
+  'data.extracted_images': {
+    id: Generated<DbId<'ExtractedImage'>>;
+    org_id: DbId<'Org'>;
     data_source_id: DbId<'DataSource'>;
+    storage_path: string;
+    mime_type: string;
+    page_number: number | null;
+    ai_description: string | null;
+    created_at: Generated<Timestamp>;
+  };
+
+  'data.data_table_rows': {
+    table_id: DbId<'DataTable'>;
+    org_id: DbId<'Org'>;
+    row: number;
+    cells: ColumnType<DataTableCells, string, string>;
+  };
+
+  'data.reindex_jobs': {
+    id: Generated<DbId<'ReindexJob'>>;
+    org_id: DbId<'Org'>;
     collection_id: DbId<'Collection'> | null;
+    status: Generated<'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED'>;
+    total_sources: number;
+    processed_sources: Generated<number>;
+    failed_sources: Generated<number>;
+    skipped_sources: Generated<number>;
+    skipped_reasons: Generated<ColumnType<ReindexSkippedReasons, string, string>>;
+    cursor: DbId<'DataSource'> | null;
+    error: string | null;
+    created_by_id: DbId<'User'> | null;
     created_at: Generated<Timestamp>;
+    updated_at: Generated<Timestamp>;
+    completed_at: Timestamp | null;
   };
 
   'data.chat_threads': {
@@ -182,7 +393,8 @@ export interface DB {
       Record<string, unknown> | null | undefined,
       Record<string, unknown> | null
     >;
-    membership_id: DbId<'OrgMembership'>;
+    membership_id: DbId<'OrgMembership'> | null;
+    api_key_id: DbId<'ApiKey'> | null;
     created_at: Generated<Timestamp>;
     updated_at: Timestamp;
   };
@@ -190,7 +402,15 @@ export interface DB {
   'integration.connections': {
     id: Generated<DbId<'Connection'>>;
     org_id: DbId<'Org'>;
-    provider: 'SLACK' | 'LINEAR' | 'GITHUB' | 'NOTION';
+    provider:
+      | 'SLACK'
+      | 'LINEAR'
+      | 'GITHUB'
+      | 'NOTION'
+      | 'GOOGLE_DRIVE'
+      | 'CONFLUENCE'
+      | 'JIRA'
+      | 'EMAIL';
     status: Generated<'ACTIVE' | 'PAUSED' | 'ERROR' | 'DISCONNECTED'>;
     access_token: string;
     refresh_token: string | null;
@@ -0,0 +1,15 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    ALTER TABLE data.data_sources ADD COLUMN metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+    CREATE UNIQUE INDEX idx_data_sources_document_external ON data.data_sources(org_id, external_id) WHERE connection_id IS NULL AND type = 'TXT' AND external_id IS NOT NULL;
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    DROP INDEX IF EXISTS data.idx_data_sources_document_external;
+    ALTER TABLE data.data_sources DROP COLUMN IF EXISTS metadata;
+  `.execute(db);
+}
@@ -0,0 +1,22 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    ALTER TABLE data.chat_threads ALTER COLUMN membership_id DROP NOT NULL;
+    ALTER TABLE data.chat_threads ADD COLUMN api_key_id UUID REFERENCES api.api_keys(id) ON DELETE CASCADE;
+    CREATE INDEX chat_threads_api_key_id_idx ON data.chat_threads (api_key_id) WHERE api_key_id IS NOT NULL;
+    ALTER TABLE data.chat_threads ADD CONSTRAINT chk_chat_threads_owner CHECK ((membership_id IS NULL) <> (api_key_id IS NULL));
+    ALTER TABLE data.chat_threads ADD CONSTRAINT chk_chat_threads_api_key_org CHECK (api_key_id IS NULL OR extract_org_numeric_id(api_key_id) = extract_org_numeric_id(org_id));
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    DELETE FROM data.chat_threads WHERE membership_id IS NULL;
+    ALTER TABLE data.chat_threads DROP CONSTRAINT IF EXISTS chk_chat_threads_api_key_org;
+    ALTER TABLE data.chat_threads DROP CONSTRAINT IF EXISTS chk_chat_threads_owner;
+    DROP INDEX IF EXISTS data.chat_threads_api_key_id_idx;
+    ALTER TABLE data.chat_threads DROP COLUMN IF EXISTS api_key_id;
+    ALTER TABLE data.chat_threads ALTER COLUMN membership_id SET NOT NULL;
+  `.execute(db);
+}
@@ -0,0 +1,18 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    ALTER TABLE data.chunks ADD COLUMN custom_metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+    UPDATE data.chunks c SET custom_metadata = ds.metadata
+      FROM data.data_sources ds
+      WHERE ds.id = c.data_source_id AND ds.metadata <> '{}'::jsonb;
+    CREATE INDEX idx_chunks_custom_metadata ON data.chunks USING GIN (custom_metadata jsonb_path_ops);
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    DROP INDEX IF EXISTS data.idx_chunks_custom_metadata;
+    ALTER TABLE data.chunks DROP COLUMN IF EXISTS custom_metadata;
+  `.execute(db);
+}
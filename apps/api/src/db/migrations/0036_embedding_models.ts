@@ -0,0 +1,17 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    ALTER TABLE org.orgs ADD COLUMN embedding_model TEXT NOT NULL DEFAULT 'openai/text-embedding-3-small';
+    ALTER TABLE data.chunks ADD COLUMN embedding_model TEXT NOT NULL DEFAULT 'openai/text-embedding-3-small';
+    CREATE INDEX idx_chunks_org_embedding_model ON data.chunks (org_id, embedding_model);
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    DROP INDEX IF EXISTS data.idx_chunks_org_embedding_model;
+    ALTER TABLE data.chunks DROP COLUMN IF EXISTS embedding_model;
+    ALTER TABLE org.orgs DROP COLUMN IF EXISTS embedding_model;
+  `.execute(db);
+}
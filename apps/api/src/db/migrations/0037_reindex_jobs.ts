@@ -0,0 +1,40 @@
+import { ENTITY_TYPE_MAP } from '@grabdy/common';
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    ALTER TABLE data.chunks ADD COLUMN staged BOOLEAN NOT NULL DEFAULT false;
+    CREATE INDEX idx_chunks_staged ON data.chunks (data_source_id) WHERE staged;
+
+    CREATE TABLE data.reindex_jobs (
+      id UUID PRIMARY KEY DEFAULT make_packed_uuid(0, ${sql.lit(ENTITY_TYPE_MAP.ReindexJob)}),
+      org_id UUID NOT NULL REFERENCES org.orgs(id) ON DELETE CASCADE,
+      collection_id UUID REFERENCES data.collections(id) ON DELETE CASCADE,
+      status TEXT NOT NULL DEFAULT 'QUEUED',
+      total_sources INT NOT NULL,
+      processed_sources INT NOT NULL DEFAULT 0,
+      failed_sources INT NOT NULL DEFAULT 0,
+      skipped_sources INT NOT NULL DEFAULT 0,
+      cursor UUID,
+      error TEXT,
+      created_by_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      completed_at TIMESTAMPTZ
+    );
+    CREATE INDEX reindex_jobs_org_id_idx ON data.reindex_jobs (org_id, created_at DESC);
+    CREATE UNIQUE INDEX reindex_jobs_one_active_per_org ON data.reindex_jobs (org_id) WHERE status IN ('QUEUED', 'RUNNING');
+    ALTER TABLE data.reindex_jobs ADD CONSTRAINT chk_reindex_jobs_entity_type CHECK (extract_entity_type(id) = ${sql.lit(ENTITY_TYPE_MAP.ReindexJob)});
+    ALTER TABLE data.reindex_jobs ADD CONSTRAINT chk_reindex_jobs_org CHECK (extract_org_numeric_id(id) = extract_org_numeric_id(org_id));
+    ALTER TABLE data.reindex_jobs ADD CONSTRAINT chk_reindex_jobs_collection_org CHECK (collection_id IS NULL OR extract_org_numeric_id(collection_id) = extract_org_numeric_id(org_id));
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    DROP TABLE IF EXISTS data.reindex_jobs CASCADE;
+    DELETE FROM data.chunks WHERE staged;
+    DROP INDEX IF EXISTS data.idx_chunks_staged;
+    ALTER TABLE data.chunks DROP COLUMN IF EXISTS staged;
+  `.execute(db);
+}
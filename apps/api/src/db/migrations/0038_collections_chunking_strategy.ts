@@ -0,0 +1,13 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    ALTER TABLE data.collections ADD COLUMN chunking_strategy TEXT;
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    ALTER TABLE data.collections DROP COLUMN IF EXISTS chunking_strategy;
+  `.execute(db);
+}
@@ -0,0 +1,35 @@
+import { ENTITY_TYPE_MAP } from '@grabdy/common';
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    CREATE TABLE data.data_tables (
+      id UUID PRIMARY KEY DEFAULT make_packed_uuid(0, ${sql.lit(ENTITY_TYPE_MAP.DataTable)}),
+      org_id UUID NOT NULL REFERENCES org.orgs(id) ON DELETE CASCADE,
+      data_source_id UUID NOT NULL REFERENCES data.data_sources(id) ON DELETE CASCADE,
+      sheet TEXT,
+      columns JSONB NOT NULL,
+      row_count INT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+    CREATE INDEX data_tables_data_source_id_idx ON data.data_tables (data_source_id);
+    CREATE INDEX data_tables_org_id_idx ON data.data_tables (org_id);
+    ALTER TABLE data.data_tables ADD CONSTRAINT chk_data_tables_entity_type CHECK (extract_entity_type(id) = ${sql.lit(ENTITY_TYPE_MAP.DataTable)});
+    ALTER TABLE data.data_tables ADD CONSTRAINT chk_data_tables_org CHECK (extract_org_numeric_id(id) = extract_org_numeric_id(org_id));
+
+    CREATE TABLE data.data_table_rows (
+      table_id UUID NOT NULL REFERENCES data.data_tables(id) ON DELETE CASCADE,
+      org_id UUID NOT NULL REFERENCES org.orgs(id) ON DELETE CASCADE,
+      row INT NOT NULL,
+      cells JSONB NOT NULL,
+      PRIMARY KEY (table_id, row)
+    );
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    DROP TABLE IF EXISTS data.data_table_rows;
+    DROP TABLE IF EXISTS data.data_tables;
+  `.execute(db);
+}
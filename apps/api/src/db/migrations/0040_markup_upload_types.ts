@@ -0,0 +1,11 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`ALTER TYPE "DataSourceType" ADD VALUE IF NOT EXISTS 'MARKDOWN'`.execute(db);
+  await sql`ALTER TYPE "DataSourceType" ADD VALUE IF NOT EXISTS 'HTML'`.execute(db);
+  await sql`ALTER TYPE "DataSourceType" ADD VALUE IF NOT EXISTS 'EPUB'`.execute(db);
+}
+
+export async function down(_db: Kysely<unknown>): Promise<void> {
+  // PostgreSQL does not support removing values from enums
+}
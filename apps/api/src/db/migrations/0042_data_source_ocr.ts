@@ -0,0 +1,9 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`ALTER TABLE data.data_sources ADD COLUMN ocr JSONB`.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`ALTER TABLE data.data_sources DROP COLUMN IF EXISTS ocr`.execute(db);
+}
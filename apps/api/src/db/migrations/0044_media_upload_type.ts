@@ -0,0 +1,9 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`ALTER TYPE "DataSourceType" ADD VALUE IF NOT EXISTS 'MEDIA'`.execute(db);
+}
+
+export async function down(_db: Kysely<unknown>): Promise<void> {
+  // PostgreSQL does not support removing values from enums
+}
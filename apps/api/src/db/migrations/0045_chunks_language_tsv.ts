@@ -0,0 +1,44 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  // Maps a chunk's detected language (metadata.language) to its text-search
+  // config; chunks without one keep the English config they were indexed with
+  await sql`
+    CREATE OR REPLACE FUNCTION data.text_search_config(language text) RETURNS regconfig
+      LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+        SELECT CASE language
+          WHEN 'de' THEN 'pg_catalog.german'
+          WHEN 'fr' THEN 'pg_catalog.french'
+          WHEN 'es' THEN 'pg_catalog.spanish'
+          WHEN 'it' THEN 'pg_catalog.italian'
+          WHEN 'pt' THEN 'pg_catalog.portuguese'
+          WHEN 'nl' THEN 'pg_catalog.dutch'
+          WHEN 'sv' THEN 'pg_catalog.swedish'
+          WHEN 'da' THEN 'pg_catalog.danish'
+          WHEN 'no' THEN 'pg_catalog.norwegian'
+          WHEN 'fi' THEN 'pg_catalog.finnish'
+          WHEN 'ru' THEN 'pg_catalog.russian'
+          ELSE 'pg_catalog.english'
+        END::regconfig
+      $$;
+
+    DROP INDEX IF EXISTS data.chunks_tsv_idx;
+    ALTER TABLE data.chunks DROP COLUMN IF EXISTS tsv;
+    ALTER TABLE data.chunks ADD COLUMN tsv tsvector
+      GENERATED ALWAYS AS (
+        to_tsvector(data.text_search_config(metadata->>'language'), content)
+      ) STORED;
+    CREATE INDEX chunks_tsv_idx ON data.chunks USING gin(tsv);
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    DROP INDEX IF EXISTS data.chunks_tsv_idx;
+    ALTER TABLE data.chunks DROP COLUMN IF EXISTS tsv;
+    ALTER TABLE data.chunks ADD COLUMN tsv tsvector
+      GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+    CREATE INDEX chunks_tsv_idx ON data.chunks USING gin(tsv);
+    DROP FUNCTION IF EXISTS data.text_search_config(text);
+  `.execute(db);
+}
@@ -0,0 +1,15 @@
+import { type Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    ALTER TABLE data.data_sources ADD COLUMN text_body JSONB;
+    ALTER TABLE data.reindex_jobs ADD COLUMN skipped_reasons JSONB NOT NULL DEFAULT '{}';
+  `.execute(db);
+}
+
+export async function down(db: Kysely<unknown>): Promise<void> {
+  await sql`
+    ALTER TABLE data.reindex_jobs DROP COLUMN IF EXISTS skipped_reasons;
+    ALTER TABLE data.data_sources DROP COLUMN IF EXISTS text_body;
+  `.execute(db);
+}
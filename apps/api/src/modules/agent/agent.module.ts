@@ -11,11 +11,12 @@ import { AgentStorageProvider } from './services/storage.provider';
 import { CanvasTools } from './tools/canvas-tools';
 import { RagSearchTool } from './tools/rag-search.tool';
 import { SlackReplyTool } from './tools/slack-reply.tool';
+import { TableQueryTool } from './tools/table-query.tool';
 
 @Global()
 @Module({
   imports: [StorageModule, RetrievalModule, BullModule.registerQueue({ name: CANVAS_OPS_QUEUE })],
-  providers: [AgentStorageProvider, AgentMemoryService, RagSearchTool, SlackReplyTool, CanvasTools, AgentFactory],
+  providers: [AgentStorageProvider, AgentMemoryService, RagSearchTool, TableQueryTool, SlackReplyTool, CanvasTools, AgentFactory],
   exports: [AgentMemoryService, AgentFactory, CanvasTools, SlackReplyTool],
 })
 export class AgentModule {}
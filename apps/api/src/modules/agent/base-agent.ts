@@ -53,14 +53,20 @@ export class BaseAgent {
     });
   }
 
-  stream(message: string, threadId: DbId<'ChatThread'>, membershipId: DbId<'OrgMembership'>) {
-    this.logger.debug(`Streaming message for thread: ${threadId}`);
+  stream(
+    message: string,
+    threadId?: DbId<'ChatThread'>,
+    resourceId?: DbId<'OrgMembership'> | DbId<'ApiKey'>
+  ) {
+    this.logger.debug(`Streaming message${threadId ? ` for thread: ${threadId}` : ''}`);
+
+    const memoryOpts =
+      this.hasMemory && threadId && resourceId
+        ? { memory: { thread: threadId, resource: resourceId } }
+        : {};
 
     const result = this.agent.stream(message, {
-      memory: {
-        thread: threadId,
-        resource: membershipId,
-      },
+      ...memoryOpts,
       maxSteps: this.maxSteps,
     });
 
@@ -89,12 +95,16 @@ export class BaseAgent {
     return result;
   }
 
-  generate(message: string, threadId?: DbId<'ChatThread'>, membershipId?: DbId<'OrgMembership'>) {
+  generate(
+    message: string,
+    threadId?: DbId<'ChatThread'>,
+    resourceId?: DbId<'OrgMembership'> | DbId<'ApiKey'>
+  ) {
     this.logger.debug(`Generating message${threadId ? ` for thread: ${threadId}` : ''}`);
 
     const memoryOpts =
-      this.hasMemory && threadId && membershipId
-        ? { memory: { thread: threadId, resource: membershipId } }
+      this.hasMemory && threadId && resourceId
+        ? { memory: { thread: threadId, resource: resourceId } }
         : {};
 
     const result = this.agent.generate(message, {
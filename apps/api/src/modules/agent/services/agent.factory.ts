@@ -8,8 +8,10 @@ import type { ToolsInput } from '@mastra/core/agent';
 import type { Memory } from '@mastra/memory';
 
 import { AiUsageService } from '../../ai/ai-usage.service';
+import type { SearchScope } from '../../retrieval/search.service';
 import { BaseAgent } from '../base-agent';
 import { RagSearchTool } from '../tools/rag-search.tool';
+import { TableQueryTool } from '../tools/table-query.tool';
 
 const awsCredentials = fromNodeProviderChain();
 const bedrockProvider = createAmazonBedrock({
@@ -54,6 +56,13 @@ const DATA_AGENT_PROMPT = `You are a data assistant that answers questions EXCLU
 4. For time-based questions ("latest", "recent"), include date terms in the query
 5. When results mention related concepts not in the original query, do a follow-up search for those concepts
 
+## Spreadsheet Questions
+
+For totals, averages, counts, rankings or any other calculation over CSV or Excel data, use \`table-query\` instead of adding up numbers from search results:
+1. List tables with \`table-query\` (no tableId) to find the right sheet and its column names
+2. Query it with filters, groupBy and aggregates
+3. Cite the file, sheet and source rows the result came from
+
 ## Relevance & Confidence
 
 - If search returns results, READ the content and judge relevance by whether it actually answers the question — do NOT rely on numeric scores to decide relevance.
@@ -90,6 +99,7 @@ const DATA_AGENT_PROMPT = `You are a data assistant that answers questions EXCLU
 export class AgentFactory {
   constructor(
     private ragSearchTool: RagSearchTool,
+    private tableQueryTool: TableQueryTool,
     private aiUsageService: AiUsageService
   ) {}
 
@@ -100,6 +110,7 @@ export class AgentFactory {
     userId?: DbId<'User'>;
     collectionIds?: DbId<'Collection'>[];
     defaultTopK?: number;
+    searchScope?: SearchScope;
     tools?: ToolsInput[];
     instructions?: string;
     memory?: Memory;
@@ -112,16 +123,24 @@ export class AgentFactory {
       userId,
       collectionIds,
       defaultTopK,
+      searchScope,
       tools: extraTools,
       instructions,
       memory,
       maxSteps,
     } = opts;
 
-    const ragTool = this.ragSearchTool.create(orgId, collectionIds, defaultTopK, userId);
+    const ragTool = this.ragSearchTool.create(
+      orgId,
+      collectionIds,
+      defaultTopK,
+      userId,
+      searchScope
+    );
 
     const tools: ToolsInput = {
       'rag-search': ragTool,
+      'table-query': this.tableQueryTool.create(orgId, collectionIds, searchScope),
       ...Object.assign({}, ...(extraTools ?? [])),
     };
 
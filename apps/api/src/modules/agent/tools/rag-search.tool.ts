@@ -5,12 +5,16 @@ import {
   AiCallerType,
   CHUNK_META_DESCRIPTIONS,
   chunkMetaTypeEnum,
+  contentLanguageEnum,
+  CUSTOM_METADATA_FIELD_PREFIX,
+  dataSourceMetadataKeySchema,
+  dataSourceMetadataValueSchema,
   type MetadataFilter,
 } from '@grabdy/contracts';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 
-import { SearchService } from '../../retrieval/search.service';
+import { type SearchScope, SearchService } from '../../retrieval/search.service';
 
 @Injectable()
 export class RagSearchTool {
@@ -22,7 +26,8 @@ export class RagSearchTool {
     orgId: DbId<'Org'>,
     collectionIds?: DbId<'Collection'>[],
     defaultTopK = 5,
-    userId?: DbId<'User'> | null
+    userId?: DbId<'User'> | null,
+    scope?: SearchScope
   ) {
     const searchService = this.searchService;
 
@@ -37,10 +42,11 @@ export class RagSearchTool {
 - contextBefore/contextAfter: surrounding text from adjacent chunks for richer context
 - dataSourceName: human-readable source name
 - sourceUrl: direct link to the source (use this to create clickable links when citing)
-- metadata: depends on type — ${metadataDesc}
+- metadata: depends on type — ${metadataDesc}; any type may also carry language (ISO 639-1 code of the text)
+- customMetadata: key/value metadata users attached to the data source (e.g. department, region)
 Use metadata to give context (page numbers, sheet names, Slack authors, etc.) when citing sources.
 
-You can optionally filter by source type (PDF, SLACK, LINEAR, etc.) or by Slack author name.
+You can optionally filter by source type (PDF, SLACK, LINEAR, etc.), by Slack author name, by Jira project or status, by language, or by custom metadata values.
 
 searchMeta.suggestion will tell you if results have low relevance and you should refine your query.`,
       inputSchema: z.object({
@@ -54,10 +60,24 @@ searchMeta.suggestion will tell you if results have low relevance and you should
           .string()
           .optional()
           .describe('Filter Slack messages by author name (matches any author in the chunk)'),
+        jiraProject: z.string().optional().describe('Filter Jira issues by project key (e.g. ENG)'),
+        jiraStatus: z
+          .string()
+          .optional()
+          .describe(
+            'Filter Jira issues by workflow status name, exactly as in Jira (e.g. In Progress)'
+          ),
+        customMetadata: z
+          .record(dataSourceMetadataKeySchema, dataSourceMetadataValueSchema)
+          .optional()
+          .describe('Only return chunks whose custom metadata has these exact values'),
+        language: contentLanguageEnum
+          .optional()
+          .describe('Only return content in this language (ISO 639-1 code, e.g. de, fr)'),
       }),
       execute: async (input) => {
         // Build metadata filters from simplified agent params
-        const filters: MetadataFilter[] = [];
+        const filters: MetadataFilter[] = [...(scope?.filters ?? [])];
         if (input.sourceTypes && input.sourceTypes.length > 0) {
           if (input.sourceTypes.length === 1) {
             filters.push({ field: 'type', operator: 'eq', value: input.sourceTypes[0] });
@@ -68,11 +88,27 @@ searchMeta.suggestion will tell you if results have low relevance and you should
         if (input.slackAuthor) {
           filters.push({ field: 'slackAuthors', operator: 'eq', value: input.slackAuthor });
         }
+        if (input.jiraProject) {
+          filters.push({
+            field: 'jiraProjectKey',
+            operator: 'eq',
+            value: input.jiraProject.toUpperCase(),
+          });
+        }
+        if (input.jiraStatus) {
+          filters.push({ field: 'jiraStatus', operator: 'eq', value: input.jiraStatus });
+        }
+        for (const [key, value] of Object.entries(input.customMetadata ?? {})) {
+          filters.push({ field: `${CUSTOM_METADATA_FIELD_PREFIX}${key}`, operator: 'eq', value });
+        }
 
         const { results, queryTimeMs } = await searchService.search(orgId, input.query, {
           collectionIds,
           limit: input.topK,
           filters: filters.length > 0 ? filters : undefined,
+          dataSourceIds: scope?.dataSourceIds,
+          dateRange: scope?.dateRange,
+          language: input.language ?? scope?.language,
           callerType: AiCallerType.SYSTEM,
           source: 'SYSTEM',
           userId,
@@ -93,6 +129,7 @@ searchMeta.suggestion will tell you if results have low relevance and you should
             content: r.content,
             score: Number(r.score),
             metadata: r.metadata,
+            customMetadata: r.customMetadata,
             dataSourceName: r.dataSourceName,
             dataSourceId: r.dataSourceId,
             sourceUrl: r.sourceUrl,
@@ -0,0 +1,87 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { type DbId, dbIdSchema } from '@grabdy/common';
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+
+import type { SearchScope } from '../../retrieval/search.service';
+import { TableQueryService } from '../../retrieval/table-query.service';
+
+@Injectable()
+export class TableQueryTool {
+  private readonly logger = new Logger(TableQueryTool.name);
+
+  constructor(private tableQueryService: TableQueryService) {}
+
+  create(orgId: DbId<'Org'>, collectionIds?: DbId<'Collection'>[], scope?: SearchScope) {
+    const tableQueryService = this.tableQueryService;
+    const logger = this.logger;
+    const tableScope = { collectionIds, dataSourceIds: scope?.dataSourceIds };
+
+    return createTool({
+      id: 'table-query',
+      description: `Query spreadsheets (CSV, TSV, Excel) as tables. Use this instead of rag-search for numeric questions — totals, averages, counts, min/max, rankings — since text search only sees fragments of a sheet.
+
+1. Call without tableId to list tables (optionally narrowed by \`search\`). Each table has a tableId, dataSourceName, sheet and typed columns (number, date, text).
+2. Call with a tableId to query it:
+   - filters: { column, operator, value } — eq, neq, gt, gte, lt, lte, in (value is a list), contains (text match). Text comparisons ignore case; dates are YYYY-MM-DD.
+   - groupBy: column names to group on
+   - aggregates: { fn: sum | avg | min | max | count, column } — omit column for a row count
+   - sortBy: a column, an aggregate label such as "sum(Revenue)", or "count"; sortDirection; limit for top-N
+   Without aggregates or groupBy, the matching rows are returned.
+
+Every result includes the data source, sheet and the source row numbers it was computed from — cite these.`,
+      inputSchema: z.object({
+        tableId: dbIdSchema('DataTable')
+          .optional()
+          .describe('Table to query. Omit to list available tables.'),
+        search: z
+          .string()
+          .optional()
+          .describe('When listing, match on file name, sheet name or column names'),
+        filters: z
+          .array(
+            z.object({
+              column: z.string(),
+              operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in']),
+              value: z.union([z.string(), z.number(), z.array(z.union([z.string(), z.number()]))]),
+            })
+          )
+          .optional(),
+        groupBy: z.array(z.string()).optional(),
+        aggregates: z
+          .array(
+            z.object({
+              fn: z.enum(['sum', 'avg', 'min', 'max', 'count']),
+              column: z.string().optional(),
+            })
+          )
+          .optional(),
+        sortBy: z.string().optional(),
+        sortDirection: z.enum(['asc', 'desc']).optional(),
+        limit: z.number().int().positive().optional().describe('Maximum rows or groups to return'),
+      }),
+      execute: async (input) => {
+        if (!input.tableId) {
+          const tables = await tableQueryService.listTables(orgId, tableScope, input.search);
+          return {
+            tables,
+            suggestion:
+              tables.length === 0
+                ? 'No tables found. The data may not be in a spreadsheet — try rag-search.'
+                : null,
+          };
+        }
+
+        try {
+          return await tableQueryService.query(orgId, input.tableId, input, tableScope);
+        } catch (error) {
+          // Bad column names or values go back to the agent so it can correct the query
+          const message = error instanceof Error ? error.message : 'Query failed';
+          logger.warn(`[table-query] ${message}`);
+          return { error: message };
+        }
+      },
+    });
+  }
+}
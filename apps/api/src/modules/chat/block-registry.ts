@@ -14,7 +14,7 @@ interface BlockDefinition {
 const BLOCKS: Record<StreamBlock, BlockDefinition> = {
   [StreamBlock.THINKING]: {
     purpose:
-      "Narrate your reasoning to the user in real time. The UI renders these as a collapsible \"Thinking\" section. This is the user's ONLY feedback that work is happening — without it, they stare at a blank screen. Be verbose and frequent.",
+      'Narrate your reasoning to the user in real time. The UI renders these as a collapsible "Thinking" section. This is the user\'s ONLY feedback that work is happening — without it, they stare at a blank screen. Be verbose and frequent.',
     guidelines: [
       '**MANDATORY: output thinking blocks FREQUENTLY throughout your response.** The user is watching a live stream — every few seconds without visible progress feels like the app is frozen.',
       "Output a thinking block BEFORE every tool call: say what you're searching for and why.",
@@ -35,7 +35,7 @@ const BLOCKS: Record<StreamBlock, BlockDefinition> = {
       'Place exactly ONE sources block at the END of your response, after the answer text.',
       'Include only sources whose information you used in the answer.',
       'Copy dataSourceId, dataSourceName, score, type (from metadata), and sourceUrl from tool results.',
-      'Include location info from the chunk metadata: `pages` for PDFs/DOCX, `sheet`/`rows`/`columns` for XLSX, `rows`/`columns` for CSV.',
+      'Include location info from the chunk metadata: `pages` for PDFs/DOCX, `slides` for PPTX, `pointers` for JSON, `startSec`/`endSec` for MEDIA (audio/video), `sheet`/`rows`/`columns` for XLSX, `rows`/`columns` for CSV.',
       'The JSON must be a valid array of source objects.',
       'Omit the sources block entirely if you did not use any sources (e.g. greetings, clarifications).',
     ],
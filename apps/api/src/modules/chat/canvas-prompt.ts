@@ -181,6 +181,7 @@ ${generateComponentPrompt()}
 - **comparison** — side-by-side option analysis
 - **timeline** — sequential events or processes
 - **image** — set component data to { "src": "<image-url>", "alt": "<description>", "caption": "<optional caption>", "fit": "contain" }
+  - For a figure from a PDF or DOCX (a search result whose metadata has imageId), omit src and set { "dataSourceId": "<dataSourceId>", "imageId": "<metadata.imageId>", "alt": "<description>", "caption": "<optional caption>", "fit": "contain" } so the original figure is shown
 
 Avoid niche types (funnel, matrix, kanban, tag_cloud, etc.) unless the data is a perfect fit.
 
@@ -221,10 +222,13 @@ Search result field → Card source field:
 - sourceUrl → sourceUrl
 - metadata.type → type
 - metadata.pages → pages (PDF, DOCX)
+- metadata.slides → slides (PPTX)
+- metadata.pointers → pointers (JSON)
+- metadata.startSec, metadata.endSec → startSec, endSec (MEDIA)
 - metadata.sheet → sheet (XLSX)
 - metadata.columns → columns (XLSX, CSV)
 
-When multiple chunks from the same data source are used, merge their pages/rows into one source entry.
+When multiple chunks from the same data source are used, merge their pages/slides/rows into one source entry.
 
 Example — given a search result with metadata: { "type": "PDF", "pages": [1, 3] }:
 "sources": [{ "name": "Report.pdf", "dataSourceId": "abc-123", "collectionId": "col-456", "type": "PDF", "pages": [1, 3] }]
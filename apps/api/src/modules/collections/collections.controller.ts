@@ -122,6 +122,28 @@ export class CollectionsController {
     });
   }
 
+  @OrgAccess(collectionsContract.reembed, {
+    roles: ['OWNER', 'ADMIN'],
+    params: ['orgId', 'collectionId'],
+  })
+  @TsRestHandler(collectionsContract.reembed)
+  async reembed() {
+    return tsRestHandler(collectionsContract.reembed, async ({ params }) => {
+      try {
+        await this.collectionsService.reembed(params.orgId, params.collectionId);
+        return {
+          status: 200 as const,
+          body: { success: true as const },
+        };
+      } catch {
+        return {
+          status: 404 as const,
+          body: { success: false as const, error: 'Collection not found' },
+        };
+      }
+    });
+  }
+
   @OrgAccess(collectionsContract.delete, { params: ['orgId', 'collectionId'] })
   @TsRestHandler(collectionsContract.delete)
   async delete() {
@@ -1,21 +1,30 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 
 import { type DbId, packId } from '@grabdy/common';
+import type { ChunkingStrategy } from '@grabdy/contracts';
 import { sql } from 'kysely';
 
 import { DbService } from '../../db/db.module';
+import { EmbeddingService } from '../embeddings/embedding.service';
 
 @Injectable()
 export class CollectionsService {
-  constructor(private db: DbService) {}
+  constructor(
+    private db: DbService,
+    private embeddingService: EmbeddingService
+  ) {}
 
-  async create(orgId: DbId<'Org'>, data: { name: string; description?: string }) {
+  async create(
+    orgId: DbId<'Org'>,
+    data: { name: string; description?: string; chunkingStrategy?: ChunkingStrategy | null }
+  ) {
     const collection = await this.db.kysely
       .insertInto('data.collections')
       .values({
         id: packId('Collection', orgId),
         name: data.name,
         description: data.description ?? null,
+        chunking_strategy: data.chunkingStrategy ?? null,
         org_id: orgId,
         updated_at: new Date(),
       })
@@ -29,6 +38,7 @@ export class CollectionsService {
       orgId: collection.org_id,
       sourceCount: 0,
       chunkCount: 0,
+      chunkingStrategy: collection.chunking_strategy,
       createdAt: collection.created_at,
       updatedAt: collection.updated_at,
     };
@@ -38,11 +48,16 @@ export class CollectionsService {
     const collections = await this.db.kysely
       .selectFrom('data.collections')
       .leftJoin('data.data_sources', 'data.data_sources.collection_id', 'data.collections.id')
-      .leftJoin('data.chunks', 'data.chunks.collection_id', 'data.collections.id')
+      .leftJoin('data.chunks', (join) =>
+        join
+          .onRef('data.chunks.collection_id', '=', 'data.collections.id')
+          .on('data.chunks.staged', '=', false)
+      )
       .select([
         'data.collections.id',
         'data.collections.name',
         'data.collections.description',
+        'data.collections.chunking_strategy',
         'data.collections.org_id',
         'data.collections.created_at',
         'data.collections.updated_at',
@@ -60,6 +75,7 @@ export class CollectionsService {
       orgId: c.org_id,
       sourceCount: Number(c.source_count),
       chunkCount: Number(c.chunk_count),
+      chunkingStrategy: c.chunking_strategy,
       createdAt: c.created_at,
       updatedAt: c.updated_at,
     }));
@@ -69,11 +85,16 @@ export class CollectionsService {
     const result = await this.db.kysely
       .selectFrom('data.collections')
       .leftJoin('data.data_sources', 'data.data_sources.collection_id', 'data.collections.id')
-      .leftJoin('data.chunks', 'data.chunks.collection_id', 'data.collections.id')
+      .leftJoin('data.chunks', (join) =>
+        join
+          .onRef('data.chunks.collection_id', '=', 'data.collections.id')
+          .on('data.chunks.staged', '=', false)
+      )
       .select([
         'data.collections.id',
         'data.collections.name',
         'data.collections.description',
+        'data.collections.chunking_strategy',
         'data.collections.org_id',
         'data.collections.created_at',
         'data.collections.updated_at',
@@ -96,6 +117,7 @@ export class CollectionsService {
       orgId: result.org_id,
       sourceCount: Number(result.source_count),
       chunkCount: Number(result.chunk_count),
+      chunkingStrategy: result.chunking_strategy,
       createdAt: result.created_at,
       updatedAt: result.updated_at,
     };
@@ -104,11 +126,16 @@ export class CollectionsService {
   async update(
     orgId: DbId<'Org'>,
     collectionId: DbId<'Collection'>,
-    data: { name?: string; description?: string | null }
+    data: {
+      name?: string;
+      description?: string | null;
+      chunkingStrategy?: ChunkingStrategy | null;
+    }
   ) {
     const updates: Record<string, unknown> = { updated_at: new Date() };
     if (data.name !== undefined) updates.name = data.name;
     if (data.description !== undefined) updates.description = data.description;
+    if (data.chunkingStrategy !== undefined) updates.chunking_strategy = data.chunkingStrategy;
 
     const collection = await this.db.kysely
       .updateTable('data.collections')
@@ -125,6 +152,22 @@ export class CollectionsService {
     return this.findById(orgId, collectionId);
   }
 
+  /** Queue re-embedding of the collection's chunks with the org's current embedding model. */
+  async reembed(orgId: DbId<'Org'>, collectionId: DbId<'Collection'>) {
+    const collection = await this.db.kysely
+      .selectFrom('data.collections')
+      .select('id')
+      .where('id', '=', collectionId)
+      .where('org_id', '=', orgId)
+      .executeTakeFirst();
+
+    if (!collection) {
+      throw new NotFoundException('Collection not found');
+    }
+
+    await this.embeddingService.reembed(orgId, collection.id);
+  }
+
   async delete(orgId: DbId<'Org'>, collectionId: DbId<'Collection'>) {
     const result = await this.db.kysely
       .deleteFrom('data.collections')
@@ -0,0 +1,185 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { type DbId, packId } from '@grabdy/common';
+import type { DataSourceMetadata } from '@grabdy/contracts';
+import { resolveArchiveFormat, resolveUploadsMime } from '@grabdy/contracts';
+
+import {
+  ARCHIVE_MAX_EXPANDED_BYTES,
+  ARCHIVE_MAX_FILES,
+  getMaxFileSizeForMime,
+} from '../../config/constants';
+import { DbService } from '../../db/db.module';
+
+import { ArchiveLimitError, readArchive } from './archives/archive-reader';
+import { DataSourcesService } from './data-sources.service';
+
+interface ArchiveFileResult {
+  path: string;
+  status: 'UPLOADED' | 'SKIPPED' | 'FAILED';
+  dataSourceId: DbId<'DataSource'> | null;
+  error: string | null;
+}
+
+/** Metadata key recording the folder a file had inside its archive. */
+const FOLDER_METADATA_KEY = 'folder';
+
+/** OS clutter: macOS resource forks and dotfiles such as `.DS_Store`. */
+function isHiddenPath(segments: string[]): boolean {
+  return segments[0] === '__MACOSX' || segments.some((s) => s.startsWith('.'));
+}
+
+@Injectable()
+export class ArchiveUploadService {
+  private readonly logger = new Logger(ArchiveUploadService.name);
+
+  constructor(
+    private db: DbService,
+    private dataSourcesService: DataSourcesService
+  ) {}
+
+  /**
+   * Unpack a ZIP or tar archive into one data source per supported file, keeping
+   * the file's folder as `folder` metadata. Unsupported, hidden and oversized
+   * files are reported per file instead of failing the whole upload.
+   */
+  async upload(
+    orgId: DbId<'Org'>,
+    userId: DbId<'User'> | null,
+    file: Express.Multer.File,
+    options: {
+      collectionId?: DbId<'Collection'>;
+      foldersAsCollections?: boolean;
+      metadata?: DataSourceMetadata;
+    }
+  ) {
+    const format = resolveArchiveFormat(file.originalname);
+    if (!format) {
+      throw new Error(`Unsupported archive type: ${file.originalname}`);
+    }
+
+    let entries;
+    try {
+      entries = await readArchive(file.buffer, format, ARCHIVE_MAX_EXPANDED_BYTES);
+    } catch (error) {
+      if (error instanceof ArchiveLimitError) {
+        const limitMB = Math.round(ARCHIVE_MAX_EXPANDED_BYTES / (1024 * 1024));
+        throw new Error(`Archive expands to more than ${limitMB} MB`);
+      }
+      throw new Error('Could not read archive: the file is corrupt or not a supported archive');
+    }
+    if (entries.length > ARCHIVE_MAX_FILES) {
+      throw new Error(
+        `Archive contains ${entries.length} files; at most ${ARCHIVE_MAX_FILES} are allowed`
+      );
+    }
+
+    const dataSources: Awaited<ReturnType<DataSourcesService['upload']>>[] = [];
+    const files: ArchiveFileResult[] = [];
+    const collections = new Map<string, DbId<'Collection'>>();
+    let expandedBytes = 0;
+
+    for (const entry of entries) {
+      const segments = entry.path.split('/');
+      const filename = segments[segments.length - 1];
+      const folder = segments.slice(0, -1).join('/');
+      const report = (status: ArchiveFileResult['status'], error: string) =>
+        files.push({ path: entry.path, status, dataSourceId: null, error });
+
+      if (isHiddenPath(segments)) {
+        report('SKIPPED', 'Hidden file');
+        continue;
+      }
+      const mimeType = resolveUploadsMime('', filename);
+      if (!mimeType) {
+        report('SKIPPED', 'Unsupported file type');
+        continue;
+      }
+
+      const fileLimit = getMaxFileSizeForMime(mimeType);
+      const remaining = ARCHIVE_MAX_EXPANDED_BYTES - expandedBytes;
+      let buffer: Buffer;
+      try {
+        buffer = await entry.read(Math.min(fileLimit, remaining));
+      } catch (error) {
+        if (!(error instanceof ArchiveLimitError)) {
+          report('FAILED', 'Could not unpack file');
+        } else if (fileLimit <= remaining) {
+          report('SKIPPED', `File too large (max ${Math.round(fileLimit / (1024 * 1024))} MB)`);
+        } else {
+          report('SKIPPED', 'Archive size limit reached');
+        }
+        continue;
+      }
+      expandedBytes += buffer.length;
+
+      try {
+        const collectionId =
+          options.foldersAsCollections && segments.length > 1
+            ? await this.collectionForFolder(orgId, segments[0], collections)
+            : options.collectionId;
+        const dataSource = await this.dataSourcesService.upload(
+          orgId,
+          userId,
+          { originalname: filename, mimetype: mimeType, size: buffer.length, buffer },
+          {
+            collectionId,
+            metadata: folder
+              ? { ...options.metadata, [FOLDER_METADATA_KEY]: folder }
+              : options.metadata,
+          }
+        );
+        dataSources.push(dataSource);
+        files.push({
+          path: entry.path,
+          status: 'UPLOADED',
+          dataSourceId: dataSource.id,
+          error: null,
+        });
+      } catch (error) {
+        report('FAILED', error instanceof Error ? error.message : 'Upload failed');
+      }
+    }
+
+    const skipped = files.filter((f) => f.status === 'SKIPPED').length;
+    this.logger.log(
+      `Archive ${file.originalname}: ${dataSources.length} uploaded, ${skipped} skipped, ` +
+        `${files.length - dataSources.length - skipped} failed`
+    );
+
+    return { dataSources, files };
+  }
+
+  /** The collection named after a top-level folder, created on first use. */
+  private async collectionForFolder(
+    orgId: DbId<'Org'>,
+    name: string,
+    cache: Map<string, DbId<'Collection'>>
+  ): Promise<DbId<'Collection'>> {
+    const cached = cache.get(name);
+    if (cached) return cached;
+
+    const existing = await this.db.kysely
+      .selectFrom('data.collections')
+      .select('id')
+      .where('org_id', '=', orgId)
+      .where('name', '=', name)
+      .executeTakeFirst();
+
+    const collection =
+      existing ??
+      (await this.db.kysely
+        .insertInto('data.collections')
+        .values({
+          id: packId('Collection', orgId),
+          name,
+          org_id: orgId,
+          updated_at: new Date(),
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow());
+
+    cache.set(name, collection.id);
+    return collection.id;
+  }
+}
@@ -0,0 +1,161 @@
+import type { ArchiveFormat } from '@grabdy/contracts';
+import { promisify } from 'node:util';
+import { gunzip } from 'node:zlib';
+
+const gunzipAsync = promisify(gunzip);
+
+type Zip = InstanceType<typeof import('jszip')>;
+type JSZipObject = Zip['files'][string];
+
+/** A regular file inside an archive. */
+export interface ArchiveFile {
+  /** Normalized relative path, e.g. `reports/2024/q1.pdf`. */
+  path: string;
+  /** Read the file; throws ArchiveLimitError instead of reading more than `maxBytes`. */
+  read(maxBytes: number): Promise<Buffer>;
+}
+
+export class ArchiveLimitError extends Error {}
+
+const TAR_BLOCK = 512;
+
+/**
+ * Make an archive path safe to use as a relative folder path: backslashes become
+ * slashes and empty, `.` and `..` segments are dropped.
+ */
+function normalizePath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((part) => part !== '' && part !== '.' && part !== '..')
+    .join('/');
+}
+
+function tarString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? length : end);
+}
+
+/** PAX extended header records: `<length> <key>=<value>\n`. */
+function paxPath(data: Buffer): string | null {
+  for (const record of data.toString('utf8').split('\n')) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * List the regular files of a tar stream (ustar, with GNU long names and PAX
+ * paths). Links, devices and directories are ignored.
+ */
+function readTar(tar: Buffer): ArchiveFile[] {
+  const files: ArchiveFile[] = [];
+  let offset = 0;
+  let longName: string | null = null;
+
+  while (offset + TAR_BLOCK <= tar.length) {
+    const header = tar.subarray(offset, offset + TAR_BLOCK);
+    // Two zero blocks end the archive
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = parseInt(tarString(header, 124, 12).trim() || '0', 8);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + TAR_BLOCK;
+    const data = tar.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === 'L') {
+      longName = tarString(data, 0, data.length);
+      continue;
+    }
+    if (type === 'x') {
+      longName = paxPath(data);
+      continue;
+    }
+
+    const prefix = tarString(header, 345, 155);
+    const name = tarString(header, 0, 100);
+    const path = normalizePath(longName ?? (prefix ? `${prefix}/${name}` : name));
+    longName = null;
+    if ((type !== '0' && type !== '7') || !path) continue;
+
+    files.push({
+      path,
+      read: async (maxBytes) => {
+        if (data.length > maxBytes) throw new ArchiveLimitError(`${path} is too large`);
+        return data;
+      },
+    });
+  }
+  return files;
+}
+
+/** Inflate a ZIP entry chunk by chunk, stopping as soon as it passes `maxBytes`. */
+function readZipEntry(entry: JSZipObject, path: string, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer');
+    stream
+      .on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        // The size a ZIP entry claims can't be trusted, so count what is inflated
+        if (size > maxBytes) {
+          stream.pause();
+          reject(new ArchiveLimitError(`${path} is too large`));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+async function readZip(buffer: Buffer): Promise<ArchiveFile[]> {
+  const JSZip = require('jszip');
+  const zip: Zip = await JSZip.loadAsync(buffer);
+  return Object.values(zip.files)
+    .filter((entry) => !entry.dir)
+    .map((entry) => ({ entry, path: normalizePath(entry.name) }))
+    .filter(({ path }) => path !== '')
+    .map(({ entry, path }) => ({
+      path,
+      read: (maxBytes) => readZipEntry(entry, path, maxBytes),
+    }));
+}
+
+/**
+ * List the files of a ZIP or (gzipped) tar archive. Gzip is inflated up front,
+ * so `maxExpandedBytes` bounds it; ZIP entries are inflated one at a time by
+ * `read`.
+ */
+export async function readArchive(
+  buffer: Buffer,
+  format: ArchiveFormat,
+  maxExpandedBytes: number
+): Promise<ArchiveFile[]> {
+  switch (format) {
+    case 'zip':
+      return readZip(buffer);
+    case 'tar':
+      return readTar(buffer);
+    case 'tar.gz': {
+      const tar = await gunzipAsync(buffer, { maxOutputLength: maxExpandedBytes }).catch(
+        (error: unknown) => {
+          if (error instanceof RangeError) {
+            throw new ArchiveLimitError('Archive expands beyond the size limit');
+          }
+          throw error;
+        }
+      );
+      return readTar(tar);
+    }
+    default: {
+      const _exhaustive: never = format;
+      throw new Error(`Unsupported archive format: ${_exhaustive}`);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { ChunkingStrategy, DataSourceType } from '@grabdy/contracts';
+
+import { DEFAULT_CHUNKING_STRATEGIES } from '../../../config/constants';
+
+import { htmlToMarkdown } from './html-to-markdown';
+import { type SectionSegment, splitMarkdown } from './markdown-splitter';
+import { splitText } from './recursive-text-splitter';
+
+interface SplitOptions {
+  maxSizeTokens: number;
+  overlapTokens: number;
+  minSizeTokens: number;
+}
+
+/** A collection's strategy wins over the default for the data source type. */
+export function resolveChunkingStrategy(
+  type: DataSourceType,
+  collectionStrategy: ChunkingStrategy | null
+): ChunkingStrategy {
+  return collectionStrategy ?? DEFAULT_CHUNKING_STRATEGIES[type] ?? 'RECURSIVE';
+}
+
+/**
+ * Split text with the given strategy. Structure-aware strategies return the
+ * heading path of each segment; RECURSIVE segments have an empty path.
+ */
+export function splitWithStrategy(
+  text: string,
+  strategy: ChunkingStrategy,
+  opts: SplitOptions
+): SectionSegment[] {
+  switch (strategy) {
+    case 'RECURSIVE':
+      return splitText(text, opts).map((content) => ({ content, sectionPath: [] }));
+    case 'MARKDOWN':
+      return splitMarkdown(text, opts);
+    case 'HTML':
+      return splitMarkdown(htmlToMarkdown(text), opts);
+    default: {
+      const exhaustive: never = strategy;
+      throw new Error(`Unknown chunking strategy: ${String(exhaustive)}`);
+    }
+  }
+}
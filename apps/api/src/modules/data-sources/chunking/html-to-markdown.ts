@@ -0,0 +1,84 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Text content of an HTML fragment, with tags dropped and whitespace collapsed. */
+function inlineText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function convertTable(tableHtml: string): string {
+  const rows = [...tableHtml.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)].map((row) =>
+    [...row[1].matchAll(/<t[hd][^>]*>([\s\S]*?)<\/t[hd]>/gi)].map((cell) =>
+      inlineText(cell[1]).replace(/\|/g, '\\|')
+    )
+  );
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map((r) => r.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Convert HTML to Markdown with just enough structure for `splitMarkdown`:
+ * headings, code blocks, tables, list items and paragraphs. Everything else is
+ * reduced to its text.
+ */
+export function htmlToMarkdown(html: string): string {
+  // Code blocks and tables are converted first and parked behind placeholders,
+  // so the inline tag stripping below can't touch their contents.
+  const preserved: string[] = [];
+  const park = (markdown: string) => `\n\n\uE000${preserved.push(markdown) - 1}\uE000\n\n`;
+
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|head|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<pre[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) => {
+      const language = /class="[^"]*language-([\w+-]+)/i.exec(inner)?.[1] ?? '';
+      const code = decodeEntities(inner.replace(/<[^>]+>/g, '')).replace(/\n+$/, '');
+      return park(`\`\`\`${language}\n${code}\n\`\`\``);
+    })
+    .replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (_, inner: string) => park(convertTable(inner)))
+    .replace(
+      /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level: string, inner: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${inlineText(inner)}\n\n`
+    )
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<code[^>]*>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(
+      /<\/?(p|div|section|article|header|footer|main|aside|nav|ul|ol|blockquote|hr|dl|dt|dd|figure|figcaption)\b[^>]*>/gi,
+      '\n\n'
+    )
+    .replace(/<[^>]+>/g, '');
+
+  text = decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n');
+
+  return text.replace(/\uE000(\d+)\uE000/g, (_, idx: string) => preserved[Number(idx)]).trim();
+}
@@ -0,0 +1,243 @@
+import { MAX_STRUCTURED_BLOCK_TOKENS } from '../../../config/constants';
+
+import { splitText } from './recursive-text-splitter';
+import { countTokens } from './tokenizer';
+
+interface SplitOptions {
+  maxSizeTokens: number;
+  minSizeTokens: number;
+}
+
+export interface SectionSegment {
+  content: string;
+  /** Headings enclosing the segment, outermost first (e.g. `['Setup', 'Docker']`). */
+  sectionPath: string[];
+}
+
+type Block =
+  | { kind: 'heading'; text: string; level: number; title: string }
+  | { kind: 'code'; text: string; fence: string }
+  | { kind: 'table'; text: string }
+  | { kind: 'text'; text: string };
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING_RE = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const TABLE_ROW_RE = /^\s*\|/;
+
+/**
+ * Whether a line closes a block opened with `fence`: the same character, at
+ * least as many times, and no info string — so a fence shown inside the block
+ * (e.g. `` ```js ``) does not end it.
+ */
+function isClosingFence(line: string, fence: string): boolean {
+  return new RegExp(`^ {0,3}${fence[0]}{${fence.length},}\\s*$`).test(line);
+}
+
+/** Break Markdown into headings, fenced code blocks, tables and paragraphs. */
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'text', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const marker = fence[1];
+      const body = [line];
+      // An unclosed fence runs to the end of the document, as in CommonMark
+      while (++i < lines.length) {
+        body.push(lines[i]);
+        if (isClosingFence(lines[i], marker)) break;
+      }
+      blocks.push({ kind: 'code', text: body.join('\n'), fence: marker });
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ kind: 'heading', text: line, level: heading[1].length, title: heading[2] });
+      continue;
+    }
+
+    if (TABLE_ROW_RE.test(line)) {
+      flushParagraph();
+      const rows = [line];
+      while (i + 1 < lines.length && TABLE_ROW_RE.test(lines[i + 1])) {
+        rows.push(lines[++i]);
+      }
+      blocks.push({ kind: 'table', text: rows.join('\n') });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      continue;
+    }
+
+    paragraph.push(line);
+  }
+  flushParagraph();
+
+  return blocks;
+}
+
+/**
+ * Split a code block or table that exceeds MAX_STRUCTURED_BLOCK_TOKENS on line
+ * boundaries. Each piece stays valid on its own: code pieces are re-fenced and
+ * table pieces repeat the header rows.
+ */
+function splitStructuredBlock(block: Block, maxSizeTokens: number): string[] {
+  const lines = block.text.split('\n');
+  let prefix: string[] = [];
+  let suffix: string[] = [];
+  let body = lines;
+
+  if (block.kind === 'code') {
+    prefix = [lines[0]];
+    const closed = lines.length > 1 && isClosingFence(lines[lines.length - 1], block.fence);
+    suffix = [closed ? lines[lines.length - 1] : block.fence];
+    body = lines.slice(1, closed ? -1 : undefined);
+  } else if (block.kind === 'table' && lines.length > 2) {
+    prefix = lines.slice(0, 2);
+    body = lines.slice(2);
+  }
+
+  const wrapperTokens = countTokens([...prefix, ...suffix].join('\n'));
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  for (const line of body) {
+    const lineTokens = countTokens(line) + 1;
+    if (current.length > 0 && wrapperTokens + currentTokens + lineTokens > maxSizeTokens) {
+      pieces.push([...prefix, ...current, ...suffix].join('\n'));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(line);
+    currentTokens += lineTokens;
+  }
+  if (current.length > 0) {
+    pieces.push([...prefix, ...current, ...suffix].join('\n'));
+  }
+
+  return pieces;
+}
+
+/**
+ * Split Markdown along its heading structure. Blocks are packed into chunks up to
+ * `maxSizeTokens`; a heading starts a new chunk once the current one reaches
+ * `minSizeTokens`, and every chunk records the headings it sits under.
+ *
+ * Fenced code blocks and tables are never cut, up to MAX_STRUCTURED_BLOCK_TOKENS.
+ * Oversized paragraphs fall back to the recursive splitter. No overlap is added —
+ * the section path carries the context that overlap would otherwise provide.
+ */
+export function splitMarkdown(markdown: string, opts: SplitOptions): SectionSegment[] {
+  const segments: SectionSegment[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+
+  let buffer: string[] = [];
+  let bufferTokens = 0;
+  let bufferPath: string[] = [];
+  let bufferHasBody = false;
+
+  const currentPath = () => headings.map((h) => h.title);
+
+  const flush = () => {
+    if (buffer.length > 0) {
+      segments.push({ content: buffer.join('\n\n'), sectionPath: bufferPath });
+    }
+    buffer = [];
+    bufferTokens = 0;
+    bufferHasBody = false;
+  };
+
+  const append = (text: string, tokens: number) => {
+    if (buffer.length === 0) bufferPath = currentPath();
+    buffer.push(text);
+    bufferTokens += tokens + (buffer.length > 1 ? 1 : 0);
+  };
+
+  for (const block of parseBlocks(markdown)) {
+    const tokens = countTokens(block.text);
+
+    if (block.kind === 'heading') {
+      while (headings.length > 0 && headings[headings.length - 1].level >= block.level) {
+        headings.pop();
+      }
+      headings.push({ level: block.level, title: block.title });
+
+      if (bufferHasBody && bufferTokens >= opts.minSizeTokens) flush();
+      // Headings waiting for their first paragraph belong to the deepest section
+      if (!bufferHasBody) bufferPath = currentPath();
+      if (bufferTokens + tokens > opts.maxSizeTokens) flush();
+      append(block.text, tokens);
+      continue;
+    }
+
+    const limit = block.kind === 'text' ? opts.maxSizeTokens : MAX_STRUCTURED_BLOCK_TOKENS;
+    if (tokens > limit) {
+      // Pending headings (or an undersized remainder) go with the first piece
+      if (bufferHasBody && bufferTokens >= opts.minSizeTokens) flush();
+      const lead = buffer.join('\n\n');
+      buffer = [];
+      bufferTokens = 0;
+      bufferHasBody = false;
+
+      const pieces =
+        block.kind === 'text'
+          ? splitText(block.text, {
+              maxSizeTokens: opts.maxSizeTokens,
+              overlapTokens: 0,
+              minSizeTokens: 0,
+            })
+          : splitStructuredBlock(block, limit);
+      pieces.forEach((piece, idx) => {
+        const content = idx === 0 && lead ? `${lead}\n\n${piece}` : piece;
+        segments.push({ content, sectionPath: currentPath() });
+      });
+      continue;
+    }
+
+    if (buffer.length > 0 && bufferTokens + tokens + 1 > opts.maxSizeTokens) {
+      if (bufferHasBody) {
+        flush();
+      } else {
+        // Keep headings with the block they introduce, even if that overshoots a little
+        append(block.text, tokens);
+        bufferHasBody = true;
+        flush();
+        continue;
+      }
+    }
+    append(block.text, tokens);
+    bufferHasBody = true;
+  }
+
+  // Fold an undersized tail into the previous chunk when it fits
+  const last = segments[segments.length - 1];
+  if (
+    buffer.length > 0 &&
+    bufferTokens < opts.minSizeTokens &&
+    last &&
+    countTokens(last.content) + bufferTokens + 1 <= opts.maxSizeTokens
+  ) {
+    last.content += '\n\n' + buffer.join('\n\n');
+    buffer = [];
+  }
+  flush();
+
+  return segments;
+}
@@ -1,46 +1,59 @@
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Inject, Logger } from '@nestjs/common';
 
-import { openai } from '@ai-sdk/openai';
 import type { DbId } from '@grabdy/common';
-import { packId } from '@grabdy/common';
+import { extractOrgNumericId, packId } from '@grabdy/common';
 import {
-  AiCallerType,
-  AiRequestType,
+  type ChunkingStrategy,
   type ChunkMeta,
-  EMBEDDING_MODEL,
+  type DataSourceOcr,
   UPLOADS_MIME_TO_TYPE,
   type UploadsMime,
 } from '@grabdy/contracts';
-import { embedMany } from 'ai';
 import { Job } from 'bullmq';
+import { sql, type Transaction } from 'kysely';
 
 import {
   CHUNK_OVERLAP_TOKENS,
   CHUNK_SIZE_TOKENS,
+  DATA_TABLE_INSERT_BATCH_SIZE,
   EMBEDDING_BATCH_SIZE,
   MIN_CHUNK_SIZE_TOKENS,
 } from '../../config/constants';
 import { env } from '../../config/env.config';
+import type { DB } from '../../db/db';
 import { DbService } from '../../db/db.module';
-import { AiUsageService } from '../ai/ai-usage.service';
+import { EmbeddingService } from '../embeddings/embedding.service';
 import { DocxExtractor } from '../extractors/docx.extractor';
+import { EpubExtractor } from '../extractors/epub.extractor';
 import type {
+  ChapterText,
+  EmbeddedImage,
   ExtractionResult,
+  JsonRecord,
   PageText,
   SheetData,
   SheetRow,
+  SlideText,
+  TranscriptSegment,
 } from '../extractors/extractor.interface';
+import { HtmlExtractor } from '../extractors/html.extractor';
 import { ImageExtractor } from '../extractors/image.extractor';
+import { MediaExtractor } from '../extractors/media.extractor';
+import { OpenDocumentExtractor } from '../extractors/opendocument.extractor';
 import { PdfExtractor } from '../extractors/pdf.extractor';
+import { PptxExtractor } from '../extractors/pptx.extractor';
 import { TextExtractor } from '../extractors/text.extractor';
 import { XlsxExtractor } from '../extractors/xlsx.extractor';
 import { DATA_SOURCE_QUEUE } from '../queue/queue.constants';
+import { detectLanguage } from '../retrieval/language-detection';
 import type { FileStorage } from '../storage/file-storage.interface';
 import { FILE_STORAGE } from '../storage/file-storage.interface';
 
+import { resolveChunkingStrategy, splitWithStrategy } from './chunking/chunking-strategy';
 import { splitText } from './chunking/recursive-text-splitter';
 import { countTokens, decodeTokens, encodeTokens } from './chunking/tokenizer';
+import { buildDataTables, type DataTableInput } from './tables/table-builder';
 
 export interface SyncedMessageData {
   content: string;
@@ -62,6 +75,11 @@ export interface DataSourceJobData {
   sourceUrl?: string;
   /** When true, append new chunks to existing data source without deleting old ones. */
   appendOnly?: boolean;
+  /**
+   * When true, build the new chunks as staged rows next to the live ones and swap
+   * them in once all are embedded, so the source stays searchable throughout.
+   */
+  reindex?: boolean;
 }
 
 interface ChunkWithMeta {
@@ -75,13 +93,51 @@ function previewUrl(dataSourceId: DbId<'DataSource'>, orgId: DbId<'Org'>): strin
   return `${env.frontendUrl}/dashboard/sources?preview=${dataSourceId}&org=${orgId}`;
 }
 
-function chunkText(text: string, metadata: ChunkMeta, sourceUrl: string): ChunkWithMeta[] {
-  const segments = splitText(text, {
+/** Record the heading breadcrumbs of a chunk on the chunk types that carry them. */
+function withSectionPath(metadata: ChunkMeta, sectionPath: string[]): ChunkMeta {
+  if (sectionPath.length === 0) return metadata;
+  switch (metadata.type) {
+    case 'TXT':
+    case 'NOTION':
+    case 'GOOGLE_DRIVE':
+    case 'CONFLUENCE':
+    case 'JIRA':
+    case 'GITHUB':
+    case 'LINEAR':
+    case 'MARKDOWN':
+    case 'HTML':
+    case 'EPUB':
+      return { ...metadata, sectionPath };
+    default:
+      return metadata;
+  }
+}
+
+/**
+ * Record the detected language of a chunk. The database builds the chunk's
+ * full-text index with the matching text-search config (migration 0045).
+ */
+function withLanguage(metadata: ChunkMeta, content: string): ChunkMeta {
+  const language = detectLanguage(content);
+  return language ? { ...metadata, language } : metadata;
+}
+
+function chunkText(
+  text: string,
+  metadata: ChunkMeta,
+  sourceUrl: string,
+  strategy: ChunkingStrategy = 'RECURSIVE'
+): ChunkWithMeta[] {
+  const segments = splitWithStrategy(text, strategy, {
     maxSizeTokens: CHUNK_SIZE_TOKENS,
     overlapTokens: CHUNK_OVERLAP_TOKENS,
     minSizeTokens: MIN_CHUNK_SIZE_TOKENS,
   });
-  return segments.map((content) => ({ content, metadata, sourceUrl }));
+  return segments.map(({ content, sectionPath }) => ({
+    content,
+    metadata: withSectionPath(metadata, sectionPath),
+    sourceUrl,
+  }));
 }
 
 /**
@@ -89,35 +145,69 @@ function chunkText(text: string, metadata: ChunkMeta, sourceUrl: string): ChunkW
  * Messages with the same context can be grouped into a single chunk.
  * For Slack, messages from the same channel are grouped regardless of author
  * — all unique authors are collected into the chunk's `slackAuthors` array.
+ * Emails are grouped the same way within a thread, and GitHub repository
+ * files by file and commit.
  */
 function isSameGroupingContext(a: ChunkMeta, b: ChunkMeta): boolean {
   if (a.type !== b.type) return false;
   if (a.type === 'SLACK' && b.type === 'SLACK') {
     return a.slackChannelId === b.slackChannelId;
   }
+  if (a.type === 'EMAIL' && b.type === 'EMAIL') {
+    return a.emailThreadId === b.emailThreadId;
+  }
+  if (a.type === 'GITHUB' && b.type === 'GITHUB' && a.filePath !== undefined) {
+    return a.filePath === b.filePath && a.commitSha === b.commitSha;
+  }
   return JSON.stringify(a) === JSON.stringify(b);
 }
 
 /**
- * Merge authors from a message into a SLACK chunk's metadata.
- * Collects unique authors across all grouped messages.
+ * Merge the people of a message into its chunk's metadata: unique authors for
+ * SLACK, unique senders and recipients for EMAIL, which also keeps the date of
+ * the earliest message. GitHub file chunks span the lines of all their blocks.
  */
-function mergeSlackAuthors(chunkMeta: ChunkMeta, messageMeta: ChunkMeta): ChunkMeta {
-  if (chunkMeta.type !== 'SLACK' || messageMeta.type !== 'SLACK') return chunkMeta;
-  const existing = new Set(chunkMeta.slackAuthors);
-  for (const author of messageMeta.slackAuthors) {
-    existing.add(author);
+function mergeGroupedMeta(chunkMeta: ChunkMeta, messageMeta: ChunkMeta): ChunkMeta {
+  if (chunkMeta.type === 'SLACK' && messageMeta.type === 'SLACK') {
+    const existing = new Set(chunkMeta.slackAuthors);
+    for (const author of messageMeta.slackAuthors) {
+      existing.add(author);
+    }
+    return { ...chunkMeta, slackAuthors: [...existing] };
+  }
+  if (chunkMeta.type === 'EMAIL' && messageMeta.type === 'EMAIL') {
+    return {
+      ...chunkMeta,
+      emailFrom: [...new Set([...chunkMeta.emailFrom, ...messageMeta.emailFrom])],
+      emailTo: [...new Set([...chunkMeta.emailTo, ...messageMeta.emailTo])],
+      emailDate:
+        messageMeta.emailDate < chunkMeta.emailDate ? messageMeta.emailDate : chunkMeta.emailDate,
+    };
   }
-  return { ...chunkMeta, slackAuthors: [...existing] };
+  if (
+    chunkMeta.type === 'GITHUB' &&
+    messageMeta.type === 'GITHUB' &&
+    chunkMeta.lineStart !== undefined &&
+    chunkMeta.lineEnd !== undefined &&
+    messageMeta.lineStart !== undefined &&
+    messageMeta.lineEnd !== undefined
+  ) {
+    return {
+      ...chunkMeta,
+      lineStart: Math.min(chunkMeta.lineStart, messageMeta.lineStart),
+      lineEnd: Math.max(chunkMeta.lineEnd, messageMeta.lineEnd),
+    };
+  }
+  return chunkMeta;
 }
 
 /**
  * Group consecutive messages into conversation-window chunks up to CHUNK_SIZE_TOKENS.
- * Messages from the same context (e.g., same Slack channel) are grouped together,
- * collecting all unique authors into the chunk's metadata.
+ * Messages from the same context (e.g., same Slack channel or email thread) are grouped
+ * together, collecting all unique authors into the chunk's metadata.
  * Oversized individual messages are split using the recursive text splitter.
  */
-function groupMessages(msgs: SyncedMessageData[]): ChunkWithMeta[] {
+function groupMessages(msgs: SyncedMessageData[], strategy: ChunkingStrategy): ChunkWithMeta[] {
   if (msgs.length === 0) return [];
 
   const chunks: ChunkWithMeta[] = [];
@@ -143,7 +233,7 @@ function groupMessages(msgs: SyncedMessageData[]): ChunkWithMeta[] {
       anchorUrl = msg.sourceUrl;
     } else {
       // Merge authors from this message into the chunk metadata
-      chunkMeta = mergeSlackAuthors(chunkMeta, msg.metadata);
+      chunkMeta = mergeGroupedMeta(chunkMeta, msg.metadata);
     }
 
     buffer += separator + msg.content;
@@ -151,7 +241,7 @@ function groupMessages(msgs: SyncedMessageData[]): ChunkWithMeta[] {
 
     // If a single message exceeds CHUNK_SIZE_TOKENS, flush and split it
     if (bufferTokens > CHUNK_SIZE_TOKENS) {
-      chunks.push(...chunkText(buffer, chunkMeta, anchorUrl));
+      chunks.push(...chunkText(buffer, chunkMeta, anchorUrl, strategy));
       buffer = '';
       bufferTokens = 0;
       chunkMeta = msg.metadata;
@@ -168,7 +258,7 @@ function groupMessages(msgs: SyncedMessageData[]): ChunkWithMeta[] {
       chunks[chunks.length - 1] = {
         ...last,
         content: last.content + '\n' + buffer,
-        metadata: mergeSlackAuthors(last.metadata, chunkMeta),
+        metadata: mergeGroupedMeta(last.metadata, chunkMeta),
       };
     } else {
       // Only chunk — keep it regardless of size
@@ -184,6 +274,11 @@ function chunkPagesText(
   metaType: 'PDF' | 'DOCX',
   sourceUrl: string
 ): ChunkWithMeta[] {
+  const ocrConfidence = new Map<number, number>();
+  for (const p of pages) {
+    if (p.ocrConfidence !== undefined) ocrConfidence.set(p.page, p.ocrConfidence);
+  }
+
   // Build a flat string with page boundary tracking
   const boundaries: Array<{ offset: number; page: number }> = [];
   let fullText = '';
@@ -235,9 +330,13 @@ function chunkPagesText(
     }
 
     const pageNums = [...pageSet].sort((a, b) => a - b);
+    const ocrConfidences = pageNums.flatMap((n) => ocrConfidence.get(n) ?? []);
     chunks.push({
       content,
-      metadata: { type: metaType, pages: pageNums },
+      metadata:
+        metaType === 'PDF' && ocrConfidences.length > 0
+          ? { type: 'PDF', pages: pageNums, ocrConfidence: Math.min(...ocrConfidences) }
+          : { type: metaType, pages: pageNums },
       sourceUrl,
     });
 
@@ -247,6 +346,90 @@ function chunkPagesText(
   return chunks;
 }
 
+/** A chunk for the vision model's analysis of an image embedded on a page. */
+function embeddedImageChunk(
+  image: { id: DbId<'ExtractedImage'>; page: number; analysis: string },
+  metaType: 'PDF' | 'DOCX',
+  sourceUrl: string
+): ChunkWithMeta {
+  return {
+    content: `Image on page ${image.page}:\n${image.analysis}`,
+    metadata: { type: metaType, pages: [image.page], imageId: image.id },
+    sourceUrl,
+  };
+}
+
+function slideContent(slide: SlideText): string {
+  return slide.notes ? `${slide.text}\n\nSpeaker notes:\n${slide.notes}`.trim() : slide.text;
+}
+
+/**
+ * Pack consecutive blocks (slides, JSON records) into chunks up to
+ * CHUNK_SIZE_TOKENS; `toMeta` receives the keys of the blocks in each chunk.
+ * A block too large for one chunk is split on its own.
+ */
+function chunkBlocks<K>(
+  blocks: Array<{ key: K; content: string }>,
+  toMeta: (keys: K[]) => ChunkMeta,
+  sourceUrl: string
+): ChunkWithMeta[] {
+  const chunks: ChunkWithMeta[] = [];
+  let buffer = '';
+  let bufferTokens = 0;
+  let bufferKeys: K[] = [];
+
+  const flush = () => {
+    if (buffer.length === 0) return;
+    chunks.push({ content: buffer, metadata: toMeta(bufferKeys), sourceUrl });
+    buffer = '';
+    bufferTokens = 0;
+    bufferKeys = [];
+  };
+
+  for (const block of blocks) {
+    const tokens = countTokens(block.content);
+
+    if (tokens > CHUNK_SIZE_TOKENS) {
+      flush();
+      const segments = splitText(block.content, {
+        maxSizeTokens: CHUNK_SIZE_TOKENS,
+        overlapTokens: CHUNK_OVERLAP_TOKENS,
+        minSizeTokens: MIN_CHUNK_SIZE_TOKENS,
+      });
+      for (const segment of segments) {
+        chunks.push({ content: segment, metadata: toMeta([block.key]), sourceUrl });
+      }
+      continue;
+    }
+
+    if (bufferTokens + tokens > CHUNK_SIZE_TOKENS) flush();
+    buffer += (buffer.length > 0 ? '\n\n' : '') + block.content;
+    bufferTokens += tokens + (bufferTokens > 0 ? 1 : 0);
+    bufferKeys.push(block.key);
+  }
+  flush();
+
+  return chunks;
+}
+
+/** Slides with their speaker notes, packed into chunks that record the slide numbers. */
+function chunkSlides(slides: SlideText[], sourceUrl: string): ChunkWithMeta[] {
+  return chunkBlocks(
+    slides.map((slide) => ({ key: slide.slide, content: slideContent(slide) })),
+    (keys) => ({ type: 'PPTX', slides: keys }),
+    sourceUrl
+  );
+}
+
+/** JSON records, packed into chunks that record the JSON pointer of each record. */
+function chunkJsonRecords(records: JsonRecord[], sourceUrl: string): ChunkWithMeta[] {
+  return chunkBlocks(
+    records.map((record) => ({ key: record.pointer, content: record.text })),
+    (keys) => ({ type: 'JSON', pointers: keys }),
+    sourceUrl
+  );
+}
+
 function chunkSheets(sheets: SheetData[], sourceUrl: string): ChunkWithMeta[] {
   const chunks: ChunkWithMeta[] = [];
   for (const sheet of sheets) {
@@ -279,6 +462,66 @@ function chunkSheets(sheets: SheetData[], sourceUrl: string): ChunkWithMeta[] {
   return chunks;
 }
 
+/**
+ * Pack consecutive transcript segments into chunks up to CHUNK_SIZE_TOKENS,
+ * recording the time span each covers. Segments are one line each, prefixed
+ * with the speaker when the transcription engine labels speakers.
+ */
+function chunkTranscript(segments: TranscriptSegment[], sourceUrl: string): ChunkWithMeta[] {
+  const chunks: ChunkWithMeta[] = [];
+  let buffer: Array<TranscriptSegment & { line: string }> = [];
+  let bufferTokens = 0;
+
+  const flush = () => {
+    if (buffer.length === 0) return;
+    const speakers = new Set(buffer.map((s) => s.speaker));
+    chunks.push({
+      content: buffer.map((s) => s.line).join('\n'),
+      metadata: {
+        type: 'MEDIA',
+        startSec: buffer[0].startSec,
+        endSec: buffer[buffer.length - 1].endSec,
+        speaker: speakers.size === 1 ? buffer[0].speaker : null,
+      },
+      sourceUrl,
+    });
+    buffer = [];
+    bufferTokens = 0;
+  };
+
+  for (const segment of segments) {
+    const line = segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text;
+    const lineTokens = countTokens(line);
+    if (bufferTokens + lineTokens > CHUNK_SIZE_TOKENS) flush();
+    buffer.push({ ...segment, line });
+    bufferTokens += lineTokens + (bufferTokens > 0 ? 1 : 0);
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Chunk Markdown, HTML and EPUB documents chapter by chapter, so no chunk spans
+ * two chapters. Extractors already convert HTML to Markdown, so an HTML
+ * strategy splits it as Markdown.
+ */
+function chunkChapters(
+  chapters: ChapterText[],
+  dsType: 'MARKDOWN' | 'HTML' | 'EPUB',
+  sourceUrl: string,
+  strategy: ChunkingStrategy
+): ChunkWithMeta[] {
+  const splitStrategy = strategy === 'RECURSIVE' ? 'RECURSIVE' : 'MARKDOWN';
+  return chapters.flatMap((chapter, i) => {
+    const meta: ChunkMeta =
+      dsType === 'EPUB'
+        ? { type: 'EPUB', chapter: chapter.title, chapterIndex: i + 1 }
+        : { type: dsType };
+    return chunkText(chapter.markdown, meta, sourceUrl, splitStrategy);
+  });
+}
+
 function chunkCsvRows(rows: SheetRow[], columns: string[], sourceUrl: string): ChunkWithMeta[] {
   const chunks: ChunkWithMeta[] = [];
   let buffer = '';
@@ -321,7 +564,12 @@ export class DataSourceProcessor extends WorkerHost {
     private textExtractor: TextExtractor,
     private xlsxExtractor: XlsxExtractor,
     private imageExtractor: ImageExtractor,
-    private aiUsageService: AiUsageService
+    private htmlExtractor: HtmlExtractor,
+    private epubExtractor: EpubExtractor,
+    private pptxExtractor: PptxExtractor,
+    private openDocumentExtractor: OpenDocumentExtractor,
+    private mediaExtractor: MediaExtractor,
+    private embeddingService: EmbeddingService
   ) {
     super();
   }
@@ -333,10 +581,11 @@ export class DataSourceProcessor extends WorkerHost {
     const defaultSourceUrl = job.data.sourceUrl ?? previewUrl(dataSourceId, orgId);
 
     const isAppendOnly = Boolean(job.data.appendOnly);
+    const isReindex = Boolean(job.data.reindex);
 
     try {
-      // Update status to PROCESSING (append-only stays READY since old chunks are still valid)
-      if (!isAppendOnly) {
+      // Update status to PROCESSING (append-only and reindex stay READY since old chunks are still valid)
+      if (!isAppendOnly && !isReindex) {
         await this.db.kysely
           .updateTable('data.data_sources')
           .set({ status: 'PROCESSING', updated_at: new Date() })
@@ -345,19 +594,39 @@ export class DataSourceProcessor extends WorkerHost {
           .execute();
       }
 
+      // Custom metadata is copied onto every chunk so search can filter on it
+      const source = await this.db.kysely
+        .selectFrom('data.data_sources')
+        .leftJoin('data.collections', 'data.collections.id', 'data.data_sources.collection_id')
+        .select([
+          'data.data_sources.metadata',
+          'data.data_sources.type',
+          'data.collections.chunking_strategy',
+        ])
+        .where('data.data_sources.id', '=', dataSourceId)
+        .where('data.data_sources.org_id', '=', orgId)
+        .executeTakeFirstOrThrow();
+      const customMetadata = source.metadata;
+      // Stored files synced from an integration (e.g. Google Drive) are handled like uploads of their format
+      const contentType = storagePath ? UPLOADS_MIME_TO_TYPE[mimeType] : source.type;
+      const strategy = resolveChunkingStrategy(contentType, source.chunking_strategy);
+
       // Extract content: use pre-extracted for integration sources, otherwise read from storage
       let chunks: ChunkWithMeta[];
       let fullText: string;
       let pageCount: number | null = null;
+      let ocr: DataSourceOcr | null = null;
+      let images: EmbeddedImage[] = [];
+      let tables: DataTableInput[] = [];
 
       if (job.data.messages) {
         // Group consecutive messages into conversation-window chunks
         const msgs = job.data.messages.filter((m) => m.content.trim().length > 0);
         fullText = msgs.map((m) => m.content).join('\n');
-        chunks = groupMessages(msgs);
+        chunks = groupMessages(msgs, strategy);
       } else if (job.data.content) {
         fullText = job.data.content;
-        chunks = chunkText(fullText, { type: 'TXT' }, defaultSourceUrl);
+        chunks = chunkText(fullText, { type: 'TXT' }, defaultSourceUrl, strategy);
       } else if (mimeType.startsWith('image/')) {
         // Image files get special handling: AI vision extracts description
         const meta = await this.imageExtractor.extractWithMetadata(storagePath, orgId);
@@ -366,8 +635,11 @@ export class DataSourceProcessor extends WorkerHost {
       } else {
         const result = await this.extractContent(storagePath, mimeType);
         fullText = result.text;
-        chunks = this.chunksFromResult(result, defaultSourceUrl, mimeType);
+        chunks = this.chunksFromResult(result, defaultSourceUrl, mimeType, strategy);
         pageCount = result.type === 'pages' ? result.pages.length : null;
+        ocr = result.type === 'pages' ? (result.ocr ?? null) : null;
+        images = result.type === 'pages' ? (result.images ?? []) : [];
+        tables = buildDataTables(result);
       }
 
       if (!fullText.trim()) {
@@ -377,10 +649,13 @@ export class DataSourceProcessor extends WorkerHost {
       this.logger.log(`Split into ${chunks.length} chunks${isAppendOnly ? ' (append)' : ''}`);
 
       // For non-append jobs, delete existing chunks so retries are idempotent
-      // and no orphaned chunks remain from partial previous runs.
+      // and no orphaned chunks remain from partial previous runs. Reindex jobs
+      // only clear staged chunks — the live ones are replaced at the end.
       // For append-only, start chunk_index after the last existing chunk.
       let chunkIndexOffset = 0;
-      if (!isAppendOnly) {
+      if (isReindex) {
+        await this.deleteStagedChunks(dataSourceId, orgId);
+      } else if (!isAppendOnly) {
         await this.db.kysely
           .deleteFrom('data.chunks')
           .where('data_source_id', '=', dataSourceId)
@@ -394,41 +669,48 @@ export class DataSourceProcessor extends WorkerHost {
           .select(this.db.kysely.fn.max('chunk_index').as('max_index'))
           .where('data_source_id', '=', dataSourceId)
           .where('org_id', '=', orgId)
+          .where('staged', '=', false)
           .executeTakeFirst();
         chunkIndexOffset = maxRow?.max_index != null ? maxRow.max_index + 1 : 0;
       }
 
+      // Figures in PDFs and DOCX are indexed as chunks of their own on the page they appear.
+      // Reindexing re-embeds the stored analyses rather than calling the vision model again.
+      if (!isAppendOnly && (contentType === 'PDF' || contentType === 'DOCX')) {
+        const imageChunks = isReindex
+          ? await this.storedImageChunks(dataSourceId, orgId, contentType, defaultSourceUrl)
+          : await this.indexEmbeddedImages(
+              images,
+              dataSourceId,
+              orgId,
+              contentType,
+              defaultSourceUrl
+            );
+        chunks.push(...imageChunks);
+      }
+
       // Generate embeddings in batches
       const batchSize = EMBEDDING_BATCH_SIZE;
 
       for (let i = 0; i < chunks.length; i += batchSize) {
         const batch = chunks.slice(i, i + batchSize);
 
-        const { embeddings, usage: embeddingUsage } = await embedMany({
-          model: openai.embedding('text-embedding-3-small'),
-          values: batch.map((c) => c.content),
-        });
-
-        // Log embedding usage
-        this.aiUsageService
-          .logUsage(
-            EMBEDDING_MODEL,
-            embeddingUsage.tokens,
-            0,
-            AiCallerType.SYSTEM,
-            AiRequestType.EMBEDDING,
-            { orgId, source: 'SYSTEM' }
-          )
-          .catch((err) => this.logger.error(`Embedding usage logging failed: ${err}`));
+        const { vectors, model } = await this.embeddingService.embedDocuments(
+          orgId,
+          batch.map((c) => c.content)
+        );
 
         // Store chunks with embeddings
         const values = batch.map((chunk, idx) => ({
           id: packId('Chunk', orgId),
           content: chunk.content,
           chunk_index: chunkIndexOffset + i + idx,
-          metadata: chunk.metadata,
+          metadata: withLanguage(chunk.metadata, chunk.content),
+          custom_metadata: customMetadata,
           source_url: chunk.sourceUrl,
-          embedding: `[${embeddings[idx].join(',')}]`,
+          embedding: vectors[idx],
+          embedding_model: model,
+          staged: isReindex,
           data_source_id: dataSourceId,
           collection_id: collectionId,
           org_id: orgId,
@@ -439,24 +721,55 @@ export class DataSourceProcessor extends WorkerHost {
         await job.updateProgress(Math.min(((i + batchSize) / chunks.length) * 100, 100));
       }
 
-      // Update data source status to READY
+      // Update data source status to READY, swapping staged chunks in for reindex jobs
       const totalChunks = isAppendOnly ? chunkIndexOffset + chunks.length : chunks.length;
-      await this.db.kysely
-        .updateTable('data.data_sources')
-        .set({
-          status: 'READY',
-          page_count: pageCount ?? totalChunks,
-          updated_at: new Date(),
-        })
-        .where('id', '=', dataSourceId)
-        .where('org_id', '=', orgId)
-        .execute();
+      await this.db.kysely.transaction().execute(async (trx) => {
+        if (isReindex) {
+          await trx
+            .deleteFrom('data.chunks')
+            .where('data_source_id', '=', dataSourceId)
+            .where('org_id', '=', orgId)
+            .where('staged', '=', false)
+            .execute();
+
+          await trx
+            .updateTable('data.chunks')
+            .set({ staged: false })
+            .where('data_source_id', '=', dataSourceId)
+            .where('org_id', '=', orgId)
+            .where('staged', '=', true)
+            .execute();
+        }
+
+        if (!isAppendOnly) {
+          await this.replaceDataTables(trx, dataSourceId, orgId, tables);
+        }
+
+        await trx
+          .updateTable('data.data_sources')
+          .set({
+            status: 'READY',
+            page_count: pageCount ?? totalChunks,
+            ocr: ocr ? JSON.stringify(ocr) : null,
+            ...(isReindex ? {} : { text_body: this.textBody(job.data, chunkIndexOffset) }),
+            updated_at: new Date(),
+          })
+          .where('id', '=', dataSourceId)
+          .where('org_id', '=', orgId)
+          .execute();
+      });
 
       this.logger.log(`Data source ${dataSourceId} processed successfully`);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Failed to process data source ${dataSourceId}: ${message}`);
 
+      // A failed reindex leaves the live chunks untouched, so the source is still READY
+      if (isReindex) {
+        await this.deleteStagedChunks(dataSourceId, orgId);
+        throw error;
+      }
+
       await this.db.kysely
         .updateTable('data.data_sources')
         .set({ status: 'FAILED', updated_at: new Date() })
@@ -468,20 +781,194 @@ export class DataSourceProcessor extends WorkerHost {
     }
   }
 
+  /**
+   * The text to keep for a reindex: a text job's content or messages, and none
+   * for stored files, which are re-extracted. Appended messages extend the kept
+   * ones; a source whose earlier messages were indexed before text was kept has
+   * no complete history, so it keeps none.
+   */
+  private textBody(data: DataSourceJobData, chunkIndexOffset: number) {
+    if (data.messages && data.appendOnly && chunkIndexOffset > 0) {
+      return sql<string | null>`CASE WHEN text_body IS NULL THEN NULL ELSE jsonb_build_object(
+        'messages', COALESCE(text_body->'messages', '[]'::jsonb) || ${JSON.stringify(data.messages)}::jsonb
+      ) END`;
+    }
+    if (data.messages) return JSON.stringify({ messages: data.messages });
+    if (data.content) return JSON.stringify({ content: data.content });
+    return null;
+  }
+
+  /**
+   * Describe each embedded image with the vision model and keep the original in
+   * storage so cited figures can be shown on the canvas. Images from a previous
+   * run are removed first; an image that fails analysis is skipped.
+   */
+  private async indexEmbeddedImages(
+    images: EmbeddedImage[],
+    dataSourceId: DbId<'DataSource'>,
+    orgId: DbId<'Org'>,
+    metaType: 'PDF' | 'DOCX',
+    sourceUrl: string
+  ): Promise<ChunkWithMeta[]> {
+    await this.deleteExtractedImages(dataSourceId, orgId);
+
+    const orgNum = extractOrgNumericId(orgId).toString();
+    const chunks: ChunkWithMeta[] = [];
+    for (const image of images) {
+      try {
+        const { text } = await this.imageExtractor.describe(image.data, orgId);
+        const imageId = packId('ExtractedImage', orgId);
+        const storagePath = `${orgNum}/${imageId}.${image.mimeType.split('/')[1]}`;
+        await this.storage.put(storagePath, image.data, image.mimeType);
+        await this.db.kysely
+          .insertInto('data.extracted_images')
+          .values({
+            id: imageId,
+            org_id: orgId,
+            data_source_id: dataSourceId,
+            storage_path: storagePath,
+            mime_type: image.mimeType,
+            page_number: image.page,
+            ai_description: text,
+          })
+          .execute();
+        chunks.push(
+          embeddedImageChunk({ id: imageId, page: image.page, analysis: text }, metaType, sourceUrl)
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Skipping image on page ${image.page}: ${message}`);
+      }
+    }
+
+    if (images.length > 0) {
+      this.logger.log(`Indexed ${chunks.length}/${images.length} embedded images`);
+    }
+    return chunks;
+  }
+
+  private async storedImageChunks(
+    dataSourceId: DbId<'DataSource'>,
+    orgId: DbId<'Org'>,
+    metaType: 'PDF' | 'DOCX',
+    sourceUrl: string
+  ): Promise<ChunkWithMeta[]> {
+    const rows = await this.db.kysely
+      .selectFrom('data.extracted_images')
+      .select(['id', 'page_number', 'ai_description'])
+      .where('data_source_id', '=', dataSourceId)
+      .where('org_id', '=', orgId)
+      .orderBy('page_number')
+      .execute();
+
+    return rows.flatMap((row) =>
+      row.page_number !== null && row.ai_description
+        ? [
+            embeddedImageChunk(
+              { id: row.id, page: row.page_number, analysis: row.ai_description },
+              metaType,
+              sourceUrl
+            ),
+          ]
+        : []
+    );
+  }
+
+  private async deleteExtractedImages(dataSourceId: DbId<'DataSource'>, orgId: DbId<'Org'>) {
+    const removed = await this.db.kysely
+      .deleteFrom('data.extracted_images')
+      .where('data_source_id', '=', dataSourceId)
+      .where('org_id', '=', orgId)
+      .returning('storage_path')
+      .execute();
+
+    for (const { storage_path } of removed) {
+      await this.storage.delete(storage_path).catch((error) => {
+        this.logger.warn(`Failed to delete extracted image ${storage_path}: ${error}`);
+      });
+    }
+  }
+
+  private async deleteStagedChunks(dataSourceId: DbId<'DataSource'>, orgId: DbId<'Org'>) {
+    await this.db.kysely
+      .deleteFrom('data.chunks')
+      .where('data_source_id', '=', dataSourceId)
+      .where('org_id', '=', orgId)
+      .where('staged', '=', true)
+      .execute();
+  }
+
+  /** Swap in the typed tables parsed from a spreadsheet, used by the table query tool. */
+  private async replaceDataTables(
+    trx: Transaction<DB>,
+    dataSourceId: DbId<'DataSource'>,
+    orgId: DbId<'Org'>,
+    tables: DataTableInput[]
+  ) {
+    await trx
+      .deleteFrom('data.data_tables')
+      .where('data_source_id', '=', dataSourceId)
+      .where('org_id', '=', orgId)
+      .execute();
+
+    for (const table of tables) {
+      const { id: tableId } = await trx
+        .insertInto('data.data_tables')
+        .values({
+          id: packId('DataTable', orgId),
+          org_id: orgId,
+          data_source_id: dataSourceId,
+          sheet: table.sheet,
+          columns: JSON.stringify(table.columns),
+          row_count: table.rows.length,
+        })
+        .returning('id')
+        .executeTakeFirstOrThrow();
+
+      for (let i = 0; i < table.rows.length; i += DATA_TABLE_INSERT_BATCH_SIZE) {
+        await trx
+          .insertInto('data.data_table_rows')
+          .values(
+            table.rows.slice(i, i + DATA_TABLE_INSERT_BATCH_SIZE).map((r) => ({
+              table_id: tableId,
+              org_id: orgId,
+              row: r.row,
+              cells: JSON.stringify(r.cells),
+            }))
+          )
+          .execute();
+      }
+    }
+  }
+
   private chunksFromResult(
     result: ExtractionResult,
     sourceUrl: string,
-    mimeType: UploadsMime
+    mimeType: UploadsMime,
+    strategy: ChunkingStrategy
   ): ChunkWithMeta[] {
     const dsType = UPLOADS_MIME_TO_TYPE[mimeType];
 
     switch (result.type) {
       case 'pages':
         return chunkPagesText(result.pages, dsType === 'DOCX' ? 'DOCX' : 'PDF', sourceUrl);
+      case 'slides':
+        return chunkSlides(result.slides, sourceUrl);
+      case 'records':
+        return chunkJsonRecords(result.records, sourceUrl);
+      case 'transcript':
+        return chunkTranscript(result.segments, sourceUrl);
       case 'sheets':
         return chunkSheets(result.sheets, sourceUrl);
       case 'rows':
         return chunkCsvRows(result.rows, result.columns, sourceUrl);
+      case 'chapters':
+        return chunkChapters(
+          result.chapters,
+          dsType === 'EPUB' || dsType === 'HTML' ? dsType : 'MARKDOWN',
+          sourceUrl,
+          strategy
+        );
       case 'text': {
         const meta: ChunkMeta =
           dsType === 'JSON'
@@ -489,7 +976,7 @@ export class DataSourceProcessor extends WorkerHost {
             : dsType === 'IMAGE'
               ? { type: 'IMAGE' }
               : { type: 'TXT' };
-        return chunkText(result.text, meta, sourceUrl);
+        return chunkText(result.text, meta, sourceUrl, strategy);
       }
     }
   }
@@ -504,19 +991,45 @@ export class DataSourceProcessor extends WorkerHost {
       case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
       case 'application/msword':
         return this.docxExtractor.extract(storagePath);
+      case 'application/vnd.oasis.opendocument.text':
+        return this.openDocumentExtractor.extractText(storagePath);
+      case 'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+        return this.pptxExtractor.extract(storagePath);
+      case 'application/vnd.oasis.opendocument.presentation':
+        return this.openDocumentExtractor.extractPresentation(storagePath);
       case 'text/csv':
+      case 'text/tab-separated-values':
         return this.textExtractor.extractCsv(storagePath);
       case 'text/plain':
-      case 'application/json':
         return this.textExtractor.extract(storagePath);
+      case 'application/json':
+        return this.textExtractor.extractJson(storagePath, { lines: false });
+      case 'application/x-ndjson':
+        return this.textExtractor.extractJson(storagePath, { lines: true });
+      case 'text/markdown':
+        return this.textExtractor.extractMarkdown(storagePath);
+      case 'text/html':
+        return this.htmlExtractor.extract(storagePath);
+      case 'application/epub+zip':
+        return this.epubExtractor.extract(storagePath);
       case 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
       case 'application/vnd.ms-excel':
+      case 'application/vnd.oasis.opendocument.spreadsheet':
         return this.xlsxExtractor.extract(storagePath);
       case 'image/png':
       case 'image/jpeg':
       case 'image/webp':
       case 'image/gif':
         return this.imageExtractor.extract(storagePath);
+      case 'audio/mpeg':
+      case 'audio/mp4':
+      case 'audio/wav':
+      case 'audio/ogg':
+      case 'audio/flac':
+      case 'video/mp4':
+      case 'video/quicktime':
+      case 'video/webm':
+        return this.mediaExtractor.extract(storagePath);
       default: {
         const _exhaustive: never = mimeType;
         throw new Error(`Unsupported mime type: ${_exhaustive}`);
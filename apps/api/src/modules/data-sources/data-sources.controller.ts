@@ -1,16 +1,28 @@
-import { Controller, Get, Logger, Param, Res, UploadedFile, UseInterceptors } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Headers,
+  Logger,
+  NotFoundException,
+  Param,
+  Res,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 
 import { dbIdSchema } from '@grabdy/common';
-import { dataSourcesContract } from '@grabdy/contracts';
+import { dataSourcesContract, parseDataSourceMetadataJson } from '@grabdy/contracts';
 import { TsRestHandler, tsRestHandler } from '@ts-rest/nest';
 import { Response } from 'express';
 
 import { CurrentUser, JwtPayload } from '../../common/decorators/current-user.decorator';
 import { OrgAccess } from '../../common/decorators/org-roles.decorator';
-import { MAX_FILE_SIZE_BYTES } from '../../config/constants';
+import { ARCHIVE_MAX_UPLOAD_BYTES, MAX_FILE_SIZE_BYTES } from '../../config/constants';
 
+import { ArchiveUploadService } from './archive-upload.service';
 import { DataSourcesService } from './data-sources.service';
+import { ReindexService } from './reindex.service';
 
 function toISOString(date: Date): string {
   return date.toISOString();
@@ -20,7 +32,11 @@ function toISOString(date: Date): string {
 export class DataSourcesController {
   private readonly logger = new Logger(DataSourcesController.name);
 
-  constructor(private dataSourcesService: DataSourcesService) {}
+  constructor(
+    private dataSourcesService: DataSourcesService,
+    private archiveUploadService: ArchiveUploadService,
+    private reindexService: ReindexService
+  ) {}
 
   @OrgAccess(dataSourcesContract.upload, { params: ['orgId'] })
   @TsRestHandler(dataSourcesContract.upload)
@@ -46,6 +62,7 @@ export class DataSourcesController {
           collectionId: rawCollectionId
             ? dbIdSchema('Collection').parse(rawCollectionId)
             : undefined,
+          metadata: body.metadata ? parseDataSourceMetadataJson(body.metadata) : undefined,
         });
 
         return {
@@ -77,6 +94,62 @@ export class DataSourcesController {
     });
   }
 
+  @OrgAccess(dataSourcesContract.uploadArchive, { params: ['orgId'] })
+  @TsRestHandler(dataSourcesContract.uploadArchive)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: ARCHIVE_MAX_UPLOAD_BYTES } }))
+  async uploadArchive(@CurrentUser() user: JwtPayload, @UploadedFile() file: Express.Multer.File) {
+    return tsRestHandler(dataSourcesContract.uploadArchive, async ({ params, body }) => {
+      try {
+        if (!file) {
+          return {
+            status: 400 as const,
+            body: { success: false as const, error: 'No file uploaded' },
+          };
+        }
+
+        // Multipart form fields may arrive JSON-encoded (double-quoted strings)
+        const rawCollectionId = body.collectionId
+          ? body.collectionId.replace(/^"|"$/g, '')
+          : undefined;
+
+        const { dataSources, files } = await this.archiveUploadService.upload(
+          params.orgId,
+          user.sub,
+          file,
+          {
+            collectionId: rawCollectionId
+              ? dbIdSchema('Collection').parse(rawCollectionId)
+              : undefined,
+            foldersAsCollections: body.foldersAsCollections?.replace(/^"|"$/g, '') === 'true',
+            metadata: body.metadata ? parseDataSourceMetadataJson(body.metadata) : undefined,
+          }
+        );
+
+        return {
+          status: 200 as const,
+          body: {
+            success: true as const,
+            data: {
+              dataSources: dataSources.map((ds) => ({
+                ...ds,
+                createdAt: toISOString(ds.createdAt),
+                updatedAt: toISOString(ds.updatedAt),
+              })),
+              files,
+            },
+          },
+        };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Upload failed';
+        this.logger.error(`Archive upload failed: ${msg}`);
+        return {
+          status: 400 as const,
+          body: { success: false as const, error: msg },
+        };
+      }
+    });
+  }
+
   @OrgAccess(dataSourcesContract.list, { params: ['orgId'] })
   @TsRestHandler(dataSourcesContract.list)
   async list() {
@@ -197,6 +270,36 @@ export class DataSourcesController {
     });
   }
 
+  @OrgAccess(dataSourcesContract.updateMetadata, { params: ['orgId', 'id'] })
+  @TsRestHandler(dataSourcesContract.updateMetadata)
+  async updateMetadata() {
+    return tsRestHandler(dataSourcesContract.updateMetadata, async ({ params, body }) => {
+      try {
+        const dataSource = await this.dataSourcesService.updateMetadata(
+          params.orgId,
+          params.id,
+          body.metadata
+        );
+        return {
+          status: 200 as const,
+          body: {
+            success: true as const,
+            data: {
+              ...dataSource,
+              createdAt: toISOString(dataSource.createdAt),
+              updatedAt: toISOString(dataSource.updatedAt),
+            },
+          },
+        };
+      } catch {
+        return {
+          status: 404 as const,
+          body: { success: false as const, error: 'Data source not found' },
+        };
+      }
+    });
+  }
+
   @OrgAccess(dataSourcesContract.previewUrl, { params: ['orgId', 'id'] })
   @TsRestHandler(dataSourcesContract.previewUrl)
   async previewUrl() {
@@ -216,10 +319,150 @@ export class DataSourcesController {
     });
   }
 
+  @OrgAccess(dataSourcesContract.imageUrl, { params: ['orgId', 'id'] })
+  @TsRestHandler(dataSourcesContract.imageUrl)
+  async imageUrl() {
+    return tsRestHandler(dataSourcesContract.imageUrl, async ({ params }) => {
+      try {
+        const data = await this.dataSourcesService.getImageUrl(
+          params.orgId,
+          params.id,
+          params.imageId
+        );
+        return {
+          status: 200 as const,
+          body: { success: true as const, data },
+        };
+      } catch {
+        return {
+          status: 404 as const,
+          body: { success: false as const, error: 'Image not found' },
+        };
+      }
+    });
+  }
+
+  @OrgAccess(dataSourcesContract.startReindex, { roles: ['OWNER', 'ADMIN'], params: ['orgId'] })
+  @TsRestHandler(dataSourcesContract.startReindex)
+  async startReindex(@CurrentUser() user: JwtPayload) {
+    return tsRestHandler(dataSourcesContract.startReindex, async ({ params, body }) => {
+      try {
+        const reindexJob = await this.reindexService.start(
+          params.orgId,
+          user.sub,
+          body.collectionId ?? null
+        );
+        return { status: 200 as const, body: { success: true as const, data: reindexJob } };
+      } catch (error) {
+        if (error instanceof NotFoundException) {
+          return {
+            status: 404 as const,
+            body: { success: false as const, error: 'Collection not found' },
+          };
+        }
+        return {
+          status: 400 as const,
+          body: {
+            success: false as const,
+            error: error instanceof Error ? error.message : 'Failed to start reindex',
+          },
+        };
+      }
+    });
+  }
+
+  @OrgAccess(dataSourcesContract.listReindexJobs, {
+    roles: ['OWNER', 'ADMIN'],
+    params: ['orgId'],
+  })
+  @TsRestHandler(dataSourcesContract.listReindexJobs)
+  async listReindexJobs() {
+    return tsRestHandler(dataSourcesContract.listReindexJobs, async ({ params }) => {
+      const reindexJobs = await this.reindexService.list(params.orgId);
+      return { status: 200 as const, body: { success: true as const, data: reindexJobs } };
+    });
+  }
+
+  @OrgAccess(dataSourcesContract.getReindexJob, {
+    roles: ['OWNER', 'ADMIN'],
+    params: ['orgId', 'reindexJobId'],
+  })
+  @TsRestHandler(dataSourcesContract.getReindexJob)
+  async getReindexJob() {
+    return tsRestHandler(dataSourcesContract.getReindexJob, async ({ params }) => {
+      try {
+        const reindexJob = await this.reindexService.get(params.orgId, params.reindexJobId);
+        return { status: 200 as const, body: { success: true as const, data: reindexJob } };
+      } catch {
+        return {
+          status: 404 as const,
+          body: { success: false as const, error: 'Reindex job not found' },
+        };
+      }
+    });
+  }
+
+  @OrgAccess(dataSourcesContract.cancelReindexJob, {
+    roles: ['OWNER', 'ADMIN'],
+    params: ['orgId', 'reindexJobId'],
+  })
+  @TsRestHandler(dataSourcesContract.cancelReindexJob)
+  async cancelReindexJob() {
+    return tsRestHandler(dataSourcesContract.cancelReindexJob, async ({ params }) => {
+      try {
+        const reindexJob = await this.reindexService.cancel(params.orgId, params.reindexJobId);
+        return { status: 200 as const, body: { success: true as const, data: reindexJob } };
+      } catch (error) {
+        if (error instanceof NotFoundException) {
+          return {
+            status: 404 as const,
+            body: { success: false as const, error: 'Reindex job not found' },
+          };
+        }
+        return {
+          status: 400 as const,
+          body: {
+            success: false as const,
+            error: error instanceof Error ? error.message : 'Failed to cancel reindex',
+          },
+        };
+      }
+    });
+  }
+
+  @OrgAccess(dataSourcesContract.resumeReindexJob, {
+    roles: ['OWNER', 'ADMIN'],
+    params: ['orgId', 'reindexJobId'],
+  })
+  @TsRestHandler(dataSourcesContract.resumeReindexJob)
+  async resumeReindexJob() {
+    return tsRestHandler(dataSourcesContract.resumeReindexJob, async ({ params }) => {
+      try {
+        const reindexJob = await this.reindexService.resume(params.orgId, params.reindexJobId);
+        return { status: 200 as const, body: { success: true as const, data: reindexJob } };
+      } catch (error) {
+        if (error instanceof NotFoundException) {
+          return {
+            status: 404 as const,
+            body: { success: false as const, error: 'Reindex job not found' },
+          };
+        }
+        return {
+          status: 400 as const,
+          body: {
+            success: false as const,
+            error: error instanceof Error ? error.message : 'Failed to resume reindex',
+          },
+        };
+      }
+    });
+  }
+
   @Get('/files/:orgNum/:filename')
   async serveFile(
     @Param('orgNum') orgNum: string,
     @Param('filename') filename: string,
+    @Headers('range') range: string | undefined,
     @Res() res: Response
   ) {
     try {
@@ -229,33 +472,88 @@ export class DataSourcesController {
       type ServableExt =
         | 'pdf'
         | 'csv'
+        | 'tsv'
         | 'txt'
         | 'json'
+        | 'jsonl'
         | 'docx'
+        | 'odt'
         | 'xlsx'
         | 'xls'
+        | 'ods'
+        | 'pptx'
+        | 'odp'
         | 'png'
         | 'jpg'
         | 'jpeg'
         | 'webp'
-        | 'gif';
+        | 'gif'
+        | 'mp3'
+        | 'm4a'
+        | 'wav'
+        | 'ogg'
+        | 'flac'
+        | 'mp4'
+        | 'mov'
+        | 'webm'
+        | 'md'
+        | 'markdown'
+        | 'html'
+        | 'htm'
+        | 'epub';
       const mimeMap: Record<ServableExt, string> = {
         pdf: 'application/pdf',
         csv: 'text/csv',
+        tsv: 'text/tab-separated-values',
         txt: 'text/plain',
         json: 'application/json',
+        jsonl: 'application/x-ndjson',
         docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        odt: 'application/vnd.oasis.opendocument.text',
         xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
         xls: 'application/vnd.ms-excel',
+        ods: 'application/vnd.oasis.opendocument.spreadsheet',
+        pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        odp: 'application/vnd.oasis.opendocument.presentation',
         png: 'image/png',
         jpg: 'image/jpeg',
         jpeg: 'image/jpeg',
         webp: 'image/webp',
         gif: 'image/gif',
+        mp3: 'audio/mpeg',
+        m4a: 'audio/mp4',
+        wav: 'audio/wav',
+        ogg: 'audio/ogg',
+        flac: 'audio/flac',
+        mp4: 'video/mp4',
+        mov: 'video/quicktime',
+        webm: 'video/webm',
+        md: 'text/markdown; charset=utf-8',
+        markdown: 'text/markdown; charset=utf-8',
+        // Uploaded pages are shown as source, never rendered on our origin
+        html: 'text/plain; charset=utf-8',
+        htm: 'text/plain; charset=utf-8',
+        epub: 'application/epub+zip',
       };
       const isServableExt = (e: string): e is ServableExt => e in mimeMap;
       res.setHeader('Content-Type', isServableExt(ext) ? mimeMap[ext] : 'application/octet-stream');
       res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+      res.setHeader('Accept-Ranges', 'bytes');
+
+      // Audio and video players fetch byte ranges to seek, e.g. to a cited timestamp
+      const match = range ? /^bytes=(\d*)-(\d*)$/.exec(range) : null;
+      if (match && (match[1] || match[2])) {
+        const size = buffer.length;
+        const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+        const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+        if (start > end) {
+          res.status(416).setHeader('Content-Range', `bytes */${size}`).end();
+          return;
+        }
+        res.status(206).setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+        res.send(buffer.subarray(start, end + 1));
+        return;
+      }
       res.send(buffer);
     } catch (error) {
       this.logger.warn(`File serve failed: ${error instanceof Error ? error.message : error}`);
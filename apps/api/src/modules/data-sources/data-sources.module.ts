@@ -2,17 +2,31 @@ import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
 
 import { ExtractorsModule } from '../extractors/extractors.module';
-import { DATA_SOURCE_QUEUE } from '../queue/queue.constants';
+import { DATA_SOURCE_QUEUE, REINDEX_QUEUE } from '../queue/queue.constants';
 import { StorageModule } from '../storage/storage.module';
 
+import { ArchiveUploadService } from './archive-upload.service';
 import { DataSourceProcessor } from './data-source.processor';
 import { DataSourcesController } from './data-sources.controller';
 import { DataSourcesService } from './data-sources.service';
+import { ReindexProcessor } from './reindex.processor';
+import { ReindexService } from './reindex.service';
 
 @Module({
-  imports: [StorageModule, ExtractorsModule, BullModule.registerQueue({ name: DATA_SOURCE_QUEUE })],
+  imports: [
+    StorageModule,
+    ExtractorsModule,
+    BullModule.registerQueue({ name: DATA_SOURCE_QUEUE }),
+    BullModule.registerQueue({ name: REINDEX_QUEUE }),
+  ],
   controllers: [DataSourcesController],
-  providers: [DataSourcesService, DataSourceProcessor],
+  providers: [
+    DataSourcesService,
+    ArchiveUploadService,
+    DataSourceProcessor,
+    ReindexService,
+    ReindexProcessor,
+  ],
   exports: [DataSourcesService],
 })
 export class DataSourcesModule {}
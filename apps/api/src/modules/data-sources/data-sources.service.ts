@@ -2,9 +2,16 @@ import { InjectQueue } from '@nestjs/bullmq';
 import { Inject, Injectable, NotFoundException } from '@nestjs/common';
 
 import { type DbId, extractOrgNumericId, packId } from '@grabdy/common';
-import type { DataSourceStatus, DataSourceType } from '@grabdy/contracts';
-import { isUploadsMime, UPLOADS_MIME_TO_TYPE } from '@grabdy/contracts';
+import type {
+  DataSourceMetadata,
+  DataSourceOcr,
+  DataSourceStatus,
+  DataSourceType,
+} from '@grabdy/contracts';
+import { isUploadsMime, resolveUploadsMime, UPLOADS_MIME_TO_TYPE } from '@grabdy/contracts';
 import { Queue } from 'bullmq';
+import { sql } from 'kysely';
+import { randomBytes } from 'node:crypto';
 
 import { getMaxFileSizeForMime } from '../../config/constants';
 import { env } from '../../config/env.config';
@@ -13,7 +20,56 @@ import { DATA_SOURCE_QUEUE } from '../queue/queue.constants';
 import type { FileStorage } from '../storage/file-storage.interface';
 import { FILE_STORAGE } from '../storage/file-storage.interface';
 
-import type { DataSourceJobData } from './data-source.processor';
+import type { DataSourceJobData, SyncedMessageData } from './data-source.processor';
+
+/** Every column but `text_body`, which can be large and is only read by reindexing. */
+const DATA_SOURCE_COLUMNS = [
+  'id',
+  'title',
+  'mime_type',
+  'file_size',
+  'storage_path',
+  'type',
+  'status',
+  'page_count',
+  'ocr',
+  'collection_id',
+  'org_id',
+  'external_id',
+  'metadata',
+  'uploaded_by_id',
+  'created_at',
+  'updated_at',
+] as const;
+
+export interface DocumentMessageInput {
+  content: string;
+  author?: string;
+  timestamp?: string;
+  sourceUrl?: string;
+}
+
+export interface DocumentInput {
+  externalId: string;
+  title: string;
+  content?: string;
+  messages?: DocumentMessageInput[];
+  sourceUrl?: string;
+  collectionId?: DbId<'Collection'>;
+  metadata?: DataSourceMetadata;
+}
+
+/** Render a message as `[timestamp] author: content` so both survive chunking. */
+function formatDocumentMessage(msg: DocumentMessageInput): string {
+  const prefix = [msg.timestamp && `[${msg.timestamp}]`, msg.author && `${msg.author}:`]
+    .filter(Boolean)
+    .join(' ');
+  return prefix ? `${prefix} ${msg.content}` : msg.content;
+}
+
+function previewUrl(dataSourceId: DbId<'DataSource'>, orgId: DbId<'Org'>): string {
+  return `${env.frontendUrl}/dashboard/sources?preview=${dataSourceId}&org=${orgId}`;
+}
 
 @Injectable()
 export class DataSourcesService {
@@ -25,28 +81,29 @@ export class DataSourcesService {
 
   async upload(
     orgId: DbId<'Org'>,
-    userId: DbId<'User'>,
-    file: Express.Multer.File,
-    options: { name?: string; collectionId?: DbId<'Collection'> }
+    userId: DbId<'User'> | null,
+    file: Pick<Express.Multer.File, 'originalname' | 'mimetype' | 'size' | 'buffer'>,
+    options: { name?: string; collectionId?: DbId<'Collection'>; metadata?: DataSourceMetadata }
   ) {
-    if (!isUploadsMime(file.mimetype)) {
+    const mimeType = resolveUploadsMime(file.mimetype, file.originalname);
+    if (!mimeType) {
       throw new Error(`Unsupported file type: ${file.mimetype}`);
     }
-    const mimeType = file.mimetype;
     const type = UPLOADS_MIME_TO_TYPE[mimeType];
 
-    const maxSize = getMaxFileSizeForMime(file.mimetype);
+    const maxSize = getMaxFileSizeForMime(mimeType);
     if (file.size > maxSize) {
       const limitMB = Math.round(maxSize / (1024 * 1024));
       throw new Error(`File too large. Maximum size for ${type} files is ${limitMB} MB`);
     }
 
-    // Storage key: {orgNumericId}/{timestamp}-{originalname}
+    // Storage key: {orgNumericId}/{timestamp}-{random}-{originalname}. The random part keeps
+    // same-named files from one archive (every folder's README.md) from overwriting each other.
     const orgNum = extractOrgNumericId(orgId).toString();
-    const filename = `${Date.now()}-${file.originalname}`;
+    const filename = `${Date.now()}-${randomBytes(4).toString('hex')}-${file.originalname}`;
     const storageKey = `${orgNum}/${filename}`;
 
-    await this.storage.put(storageKey, file.buffer, file.mimetype);
+    await this.storage.put(storageKey, file.buffer, mimeType);
 
     const collectionId = options.collectionId ?? null;
     const dataSourceId = packId('DataSource', orgId);
@@ -56,17 +113,18 @@ export class DataSourcesService {
       .values({
         id: dataSourceId,
         title: options.name ?? file.originalname,
-        mime_type: file.mimetype,
+        mime_type: mimeType,
         file_size: file.size,
         storage_path: storageKey,
         type,
-        source_url: `${env.frontendUrl}/dashboard/sources?preview=${dataSourceId}&org=${orgId}`,
+        source_url: previewUrl(dataSourceId, orgId),
         collection_id: collectionId,
         org_id: orgId,
         uploaded_by_id: userId,
+        metadata: options.metadata ?? {},
         updated_at: new Date(),
       })
-      .returningAll()
+      .returning(DATA_SOURCE_COLUMNS)
       .executeTakeFirstOrThrow();
 
     // Queue processing job
@@ -86,7 +144,7 @@ export class DataSourcesService {
   async list(orgId: DbId<'Org'>, collectionId?: DbId<'Collection'>) {
     let query = this.db.kysely
       .selectFrom('data.data_sources')
-      .selectAll()
+      .select(DATA_SOURCE_COLUMNS)
       .where('org_id', '=', orgId);
 
     if (collectionId) {
@@ -97,10 +155,137 @@ export class DataSourcesService {
     return dataSources.map(this.toResponse);
   }
 
+  async listPage(
+    orgId: DbId<'Org'>,
+    options: {
+      collectionId?: DbId<'Collection'>;
+      status?: DataSourceStatus;
+      page: number;
+      limit: number;
+    }
+  ) {
+    let query = this.db.kysely.selectFrom('data.data_sources').where('org_id', '=', orgId);
+
+    if (options.collectionId) {
+      query = query.where('collection_id', '=', options.collectionId);
+    }
+    if (options.status) {
+      query = query.where('status', '=', options.status);
+    }
+
+    const [dataSources, count] = await Promise.all([
+      query
+        .select(DATA_SOURCE_COLUMNS)
+        .orderBy('created_at', 'desc')
+        .orderBy('id', 'desc')
+        .limit(options.limit)
+        .offset((options.page - 1) * options.limit)
+        .execute(),
+      query.select(sql<number>`count(*)`.as('total')).executeTakeFirstOrThrow(),
+    ]);
+
+    return { items: dataSources.map(this.toResponse), total: Number(count.total) };
+  }
+
+  /**
+   * Create or replace a document pushed through the public API.
+   * Documents have no stored file — their text goes straight into the
+   * processing job's `content`/`messages`, like integration items.
+   */
+  async upsertDocument(orgId: DbId<'Org'>, input: DocumentInput) {
+    const messages = input.messages?.map(formatDocumentMessage);
+    const text = messages ? messages.join('\n') : (input.content ?? '');
+
+    const values = {
+      title: input.title,
+      file_size: Buffer.byteLength(text, 'utf-8'),
+      status: 'UPLOADED' as const,
+      metadata: input.metadata ?? {},
+      updated_at: new Date(),
+    };
+
+    // One statement, so concurrent pushes of the same externalId update one row.
+    // A replaced document keeps its id, so its default preview URL (see
+    // previewUrl) is rebuilt from the stored id rather than the new one.
+    const dataSourceId = packId('DataSource', orgId);
+    const dataSource = await this.db.kysely
+      .insertInto('data.data_sources')
+      .values({
+        ...values,
+        id: dataSourceId,
+        mime_type: 'text/plain',
+        storage_path: '',
+        type: 'TXT',
+        source_url: input.sourceUrl ?? previewUrl(dataSourceId, orgId),
+        collection_id: input.collectionId ?? null,
+        external_id: input.externalId,
+        org_id: orgId,
+        uploaded_by_id: null,
+      })
+      .onConflict((oc) =>
+        oc
+          .columns(['org_id', 'external_id'])
+          .where('connection_id', 'is', null)
+          .where('type', '=', 'TXT')
+          .where('external_id', 'is not', null)
+          .doUpdateSet({
+            ...values,
+            source_url:
+              input.sourceUrl ??
+              sql<string>`${`${env.frontendUrl}/dashboard/sources?preview=`} || data.data_sources.id || ${`&org=${orgId}`}`,
+            ...(input.collectionId !== undefined && { collection_id: input.collectionId }),
+          })
+      )
+      .returning([...DATA_SOURCE_COLUMNS, 'source_url', sql<boolean>`xmax = 0`.as('created')])
+      .executeTakeFirstOrThrow();
+
+    const jobData: DataSourceJobData = {
+      dataSourceId: dataSource.id,
+      orgId,
+      storagePath: '',
+      mimeType: 'text/plain',
+      collectionId: dataSource.collection_id,
+      content: messages ? undefined : input.content,
+      messages: messages?.map(
+        (content, i): SyncedMessageData => ({
+          content,
+          metadata: { type: 'TXT' },
+          sourceUrl: input.messages?.[i].sourceUrl ?? dataSource.source_url,
+        })
+      ),
+      sourceUrl: dataSource.source_url,
+    };
+
+    await this.dataSourceQueue.add('process', jobData);
+
+    return { dataSource: this.toResponse(dataSource), created: dataSource.created };
+  }
+
+  async deleteDocument(orgId: DbId<'Org'>, externalId: string) {
+    const existing = await this.findDocument(orgId, externalId);
+    if (!existing) {
+      throw new NotFoundException('Document not found');
+    }
+
+    await this.delete(orgId, existing.id);
+  }
+
+  /** API documents are plain-text sources keyed by `external_id` with no connection. */
+  private findDocument(orgId: DbId<'Org'>, externalId: string) {
+    return this.db.kysely
+      .selectFrom('data.data_sources')
+      .select(['id', 'collection_id'])
+      .where('org_id', '=', orgId)
+      .where('external_id', '=', externalId)
+      .where('connection_id', 'is', null)
+      .where('type', '=', 'TXT')
+      .executeTakeFirst();
+  }
+
   async findById(orgId: DbId<'Org'>, id: DbId<'DataSource'>) {
     const dataSource = await this.db.kysely
       .selectFrom('data.data_sources')
-      .selectAll()
+      .select(DATA_SOURCE_COLUMNS)
       .where('id', '=', id)
       .where('org_id', '=', orgId)
       .executeTakeFirst();
@@ -131,6 +316,14 @@ export class DataSourcesService {
       .where('org_id', '=', orgId)
       .execute();
 
+    // Extracted image rows go with the data source; their files are removed below
+    const images = await this.db.kysely
+      .selectFrom('data.extracted_images')
+      .select('storage_path')
+      .where('data_source_id', '=', id)
+      .where('org_id', '=', orgId)
+      .execute();
+
     // Delete the data source record
     await this.db.kysely
       .deleteFrom('data.data_sources')
@@ -138,8 +331,13 @@ export class DataSourcesService {
       .where('org_id', '=', orgId)
       .execute();
 
-    // Delete file from storage
-    await this.storage.delete(dataSource.storage_path);
+    // Delete file from storage (integration items and API documents have none)
+    if (dataSource.storage_path) {
+      await this.storage.delete(dataSource.storage_path);
+    }
+    for (const image of images) {
+      await this.storage.delete(image.storage_path);
+    }
   }
 
   async rename(orgId: DbId<'Org'>, id: DbId<'DataSource'>, title: string) {
@@ -148,7 +346,7 @@ export class DataSourcesService {
       .set({ title, updated_at: new Date() })
       .where('id', '=', id)
       .where('org_id', '=', orgId)
-      .returningAll()
+      .returning(DATA_SOURCE_COLUMNS)
       .executeTakeFirst();
 
     if (!dataSource) {
@@ -158,6 +356,35 @@ export class DataSourcesService {
     return this.toResponse(dataSource);
   }
 
+  /**
+   * Replace a data source's custom metadata. Chunks carry a copy for filtering,
+   * so they are updated in the same transaction instead of being reprocessed.
+   */
+  async updateMetadata(orgId: DbId<'Org'>, id: DbId<'DataSource'>, metadata: DataSourceMetadata) {
+    return this.db.kysely.transaction().execute(async (trx) => {
+      const dataSource = await trx
+        .updateTable('data.data_sources')
+        .set({ metadata, updated_at: new Date() })
+        .where('id', '=', id)
+        .where('org_id', '=', orgId)
+        .returning(DATA_SOURCE_COLUMNS)
+        .executeTakeFirst();
+
+      if (!dataSource) {
+        throw new NotFoundException('Data source not found');
+      }
+
+      await trx
+        .updateTable('data.chunks')
+        .set({ custom_metadata: metadata })
+        .where('data_source_id', '=', id)
+        .where('org_id', '=', orgId)
+        .execute();
+
+      return this.toResponse(dataSource);
+    });
+  }
+
   async getFileBuffer(key: string): Promise<Buffer> {
     return this.storage.get(key);
   }
@@ -183,10 +410,35 @@ export class DataSourcesService {
     };
   }
 
+  async getImageUrl(
+    orgId: DbId<'Org'>,
+    dataSourceId: DbId<'DataSource'>,
+    imageId: DbId<'ExtractedImage'>
+  ) {
+    const image = await this.db.kysely
+      .selectFrom('data.extracted_images')
+      .select(['storage_path', 'mime_type', 'page_number', 'ai_description'])
+      .where('id', '=', imageId)
+      .where('data_source_id', '=', dataSourceId)
+      .where('org_id', '=', orgId)
+      .executeTakeFirst();
+
+    if (!image) {
+      throw new NotFoundException('Image not found');
+    }
+
+    return {
+      url: await this.storage.getUrl(image.storage_path),
+      mimeType: image.mime_type,
+      page: image.page_number,
+      description: image.ai_description,
+    };
+  }
+
   async reprocess(orgId: DbId<'Org'>, id: DbId<'DataSource'>) {
     const dataSource = await this.db.kysely
       .selectFrom('data.data_sources')
-      .selectAll()
+      .select(DATA_SOURCE_COLUMNS)
       .where('id', '=', id)
       .where('org_id', '=', orgId)
       .executeTakeFirst();
@@ -195,6 +447,11 @@ export class DataSourcesService {
       throw new NotFoundException('Data source not found');
     }
 
+    // Integration items and API documents are re-sent by their source, not re-read from storage
+    if (!dataSource.storage_path) {
+      throw new Error('Only uploaded files can be reprocessed');
+    }
+
     // Delete existing chunks
     await this.db.kysely
       .deleteFrom('data.chunks')
@@ -235,8 +492,11 @@ export class DataSourcesService {
     type: DataSourceType;
     status: DataSourceStatus;
     page_count: number | null;
+    ocr: DataSourceOcr | null;
     collection_id: DbId<'Collection'> | null;
     org_id: DbId<'Org'>;
+    external_id: string | null;
+    metadata: DataSourceMetadata;
     uploaded_by_id: DbId<'User'> | null;
     created_at: Date;
     updated_at: Date;
@@ -249,8 +509,11 @@ export class DataSourcesService {
       type: ds.type,
       status: ds.status,
       pageCount: ds.page_count,
+      ocr: ds.ocr,
       collectionId: ds.collection_id,
       orgId: ds.org_id,
+      externalId: ds.external_id,
+      metadata: ds.metadata,
       uploadedById: ds.uploaded_by_id,
       createdAt: ds.created_at,
       updatedAt: ds.updated_at,
@@ -0,0 +1,234 @@
+import { InjectQueue, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+
+import type { DbId } from '@grabdy/common';
+import { isUploadsMime, type ReindexSkipReason } from '@grabdy/contracts';
+import { Job, Queue } from 'bullmq';
+import { sql } from 'kysely';
+
+import { REINDEX_CONCURRENCY, REINDEX_POLL_INTERVAL_MS } from '../../config/constants';
+import { DbService } from '../../db/db.module';
+import { DATA_SOURCE_QUEUE, REINDEX_QUEUE } from '../queue/queue.constants';
+
+import type { DataSourceJobData, SyncedMessageData } from './data-source.processor';
+
+export interface ReindexJobData {
+  reindexJobId: DbId<'ReindexJob'>;
+  orgId: DbId<'Org'>;
+}
+
+/**
+ * Where a source's content comes from when it is rebuilt: its stored file, or
+ * the text kept from the sync or push that last indexed it.
+ */
+function reindexContent(ds: {
+  storage_path: string;
+  mime_type: string;
+  source_url: string;
+  text_body: { content?: string; messages?: SyncedMessageData[] } | null;
+}):
+  | Pick<DataSourceJobData, 'storagePath' | 'mimeType' | 'content' | 'messages' | 'sourceUrl'>
+  | {
+      skip: ReindexSkipReason;
+    } {
+  if (ds.storage_path) {
+    return isUploadsMime(ds.mime_type)
+      ? { storagePath: ds.storage_path, mimeType: ds.mime_type }
+      : { skip: 'UNSUPPORTED_FILE' };
+  }
+  if (ds.text_body?.messages || ds.text_body?.content) {
+    return {
+      storagePath: '',
+      mimeType: 'text/plain',
+      content: ds.text_body.content,
+      messages: ds.text_body.messages,
+      sourceUrl: ds.source_url,
+    };
+  }
+  return { skip: 'NO_STORED_TEXT' };
+}
+
+/**
+ * Walks every data source in a collection (or the whole org) through the data
+ * source queue, REINDEX_CONCURRENCY at a time. Sources are visited in id order
+ * and the last finished one is stored as a cursor, so a retried or resumed job
+ * picks up where it stopped. Each source is rebuilt with `reindex: true`, which
+ * keeps its current chunks searchable until the new ones are swapped in.
+ */
+@Processor(REINDEX_QUEUE, { concurrency: 2, lockDuration: 30 * 60 * 1000 })
+export class ReindexProcessor extends WorkerHost {
+  private readonly logger = new Logger(ReindexProcessor.name);
+
+  constructor(
+    private db: DbService,
+    @InjectQueue(DATA_SOURCE_QUEUE) private dataSourceQueue: Queue
+  ) {
+    super();
+  }
+
+  async process(job: Job<ReindexJobData>): Promise<void> {
+    const { reindexJobId, orgId } = job.data;
+
+    const reindexJob = await this.db.kysely
+      .selectFrom('data.reindex_jobs')
+      .select(['collection_id', 'status', 'cursor', 'total_sources', 'skipped_reasons'])
+      .where('id', '=', reindexJobId)
+      .where('org_id', '=', orgId)
+      .executeTakeFirst();
+
+    if (!reindexJob || (reindexJob.status !== 'QUEUED' && reindexJob.status !== 'RUNNING')) {
+      this.logger.log(`Skipping reindex ${reindexJobId}: no longer active`);
+      return;
+    }
+
+    await this.db.kysely
+      .updateTable('data.reindex_jobs')
+      .set({ status: 'RUNNING', updated_at: new Date() })
+      .where('id', '=', reindexJobId)
+      .where('org_id', '=', orgId)
+      .execute();
+
+    let cursor = reindexJob.cursor;
+    const skippedReasons: Partial<Record<ReindexSkipReason, number>> = {
+      ...reindexJob.skipped_reasons,
+    };
+
+    try {
+      for (;;) {
+        if (!(await this.isRunning(reindexJobId, orgId))) {
+          this.logger.log(`Reindex ${reindexJobId} cancelled`);
+          return;
+        }
+
+        let waveQuery = this.db.kysely
+          .selectFrom('data.data_sources')
+          .select(['id', 'storage_path', 'mime_type', 'collection_id', 'source_url', 'text_body'])
+          .where('org_id', '=', orgId)
+          .orderBy('id')
+          .limit(REINDEX_CONCURRENCY);
+        if (reindexJob.collection_id) {
+          waveQuery = waveQuery.where('collection_id', '=', reindexJob.collection_id);
+        }
+        if (cursor) {
+          waveQuery = waveQuery.where('id', '>', cursor);
+        }
+
+        const wave = await waveQuery.execute();
+        if (wave.length === 0) break;
+
+        // Uploads and stored files are re-extracted; synced items and pushed documents
+        // are re-chunked from their kept text
+        const dispatched: string[] = [];
+        let skipped = 0;
+        for (const ds of wave) {
+          const content = reindexContent(ds);
+          if ('skip' in content) {
+            skippedReasons[content.skip] = (skippedReasons[content.skip] ?? 0) + 1;
+            skipped++;
+            continue;
+          }
+
+          const jobData: DataSourceJobData = {
+            dataSourceId: ds.id,
+            orgId,
+            ...content,
+            collectionId: ds.collection_id,
+            reindex: true,
+          };
+          // Deterministic ids make a resumed wave pick up its existing jobs instead of duplicating them
+          const child = await this.dataSourceQueue.add('process', jobData, {
+            jobId: `reindex-${reindexJobId}-${ds.id}`,
+          });
+          if (child.id) dispatched.push(child.id);
+        }
+
+        const failed = await this.waitForJobs(dispatched);
+        cursor = wave[wave.length - 1].id;
+
+        const progress = await this.db.kysely
+          .updateTable('data.reindex_jobs')
+          .set({
+            processed_sources: sql`processed_sources + ${dispatched.length - failed}`,
+            failed_sources: sql`failed_sources + ${failed}`,
+            skipped_sources: sql`skipped_sources + ${skipped}`,
+            skipped_reasons: JSON.stringify(skippedReasons),
+            cursor,
+            updated_at: new Date(),
+          })
+          .where('id', '=', reindexJobId)
+          .where('org_id', '=', orgId)
+          .returning(['processed_sources', 'failed_sources', 'skipped_sources'])
+          .executeTakeFirstOrThrow();
+
+        const done =
+          progress.processed_sources + progress.failed_sources + progress.skipped_sources;
+        await job.updateProgress(
+          Math.min((done / Math.max(reindexJob.total_sources, 1)) * 100, 100)
+        );
+      }
+
+      await this.db.kysely
+        .updateTable('data.reindex_jobs')
+        .set({ status: 'COMPLETED', completed_at: new Date(), updated_at: new Date() })
+        .where('id', '=', reindexJobId)
+        .where('org_id', '=', orgId)
+        .where('status', '=', 'RUNNING')
+        .execute();
+
+      this.logger.log(`Reindex ${reindexJobId} completed`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Reindex ${reindexJobId} failed: ${message}`);
+
+      // Earlier attempts are retried from the cursor; only the last one marks the job failed
+      if (job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+        await this.db.kysely
+          .updateTable('data.reindex_jobs')
+          .set({ status: 'FAILED', error: message, updated_at: new Date() })
+          .where('id', '=', reindexJobId)
+          .where('org_id', '=', orgId)
+          .where('status', '=', 'RUNNING')
+          .execute();
+      }
+
+      throw error;
+    }
+  }
+
+  private async isRunning(reindexJobId: DbId<'ReindexJob'>, orgId: DbId<'Org'>) {
+    const row = await this.db.kysely
+      .selectFrom('data.reindex_jobs')
+      .select('status')
+      .where('id', '=', reindexJobId)
+      .where('org_id', '=', orgId)
+      .executeTakeFirst();
+    return row?.status === 'RUNNING';
+  }
+
+  /** Wait until every job has finished. Returns how many failed after exhausting their retries. */
+  private async waitForJobs(dispatched: string[]): Promise<number> {
+    let pending = dispatched;
+    let failed = 0;
+
+    while (pending.length > 0) {
+      const states = await Promise.all(
+        pending.map(async (id) => {
+          const child = await this.dataSourceQueue.getJob(id);
+          // Finished jobs may already have been cleaned up by removeOnComplete
+          return { id, state: child ? await child.getState() : 'completed' };
+        })
+      );
+
+      failed += states.filter((s) => s.state === 'failed').length;
+      pending = states
+        .filter((s) => s.state !== 'completed' && s.state !== 'failed' && s.state !== 'unknown')
+        .map((s) => s.id);
+
+      if (pending.length > 0) {
+        await new Promise((resolve) => setTimeout(resolve, REINDEX_POLL_INTERVAL_MS));
+      }
+    }
+
+    return failed;
+  }
+}
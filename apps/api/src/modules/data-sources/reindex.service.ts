@@ -0,0 +1,199 @@
+import { InjectQueue } from '@nestjs/bullmq';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+
+import { type DbId, packId } from '@grabdy/common';
+import type { ReindexJobStatus, ReindexSkipReason } from '@grabdy/contracts';
+import { Queue } from 'bullmq';
+
+import { DbService } from '../../db/db.module';
+import { REINDEX_QUEUE } from '../queue/queue.constants';
+
+import type { ReindexJobData } from './reindex.processor';
+
+const REINDEX_JOB_COLUMNS = [
+  'id',
+  'org_id',
+  'collection_id',
+  'status',
+  'total_sources',
+  'processed_sources',
+  'failed_sources',
+  'skipped_sources',
+  'skipped_reasons',
+  'error',
+  'created_at',
+  'updated_at',
+  'completed_at',
+] as const;
+
+function toResponse(job: {
+  id: DbId<'ReindexJob'>;
+  org_id: DbId<'Org'>;
+  collection_id: DbId<'Collection'> | null;
+  status: ReindexJobStatus;
+  total_sources: number;
+  processed_sources: number;
+  failed_sources: number;
+  skipped_sources: number;
+  skipped_reasons: Partial<Record<ReindexSkipReason, number>>;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}) {
+  return {
+    id: job.id,
+    orgId: job.org_id,
+    collectionId: job.collection_id,
+    status: job.status,
+    totalSources: job.total_sources,
+    processedSources: job.processed_sources,
+    failedSources: job.failed_sources,
+    skippedSources: job.skipped_sources,
+    skippedReasons: job.skipped_reasons,
+    error: job.error,
+    createdAt: job.created_at.toISOString(),
+    updatedAt: job.updated_at.toISOString(),
+    completedAt: job.completed_at ? job.completed_at.toISOString() : null,
+  };
+}
+
+/**
+ * Org- and collection-wide reindexing. Jobs are tracked in `data.reindex_jobs`
+ * and driven by `ReindexProcessor`; an org runs at most one at a time.
+ */
+@Injectable()
+export class ReindexService {
+  constructor(
+    private db: DbService,
+    @InjectQueue(REINDEX_QUEUE) private reindexQueue: Queue
+  ) {}
+
+  async start(orgId: DbId<'Org'>, userId: DbId<'User'>, collectionId: DbId<'Collection'> | null) {
+    if (collectionId) {
+      const collection = await this.db.kysely
+        .selectFrom('data.collections')
+        .select('id')
+        .where('id', '=', collectionId)
+        .where('org_id', '=', orgId)
+        .executeTakeFirst();
+      if (!collection) {
+        throw new NotFoundException('Collection not found');
+      }
+    }
+
+    await this.assertNoActiveJob(orgId);
+
+    let sources = this.db.kysely.selectFrom('data.data_sources').where('org_id', '=', orgId);
+    if (collectionId) {
+      sources = sources.where('collection_id', '=', collectionId);
+    }
+    const { total } = await sources
+      .select(this.db.kysely.fn.countAll<string>().as('total'))
+      .executeTakeFirstOrThrow();
+
+    const reindexJob = await this.db.kysely
+      .insertInto('data.reindex_jobs')
+      .values({
+        id: packId('ReindexJob', orgId),
+        org_id: orgId,
+        collection_id: collectionId,
+        total_sources: Number(total),
+        cursor: null,
+        error: null,
+        created_by_id: userId,
+        completed_at: null,
+      })
+      .returning(REINDEX_JOB_COLUMNS)
+      .executeTakeFirstOrThrow();
+
+    await this.enqueue(reindexJob.id, orgId);
+
+    return toResponse(reindexJob);
+  }
+
+  async list(orgId: DbId<'Org'>) {
+    const jobs = await this.db.kysely
+      .selectFrom('data.reindex_jobs')
+      .select(REINDEX_JOB_COLUMNS)
+      .where('org_id', '=', orgId)
+      .orderBy('created_at', 'desc')
+      .limit(50)
+      .execute();
+
+    return jobs.map(toResponse);
+  }
+
+  async get(orgId: DbId<'Org'>, reindexJobId: DbId<'ReindexJob'>) {
+    const reindexJob = await this.db.kysely
+      .selectFrom('data.reindex_jobs')
+      .select(REINDEX_JOB_COLUMNS)
+      .where('id', '=', reindexJobId)
+      .where('org_id', '=', orgId)
+      .executeTakeFirst();
+
+    if (!reindexJob) {
+      throw new NotFoundException('Reindex job not found');
+    }
+
+    return toResponse(reindexJob);
+  }
+
+  /** Stops dispatching new sources; ones already in flight finish and are swapped in. */
+  async cancel(orgId: DbId<'Org'>, reindexJobId: DbId<'ReindexJob'>) {
+    const existing = await this.get(orgId, reindexJobId);
+    if (existing.status !== 'QUEUED' && existing.status !== 'RUNNING') {
+      throw new BadRequestException(`Reindex job is already ${existing.status.toLowerCase()}`);
+    }
+
+    const reindexJob = await this.db.kysely
+      .updateTable('data.reindex_jobs')
+      .set({ status: 'CANCELLED', completed_at: new Date(), updated_at: new Date() })
+      .where('id', '=', reindexJobId)
+      .where('org_id', '=', orgId)
+      .returning(REINDEX_JOB_COLUMNS)
+      .executeTakeFirstOrThrow();
+
+    return toResponse(reindexJob);
+  }
+
+  /** Restarts a failed or cancelled job from the last source it finished. */
+  async resume(orgId: DbId<'Org'>, reindexJobId: DbId<'ReindexJob'>) {
+    const existing = await this.get(orgId, reindexJobId);
+    if (existing.status !== 'FAILED' && existing.status !== 'CANCELLED') {
+      throw new BadRequestException('Only failed or cancelled reindex jobs can be resumed');
+    }
+
+    await this.assertNoActiveJob(orgId);
+
+    const reindexJob = await this.db.kysely
+      .updateTable('data.reindex_jobs')
+      .set({ status: 'QUEUED', error: null, completed_at: null, updated_at: new Date() })
+      .where('id', '=', reindexJobId)
+      .where('org_id', '=', orgId)
+      .returning(REINDEX_JOB_COLUMNS)
+      .executeTakeFirstOrThrow();
+
+    await this.enqueue(reindexJob.id, orgId);
+
+    return toResponse(reindexJob);
+  }
+
+  private async assertNoActiveJob(orgId: DbId<'Org'>) {
+    const active = await this.db.kysely
+      .selectFrom('data.reindex_jobs')
+      .select('id')
+      .where('org_id', '=', orgId)
+      .where('status', 'in', ['QUEUED', 'RUNNING'])
+      .executeTakeFirst();
+
+    if (active) {
+      throw new BadRequestException('A reindex is already running for this organization');
+    }
+  }
+
+  private async enqueue(reindexJobId: DbId<'ReindexJob'>, orgId: DbId<'Org'>) {
+    const jobData: ReindexJobData = { reindexJobId, orgId };
+    await this.reindexQueue.add('reindex', jobData);
+  }
+}
@@ -0,0 +1,136 @@
+import { DATA_TABLE_MAX_ROWS, DATA_TABLE_TYPE_THRESHOLD } from '../../../config/constants';
+import type { ExtractionResult, SheetRow } from '../../extractors/extractor.interface';
+
+export type DataTableColumnType = 'number' | 'date' | 'text';
+
+export interface DataTableColumn {
+  name: string;
+  type: DataTableColumnType;
+}
+
+export type DataTableCell = string | number | null;
+
+export interface DataTableInput {
+  /** Sheet name for workbooks; null for CSV/TSV files. */
+  sheet: string | null;
+  columns: DataTableColumn[];
+  rows: Array<{ row: number; cells: DataTableCell[] }>;
+}
+
+/**
+ * Parse a spreadsheet number: thousands separators, currency symbols, percent
+ * signs and accounting-style negatives (`(1,200)`) are accepted. Percentages
+ * keep their face value (`12%` is 12).
+ */
+export function parseNumber(value: string): number | null {
+  let v = value.trim().replace(/[$€£¥\s]/g, '');
+  if (v === '') return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(v)) {
+    sign = -1;
+    v = v.slice(1, -1);
+  }
+  v = v.replace(/%$/, '');
+  if (!/^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?$/.test(v) || !/\d/.test(v)) return null;
+
+  const n = Number(v.replace(/,/g, ''));
+  return Number.isFinite(n) ? sign * n : null;
+}
+
+const DATE_PATTERNS = [
+  /^\d{4}-\d{1,2}-\d{1,2}([T ][\d:.]+(Z|[+-][\d:]+)?)?$/,
+  /^\d{1,2}\/\d{1,2}\/\d{2,4}$/,
+  /^[a-z]{3,9}\.? \d{1,2},? \d{4}$/i,
+  /^\d{1,2} [a-z]{3,9}\.?,? \d{4}$/i,
+];
+
+/** Placeholders spreadsheets use for a missing value. */
+const EMPTY_MARKERS = new Set(['-', '—', 'n/a', 'na', 'null', 'none', '#n/a']);
+
+function isEmpty(value: string): boolean {
+  const v = value.trim();
+  return v === '' || EMPTY_MARKERS.has(v.toLowerCase());
+}
+
+/**
+ * Parse a date cell into an ISO `YYYY-MM-DD` string. Accepts ISO dates, US
+ * `3/14/2024` and written-out `Mar 14, 2024` / `14 Mar 2024`.
+ */
+export function parseDate(value: string): string | null {
+  const v = value.trim();
+  if (!DATE_PATTERNS.some((re) => re.test(v))) return null;
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(v);
+  const time = iso ? Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])) : Date.parse(v);
+  if (Number.isNaN(time)) return null;
+
+  const date = new Date(time);
+  // Date.parse reads zone-less strings as local time; keep the calendar day that was written
+  const [year, month, day] = iso
+    ? [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]
+    : [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+  if (year < 1000 || year > 9999) return null;
+  // Date.UTC rolls impossible dates (2024-02-31) over into the next month
+  if (iso && (month !== Number(iso[2]) || day !== Number(iso[3]))) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** A column is numeric (or a date) when enough of its filled cells parse as one. */
+function inferType(values: string[]): DataTableColumnType {
+  const filled = values.filter((v) => !isEmpty(v)).map((v) => v.trim());
+  if (filled.length === 0) return 'text';
+
+  const share = (parse: (v: string) => unknown) =>
+    filled.filter((v) => parse(v) !== null).length / filled.length;
+
+  if (share(parseNumber) >= DATA_TABLE_TYPE_THRESHOLD) return 'number';
+  if (share(parseDate) >= DATA_TABLE_TYPE_THRESHOLD) return 'date';
+  return 'text';
+}
+
+function toCell(value: string, type: DataTableColumnType): DataTableCell {
+  if (isEmpty(value)) return null;
+  const v = value.trim();
+  if (type === 'number') return parseNumber(v);
+  if (type === 'date') return parseDate(v);
+  return v.replace(/\s*\n\s*/g, ' ');
+}
+
+function buildTable(sheet: string | null, names: string[], rows: SheetRow[]): DataTableInput {
+  const columns = names.map((name, i) => ({
+    name,
+    type: inferType(rows.map((r) => r.fields[i] ?? '')),
+  }));
+
+  return {
+    sheet,
+    columns,
+    rows: rows.map((r) => ({
+      row: r.row,
+      cells: columns.map((column, i) => toCell(r.fields[i] ?? '', column.type)),
+    })),
+  };
+}
+
+/**
+ * Typed tables for the structured query tool, one per sheet (or one for a
+ * CSV/TSV file). Empty tables and ones over DATA_TABLE_MAX_ROWS are left out;
+ * their rows stay searchable as text chunks.
+ */
+export function buildDataTables(result: ExtractionResult): DataTableInput[] {
+  const tables: DataTableInput[] = [];
+
+  if (result.type === 'sheets') {
+    for (const sheet of result.sheets) {
+      tables.push(buildTable(sheet.sheet, sheet.columns, sheet.rows));
+    }
+  } else if (result.type === 'rows') {
+    tables.push(buildTable(null, result.columns, result.rows));
+  }
+
+  return tables.filter(
+    (t) => t.columns.length > 0 && t.rows.length > 0 && t.rows.length <= DATA_TABLE_MAX_ROWS
+  );
+}
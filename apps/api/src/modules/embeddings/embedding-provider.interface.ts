@@ -0,0 +1,17 @@
+/** Some models embed search queries and indexed documents differently. */
+export type EmbeddingInputType = 'query' | 'document';
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  /** Input tokens billed by the provider (0 when it doesn't report usage). */
+  tokens: number;
+}
+
+export interface EmbeddingProvider {
+  /** Embed `values` with `modelName` — the model id without its provider prefix. */
+  embed(
+    modelName: string,
+    values: string[],
+    inputType: EmbeddingInputType
+  ): Promise<EmbeddingResult>;
+}
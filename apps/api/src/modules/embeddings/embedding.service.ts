@@ -0,0 +1,139 @@
+import { InjectQueue } from '@nestjs/bullmq';
+import { Injectable, Logger } from '@nestjs/common';
+
+import type { DbId } from '@grabdy/common';
+import {
+  AiCallerType,
+  type AiRequestSource,
+  AiRequestType,
+  EMBEDDING_VECTOR_DIMENSIONS,
+  type EmbeddingModelId,
+} from '@grabdy/contracts';
+import { Queue } from 'bullmq';
+
+import { DbService } from '../../db/db.module';
+import { AiUsageService } from '../ai/ai-usage.service';
+import { EMBEDDING_QUEUE } from '../queue/queue.constants';
+
+import { BedrockEmbeddingProvider } from './providers/bedrock-embedding.provider';
+import { LocalEmbeddingProvider } from './providers/local-embedding.provider';
+import { OpenAiEmbeddingProvider } from './providers/openai-embedding.provider';
+import type { EmbeddingInputType, EmbeddingProvider } from './embedding-provider.interface';
+import type { ReembedJobData } from './reembed.processor';
+
+export interface EmbeddingUsageOptions {
+  callerType: AiCallerType;
+  source: AiRequestSource;
+  userId?: DbId<'User'> | null;
+}
+
+const SYSTEM_USAGE: EmbeddingUsageOptions = { callerType: AiCallerType.SYSTEM, source: 'SYSTEM' };
+
+/** Format an embedding as a pgvector literal, zero-padded to the chunks column width. */
+function toVectorLiteral(embedding: number[]): string {
+  if (embedding.length > EMBEDDING_VECTOR_DIMENSIONS) {
+    throw new Error(
+      `Embedding has ${embedding.length} dimensions, the chunks column holds ${EMBEDDING_VECTOR_DIMENSIONS}`
+    );
+  }
+  const padding = new Array<number>(EMBEDDING_VECTOR_DIMENSIONS - embedding.length).fill(0);
+  return `[${[...embedding, ...padding].join(',')}]`;
+}
+
+/**
+ * Embeds text with each org's selected model. Model ids are `<provider>/<model>`
+ * (see `EMBEDDING_MODELS`); the prefix picks the provider that runs the model.
+ */
+@Injectable()
+export class EmbeddingService {
+  private readonly logger = new Logger(EmbeddingService.name);
+  private readonly providers: Map<string, EmbeddingProvider>;
+
+  constructor(
+    private db: DbService,
+    private aiUsageService: AiUsageService,
+    @InjectQueue(EMBEDDING_QUEUE) private embeddingQueue: Queue,
+    openAiProvider: OpenAiEmbeddingProvider,
+    bedrockProvider: BedrockEmbeddingProvider,
+    localProvider: LocalEmbeddingProvider
+  ) {
+    this.providers = new Map<string, EmbeddingProvider>([
+      ['openai', openAiProvider],
+      ['bedrock', bedrockProvider],
+      ['local', localProvider],
+    ]);
+  }
+
+  async getOrgModel(orgId: DbId<'Org'>): Promise<EmbeddingModelId> {
+    const org = await this.db.kysely
+      .selectFrom('org.orgs')
+      .select('embedding_model')
+      .where('id', '=', orgId)
+      .executeTakeFirstOrThrow();
+    return org.embedding_model;
+  }
+
+  /** Embed a search query with the org's model. Only chunks embedded by the same model are comparable. */
+  async embedQuery(
+    orgId: DbId<'Org'>,
+    text: string,
+    usage: EmbeddingUsageOptions
+  ): Promise<{ vector: string; model: EmbeddingModelId }> {
+    const model = await this.getOrgModel(orgId);
+    const [vector] = await this.embed(orgId, model, [text], 'query', usage);
+    return { vector, model };
+  }
+
+  /** Embed chunk contents with the org's model, as pgvector literals. */
+  async embedDocuments(
+    orgId: DbId<'Org'>,
+    texts: string[]
+  ): Promise<{ vectors: string[]; model: EmbeddingModelId }> {
+    const model = await this.getOrgModel(orgId);
+    const vectors = await this.embed(orgId, model, texts, 'document', SYSTEM_USAGE);
+    return { vectors, model };
+  }
+
+  async embed(
+    orgId: DbId<'Org'>,
+    model: EmbeddingModelId,
+    values: string[],
+    inputType: EmbeddingInputType,
+    usage: EmbeddingUsageOptions
+  ): Promise<string[]> {
+    const separator = model.indexOf('/');
+    const provider = this.providers.get(model.slice(0, separator));
+    if (!provider) {
+      throw new Error(`No embedding provider registered for model: ${model}`);
+    }
+
+    const { embeddings, tokens } = await provider.embed(
+      model.slice(separator + 1),
+      values,
+      inputType
+    );
+
+    this.aiUsageService
+      .logUsage(model, tokens, 0, usage.callerType, AiRequestType.EMBEDDING, {
+        orgId,
+        userId: usage.userId,
+        source: usage.source,
+      })
+      .catch((err) => this.logger.error(`Embedding usage logging failed: ${err}`));
+
+    return embeddings.map(toVectorLiteral);
+  }
+
+  /**
+   * Queue re-embedding of every chunk not yet embedded with the org's current
+   * model — org-wide, or for a single collection.
+   */
+  async reembed(orgId: DbId<'Org'>, collectionId: DbId<'Collection'> | null): Promise<void> {
+    const jobData: ReembedJobData = {
+      orgId,
+      collectionId,
+      model: await this.getOrgModel(orgId),
+    };
+    await this.embeddingQueue.add('reembed', jobData);
+  }
+}
@@ -0,0 +1,24 @@
+import { BullModule } from '@nestjs/bullmq';
+import { Global, Module } from '@nestjs/common';
+
+import { EMBEDDING_QUEUE } from '../queue/queue.constants';
+
+import { BedrockEmbeddingProvider } from './providers/bedrock-embedding.provider';
+import { LocalEmbeddingProvider } from './providers/local-embedding.provider';
+import { OpenAiEmbeddingProvider } from './providers/openai-embedding.provider';
+import { EmbeddingService } from './embedding.service';
+import { ReembedProcessor } from './reembed.processor';
+
+@Global()
+@Module({
+  imports: [BullModule.registerQueue({ name: EMBEDDING_QUEUE })],
+  providers: [
+    EmbeddingService,
+    ReembedProcessor,
+    OpenAiEmbeddingProvider,
+    BedrockEmbeddingProvider,
+    LocalEmbeddingProvider,
+  ],
+  exports: [EmbeddingService],
+})
+export class EmbeddingsModule {}
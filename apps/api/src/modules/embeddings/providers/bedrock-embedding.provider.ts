@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+
+import { createAmazonBedrock } from '@ai-sdk/amazon-bedrock';
+import { fromNodeProviderChain } from '@aws-sdk/credential-providers';
+import { embedMany } from 'ai';
+
+import type {
+  EmbeddingInputType,
+  EmbeddingProvider,
+  EmbeddingResult,
+} from '../embedding-provider.interface';
+
+const awsCredentials = fromNodeProviderChain();
+const bedrockProvider = createAmazonBedrock({
+  credentialProvider: async () => {
+    const creds = await awsCredentials();
+    return {
+      accessKeyId: creds.accessKeyId,
+      secretAccessKey: creds.secretAccessKey,
+      sessionToken: creds.sessionToken,
+    };
+  },
+});
+
+/** Titan and Cohere embedding models on Bedrock. */
+@Injectable()
+export class BedrockEmbeddingProvider implements EmbeddingProvider {
+  async embed(
+    modelName: string,
+    values: string[],
+    inputType: EmbeddingInputType
+  ): Promise<EmbeddingResult> {
+    const { embeddings, usage } = await embedMany({
+      model: bedrockProvider.embedding(modelName),
+      values,
+      // Cohere embeds queries and documents into different spaces; Titan ignores this.
+      // Cohere rejects input over 512 tokens unless told to truncate, as Titan does
+      // by default — whole code blocks and tables can be chunks of up to 2000 tokens.
+      providerOptions: {
+        bedrock: {
+          inputType: inputType === 'query' ? 'search_query' : 'search_document',
+          truncate: 'END',
+        },
+      },
+    });
+    return { embeddings, tokens: usage.tokens };
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+
+import { env } from '../../../config/env.config';
+import { countTokens } from '../../data-sources/chunking/tokenizer';
+import type {
+  EmbeddingInputType,
+  EmbeddingProvider,
+  EmbeddingResult,
+} from '../embedding-provider.interface';
+
+/** BGE models retrieve better when queries (not documents) carry this instruction. */
+const BGE_QUERY_INSTRUCTION = 'Represent this sentence for searching relevant passages: ';
+
+/**
+ * Runs ONNX embedding models in-process via transformers.js, for deployments
+ * without access to a hosted provider. Models are downloaded from the Hugging
+ * Face hub on first use, or read from LOCAL_EMBEDDING_MODEL_DIR when set.
+ */
+@Injectable()
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  private readonly logger = new Logger(LocalEmbeddingProvider.name);
+  private readonly pipelines = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+  async embed(
+    modelName: string,
+    values: string[],
+    inputType: EmbeddingInputType
+  ): Promise<EmbeddingResult> {
+    const extractor = await this.getPipeline(modelName);
+    const inputs =
+      inputType === 'query' && modelName.includes('bge-')
+        ? values.map((v) => `${BGE_QUERY_INSTRUCTION}${v}`)
+        : values;
+
+    // BGE models are trained with CLS pooling
+    const output = await extractor(inputs, { pooling: 'cls', normalize: true });
+    const embeddings = output.tolist();
+
+    // Nothing is billed, but token counts keep usage analytics comparable across providers
+    const tokens = values.reduce((sum, v) => sum + countTokens(v), 0);
+    return { embeddings, tokens };
+  }
+
+  private getPipeline(modelName: string): Promise<FeatureExtractionPipeline> {
+    let loading = this.pipelines.get(modelName);
+    if (!loading) {
+      loading = this.loadPipeline(modelName);
+      // Let a failed load (e.g. missing model files) be retried on the next call
+      loading.catch(() => this.pipelines.delete(modelName));
+      this.pipelines.set(modelName, loading);
+    }
+    return loading;
+  }
+
+  private async loadPipeline(modelName: string): Promise<FeatureExtractionPipeline> {
+    // Loaded lazily so the ONNX runtime only starts when an org uses a local model
+    const transformers = await import('@huggingface/transformers');
+    if (env.localEmbeddingModelDir) {
+      transformers.env.localModelPath = env.localEmbeddingModelDir;
+      transformers.env.allowRemoteModels = false;
+    }
+
+    this.logger.log(`Loading local embedding model ${modelName}`);
+    return transformers.pipeline('feature-extraction', modelName, { dtype: 'q8' });
+  }
+}
@@ -0,0 +1,17 @@
+import { Injectable } from '@nestjs/common';
+
+import { openai } from '@ai-sdk/openai';
+import { embedMany } from 'ai';
+
+import type { EmbeddingProvider, EmbeddingResult } from '../embedding-provider.interface';
+
+@Injectable()
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  async embed(modelName: string, values: string[]): Promise<EmbeddingResult> {
+    const { embeddings, usage } = await embedMany({
+      model: openai.embedding(modelName),
+      values,
+    });
+    return { embeddings, tokens: usage.tokens };
+  }
+}
@@ -0,0 +1,110 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+
+import type { DbId } from '@grabdy/common';
+import { AiCallerType, type EmbeddingModelId } from '@grabdy/contracts';
+import { Job } from 'bullmq';
+
+import { EMBEDDING_BATCH_SIZE } from '../../config/constants';
+import { DbService } from '../../db/db.module';
+import { EMBEDDING_QUEUE } from '../queue/queue.constants';
+
+import { EmbeddingService } from './embedding.service';
+
+export interface ReembedJobData {
+  orgId: DbId<'Org'>;
+  /** Limit to one collection; null re-embeds the whole org. */
+  collectionId: DbId<'Collection'> | null;
+  model: EmbeddingModelId;
+}
+
+/**
+ * Moves chunks onto an org's current embedding model. Only vectors are
+ * recomputed — content and chunk boundaries stay as they are. Chunks not yet
+ * migrated drop out of vector search (which only compares same-model vectors)
+ * but stay reachable through full-text and trigram search.
+ */
+@Processor(EMBEDDING_QUEUE, { concurrency: 2, lockDuration: 30 * 60 * 1000 })
+export class ReembedProcessor extends WorkerHost {
+  private readonly logger = new Logger(ReembedProcessor.name);
+
+  constructor(
+    private db: DbService,
+    private embeddingService: EmbeddingService
+  ) {
+    super();
+  }
+
+  async process(job: Job<ReembedJobData>): Promise<void> {
+    const { orgId, collectionId, model } = job.data;
+
+    if (await this.isSuperseded(orgId, model)) {
+      this.logger.log(`Skipping superseded re-embed of org ${orgId} to ${model}`);
+      return;
+    }
+
+    let staleChunks = this.db.kysely
+      .selectFrom('data.chunks')
+      .where('org_id', '=', orgId)
+      .where('embedding_model', '<>', model);
+    if (collectionId) {
+      staleChunks = staleChunks.where('collection_id', '=', collectionId);
+    }
+
+    const { total } = await staleChunks
+      .select(this.db.kysely.fn.countAll<string>().as('total'))
+      .executeTakeFirstOrThrow();
+    const totalChunks = Number(total);
+    this.logger.log(`Re-embedding ${totalChunks} chunks of org ${orgId} with ${model}`);
+
+    // Each batch leaves the stale set, so re-querying from the start also picks up
+    // chunks written with the old model while the job runs, and resumes after retries.
+    let done = 0;
+    for (;;) {
+      // A job for the org's next model may be running alongside this one; both
+      // working would keep flipping each other's chunks back, so the older stops.
+      if (await this.isSuperseded(orgId, model)) {
+        this.logger.log(
+          `Stopping superseded re-embed of org ${orgId} to ${model} after ${done} chunks`
+        );
+        return;
+      }
+
+      const batch = await staleChunks
+        .select(['id', 'content'])
+        .orderBy('id')
+        .limit(EMBEDDING_BATCH_SIZE)
+        .execute();
+      if (batch.length === 0) break;
+
+      const vectors = await this.embeddingService.embed(
+        orgId,
+        model,
+        batch.map((c) => c.content),
+        'document',
+        { callerType: AiCallerType.SYSTEM, source: 'SYSTEM' }
+      );
+
+      await this.db.kysely.transaction().execute(async (trx) => {
+        for (const [idx, chunk] of batch.entries()) {
+          await trx
+            .updateTable('data.chunks')
+            .set({ embedding: vectors[idx], embedding_model: model })
+            .where('id', '=', chunk.id)
+            .where('org_id', '=', orgId)
+            .execute();
+        }
+      });
+
+      done += batch.length;
+      await job.updateProgress(Math.min((done / Math.max(totalChunks, 1)) * 100, 100));
+    }
+
+    this.logger.log(`Re-embedded ${done} chunks of org ${orgId} with ${model}`);
+  }
+
+  /** The org switched models again since this job was queued — a newer job covers it. */
+  private async isSuperseded(orgId: DbId<'Org'>, model: EmbeddingModelId): Promise<boolean> {
+    return (await this.embeddingService.getOrgModel(orgId)) !== model;
+  }
+}
@@ -0,0 +1,210 @@
+import type { SheetRow } from './extractor.interface';
+
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'] as const;
+export type CsvDelimiter = (typeof DELIMITER_CANDIDATES)[number];
+
+/** Records sampled when sniffing the delimiter and header. */
+const SNIFF_RECORDS = 20;
+/** Header rows beyond this are treated as data. */
+const MAX_HEADER_ROWS = 3;
+
+export interface CsvRecord {
+  /** 1-based line the record starts on (records can span lines via quoted newlines). */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Decode a text file, honouring UTF-8/UTF-16 byte order marks. Files without a BOM
+ * that aren't valid UTF-8 are read as Windows-1252, the usual Excel export encoding.
+ */
+export function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return buffer.subarray(3).toString('utf-8');
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(buffer.subarray(2));
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(buffer.subarray(2));
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+/**
+ * Parse delimited text per RFC 4180: fields may be quoted, quotes inside quoted
+ * fields are doubled, and quoted fields may contain delimiters and line breaks.
+ * Accepts CRLF, LF and CR line endings. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter, limit = Infinity): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length && records.length < limit; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === '') {
+      // Opening quote — whitespace before it is not part of the value
+      field = '';
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (records.length < limit && (field !== '' || fields.length > 0)) {
+    endRecord();
+  }
+
+  return records;
+}
+
+/**
+ * Pick the delimiter that splits the first records into the most consistent
+ * number of columns (more than one). Falls back to a comma.
+ */
+export function sniffDelimiter(text: string): CsvDelimiter {
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = parseCsv(text, delimiter, SNIFF_RECORDS).map((r) => r.fields.length);
+    if (counts.length === 0) continue;
+
+    const frequency = new Map<number, number>();
+    for (const count of counts) frequency.set(count, (frequency.get(count) ?? 0) + 1);
+    const [modeWidth, modeCount] = [...frequency.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (modeWidth < 2) continue;
+
+    // Consistency first; wider splits break ties between equally consistent candidates
+    const score = modeCount / counts.length + modeWidth / 1000;
+    if (score > best.score) best = { delimiter, score };
+  }
+
+  return best.delimiter;
+}
+
+function isDataLike(value: string): boolean {
+  const v = value.trim();
+  if (v === '') return false;
+  return (
+    /^[-+]?[$€£]?\d[\d,.\s]*%?$/.test(v) ||
+    /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(v) ||
+    /^(true|false|yes|no)$/i.test(v)
+  );
+}
+
+function filledCount(fields: string[]): number {
+  return fields.filter((f) => f.trim() !== '').length;
+}
+
+function looksLikeHeader(fields: string[]): boolean {
+  const filled = fields.filter((f) => f.trim() !== '');
+  return filled.length > 0 && !filled.some(isDataLike);
+}
+
+/**
+ * Detect header rows at the top of a table and derive one name per column.
+ * A single header row is the common case; group headers spanning several
+ * columns (`Q1,,Q2,` over `Revenue,Cost,Revenue,Cost`) are carried right and
+ * joined with the row below (`Q1 / Revenue`). Tables whose first row looks like
+ * data get positional names (`Column 1`, `Column 2`, ...).
+ */
+export function detectHeader(records: string[][]): { columns: string[]; headerRows: number } {
+  const width = Math.max(0, ...records.slice(0, SNIFF_RECORDS).map((r) => r.length));
+  const positional = Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+
+  if (records.length < 2 || !looksLikeHeader(records[0])) {
+    return { columns: positional, headerRows: 0 };
+  }
+
+  // Rows above the first fully filled header row are group labels spanning columns
+  let headerRows = 1;
+  while (
+    headerRows < MAX_HEADER_ROWS &&
+    headerRows < records.length - 1 &&
+    records[headerRows - 1].some((f) => f.trim() === '') &&
+    looksLikeHeader(records[headerRows]) &&
+    filledCount(records[headerRows]) > filledCount(records[headerRows - 1])
+  ) {
+    headerRows++;
+  }
+
+  const columns = positional.map((fallback, col) => {
+    const parts: string[] = [];
+    for (let row = 0; row < headerRows; row++) {
+      let label = records[row][col]?.trim() ?? '';
+      // A group label applies to the empty cells to its right
+      if (!label && row < headerRows - 1) {
+        for (let left = col - 1; left >= 0 && !label; left--) {
+          label = records[row][left]?.trim() ?? '';
+        }
+      }
+      if (label && parts[parts.length - 1] !== label) parts.push(label);
+    }
+    return parts.length > 0 ? parts.join(' / ') : fallback;
+  });
+
+  return { columns, headerRows };
+}
+
+/** Render a row as `Column: value` pairs so every chunk carries its column context. */
+export function renderRow(columns: string[], fields: string[]): string {
+  return fields
+    .map((value, i) => [columns[i] ?? `Column ${i + 1}`, value.trim()] as const)
+    .filter(([, value]) => value !== '')
+    .map(([column, value]) => `${column}: ${value.replace(/\s*\n\s*/g, ' ')}`)
+    .join(' | ');
+}
+
+/** Header detection and `Column: value` rendering for a parsed table. */
+export function toSheetRows(records: Array<{ row: number; fields: string[] }>): {
+  columns: string[];
+  rows: SheetRow[];
+} {
+  const { columns, headerRows } = detectHeader(records.map((r) => r.fields));
+  const rows = records
+    .slice(headerRows)
+    .map((r) => ({ row: r.row, text: renderRow(columns, r.fields), fields: r.fields }))
+    .filter((r) => r.text.length > 0);
+  return { columns, rows };
+}
@@ -1,9 +1,20 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
 
+import { EMBEDDED_IMAGE_MAX_PER_DOCUMENT } from '../../config/constants';
 import type { FileStorage } from '../storage/file-storage.interface';
 import { FILE_STORAGE } from '../storage/file-storage.interface';
 
-import type { ExtractionResult, PageText } from './extractor.interface';
+import { describableImageMime, isFigure } from './embedded-images';
+import type { EmbeddedImage, ExtractionResult, PageText } from './extractor.interface';
+import { resolvePartPath, xmlAttribute } from './xml-utils';
+
+type Zip = InstanceType<typeof import('jszip')>;
+
+/** An image reference in the document body: its relationship and the page it sits on. */
+interface ImageRef {
+  page: number;
+  relationship: string;
+}
 
 /**
  * Parse word/document.xml to extract per-page text using Word's rendered page break markers.
@@ -13,10 +24,12 @@ import type { ExtractionResult, PageText } from './extractor.interface';
  * - `<w:br w:type="page"/>` — explicit hard page break inserted by the author
  *
  * We walk the XML character by character, tracking text in <w:t> elements and
- * splitting into pages at each break marker.
+ * splitting into pages at each break marker. Image references (DrawingML
+ * `<a:blip>` and legacy VML `<v:imagedata>`) are collected with their page.
  */
-function extractPagesFromXml(xml: string): PageText[] {
+function extractPagesFromXml(xml: string): { pages: PageText[]; imageRefs: ImageRef[] } {
   const pages: PageText[] = [];
+  const imageRefs: ImageRef[] = [];
   let currentPageText = '';
   let currentPage = 1;
 
@@ -56,6 +69,15 @@ function extractPagesFromXml(xml: string): PageText[] {
         }
       }
 
+      const relationship = tag.startsWith('<a:blip')
+        ? xmlAttribute(tag, 'r:embed')
+        : tag.startsWith('<v:imagedata')
+          ? xmlAttribute(tag, 'r:id')
+          : null;
+      if (relationship) {
+        imageRefs.push({ page: currentPage, relationship });
+      }
+
       // Check for paragraph end — add a newline to separate paragraphs
       if (tag === '</w:p>') {
         currentPageText += '\n';
@@ -73,7 +95,7 @@ function extractPagesFromXml(xml: string): PageText[] {
     pages.push({ page: currentPage, text: trimmed + '\n' });
   }
 
-  return pages;
+  return { pages, imageRefs };
 }
 
 @Injectable()
@@ -87,7 +109,7 @@ export class DocxExtractor {
     const JSZip = require('jszip');
 
     // Try loading as a ZIP (DOCX format). Legacy .doc files are OLE2 binary, not ZIP.
-    let zip: InstanceType<typeof import('jszip')> | null = null;
+    let zip: Zip | null = null;
     try {
       zip = await JSZip.loadAsync(buffer);
     } catch {
@@ -96,11 +118,14 @@ export class DocxExtractor {
 
     // Try to extract per-page text from the document XML (DOCX only)
     let pages: PageText[] = [];
+    let images: EmbeddedImage[] = [];
     if (zip) {
       const docXml = zip.file('word/document.xml');
       if (docXml) {
         const xml: string = await docXml.async('string');
-        pages = extractPagesFromXml(xml);
+        const parsed = extractPagesFromXml(xml);
+        pages = parsed.pages;
+        images = await this.readImages(zip, parsed.imageRefs);
       }
     }
 
@@ -116,6 +141,40 @@ export class DocxExtractor {
 
     const fullText = pages.map((p) => p.text).join('');
 
-    return { type: 'pages', text: fullText, pages };
+    return { type: 'pages', text: fullText, pages, images };
+  }
+
+  /**
+   * Load the media behind each image reference. An image used more than once
+   * (a logo in every section) is kept at its first position only.
+   */
+  private async readImages(zip: Zip, refs: ImageRef[]): Promise<EmbeddedImage[]> {
+    const documentPath = 'word/document.xml';
+    const relsXml: string = (await zip.file('word/_rels/document.xml.rels')?.async('string')) ?? '';
+    const targets = new Map<string, string>();
+    for (const [tag] of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+      const id = xmlAttribute(tag, 'Id');
+      const target = xmlAttribute(tag, 'Target');
+      if (id && target && xmlAttribute(tag, 'TargetMode') !== 'External') {
+        targets.set(id, resolvePartPath(documentPath, target));
+      }
+    }
+
+    const images: EmbeddedImage[] = [];
+    const seen = new Set<string>();
+    for (const ref of refs) {
+      if (images.length >= EMBEDDED_IMAGE_MAX_PER_DOCUMENT) break;
+      const path = targets.get(ref.relationship);
+      if (!path || seen.has(path)) continue;
+      seen.add(path);
+
+      const mimeType = describableImageMime(path);
+      const file = mimeType ? zip.file(path) : null;
+      if (!mimeType || !file) continue;
+      const data: Buffer = await file.async('nodebuffer');
+      if (isFigure(data)) images.push({ page: ref.page, data, mimeType });
+    }
+
+    return images;
   }
 }
@@ -0,0 +1,51 @@
+import { EMBEDDED_IMAGE_MAX_BYTES, EMBEDDED_IMAGE_MIN_SIZE_PX } from '../../config/constants';
+
+/** Image formats the vision model accepts, keyed by file extension. */
+const DESCRIBABLE_IMAGE_MIMES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+export function describableImageMime(filename: string): string | null {
+  const ext = filename.split('.').pop()?.toLowerCase() ?? '';
+  return DESCRIBABLE_IMAGE_MIMES[ext] ?? null;
+}
+
+/** Pixel size read from a PNG, GIF or JPEG header; null for other formats. */
+export function imageSize(data: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR is always the first chunk
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  // GIF: logical screen size follows the signature
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether an embedded image is a figure worth describing: not a logo, icon or
+ * bullet, and small enough to send to the vision model.
+ */
+export function isFigure(data: Buffer, size = imageSize(data)): boolean {
+  if (data.length > EMBEDDED_IMAGE_MAX_BYTES) return false;
+  if (!size) return true;
+  return size.width >= EMBEDDED_IMAGE_MIN_SIZE_PX && size.height >= EMBEDDED_IMAGE_MIN_SIZE_PX;
+}
@@ -0,0 +1,131 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+
+import type { FileStorage } from '../storage/file-storage.interface';
+import { FILE_STORAGE } from '../storage/file-storage.interface';
+
+import type { ChapterText, ExtractionResult } from './extractor.interface';
+import { htmlPageToMarkdown } from './html.extractor';
+import { decodeXmlEntities, resolvePartPath, xmlAttribute } from './xml-utils';
+
+interface ManifestItem {
+  href: string;
+  mediaType: string;
+  properties: string;
+}
+
+function decodeXmlText(text: string): string {
+  return decodeXmlEntities(text.replace(/<[^>]+>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Extract an EPUB as one Markdown chapter per spine document, in reading order.
+ * Chapter titles come from the table of contents (the EPUB 3 nav document or
+ * the EPUB 2 NCX), falling back to the chapter's first heading.
+ */
+@Injectable()
+export class EpubExtractor {
+  private readonly logger = new Logger(EpubExtractor.name);
+
+  constructor(@Inject(FILE_STORAGE) private storage: FileStorage) {}
+
+  async extract(storagePath: string): Promise<ExtractionResult & { type: 'chapters' }> {
+    const buffer = await this.storage.get(storagePath);
+    const JSZip = require('jszip');
+    const zip: InstanceType<typeof import('jszip')> = await JSZip.loadAsync(buffer);
+    const read = async (path: string): Promise<string | null> =>
+      (await zip.file(path)?.async('string')) ?? null;
+
+    const container = await read('META-INF/container.xml');
+    const opfPath = container
+      ? xmlAttribute(/<rootfile\b[^>]*>/i.exec(container)?.[0] ?? '', 'full-path')
+      : null;
+    const opf = opfPath ? await read(opfPath) : null;
+    if (!opfPath || !opf) {
+      throw new Error('Not a valid EPUB: package document not found');
+    }
+
+    const manifest = new Map<string, ManifestItem>();
+    for (const [tag] of opf.matchAll(/<item\b[^>]*>/gi)) {
+      const id = xmlAttribute(tag, 'id');
+      const href = xmlAttribute(tag, 'href');
+      if (!id || !href) continue;
+      manifest.set(id, {
+        href: resolvePartPath(opfPath, href),
+        mediaType: xmlAttribute(tag, 'media-type') ?? '',
+        properties: xmlAttribute(tag, 'properties') ?? '',
+      });
+    }
+
+    const titles = await this.readTableOfContents(opf, manifest, read);
+
+    const chapters: ChapterText[] = [];
+    for (const [tag] of opf.matchAll(/<itemref\b[^>]*>/gi)) {
+      // Non-linear items (footnote pages, answer keys) sit outside the reading order
+      if (xmlAttribute(tag, 'linear') === 'no') continue;
+      const item = manifest.get(xmlAttribute(tag, 'idref') ?? '');
+      if (!item || !/html/i.test(item.mediaType) || item.properties.split(' ').includes('nav')) {
+        continue;
+      }
+
+      const html = await read(item.href);
+      if (!html) {
+        this.logger.warn(`EPUB spine item missing from archive: ${item.href}`);
+        continue;
+      }
+
+      const markdown = htmlPageToMarkdown(html);
+      if (!markdown.trim()) continue;
+
+      const title = titles.get(item.href) ?? /^#{1,6} (.+)$/m.exec(markdown)?.[1] ?? null;
+      chapters.push({ title, markdown });
+    }
+
+    return {
+      type: 'chapters',
+      text: chapters.map((c) => c.markdown).join('\n\n'),
+      chapters,
+    };
+  }
+
+  /** Map each content document to its first entry in the table of contents. */
+  private async readTableOfContents(
+    opf: string,
+    manifest: Map<string, ManifestItem>,
+    read: (path: string) => Promise<string | null>
+  ): Promise<Map<string, string>> {
+    const titles = new Map<string, string>();
+    const add = (path: string, title: string) => {
+      if (title && !titles.has(path)) titles.set(path, title);
+    };
+
+    const nav = [...manifest.values()].find((item) => item.properties.split(' ').includes('nav'));
+    const navHtml = nav ? await read(nav.href) : null;
+    if (nav && navHtml) {
+      const toc =
+        /<nav\b[^>]*epub:type\s*=\s*["']toc["'][^>]*>([\s\S]*?)<\/nav>/i.exec(navHtml)?.[1] ??
+        navHtml;
+      for (const [, tag, inner] of toc.matchAll(/(<a\b[^>]*>)([\s\S]*?)<\/a>/gi)) {
+        const href = xmlAttribute(tag, 'href');
+        if (href) add(resolvePartPath(nav.href, href), decodeXmlText(inner));
+      }
+      return titles;
+    }
+
+    const spineTag = /<spine\b[^>]*>/i.exec(opf)?.[0] ?? '';
+    const ncx =
+      manifest.get(xmlAttribute(spineTag, 'toc') ?? '') ??
+      [...manifest.values()].find((item) => item.mediaType === 'application/x-dtbncx+xml');
+    const ncxXml = ncx ? await read(ncx.href) : null;
+    if (ncx && ncxXml) {
+      for (const [point] of ncxXml.matchAll(/<navPoint\b[\s\S]*?<content\b[^>]*>/gi)) {
+        const label = /<text>([\s\S]*?)<\/text>/i.exec(point)?.[1];
+        const src = xmlAttribute(/<content\b[^>]*>/i.exec(point)?.[0] ?? '', 'src');
+        if (label && src) add(resolvePartPath(ncx.href, src), decodeXmlText(label));
+      }
+    }
+
+    return titles;
+  }
+}
@@ -1,11 +1,32 @@
+import type { DataSourceOcr } from '@grabdy/contracts';
+
 export interface PageText {
   page: number;
   text: string;
+  /** Mean OCR word confidence (0-100) when the page was a scan; absent for text-layer pages. */
+  ocrConfidence?: number;
+}
+
+/** An image embedded in a document, with the page it appears on. */
+export interface EmbeddedImage {
+  page: number;
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface SlideText {
+  /** Position in the deck, counting hidden slides. */
+  slide: number;
+  text: string;
+  /** Speaker notes; empty when the slide has none. */
+  notes: string;
 }
 
 export interface SheetRow {
   row: number;
   text: string;
+  /** Raw cell values, aligned with the sheet's columns. */
+  fields: string[];
 }
 
 export interface SheetData {
@@ -14,8 +35,43 @@ export interface SheetData {
   rows: SheetRow[];
 }
 
+/** A record of a JSON document, flattened to `path: value` lines. */
+export interface JsonRecord {
+  /** JSON pointer (RFC 6901) of the record, e.g. `/items/42`; `''` is the whole document. */
+  pointer: string;
+  text: string;
+}
+
+/** A chapter of a structured document, converted to Markdown so headings drive chunking. */
+export interface ChapterText {
+  /** EPUB chapter title; null for single-chapter documents. */
+  title: string | null;
+  markdown: string;
+}
+
+/** A stretch of speech in a recording. */
+export interface TranscriptSegment {
+  /** Offsets in seconds from the start of the recording. */
+  startSec: number;
+  endSec: number;
+  text: string;
+  /** Speaker label from diarization; null when the engine doesn't tell speakers apart. */
+  speaker: string | null;
+}
+
 export type ExtractionResult =
-  | { type: 'pages'; text: string; pages: PageText[] }
+  | {
+      type: 'pages';
+      text: string;
+      pages: PageText[];
+      ocr?: DataSourceOcr;
+      /** Figures worth describing, in document order (PDF and DOCX only). */
+      images?: EmbeddedImage[];
+    }
+  | { type: 'slides'; text: string; slides: SlideText[] }
   | { type: 'sheets'; text: string; sheets: SheetData[] }
   | { type: 'rows'; text: string; columns: string[]; rows: SheetRow[] }
+  | { type: 'chapters'; text: string; chapters: ChapterText[] }
+  | { type: 'records'; text: string; records: JsonRecord[] }
+  | { type: 'transcript'; text: string; segments: TranscriptSegment[] }
   | { type: 'text'; text: string };
@@ -1,16 +1,60 @@
 import { Module } from '@nestjs/common';
 
+import { env } from '../../config/env.config';
 import { StorageModule } from '../storage/storage.module';
 
+import { OpenAiTranscriptionProvider } from './providers/openai-transcription.provider';
+import { WhisperCppTranscriptionProvider } from './providers/whisper-cpp-transcription.provider';
 import { DocxExtractor } from './docx.extractor';
+import { EpubExtractor } from './epub.extractor';
+import { HtmlExtractor } from './html.extractor';
 import { ImageExtractor } from './image.extractor';
+import { MediaExtractor } from './media.extractor';
+import { OpenDocumentExtractor } from './opendocument.extractor';
 import { PdfExtractor } from './pdf.extractor';
+import { PptxExtractor } from './pptx.extractor';
 import { TextExtractor } from './text.extractor';
+import { TRANSCRIPTION_PROVIDER } from './transcription-provider.interface';
 import { XlsxExtractor } from './xlsx.extractor';
 
 @Module({
   imports: [StorageModule],
-  providers: [PdfExtractor, DocxExtractor, TextExtractor, XlsxExtractor, ImageExtractor],
-  exports: [PdfExtractor, DocxExtractor, TextExtractor, XlsxExtractor, ImageExtractor],
+  providers: [
+    PdfExtractor,
+    DocxExtractor,
+    TextExtractor,
+    XlsxExtractor,
+    ImageExtractor,
+    HtmlExtractor,
+    EpubExtractor,
+    PptxExtractor,
+    OpenDocumentExtractor,
+    MediaExtractor,
+    {
+      provide: TRANSCRIPTION_PROVIDER,
+      useFactory: () => {
+        if (env.transcriptionProvider === 'openai') {
+          return new OpenAiTranscriptionProvider(
+            env.transcriptionApiUrl,
+            env.transcriptionApiKey,
+            env.transcriptionModel
+          );
+        }
+        return new WhisperCppTranscriptionProvider(env.whisperModelPath);
+      },
+    },
+  ],
+  exports: [
+    PdfExtractor,
+    DocxExtractor,
+    TextExtractor,
+    XlsxExtractor,
+    ImageExtractor,
+    HtmlExtractor,
+    EpubExtractor,
+    PptxExtractor,
+    OpenDocumentExtractor,
+    MediaExtractor,
+  ],
 })
 export class ExtractorsModule {}
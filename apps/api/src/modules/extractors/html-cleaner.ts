@@ -0,0 +1,167 @@
+/** Elements that never hold document content. */
+const BOILERPLATE_TAGS = new Set([
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+  'menu',
+  'dialog',
+  'button',
+  'iframe',
+  'svg',
+]);
+
+/** ARIA landmarks for site chrome. */
+const BOILERPLATE_ROLES = new Set([
+  'navigation',
+  'banner',
+  'contentinfo',
+  'complementary',
+  'search',
+  'menu',
+  'menubar',
+  'dialog',
+]);
+
+/** Class or id tokens that wikis and site generators put on chrome. Matched whole, so `article-header` is kept. */
+const BOILERPLATE_NAMES = new Set([
+  'nav',
+  'navbar',
+  'navigation',
+  'menu',
+  'sidebar',
+  'breadcrumb',
+  'breadcrumbs',
+  'footer',
+  'site-header',
+  'site-footer',
+  'page-footer',
+  'cookie-banner',
+  'skip-link',
+  'toc',
+]);
+
+const TAG_RE = /<(\/?)([a-zA-Z][\w:-]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+interface ElementRange {
+  /** Start of the opening tag. */
+  start: number;
+  /** End of the opening tag. */
+  innerStart: number;
+  /** Start of the closing tag (or end of input when unclosed). */
+  innerEnd: number;
+  /** End of the closing tag. */
+  end: number;
+}
+
+function attribute(attrs: string, name: string): string | null {
+  const match = new RegExp(
+    `(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`,
+    'i'
+  ).exec(attrs);
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/**
+ * Find the outermost elements whose opening tag satisfies `test`, balancing
+ * nested elements of the same name. Regex-level HTML handling: good enough for
+ * exported pages, not for arbitrary tag soup.
+ */
+function findElements(html: string, test: (tag: string, attrs: string) => boolean): ElementRange[] {
+  const ranges: ElementRange[] = [];
+  let open: { tag: string; depth: number; start: number; innerStart: number } | null = null;
+
+  for (const match of html.matchAll(TAG_RE)) {
+    const [raw, closing, name, attrs] = match;
+    const tag = name.toLowerCase();
+    const index = match.index ?? 0;
+    const selfClosing = raw.endsWith('/>');
+
+    if (open) {
+      if (tag !== open.tag || selfClosing) continue;
+      open.depth += closing ? -1 : 1;
+      if (open.depth === 0) {
+        ranges.push({
+          start: open.start,
+          innerStart: open.innerStart,
+          innerEnd: index,
+          end: index + raw.length,
+        });
+        open = null;
+      }
+      continue;
+    }
+
+    if (!closing && !selfClosing && test(tag, attrs)) {
+      open = { tag, depth: 1, start: index, innerStart: index + raw.length };
+    }
+  }
+
+  if (open) {
+    ranges.push({
+      start: open.start,
+      innerStart: open.innerStart,
+      innerEnd: html.length,
+      end: html.length,
+    });
+  }
+
+  return ranges;
+}
+
+function isBoilerplate(tag: string, attrs: string): boolean {
+  if (BOILERPLATE_TAGS.has(tag)) return true;
+
+  const role = attribute(attrs, 'role')?.toLowerCase();
+  if (role && BOILERPLATE_ROLES.has(role)) return true;
+  if (attribute(attrs, 'aria-hidden') === 'true' || /(?:^|\s)hidden(?:\s|=|$)/i.test(attrs)) {
+    return true;
+  }
+
+  const names = `${attribute(attrs, 'class') ?? ''} ${attribute(attrs, 'id') ?? ''}`;
+  return names
+    .toLowerCase()
+    .split(/\s+/)
+    .some((name) => BOILERPLATE_NAMES.has(name));
+}
+
+function isMainContent(tag: string, attrs: string): boolean {
+  return tag === 'main' || attribute(attrs, 'role')?.toLowerCase() === 'main';
+}
+
+/**
+ * Reduce an HTML page to its content: scripts, styles and comments are dropped,
+ * the `<main>` element (or a lone `<article>`) is kept when there is one, and
+ * navigation, headers, footers, sidebars and similar chrome are removed.
+ */
+export function cleanHtml(html: string): { title: string | null; html: string } {
+  const title =
+    /<title[^>]*>([\s\S]*?)<\/title>/i
+      .exec(html)?.[1]
+      .replace(/<[^>]+>/g, '')
+      .replace(/\s+/g, ' ')
+      .trim() || null;
+
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|head)\b[^>]*>[\s\S]*?<\/\1>/gi, '');
+
+  const main = findElements(body, isMainContent);
+  const articles = main.length === 0 ? findElements(body, (tag) => tag === 'article') : [];
+  const content = main[0] ?? (articles.length === 1 ? articles[0] : null);
+  if (content) {
+    body = body.slice(content.innerStart, content.innerEnd);
+  }
+
+  // Inside <main> or <article>, a <header> holds the content's own title
+  const chrome = findElements(
+    body,
+    (tag, attrs) => !(content && tag === 'header') && isBoilerplate(tag, attrs)
+  );
+  for (const range of chrome.reverse()) {
+    body = body.slice(0, range.start) + body.slice(range.end);
+  }
+
+  return { title, html: body };
+}
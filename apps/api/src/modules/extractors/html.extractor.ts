@@ -0,0 +1,30 @@
+import { Inject, Injectable } from '@nestjs/common';
+
+import { htmlToMarkdown } from '../data-sources/chunking/html-to-markdown';
+import type { FileStorage } from '../storage/file-storage.interface';
+import { FILE_STORAGE } from '../storage/file-storage.interface';
+
+import { decodeText } from './csv-parser';
+import type { ExtractionResult } from './extractor.interface';
+import { cleanHtml } from './html-cleaner';
+
+/** Markdown for an HTML page, stripped of site chrome and titled by `<title>` when it has no H1. */
+export function htmlPageToMarkdown(html: string): string {
+  const { title, html: content } = cleanHtml(html);
+  const markdown = htmlToMarkdown(content);
+  if (title && !/^# /m.test(markdown)) {
+    return `# ${title}\n\n${markdown}`;
+  }
+  return markdown;
+}
+
+@Injectable()
+export class HtmlExtractor {
+  constructor(@Inject(FILE_STORAGE) private storage: FileStorage) {}
+
+  async extract(storagePath: string): Promise<ExtractionResult & { type: 'chapters' }> {
+    const buffer = await this.storage.get(storagePath);
+    const markdown = htmlPageToMarkdown(decodeText(buffer));
+    return { type: 'chapters', text: markdown, chapters: [{ title: null, markdown }] };
+  }
+}
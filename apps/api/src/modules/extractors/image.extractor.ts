@@ -72,7 +72,14 @@ export class ImageExtractor {
     orgId?: DbId<'Org'>
   ): Promise<{ text: string; aiTags: string[]; aiDescription: string }> {
     const buffer = await this.storage.get(storagePath);
+    return this.describe(buffer, orgId);
+  }
 
+  /** Analyze an image already in memory, such as a figure embedded in a PDF or DOCX. */
+  async describe(
+    buffer: Buffer,
+    orgId?: DbId<'Org'>
+  ): Promise<{ text: string; aiTags: string[]; aiDescription: string }> {
     const { text: response, usage } = await generateText({
       model: openai('gpt-4o-mini'),
       messages: [
@@ -0,0 +1,95 @@
+import { CHUNK_SIZE_TOKENS } from '../../config/constants';
+import { countTokens } from '../data-sources/chunking/tokenizer';
+
+import type { JsonRecord } from './extractor.interface';
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+/** Escape a key for use as a JSON pointer reference token (RFC 6901). */
+function pointerToken(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function pathKey(path: string, key: string): string {
+  if (/^[A-Za-z_$][\w$-]*$/.test(key)) return path ? `${path}.${key}` : key;
+  return `${path}[${JSON.stringify(key)}]`;
+}
+
+function isContainer(value: JsonValue): value is JsonValue[] | { [key: string]: JsonValue } {
+  return typeof value === 'object' && value !== null;
+}
+
+/** Flatten a value into `path: value` lines, with paths relative to the value itself. */
+function flatten(value: JsonValue, path: string, lines: string[]): string[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) lines.push(`${path || '[]'}: []`);
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, lines));
+  } else if (isContainer(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) lines.push(`${path || '{}'}: {}`);
+    for (const [key, item] of entries) flatten(item, pathKey(path, key), lines);
+  } else {
+    lines.push(path ? `${path}: ${String(value)}` : String(value));
+  }
+  return lines;
+}
+
+/** Whether flattened text is too big for one chunk. Very long text skips the tokenizer. */
+function isOversized(text: string): boolean {
+  return text.length > CHUNK_SIZE_TOKENS * 10 || countTokens(text) > CHUNK_SIZE_TOKENS;
+}
+
+/**
+ * Split a JSON value into records: a value that fits in one chunk is one
+ * record; a larger one is broken into its children, so an array of records
+ * becomes one record per element. An object's scalar fields stay together in a
+ * record of their own, addressed by the object's pointer.
+ */
+function collectRecords(value: JsonValue, pointer: string, records: JsonRecord[]): void {
+  const text = flatten(value, '', []).join('\n');
+  if (!isContainer(value) || !isOversized(text)) {
+    if (text) records.push({ pointer, text });
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectRecords(item, `${pointer}/${i}`, records));
+    return;
+  }
+
+  const scalars: string[] = [];
+  const children: Array<[string, JsonValue]> = [];
+  for (const [key, item] of Object.entries(value)) {
+    if (isContainer(item)) children.push([key, item]);
+    else flatten(item, pathKey('', key), scalars);
+  }
+  if (scalars.length > 0) records.push({ pointer, text: scalars.join('\n') });
+  for (const [key, item] of children) {
+    collectRecords(item, `${pointer}/${pointerToken(key)}`, records);
+  }
+}
+
+/** Records of a JSON document, each carrying the JSON pointer of the value it came from. */
+export function jsonRecords(text: string): JsonRecord[] {
+  const records: JsonRecord[] = [];
+  collectRecords(JSON.parse(text), '', records);
+  return records;
+}
+
+/**
+ * Records of a JSON Lines file. Each line is addressed as if the file were an
+ * array of its lines, so `/41` is line 42. Lines that fail to parse are kept
+ * as plain text.
+ */
+export function jsonLinesRecords(text: string): JsonRecord[] {
+  const records: JsonRecord[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      collectRecords(JSON.parse(line), `/${i}`, records);
+    } catch {
+      records.push({ pointer: `/${i}`, text: line.trim() });
+    }
+  });
+  return records;
+}
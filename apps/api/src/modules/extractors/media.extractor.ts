@@ -0,0 +1,102 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+
+import { execFile } from 'node:child_process';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+
+import {
+  TRANSCRIPTION_MAX_DURATION_SEC,
+  TRANSCRIPTION_PIECE_SEC,
+  TRANSCRIPTION_PIECE_TIMEOUT_MS,
+} from '../../config/constants';
+import type { FileStorage } from '../storage/file-storage.interface';
+import { FILE_STORAGE } from '../storage/file-storage.interface';
+
+import type { ExtractionResult, TranscriptSegment } from './extractor.interface';
+import type { TranscriptionProvider } from './transcription-provider.interface';
+import { TRANSCRIPTION_PROVIDER } from './transcription-provider.interface';
+
+const execFileAsync = promisify(execFile);
+
+/** Seconds, rounded to tenths so chunk metadata stays readable. */
+function roundSec(sec: number): number {
+  return Math.round(sec * 10) / 10;
+}
+
+/**
+ * Transcribe audio and video uploads with the configured TranscriptionProvider.
+ * `ffmpeg` drops any video track and cuts the audio into 16 kHz mono WAV pieces,
+ * which are transcribed in order and their timestamps shifted back onto the
+ * recording's timeline.
+ */
+@Injectable()
+export class MediaExtractor {
+  private readonly logger = new Logger(MediaExtractor.name);
+
+  constructor(
+    @Inject(FILE_STORAGE) private storage: FileStorage,
+    @Inject(TRANSCRIPTION_PROVIDER) private transcription: TranscriptionProvider
+  ) {}
+
+  async extract(storagePath: string): Promise<ExtractionResult & { type: 'transcript' }> {
+    const tempFile = await this.storage.getTempPath(storagePath);
+    const dir = await mkdtemp(join(tmpdir(), 'grabdy-media-'));
+
+    try {
+      await execFileAsync(
+        'ffmpeg',
+        [
+          '-nostdin',
+          '-loglevel',
+          'error',
+          '-i',
+          tempFile.path,
+          '-t',
+          String(TRANSCRIPTION_MAX_DURATION_SEC),
+          '-vn',
+          '-ac',
+          '1',
+          '-ar',
+          '16000',
+          '-f',
+          'segment',
+          '-segment_time',
+          String(TRANSCRIPTION_PIECE_SEC),
+          join(dir, 'piece-%04d.wav'),
+        ],
+        { timeout: TRANSCRIPTION_PIECE_TIMEOUT_MS }
+      );
+
+      const pieces = (await readdir(dir)).filter((name) => name.endsWith('.wav')).sort();
+      if (pieces.length === 0) {
+        throw new Error('No audio track found');
+      }
+
+      const segments: TranscriptSegment[] = [];
+      for (const [i, piece] of pieces.entries()) {
+        const offset = i * TRANSCRIPTION_PIECE_SEC;
+        for (const segment of await this.transcription.transcribe(join(dir, piece))) {
+          if (!segment.text) continue;
+          segments.push({
+            ...segment,
+            startSec: roundSec(offset + segment.startSec),
+            endSec: roundSec(offset + segment.endSec),
+          });
+        }
+        await rm(join(dir, piece), { force: true });
+      }
+
+      this.logger.log(`Transcribed ${pieces.length} pieces into ${segments.length} segments`);
+      return {
+        type: 'transcript',
+        text: segments.map((s) => s.text).join('\n'),
+        segments,
+      };
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+      await tempFile.cleanup();
+    }
+  }
+}
@@ -0,0 +1,129 @@
+import { Inject, Injectable } from '@nestjs/common';
+
+import type { FileStorage } from '../storage/file-storage.interface';
+import { FILE_STORAGE } from '../storage/file-storage.interface';
+
+import type { ExtractionResult, PageText, SlideText } from './extractor.interface';
+import { decodeXmlEntities, xmlAttribute } from './xml-utils';
+
+type Zip = InstanceType<typeof import('jszip')>;
+
+/** Marks a page break while the body is reduced to text. */
+const PAGE_BREAK = '\uE000';
+
+/**
+ * Reduce ODF body XML to text: one line per paragraph or heading, with
+ * `<text:s>`, `<text:tab>` and `<text:line-break>` expanded. Comments, tracked
+ * deletions and image descriptions are dropped.
+ */
+function odfText(xml: string): string {
+  return decodeXmlEntities(
+    xml
+      .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, '')
+      .replace(/<text:tracked-changes\b[\s\S]*?<\/text:tracked-changes>/g, '')
+      .replace(/<svg:(title|desc)\b[\s\S]*?<\/svg:\1>/g, '')
+      .replace(/<text:s\b[^>]*\/>/g, (tag) => ' '.repeat(Number(xmlAttribute(tag, 'text:c') ?? 1)))
+      .replace(/<text:tab\b[^>]*\/>/g, '\t')
+      .replace(/<text:line-break\b[^>]*\/>/g, '\n')
+      .replace(/<\/text:(p|h)>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** Names of the styles in `xml` whose properties match `test`. */
+function styleNames(xml: string, test: RegExp): Set<string> {
+  const names = new Set<string>();
+  for (const [style] of xml.matchAll(/<style:style\b[\s\S]*?(?:<\/style:style>|\/>)/g)) {
+    const name = xmlAttribute(style, 'style:name');
+    if (name && test.test(style)) names.add(name);
+  }
+  return names;
+}
+
+/**
+ * Extract OpenDocument files (LibreOffice, Google Docs exports). Text documents
+ * become pages and presentations become slides, the same shapes DOCX and PPTX
+ * produce. Spreadsheets (ODS) are read by XlsxExtractor.
+ */
+@Injectable()
+export class OpenDocumentExtractor {
+  constructor(@Inject(FILE_STORAGE) private storage: FileStorage) {}
+
+  /**
+   * Split an ODT into pages at the soft page breaks LibreOffice records where it
+   * last laid out the document, and at paragraphs styled to start a new page.
+   */
+  async extractText(storagePath: string): Promise<ExtractionResult & { type: 'pages' }> {
+    const zip = await this.open(storagePath);
+    const content = await this.readContent(zip);
+    const styles: string = (await zip.file('styles.xml')?.async('string')) ?? '';
+
+    const breakBefore = styleNames(content + styles, /fo:break-before="page"/);
+    const body = /<office:text\b[^>]*>([\s\S]*)<\/office:text>/.exec(content)?.[1] ?? '';
+    const marked = body
+      .replace(/<text:soft-page-break\s*\/>/g, PAGE_BREAK)
+      .replace(/<text:(?:p|h)\b[^>]*>/g, (tag) =>
+        breakBefore.has(xmlAttribute(tag, 'text:style-name') ?? '') ? PAGE_BREAK + tag : tag
+      );
+
+    const pages: PageText[] = [];
+    const texts = odfText(marked).split(new RegExp(`${PAGE_BREAK}(?:\\s*${PAGE_BREAK})*`));
+    for (const [i, text] of texts.entries()) {
+      const trimmed = text.trim();
+      if (trimmed.length > 0) pages.push({ page: i + 1, text: trimmed + '\n' });
+    }
+
+    return { type: 'pages', text: pages.map((p) => p.text).join(''), pages };
+  }
+
+  /** Extract an ODP slide by slide with speaker notes, skipping hidden slides like PptxExtractor. */
+  async extractPresentation(storagePath: string): Promise<ExtractionResult & { type: 'slides' }> {
+    const zip = await this.open(storagePath);
+    const content = await this.readContent(zip);
+
+    const hidden = styleNames(content, /presentation:visibility="hidden"/);
+    const slides: SlideText[] = [];
+    const pages = [...content.matchAll(/<draw:page\b[^>]*>[\s\S]*?<\/draw:page>/g)];
+    for (const [index, [page]] of pages.entries()) {
+      const pageTag = /<draw:page\b[^>]*>/.exec(page)?.[0] ?? '';
+      if (hidden.has(xmlAttribute(pageTag, 'draw:style-name') ?? '')) continue;
+
+      const notesXml = /<presentation:notes\b[\s\S]*?<\/presentation:notes>/.exec(page)?.[0] ?? '';
+      const slideXml = page
+        .replace(notesXml, '')
+        // Footer, date and page-number frames repeat on every slide
+        .replace(
+          /<draw:frame\b[^>]*presentation:class="(?:footer|date-time|page-number|header)"[\s\S]*?<\/draw:frame>/g,
+          ''
+        );
+
+      const text = odfText(slideXml);
+      const notes = odfText(notesXml);
+      if (text || notes) slides.push({ slide: index + 1, text, notes });
+    }
+
+    return {
+      type: 'slides',
+      text: slides.map((s) => [s.text, s.notes].filter(Boolean).join('\n\n')).join('\n\n'),
+      slides,
+    };
+  }
+
+  private async open(storagePath: string): Promise<Zip> {
+    const buffer = await this.storage.get(storagePath);
+    const JSZip = require('jszip');
+    return JSZip.loadAsync(buffer);
+  }
+
+  private async readContent(zip: Zip): Promise<string> {
+    const content = await zip.file('content.xml')?.async('string');
+    if (!content) {
+      throw new Error('Not a valid OpenDocument file: content.xml not found');
+    }
+    return content;
+  }
+}
@@ -1,15 +1,84 @@
 import { Inject, Injectable, Logger } from '@nestjs/common';
 
+import type { DataSourceOcr } from '@grabdy/contracts';
 import { execFile } from 'node:child_process';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { promisify } from 'node:util';
 
+import {
+  EMBEDDED_IMAGE_MAX_PER_DOCUMENT,
+  PDF_IMAGES_PAGE_TIMEOUT_MS,
+  PDF_OCR_DPI,
+  PDF_OCR_LOW_CONFIDENCE,
+  PDF_OCR_MAX_PAGES,
+  PDF_OCR_MIN_TEXT_CHARS,
+  PDF_OCR_PAGE_TIMEOUT_MS,
+} from '../../config/constants';
+import { env } from '../../config/env.config';
 import type { FileStorage } from '../storage/file-storage.interface';
 import { FILE_STORAGE } from '../storage/file-storage.interface';
 
-import type { ExtractionResult, PageText } from './extractor.interface';
+import { isFigure } from './embedded-images';
+import type { EmbeddedImage, ExtractionResult, PageText } from './extractor.interface';
 
 const execFileAsync = promisify(execFile);
 
+interface OcrPageResult {
+  page: number;
+  text: string;
+  confidence: number | null;
+}
+
+/** Tesseract TSV of a dense page, or `pdfimages -list` of a figure-heavy PDF, can reach MBs. */
+const EXEC_MAX_BUFFER = 20 * 1024 * 1024;
+
+/**
+ * Rebuild page text from Tesseract's TSV output (one row per word, with its
+ * block, paragraph and line numbers) and average the word confidences.
+ */
+export function parseTesseractTsv(tsv: string): { text: string; confidence: number | null } {
+  const paragraphs: string[][] = [];
+  let lastParagraph = '';
+  let lastLine = '';
+  let line: string[] = [];
+  const confidences: number[] = [];
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const cols = row.split('\t');
+    if (cols.length < 12) continue;
+    const [, , block, par, lineNum, , , , , , conf, ...rest] = cols;
+    const word = rest.join('\t').trim();
+    const confidence = Number(conf);
+    if (!word || confidence < 0) continue;
+
+    const paragraphKey = `${block}.${par}`;
+    const lineKey = `${paragraphKey}.${lineNum}`;
+    if (paragraphKey !== lastParagraph) {
+      paragraphs.push([]);
+      lastParagraph = paragraphKey;
+      lastLine = '';
+    }
+    if (lineKey !== lastLine) {
+      line = [];
+      paragraphs[paragraphs.length - 1].push('');
+      lastLine = lineKey;
+    }
+    line.push(word);
+    const lines = paragraphs[paragraphs.length - 1];
+    lines[lines.length - 1] = line.join(' ');
+    confidences.push(confidence);
+  }
+
+  const text = paragraphs.map((lines) => lines.join('\n')).join('\n\n');
+  const confidence =
+    confidences.length > 0
+      ? Math.round(confidences.reduce((sum, c) => sum + c, 0) / confidences.length)
+      : null;
+  return { text, confidence };
+}
+
 @Injectable()
 export class PdfExtractor {
   private readonly logger = new Logger(PdfExtractor.name);
@@ -20,9 +89,18 @@ export class PdfExtractor {
     const tempFile = await this.storage.getTempPath(storagePath);
 
     try {
-      const pages = await this.extractText(tempFile.path);
+      const { pages, ocr } = await this.extractText(tempFile.path);
+      // A scanned page is one big image of itself; OCR has already read it
+      const scanned = new Set(ocr?.pages.map((p) => p.page));
+      const images = await this.extractImages(tempFile.path, scanned);
       const fullText = pages.map((p) => p.text).join('');
-      return { type: 'pages', text: fullText, pages };
+      return {
+        type: 'pages',
+        text: fullText,
+        pages,
+        images,
+        ...(ocr ? { ocr } : {}),
+      };
     } finally {
       await tempFile.cleanup();
     }
@@ -31,8 +109,11 @@ export class PdfExtractor {
   /**
    * Extract text page-by-page using `pdftotext` from poppler-utils.
    * The PDF is processed entirely in native code — nothing is loaded into the JS heap.
+   * Pages without a text layer (scans) are OCR'd.
    */
-  private async extractText(filePath: string): Promise<PageText[]> {
+  private async extractText(
+    filePath: string
+  ): Promise<{ pages: PageText[]; ocr: DataSourceOcr | null }> {
     // Get page count from pdfinfo
     const { stdout: infoOut } = await execFileAsync('pdfinfo', [filePath]);
     const pagesMatch = /Pages:\s+(\d+)/.exec(infoOut);
@@ -42,6 +123,7 @@ export class PdfExtractor {
     const numPages = parseInt(pagesMatch[1], 10);
 
     const pages: PageText[] = [];
+    const scannedPages: number[] = [];
 
     for (let page = 1; page <= numPages; page++) {
       const { stdout } = await execFileAsync('pdftotext', [
@@ -55,11 +137,164 @@ export class PdfExtractor {
       ]);
 
       const text = stdout.trim();
-      if (text.length > 0) {
+      if (text.length >= PDF_OCR_MIN_TEXT_CHARS) {
         pages.push({ page, text: text + '\n' });
+      } else {
+        scannedPages.push(page);
+        // Keep what little text there is in case OCR is unavailable
+        if (text.length > 0) pages.push({ page, text: text + '\n' });
+      }
+    }
+
+    if (scannedPages.length === 0) {
+      return { pages, ocr: null };
+    }
+
+    const results = await this.ocrPages(filePath, scannedPages);
+    const ocrPages: DataSourceOcr['pages'] = [];
+    for (const page of scannedPages) {
+      const result = results.find((r) => r.page === page);
+      // Not read: OCR failed, is unavailable, or the page is past PDF_OCR_MAX_PAGES
+      if (!result) {
+        ocrPages.push({ page, confidence: null });
+        continue;
+      }
+      // Read but blank: a separator or intentionally empty page
+      if (!result.text) continue;
+
+      const ocrPage: PageText = { page, text: result.text + '\n' };
+      if (result.confidence !== null) ocrPage.ocrConfidence = result.confidence;
+      const existing = pages.findIndex((p) => p.page === page);
+      if (existing >= 0) pages[existing] = ocrPage;
+      else pages.push(ocrPage);
+      ocrPages.push({ page, confidence: result.confidence });
+    }
+    pages.sort((a, b) => a.page - b.page);
+
+    if (ocrPages.length === 0) {
+      return { pages, ocr: null };
+    }
+
+    const partial = ocrPages.some(
+      (p) => p.confidence === null || p.confidence < PDF_OCR_LOW_CONFIDENCE
+    );
+    this.logger.log(
+      `OCR read ${results.length}/${scannedPages.length} scanned pages${partial ? ' (partial)' : ''}`
+    );
+
+    return { pages, ocr: { status: partial ? 'PARTIAL' : 'COMPLETE', pages: ocrPages } };
+  }
+
+  /**
+   * Rasterize each page with `pdftoppm` and read it with Tesseract. A missing
+   * Tesseract binary or a failed page is logged and left unread rather than
+   * failing the whole document.
+   */
+  private async ocrPages(filePath: string, pageNumbers: number[]): Promise<OcrPageResult[]> {
+    const results: OcrPageResult[] = [];
+    const dir = await mkdtemp(join(tmpdir(), 'grabdy-ocr-'));
+
+    try {
+      for (const page of pageNumbers.slice(0, PDF_OCR_MAX_PAGES)) {
+        const prefix = join(dir, `page-${page}`);
+        try {
+          await execFileAsync(
+            'pdftoppm',
+            [
+              '-f',
+              String(page),
+              '-l',
+              String(page),
+              '-r',
+              String(PDF_OCR_DPI),
+              '-gray',
+              '-png',
+              '-singlefile',
+              filePath,
+              prefix,
+            ],
+            { timeout: PDF_OCR_PAGE_TIMEOUT_MS }
+          );
+          const { stdout } = await execFileAsync(
+            'tesseract',
+            [`${prefix}.png`, 'stdout', '-l', env.ocrLanguages, 'tsv'],
+            { timeout: PDF_OCR_PAGE_TIMEOUT_MS, maxBuffer: EXEC_MAX_BUFFER }
+          );
+          results.push({ page, ...parseTesseractTsv(stdout) });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+            this.logger.warn(`OCR unavailable (${message}); scanned pages left unread`);
+            break;
+          }
+          this.logger.warn(`OCR failed on page ${page}: ${message}`);
+        } finally {
+          await rm(`${prefix}.png`, { force: true });
+        }
       }
+    } finally {
+      await rm(dir, { recursive: true, force: true });
     }
 
-    return pages;
+    return results;
+  }
+
+  /**
+   * Pull embedded figures out with `pdfimages`, skipping soft masks, stencils
+   * and pages in `skipPages`. Failures are logged and yield no images.
+   */
+  private async extractImages(filePath: string, skipPages: Set<number>): Promise<EmbeddedImage[]> {
+    const dir = await mkdtemp(join(tmpdir(), 'grabdy-pdfimages-'));
+    try {
+      // Columns: page num type width height ...; the first two lines are headers
+      const { stdout: listOut } = await execFileAsync('pdfimages', ['-list', filePath], {
+        timeout: PDF_IMAGES_PAGE_TIMEOUT_MS,
+        maxBuffer: EXEC_MAX_BUFFER,
+      });
+      // Images are numbered from 0 per run, so record each figure's index within its page
+      const wanted = new Map<number, Set<number>>();
+      const perPage = new Map<number, number>();
+      for (const line of listOut.split('\n').slice(2)) {
+        const [pageCol, , type] = line.trim().split(/\s+/);
+        const page = Number(pageCol);
+        if (!Number.isInteger(page)) continue;
+        const index = perPage.get(page) ?? 0;
+        perPage.set(page, index + 1);
+        if (type === 'image' && !skipPages.has(page)) {
+          wanted.set(page, (wanted.get(page) ?? new Set()).add(index));
+        }
+      }
+
+      const images: EmbeddedImage[] = [];
+      for (const [page, nums] of [...wanted].sort(([a], [b]) => a - b)) {
+        const prefix = join(dir, `page-${page}`);
+        await execFileAsync(
+          'pdfimages',
+          ['-png', '-f', String(page), '-l', String(page), filePath, prefix],
+          { timeout: PDF_IMAGES_PAGE_TIMEOUT_MS, maxBuffer: EXEC_MAX_BUFFER }
+        );
+        // Files are named <prefix>-<num>.png
+        const files = (await readdir(dir))
+          .map((name) => ({ name, num: Number(/-(\d+)\.png$/.exec(name)?.[1] ?? NaN) }))
+          .filter((f) => nums.has(f.num))
+          .sort((a, b) => a.num - b.num);
+        for (const file of files) {
+          const data = await readFile(join(dir, file.name));
+          if (images.length < EMBEDDED_IMAGE_MAX_PER_DOCUMENT && isFigure(data)) {
+            images.push({ page, data, mimeType: 'image/png' });
+          }
+          await rm(join(dir, file.name), { force: true });
+        }
+        if (images.length >= EMBEDDED_IMAGE_MAX_PER_DOCUMENT) break;
+      }
+      return images;
+    } catch (error) {
+      this.logger.warn(
+        `Image extraction failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return [];
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
   }
 }
@@ -0,0 +1,105 @@
+import { Inject, Injectable } from '@nestjs/common';
+
+import type { FileStorage } from '../storage/file-storage.interface';
+import { FILE_STORAGE } from '../storage/file-storage.interface';
+
+import type { ExtractionResult, SlideText } from './extractor.interface';
+import { decodeXmlEntities, resolvePartPath, xmlAttribute } from './xml-utils';
+
+type Zip = InstanceType<typeof import('jszip')>;
+
+/** Placeholders the layout fills in on its own (slide number, date, footer). */
+const FURNITURE_PLACEHOLDER_RE = /<p:ph\b[^>]*type="(?:sldNum|dt|ftr|hdr|sldImg)"/;
+
+/**
+ * Text of a slide or notes part, one line per `<a:p>` paragraph. Table cells
+ * and grouped shapes are plain paragraphs too, so they come through in order.
+ */
+function shapeText(xml: string, keepShape: (shape: string) => boolean): string {
+  const kept = xml.replace(/<p:sp\b[\s\S]*?<\/p:sp>/g, (shape) => (keepShape(shape) ? shape : ''));
+  const lines: string[] = [];
+  for (const [, paragraph] of kept.matchAll(/<a:p(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g)) {
+    let line = '';
+    for (const [token, text] of paragraph.matchAll(
+      /<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>|<a:br\b[^>]*\/>/g
+    )) {
+      line += token.startsWith('<a:br') ? '\n' : decodeXmlEntities(text);
+    }
+    if (line.trim()) lines.push(line.trim());
+  }
+  return lines.join('\n');
+}
+
+/** Relationship targets of a package part, keyed by relationship id. */
+async function readRelationships(
+  zip: Zip,
+  part: string
+): Promise<Map<string, { type: string; target: string }>> {
+  const slash = part.lastIndexOf('/');
+  const relsPath = `${part.slice(0, slash + 1)}_rels/${part.slice(slash + 1)}.rels`;
+  const xml: string = (await zip.file(relsPath)?.async('string')) ?? '';
+
+  const rels = new Map<string, { type: string; target: string }>();
+  for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = xmlAttribute(tag, 'Id');
+    const target = xmlAttribute(tag, 'Target');
+    if (id && target && xmlAttribute(tag, 'TargetMode') !== 'External') {
+      rels.set(id, {
+        type: xmlAttribute(tag, 'Type') ?? '',
+        target: resolvePartPath(part, target),
+      });
+    }
+  }
+  return rels;
+}
+
+/**
+ * Extract a PowerPoint deck slide by slide, in presentation order, with each
+ * slide's speaker notes. Hidden slides are skipped but keep their number, so
+ * citations match the slide numbers shown in PowerPoint.
+ */
+@Injectable()
+export class PptxExtractor {
+  constructor(@Inject(FILE_STORAGE) private storage: FileStorage) {}
+
+  async extract(storagePath: string): Promise<ExtractionResult & { type: 'slides' }> {
+    const buffer = await this.storage.get(storagePath);
+    const JSZip = require('jszip');
+    const zip: Zip = await JSZip.loadAsync(buffer);
+
+    const presentationPath = 'ppt/presentation.xml';
+    const presentation = await zip.file(presentationPath)?.async('string');
+    if (!presentation) {
+      throw new Error('Not a valid PPTX: presentation part not found');
+    }
+    const presentationRels = await readRelationships(zip, presentationPath);
+
+    const slides: SlideText[] = [];
+    const slideIds = [...presentation.matchAll(/<p:sldId\b[^>]*>/g)];
+    for (const [index, [tag]] of slideIds.entries()) {
+      const slidePath = presentationRels.get(xmlAttribute(tag, 'r:id') ?? '')?.target;
+      const slideXml = slidePath ? await zip.file(slidePath)?.async('string') : undefined;
+      if (!slidePath || !slideXml) continue;
+      if (xmlAttribute(/<p:sld\b[^>]*>/.exec(slideXml)?.[0] ?? '', 'show') === '0') continue;
+
+      const text = shapeText(slideXml, (shape) => !FURNITURE_PLACEHOLDER_RE.test(shape));
+
+      let notes = '';
+      const slideRels = await readRelationships(zip, slidePath);
+      const notesPath = [...slideRels.values()].find((r) => r.type.endsWith('/notesSlide'))?.target;
+      const notesXml = notesPath ? await zip.file(notesPath)?.async('string') : undefined;
+      if (notesXml) {
+        // The notes page repeats the slide image and number; only the body placeholder is notes
+        notes = shapeText(notesXml, (shape) => /<p:ph\b[^>]*type="body"/.test(shape));
+      }
+
+      if (text || notes) slides.push({ slide: index + 1, text, notes });
+    }
+
+    return {
+      type: 'slides',
+      text: slides.map((s) => [s.text, s.notes].filter(Boolean).join('\n\n')).join('\n\n'),
+      slides,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { createReadStream } from 'node:fs';
+import OpenAI from 'openai';
+import { z } from 'zod';
+
+import { TRANSCRIPTION_PIECE_TIMEOUT_MS } from '../../../config/constants';
+import type { TranscriptSegment } from '../extractor.interface';
+import type { TranscriptionProvider } from '../transcription-provider.interface';
+
+/** Segments of a `verbose_json` or `diarized_json` response; only the latter has speakers. */
+const transcriptionResponseSchema = z.object({
+  segments: z
+    .array(
+      z.object({
+        start: z.number(),
+        end: z.number(),
+        text: z.string(),
+        speaker: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+/** Diarizing models label unknown speakers `A`, `B`, ... */
+function speakerLabel(speaker: string | undefined): string | null {
+  if (!speaker) return null;
+  return /^[A-Z]$/.test(speaker) ? `Speaker ${speaker}` : speaker;
+}
+
+/**
+ * Calls an OpenAI-compatible `/audio/transcriptions` endpoint: OpenAI itself,
+ * or a self-hosted Whisper server (faster-whisper-server, Speaches, LocalAI)
+ * set as TRANSCRIPTION_API_URL. Diarizing models such as
+ * `gpt-4o-transcribe-diarize` label each segment with its speaker.
+ */
+export class OpenAiTranscriptionProvider implements TranscriptionProvider {
+  private readonly client: OpenAI;
+
+  constructor(
+    baseURL: string,
+    apiKey: string,
+    private readonly model: string
+  ) {
+    this.client = new OpenAI({ baseURL, apiKey, timeout: TRANSCRIPTION_PIECE_TIMEOUT_MS });
+  }
+
+  async transcribe(wavPath: string): Promise<TranscriptSegment[]> {
+    const file = createReadStream(wavPath);
+    const response: unknown = this.model.includes('diarize')
+      ? await this.client.audio.transcriptions.create({
+          file,
+          model: this.model,
+          response_format: 'diarized_json',
+          chunking_strategy: 'auto',
+        })
+      : await this.client.audio.transcriptions.create({
+          file,
+          model: this.model,
+          response_format: 'verbose_json',
+          timestamp_granularities: ['segment'],
+        });
+
+    const { segments } = transcriptionResponseSchema.parse(response);
+    return segments.map((segment) => ({
+      startSec: segment.start,
+      endSec: segment.end,
+      text: segment.text.trim(),
+      speaker: speakerLabel(segment.speaker),
+    }));
+  }
+}
@@ -0,0 +1,51 @@
+import { execFile } from 'node:child_process';
+import { readFile, rm } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { z } from 'zod';
+
+import { TRANSCRIPTION_PIECE_TIMEOUT_MS } from '../../../config/constants';
+import type { TranscriptSegment } from '../extractor.interface';
+import type { TranscriptionProvider } from '../transcription-provider.interface';
+
+const execFileAsync = promisify(execFile);
+
+/** The part of whisper.cpp's JSON output that is read; offsets are in milliseconds. */
+const whisperOutputSchema = z.object({
+  transcription: z.array(
+    z.object({
+      offsets: z.object({ from: z.number(), to: z.number() }),
+      text: z.string(),
+    })
+  ),
+});
+
+/**
+ * Runs whisper.cpp's `whisper-cli` on this machine, so recordings never leave
+ * it. The ggml model is read from WHISPER_MODEL_PATH and the spoken language
+ * is detected per piece.
+ */
+export class WhisperCppTranscriptionProvider implements TranscriptionProvider {
+  constructor(private readonly modelPath: string) {}
+
+  async transcribe(wavPath: string): Promise<TranscriptSegment[]> {
+    const outputPrefix = `${wavPath}.whisper`;
+    try {
+      await execFileAsync(
+        'whisper-cli',
+        ['-m', this.modelPath, '-f', wavPath, '-l', 'auto', '-oj', '-of', outputPrefix, '-np'],
+        { timeout: TRANSCRIPTION_PIECE_TIMEOUT_MS }
+      );
+      const output = whisperOutputSchema.parse(
+        JSON.parse(await readFile(`${outputPrefix}.json`, 'utf8'))
+      );
+      return output.transcription.map((segment) => ({
+        startSec: segment.offsets.from / 1000,
+        endSec: segment.offsets.to / 1000,
+        text: segment.text.trim(),
+        speaker: null,
+      }));
+    } finally {
+      await rm(`${outputPrefix}.json`, { force: true });
+    }
+  }
+}
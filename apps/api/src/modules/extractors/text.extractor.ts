@@ -1,12 +1,16 @@
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 
 import type { FileStorage } from '../storage/file-storage.interface';
 import { FILE_STORAGE } from '../storage/file-storage.interface';
 
-import type { ExtractionResult, SheetRow } from './extractor.interface';
+import { decodeText, parseCsv, sniffDelimiter, toSheetRows } from './csv-parser';
+import type { ExtractionResult, JsonRecord } from './extractor.interface';
+import { jsonLinesRecords, jsonRecords } from './json-records';
 
 @Injectable()
 export class TextExtractor {
+  private readonly logger = new Logger(TextExtractor.name);
+
   constructor(@Inject(FILE_STORAGE) private storage: FileStorage) {}
 
   async extract(storagePath: string): Promise<ExtractionResult> {
@@ -14,20 +18,40 @@ export class TextExtractor {
     return { type: 'text', text: buffer.toString('utf-8') };
   }
 
+  /** Markdown is chunked along its headings; YAML front matter is dropped. */
+  async extractMarkdown(storagePath: string): Promise<ExtractionResult & { type: 'chapters' }> {
+    const buffer = await this.storage.get(storagePath);
+    const markdown = decodeText(buffer).replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+    return { type: 'chapters', text: markdown, chapters: [{ title: null, markdown }] };
+  }
+
+  /**
+   * Split JSON (or JSON Lines) into records, one per array element where the
+   * document is too large for one chunk. Invalid JSON is indexed as plain text.
+   */
+  async extractJson(storagePath: string, options: { lines: boolean }): Promise<ExtractionResult> {
+    const buffer = await this.storage.get(storagePath);
+    const text = decodeText(buffer);
+
+    let records: JsonRecord[];
+    try {
+      records = options.lines ? jsonLinesRecords(text) : jsonRecords(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Invalid JSON in ${storagePath}, indexing as text: ${message}`);
+      return { type: 'text', text };
+    }
+
+    return { type: 'records', text, records };
+  }
+
+  /** Parse CSV/TSV with a sniffed delimiter and encoding; rows are rendered as `Column: value` pairs. */
   async extractCsv(storagePath: string): Promise<ExtractionResult & { type: 'rows' }> {
     const buffer = await this.storage.get(storagePath);
-    const text = buffer.toString('utf-8');
-    const lines = text.split('\n');
-    // First non-empty line is the header row with column names
-    const headerLine = lines.find((l) => l.trim().length > 0) ?? '';
-    const columns = headerLine
-      .split(',')
-      .map((c) => c.trim())
-      .filter((c) => c.length > 0);
-
-    const rows: SheetRow[] = lines
-      .map((line, i) => ({ row: i + 1, text: line }))
-      .filter((r) => r.text.trim().length > 0);
+    const text = decodeText(buffer);
+    const records = parseCsv(text, sniffDelimiter(text));
+
+    const { columns, rows } = toSheetRows(records.map((r) => ({ row: r.line, fields: r.fields })));
     return { type: 'rows', text, columns, rows };
   }
 }
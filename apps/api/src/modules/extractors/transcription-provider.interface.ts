@@ -0,0 +1,8 @@
+import type { TranscriptSegment } from './extractor.interface';
+
+export interface TranscriptionProvider {
+  /** Transcribe a 16 kHz mono WAV file, with segment offsets relative to its start. */
+  transcribe(wavPath: string): Promise<TranscriptSegment[]>;
+}
+
+export const TRANSCRIPTION_PROVIDER = Symbol('TRANSCRIPTION_PROVIDER');
@@ -3,6 +3,7 @@ import { Inject, Injectable } from '@nestjs/common';
 import type { FileStorage } from '../storage/file-storage.interface';
 import { FILE_STORAGE } from '../storage/file-storage.interface';
 
+import { toSheetRows } from './csv-parser';
 import type { ExtractionResult, SheetData } from './extractor.interface';
 
 @Injectable()
@@ -17,20 +18,25 @@ export class XlsxExtractor {
     const textParts: string[] = [];
 
     for (const sheetName of workbook.SheetNames) {
-      const csv: string = XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName]);
+      const worksheet = workbook.Sheets[sheetName];
+      const csv: string = XLSX.utils.sheet_to_csv(worksheet);
       textParts.push(`--- ${sheetName} ---\n${csv}`);
 
-      const lines = csv.split('\n');
-      // First non-empty line is the header row with column names
-      const headerLine = lines.find((l: string) => l.trim().length > 0) ?? '';
-      const columns = headerLine
-        .split(',')
-        .map((c: string) => c.trim())
-        .filter((c: string) => c.length > 0);
-
-      const rows = lines
-        .map((line: string, i: number) => ({ row: i + 1, text: line }))
-        .filter((r: { text: string }) => r.text.trim().length > 0);
+      // Formatted cell values, one array per row; blank rows are kept so indices map to row numbers
+      const cells: string[][] = XLSX.utils.sheet_to_json(worksheet, {
+        header: 1,
+        raw: false,
+        defval: '',
+        blankrows: true,
+      });
+      const firstRow: number = worksheet['!ref']
+        ? XLSX.utils.decode_range(worksheet['!ref']).s.r
+        : 0;
+
+      const records = cells
+        .map((fields, i) => ({ row: firstRow + i + 1, fields: fields.map(String) }))
+        .filter((r) => r.fields.some((f) => f.trim() !== ''));
+      const { columns, rows } = toSheetRows(records);
       sheets.push({ sheet: sheetName, columns, rows });
     }
 
@@ -0,0 +1,30 @@
+/** Read an attribute from a raw XML tag, e.g. `xmlAttribute('<item id="a"/>', 'id')`. */
+export function xmlAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i').exec(tag);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+/** Decode the predefined XML entities and numeric character references. */
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([\da-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Resolve a reference between parts of a zipped document package (EPUB, OOXML)
+ * against the directory of the part that contains it, dropping any fragment.
+ */
+export function resolvePartPath(fromPart: string, href: string): string {
+  const segments = href.startsWith('/') ? [] : fromPart.split('/').slice(0, -1);
+  for (const part of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (part === '..') segments.pop();
+    else if (part !== '.' && part !== '') segments.push(part);
+  }
+  return segments.join('/');
+}
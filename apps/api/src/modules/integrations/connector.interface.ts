@@ -1,12 +1,32 @@
 import type { DbId } from '@grabdy/common';
-import type { ChunkMeta, IntegrationProvider } from '@grabdy/contracts';
+import type { ChunkMeta, IntegrationProvider, UploadsMime } from '@grabdy/contracts';
 import { z } from 'zod';
 
+import {
+  type ConfluenceProviderData,
+  confluenceProviderDataSchema,
+  confluencePublicSchema,
+} from './providers/confluence/confluence.types';
+import {
+  type EmailProviderData,
+  emailProviderDataSchema,
+  emailPublicSchema,
+} from './providers/email/email.types';
 import {
   type GitHubProviderData,
   githubProviderDataSchema,
   githubPublicSchema,
 } from './providers/github/github.types';
+import {
+  type GoogleDriveProviderData,
+  googleDriveProviderDataSchema,
+  googleDrivePublicSchema,
+} from './providers/google-drive/google-drive.types';
+import {
+  type JiraProviderData,
+  jiraProviderDataSchema,
+  jiraPublicSchema,
+} from './providers/jira/jira.types';
 import {
   type LinearProviderData,
   linearProviderDataSchema,
@@ -23,7 +43,11 @@ import {
   slackPublicSchema,
 } from './providers/slack/slack.types';
 
+export type { ConfluenceProviderData } from './providers/confluence/confluence.types';
+export type { EmailProviderData } from './providers/email/email.types';
 export type { GitHubProviderData } from './providers/github/github.types';
+export type { GoogleDriveProviderData } from './providers/google-drive/google-drive.types';
+export type { JiraProviderData } from './providers/jira/jira.types';
 export type { LinearProviderData } from './providers/linear/linear.types';
 export type { NotionProviderData } from './providers/notion/notion.types';
 export type { SlackProviderData } from './providers/slack/slack.types';
@@ -36,13 +60,21 @@ export type ProviderData =
   | SlackProviderData
   | LinearProviderData
   | GitHubProviderData
-  | NotionProviderData;
+  | NotionProviderData
+  | GoogleDriveProviderData
+  | ConfluenceProviderData
+  | JiraProviderData
+  | EmailProviderData;
 
 export type ProviderDataMap = {
   SLACK: SlackProviderData;
   LINEAR: LinearProviderData;
   GITHUB: GitHubProviderData;
   NOTION: NotionProviderData;
+  GOOGLE_DRIVE: GoogleDriveProviderData;
+  CONFLUENCE: ConfluenceProviderData;
+  JIRA: JiraProviderData;
+  EMAIL: EmailProviderData;
 };
 
 // ---------------------------------------------------------------------------
@@ -74,6 +106,8 @@ export interface SyncedItem {
   externalId: string;
   title: string;
   content: string;
+  /** File to store and extract like an upload (e.g. an exported Google Doc). Replaces `content`. */
+  file?: { data: Buffer; mimeType: UploadsMime; fileName: string };
   /** Structured messages with per-message metadata and source URL (one chunk per message). */
   messages?: Array<{ content: string; metadata: ChunkMeta; sourceUrl: string }>;
   /** URL for the data source (e.g., channel URL). Stored on data_sources, not chunks. */
@@ -97,12 +131,16 @@ export interface SyncResult {
 export interface WebhookEvent {
   action: 'created' | 'updated' | 'deleted';
   externalId: string;
+  /** Revision of the item, when the provider has one. Each revision is queued as its own job. */
+  version?: string;
   data?: SyncedItem;
 }
 
 export interface WebhookHandlerResult {
   response: Record<string, unknown>;
   syncConnections?: Array<{ id: DbId<'Connection'>; orgId: DbId<'Org'>; event: WebhookEvent }>;
+  /** Connections to run a discovery sync for (e.g. Google Drive, whose notifications name no item). */
+  discoverConnections?: Array<{ id: DbId<'Connection'>; orgId: DbId<'Org'> }>;
   /** Connections to mark as disconnected (e.g. app uninstalled). */
   disconnectConnections?: Array<{ id: DbId<'Connection'>; orgId: DbId<'Org'> }>;
 }
@@ -116,6 +154,10 @@ export const providerDataSchema = z.discriminatedUnion('provider', [
   linearProviderDataSchema,
   githubProviderDataSchema,
   notionProviderDataSchema,
+  googleDriveProviderDataSchema,
+  confluenceProviderDataSchema,
+  jiraProviderDataSchema,
+  emailProviderDataSchema,
 ]);
 
 /** Parse raw JSONB provider_data from DB into typed ProviderData (trust boundary). */
@@ -128,6 +170,10 @@ const publicProviderDataSchema = z.discriminatedUnion('provider', [
   linearPublicSchema,
   githubPublicSchema,
   notionPublicSchema,
+  googleDrivePublicSchema,
+  confluencePublicSchema,
+  jiraPublicSchema,
+  emailPublicSchema,
 ]);
 
 export type PublicProviderData = z.infer<typeof publicProviderDataSchema>;
@@ -1,6 +1,12 @@
 /** How far back to look on initial sync (no existing cursor). 30 days. */
 export const INITIAL_SYNC_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
 
+/** Access tokens are refreshed when they expire within this window. */
+export const TOKEN_REFRESH_BUFFER_MS = 5 * 60 * 1000;
+
+/** Webhook-triggered discoveries for one connection within this window are merged into one. */
+export const WEBHOOK_DISCOVERY_DEBOUNCE_MS = 10_000;
+
 /** Returns an ISO string N ms in the past, for use as initial sync cursor. */
 export function getInitialSyncSince(): string {
   return new Date(Date.now() - INITIAL_SYNC_LOOKBACK_MS).toISOString();
@@ -1,7 +1,11 @@
 import { Controller, Get, Logger, Param, Post, Query, Req, Res } from '@nestjs/common';
 
-import { dbIdSchema } from '@grabdy/common';
-import { integrationProviderEnum, integrationsContract } from '@grabdy/contracts';
+import { type DbId, dbIdSchema } from '@grabdy/common';
+import {
+  type IntegrationProvider,
+  integrationProviderEnum,
+  integrationsContract,
+} from '@grabdy/contracts';
 import { TsRestHandler, tsRestHandler } from '@ts-rest/nest';
 import { randomBytes } from 'crypto';
 import type { Request, Response } from 'express';
@@ -14,8 +18,14 @@ import { InjectEnv } from '../../config/env.config';
 import { redisKeys } from '../../redis/redis-keys';
 import { RedisService } from '../../redis/redis.module';
 
+import { EmailConnector } from './providers/email/email.connector';
 import { ProviderRegistry } from './providers/provider-registry';
-import { parseProviderData, parsePublicProviderData } from './connector.interface';
+import {
+  type AccountInfo,
+  type OAuthTokens,
+  parseProviderData,
+  parsePublicProviderData,
+} from './connector.interface';
 import { IntegrationsService } from './integrations.service';
 
 interface OAuthState {
@@ -53,6 +63,7 @@ export class IntegrationsController {
     private integrationsService: IntegrationsService,
     private providerRegistry: ProviderRegistry,
     private redis: RedisService,
+    private emailConnector: EmailConnector,
     @InjectEnv('frontendUrl') private readonly frontendUrl: string,
     @InjectEnv('apiUrl') private readonly apiUrl: string
   ) {}
@@ -129,6 +140,43 @@ export class IntegrationsController {
     });
   }
 
+  @OrgAccess(integrationsContract.connectImap, { roles: ['OWNER', 'ADMIN'], params: ['orgId'] })
+  @TsRestHandler(integrationsContract.connectImap)
+  async connectImap(@CurrentUser() user: JwtPayload) {
+    return tsRestHandler(integrationsContract.connectImap, async ({ params, body }) => {
+      const { password, ...settings } = body;
+
+      let connected;
+      try {
+        connected = await this.emailConnector.connectImap(settings, password);
+      } catch (error) {
+        // The cause stays in the log: echoing it would let callers probe hosts and ports
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.warn(`IMAP sign-in to ${body.host}:${body.port} failed: ${msg}`);
+        return {
+          status: 400 as const,
+          body: {
+            success: false as const,
+            error: 'Could not sign in to the mailbox. Check the server settings and credentials.',
+          },
+        };
+      }
+
+      await this.completeConnection(
+        params.orgId,
+        user.sub,
+        'EMAIL',
+        connected.tokens,
+        connected.accountInfo
+      );
+
+      return {
+        status: 200 as const,
+        body: { success: true as const },
+      };
+    });
+  }
+
   @OrgAccess(integrationsContract.disconnect, { params: ['orgId'] })
   @TsRestHandler(integrationsContract.disconnect)
   async disconnect() {
@@ -199,7 +247,8 @@ export class IntegrationsController {
       }
 
       const providerData = parseProviderData(connection.provider_data);
-      const resources = await connector.listResources(connection.access_token, providerData);
+      const accessToken = await this.integrationsService.getFreshAccessToken(connection);
+      const resources = await connector.listResources(accessToken, providerData);
 
       return {
         status: 200 as const,
@@ -315,38 +364,7 @@ export class IntegrationsController {
 
       // Get external account info from the connector
       const accountInfo = await connector.getAccountInfo(tokens.accessToken);
-      const externalAccountRef = accountInfo.id;
-      const externalAccountName = accountInfo.name;
-
-      // Remove any existing connection for this org+provider (e.g. DISCONNECTED) before creating a new one
-      await this.integrationsService.deleteConnection(orgId, validatedProvider);
-
-      // Build provider data before creating the connection so the row is never in an invalid state
-      const providerData = connector.buildInitialProviderData(
-        tokens.metadata,
-        accountInfo.metadata
-      );
-
-      const newConnection = await this.integrationsService.createConnection({
-        orgId,
-        provider: validatedProvider,
-        tokens,
-        providerData,
-        externalAccountRef,
-        externalAccountName,
-        createdById: userId,
-      });
-
-      // Register scheduled sync if the provider needs it
-      if (connector.syncSchedule) {
-        await this.integrationsService.registerScheduledSync(
-          newConnection.id,
-          connector.syncSchedule.every
-        );
-      }
-
-      // Trigger initial sync
-      await this.integrationsService.triggerSync(newConnection.id, orgId, 'INITIAL');
+      await this.completeConnection(orgId, userId, validatedProvider, tokens, accountInfo);
 
       res.redirect(`${this.frontendUrl}/dashboard/integrations?connected=${validatedProvider}`);
     } catch (error) {
@@ -433,6 +451,13 @@ export class IntegrationsController {
         }
       }
 
+      // Queue discovery for providers whose notifications don't name the changed item
+      if (result.discoverConnections) {
+        for (const conn of result.discoverConnections) {
+          await this.integrationsService.triggerSync(conn.id, conn.orgId, 'WEBHOOK');
+        }
+      }
+
       res.status(200).json(result.response);
     } catch (error) {
       const msg = error instanceof Error ? error.message : 'Unknown error';
@@ -442,4 +467,45 @@ export class IntegrationsController {
       }
     }
   }
+
+  /**
+   * Replace the org's connection to a provider with a new one and start its
+   * first sync. Shared by the OAuth callback and credential-based connects.
+   */
+  private async completeConnection(
+    orgId: DbId<'Org'>,
+    userId: DbId<'User'>,
+    provider: IntegrationProvider,
+    tokens: OAuthTokens,
+    accountInfo: AccountInfo
+  ): Promise<void> {
+    const connector = this.providerRegistry.getConnector(provider);
+
+    // Remove any existing connection for this org+provider (e.g. DISCONNECTED) before creating a new one
+    await this.integrationsService.deleteConnection(orgId, provider);
+
+    // Build provider data before creating the connection so the row is never in an invalid state
+    const providerData = connector.buildInitialProviderData(tokens.metadata, accountInfo.metadata);
+
+    const newConnection = await this.integrationsService.createConnection({
+      orgId,
+      provider,
+      tokens,
+      providerData,
+      externalAccountRef: accountInfo.id,
+      externalAccountName: accountInfo.name,
+      createdById: userId,
+    });
+
+    // Register scheduled sync if the provider needs it
+    if (connector.syncSchedule) {
+      await this.integrationsService.registerScheduledSync(
+        newConnection.id,
+        connector.syncSchedule.every
+      );
+    }
+
+    // Trigger initial sync
+    await this.integrationsService.triggerSync(newConnection.id, orgId, 'INITIAL');
+  }
 }
@@ -1,17 +1,24 @@
 import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
 
-import {
-  DATA_SOURCE_QUEUE,
-  INTEGRATIONS_QUEUE,
-  SLACK_BOT_QUEUE,
-} from '../queue/queue.constants';
+import { DATA_SOURCE_QUEUE, INTEGRATIONS_QUEUE, SLACK_BOT_QUEUE } from '../queue/queue.constants';
+import { StorageModule } from '../storage/storage.module';
 
 import { IntegrationSyncProcessor } from './processors/integration-sync.processor';
+import { ConfluenceConnector } from './providers/confluence/confluence.connector';
+import { ConfluenceContentWebhook } from './providers/confluence/webhooks/content.webhook';
+import { EmailConnector } from './providers/email/email.connector';
+import { GmailMailbox } from './providers/email/mailboxes/gmail.mailbox';
+import { ImapMailbox } from './providers/email/mailboxes/imap.mailbox';
 import { GitHubConnector } from './providers/github/github.connector';
 import { GitHubDiscussionWebhook } from './providers/github/webhooks/discussion.webhook';
 import { GitHubIssueWebhook } from './providers/github/webhooks/issue.webhook';
 import { GitHubPrWebhook } from './providers/github/webhooks/pr.webhook';
+import { GitHubPushWebhook } from './providers/github/webhooks/push.webhook';
+import { GoogleDriveConnector } from './providers/google-drive/google-drive.connector';
+import { GoogleDriveChangesWebhook } from './providers/google-drive/webhooks/changes.webhook';
+import { JiraConnector } from './providers/jira/jira.connector';
+import { JiraIssueWebhook } from './providers/jira/webhooks/issue.webhook';
 import { LinearConnector } from './providers/linear/linear.connector';
 import { LinearIssueWebhook } from './providers/linear/webhooks/issue.webhook';
 import { NotionConnector } from './providers/notion/notion.connector';
@@ -29,6 +36,7 @@ import { IntegrationsService } from './integrations.service';
     BullModule.registerQueue({ name: INTEGRATIONS_QUEUE }),
     BullModule.registerQueue({ name: DATA_SOURCE_QUEUE }),
     BullModule.registerQueue({ name: SLACK_BOT_QUEUE }),
+    StorageModule,
   ],
   controllers: [IntegrationsController],
   providers: [
@@ -38,15 +46,26 @@ import { IntegrationsService } from './integrations.service';
     GitHubIssueWebhook,
     GitHubPrWebhook,
     GitHubDiscussionWebhook,
+    GitHubPushWebhook,
     LinearIssueWebhook,
     NotionPageWebhook,
+    GoogleDriveChangesWebhook,
+    ConfluenceContentWebhook,
+    JiraIssueWebhook,
     SlackChannelWebhook,
+    // Mailbox readers
+    GmailMailbox,
+    ImapMailbox,
     // Connectors
     SlackBotService,
     SlackConnector,
     LinearConnector,
     GitHubConnector,
     NotionConnector,
+    GoogleDriveConnector,
+    ConfluenceConnector,
+    JiraConnector,
+    EmailConnector,
     IntegrationSyncProcessor,
     SlackBotProcessor,
   ],
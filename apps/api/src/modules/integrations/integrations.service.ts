@@ -1,5 +1,5 @@
 import { InjectQueue } from '@nestjs/bullmq';
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
 
 import type { DbId } from '@grabdy/common';
 import { extractOrgNumericId, packId } from '@grabdy/common';
@@ -10,6 +10,8 @@ import { sql } from 'kysely';
 import { EncryptionService } from '../../common/encryption/encryption.service';
 import { DbService } from '../../db/db.module';
 import { INTEGRATIONS_QUEUE } from '../queue/queue.constants';
+import type { FileStorage } from '../storage/file-storage.interface';
+import { FILE_STORAGE } from '../storage/file-storage.interface';
 
 import { ProviderRegistry } from './providers/provider-registry';
 import {
@@ -18,6 +20,7 @@ import {
   type ProviderData,
   type WebhookEvent,
 } from './connector.interface';
+import { TOKEN_REFRESH_BUFFER_MS, WEBHOOK_DISCOVERY_DEBOUNCE_MS } from './integrations.constants';
 
 interface CreateConnectionParams {
   orgId: DbId<'Org'>;
@@ -47,7 +50,8 @@ export class IntegrationsService {
     private db: DbService,
     private encryption: EncryptionService,
     private providerRegistry: ProviderRegistry,
-    @InjectQueue(INTEGRATIONS_QUEUE) private syncQueue: Queue
+    @InjectQueue(INTEGRATIONS_QUEUE) private syncQueue: Queue,
+    @Inject(FILE_STORAGE) private storage: FileStorage
   ) {}
 
   async listConnections(orgId: DbId<'Org'>) {
@@ -117,6 +121,34 @@ export class IntegrationsService {
     };
   }
 
+  /** The connection's access token, refreshed first if it is about to expire. */
+  async getFreshAccessToken(connection: {
+    id: DbId<'Connection'>;
+    provider: IntegrationProvider;
+    access_token: string;
+    refresh_token: string | null;
+    token_expires_at: Date | null;
+  }): Promise<string> {
+    if (!connection.token_expires_at || !connection.refresh_token) {
+      return connection.access_token;
+    }
+
+    const expiresAt = new Date(connection.token_expires_at).getTime();
+    if (expiresAt - Date.now() >= TOKEN_REFRESH_BUFFER_MS) {
+      return connection.access_token;
+    }
+
+    this.logger.log(`Refreshing tokens for connection ${connection.id}`);
+    const connector = this.providerRegistry.getConnector(connection.provider);
+    const newTokens = await connector.refreshTokens(connection.refresh_token);
+    await this.updateConnection(connection.id, {
+      accessToken: newTokens.accessToken,
+      refreshToken: newTokens.refreshToken,
+      tokenExpiresAt: newTokens.expiresAt,
+    });
+    return newTokens.accessToken;
+  }
+
   async createConnection(params: CreateConnectionParams) {
     const id = packId('Connection', extractOrgNumericId(params.orgId));
 
@@ -214,12 +246,7 @@ export class IntegrationsService {
 
     await this.removeScheduledSync(connection.id, provider);
 
-    // Delete associated data sources (chunks cascade from data_sources)
-    await this.db.kysely
-      .deleteFrom('data.data_sources')
-      .where('connection_id', '=', connection.id)
-      .where('org_id', '=', orgId)
-      .execute();
+    await this.deleteDataSources(orgId, connection.id);
 
     const result = await this.db.kysely
       .deleteFrom('integration.connections')
@@ -230,12 +257,59 @@ export class IntegrationsService {
     return Number(result.numDeletedRows) > 0;
   }
 
+  /**
+   * Delete a connection's data sources, or the one synced from `externalId`,
+   * along with any files stored for them. Chunks and extracted image rows
+   * cascade from data_sources.
+   */
+  async deleteDataSources(
+    orgId: DbId<'Org'>,
+    connectionId: DbId<'Connection'>,
+    externalId?: string
+  ) {
+    let query = this.db.kysely
+      .selectFrom('data.data_sources')
+      .select(['id', 'storage_path'])
+      .where('connection_id', '=', connectionId)
+      .where('org_id', '=', orgId);
+    if (externalId !== undefined) {
+      query = query.where('external_id', '=', externalId);
+    }
+    const dataSources = await query.execute();
+    if (dataSources.length === 0) return;
+
+    const ids = dataSources.map((ds) => ds.id);
+    const images = await this.db.kysely
+      .selectFrom('data.extracted_images')
+      .select('storage_path')
+      .where('data_source_id', 'in', ids)
+      .where('org_id', '=', orgId)
+      .execute();
+
+    await this.db.kysely
+      .deleteFrom('data.data_sources')
+      .where('id', 'in', ids)
+      .where('org_id', '=', orgId)
+      .execute();
+
+    // Only file items (e.g. Google Drive files) have a stored file
+    for (const path of [
+      ...dataSources.map((ds) => ds.storage_path),
+      ...images.map((i) => i.storage_path),
+    ]) {
+      if (path) await this.storage.delete(path);
+    }
+  }
+
   async triggerSync(connectionId: DbId<'Connection'>, orgId: DbId<'Org'>, trigger: SyncTrigger) {
-    await this.syncQueue.add('discover', {
-      connectionId,
-      orgId,
-      trigger,
-    });
+    await this.syncQueue.add(
+      'discover',
+      { connectionId, orgId, trigger },
+      // A burst of push notifications (e.g. Google Drive) becomes one discovery
+      trigger === 'WEBHOOK'
+        ? { deduplication: { id: `discover-${connectionId}`, ttl: WEBHOOK_DISCOVERY_DEBOUNCE_MS } }
+        : undefined
+    );
 
     this.logger.log(`Queued ${trigger} discovery for connection ${connectionId}`);
   }
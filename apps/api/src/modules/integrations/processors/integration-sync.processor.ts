@@ -1,14 +1,17 @@
 import { InjectQueue, Processor, WorkerHost } from '@nestjs/bullmq';
-import { Logger } from '@nestjs/common';
+import { Inject, Logger } from '@nestjs/common';
 
 import type { DbId } from '@grabdy/common';
 import { extractOrgNumericId, packId } from '@grabdy/common';
 import type { IntegrationProvider, SyncTrigger } from '@grabdy/contracts';
 import { Job, Queue } from 'bullmq';
+import { randomBytes } from 'node:crypto';
 
 import { DbService } from '../../../db/db.module';
 import type { DataSourceJobData } from '../../data-sources/data-source.processor';
 import { DATA_SOURCE_QUEUE, INTEGRATIONS_QUEUE } from '../../queue/queue.constants';
+import type { FileStorage } from '../../storage/file-storage.interface';
+import { FILE_STORAGE } from '../../storage/file-storage.interface';
 import {
   parseProviderData,
   type ProviderData,
@@ -40,12 +43,21 @@ function isWebhookJob(data: JobData): data is IntegrationWebhookJobData {
   return 'event' in data;
 }
 
+/**
+ * Dedup ID for a discovered item. BullMQ rejects custom IDs containing `:`,
+ * which external IDs (file paths, older Confluence IDs) and versions may carry.
+ */
+function itemJobId(connectionId: DbId<'Connection'>, event: WebhookEvent): string {
+  const id = event.version
+    ? `${connectionId}-${event.externalId}-${event.version}`
+    : `${connectionId}-${event.externalId}`;
+  return id.replace(/:/g, '_');
+}
+
 function isSyncJob(data: JobData): data is IntegrationSyncJobData {
   return 'trigger' in data;
 }
 
-const TOKEN_REFRESH_BUFFER_MS = 5 * 60 * 1000; // Refresh 5 minutes before expiry
-
 @Processor(INTEGRATIONS_QUEUE, { concurrency: 50 })
 export class IntegrationSyncProcessor extends WorkerHost {
   private readonly logger = new Logger(IntegrationSyncProcessor.name);
@@ -55,7 +67,8 @@ export class IntegrationSyncProcessor extends WorkerHost {
     private providerRegistry: ProviderRegistry,
     private integrationsService: IntegrationsService,
     @InjectQueue(DATA_SOURCE_QUEUE) private dataSourceQueue: Queue,
-    @InjectQueue(INTEGRATIONS_QUEUE) private syncQueue: Queue
+    @InjectQueue(INTEGRATIONS_QUEUE) private syncQueue: Queue,
+    @Inject(FILE_STORAGE) private storage: FileStorage
   ) {
     super();
   }
@@ -120,7 +133,7 @@ export class IntegrationSyncProcessor extends WorkerHost {
             result.webhookEvents.map((event) => ({
               name: 'process-item',
               data: { connectionId, orgId, event },
-              opts: { jobId: `${connectionId}-${event.externalId}` },
+              opts: { jobId: itemJobId(connectionId, event) },
             }))
           );
           this.logger.log(
@@ -219,24 +232,7 @@ export class IntegrationSyncProcessor extends WorkerHost {
       throw new Error(`Connection ${connectionId} not found`);
     }
 
-    const connector = this.providerRegistry.getConnector(connection.provider);
-
-    // Refresh tokens if near expiry
-    let accessToken = connection.access_token;
-    if (connection.token_expires_at && connection.refresh_token) {
-      const expiresAt = new Date(connection.token_expires_at).getTime();
-      if (expiresAt - Date.now() < TOKEN_REFRESH_BUFFER_MS) {
-        this.logger.log(`Refreshing tokens for connection ${connectionId}`);
-        const newTokens = await connector.refreshTokens(connection.refresh_token);
-        await this.integrationsService.updateConnection(connectionId, {
-          accessToken: newTokens.accessToken,
-          refreshToken: newTokens.refreshToken,
-          tokenExpiresAt: newTokens.expiresAt,
-        });
-        accessToken = newTokens.accessToken;
-      }
-    }
-
+    const accessToken = await this.integrationsService.getFreshAccessToken(connection);
     return { accessToken, connection };
   }
 
@@ -249,12 +245,30 @@ export class IntegrationSyncProcessor extends WorkerHost {
     // Check if DataSource already exists for this external ID
     const existing = await this.db.kysely
       .selectFrom('data.data_sources')
-      .select(['id', 'title'])
+      .select(['id', 'title', 'storage_path'])
       .where('connection_id', '=', connectionId)
       .where('external_id', '=', item.externalId)
       .where('org_id', '=', orgId)
       .executeTakeFirst();
 
+    // File items are stored and extracted like uploads; others carry their text in the job
+    const stored = item.file
+      ? {
+          storage_path: await this.storeFile(item.file, orgId),
+          mime_type: item.file.mimeType,
+          file_size: item.file.data.length,
+        }
+      : null;
+    const jobContent: Pick<DataSourceJobData, 'storagePath' | 'mimeType' | 'content' | 'messages'> =
+      stored
+        ? { storagePath: stored.storage_path, mimeType: stored.mime_type }
+        : {
+            storagePath: '',
+            mimeType: 'text/plain',
+            content: item.content,
+            messages: item.messages,
+          };
+
     if (existing) {
       // Update existing DataSource and re-queue for processing
       await this.db.kysely
@@ -263,12 +277,17 @@ export class IntegrationSyncProcessor extends WorkerHost {
           title: item.title,
           source_url: item.sourceUrl,
           status: item.appendOnly ? 'READY' : 'UPLOADED',
+          ...stored,
           updated_at: new Date(),
         })
         .where('id', '=', existing.id)
         .where('org_id', '=', orgId)
         .execute();
 
+      if (stored && existing.storage_path) {
+        await this.storage.delete(existing.storage_path);
+      }
+
       if (!item.appendOnly) {
         // Full rebuild: delete old chunks before re-processing
         await this.db.kysely
@@ -282,11 +301,8 @@ export class IntegrationSyncProcessor extends WorkerHost {
       const jobData: DataSourceJobData = {
         dataSourceId: existing.id,
         orgId,
-        storagePath: '',
-        mimeType: 'text/plain',
+        ...jobContent,
         collectionId: null,
-        content: item.content,
-        messages: item.messages,
         sourceUrl: item.sourceUrl,
         appendOnly: item.appendOnly,
       };
@@ -303,6 +319,7 @@ export class IntegrationSyncProcessor extends WorkerHost {
           mime_type: 'text/plain',
           file_size: Buffer.byteLength(item.content, 'utf-8'),
           storage_path: '',
+          ...stored,
           type: provider,
           status: 'UPLOADED',
           connection_id: connectionId,
@@ -318,43 +335,32 @@ export class IntegrationSyncProcessor extends WorkerHost {
       const jobData: DataSourceJobData = {
         dataSourceId,
         orgId,
-        storagePath: '',
-        mimeType: 'text/plain',
+        ...jobContent,
         collectionId: null,
-        content: item.content,
-        messages: item.messages,
         sourceUrl: item.sourceUrl,
       };
       await this.dataSourceQueue.add('process', jobData);
     }
   }
 
+  /** Store a file item under the same key scheme as uploads. */
+  private async storeFile(
+    file: NonNullable<SyncedItem['file']>,
+    orgId: DbId<'Org'>
+  ): Promise<string> {
+    const orgNum = extractOrgNumericId(orgId).toString();
+    // Drive file names may contain slashes, which would read as folders
+    const name = file.fileName.replace(/[/\\]/g, '_');
+    const storagePath = `${orgNum}/${Date.now()}-${randomBytes(4).toString('hex')}-${name}`;
+    await this.storage.put(storagePath, file.data, file.mimeType);
+    return storagePath;
+  }
+
   private async deleteItem(
     externalId: string,
     connectionId: DbId<'Connection'>,
     orgId: DbId<'Org'>
   ): Promise<void> {
-    const existing = await this.db.kysely
-      .selectFrom('data.data_sources')
-      .select('id')
-      .where('connection_id', '=', connectionId)
-      .where('external_id', '=', externalId)
-      .where('org_id', '=', orgId)
-      .executeTakeFirst();
-
-    if (existing) {
-      // Chunks cascade via FK, but delete explicitly for clarity
-      await this.db.kysely
-        .deleteFrom('data.chunks')
-        .where('data_source_id', '=', existing.id)
-        .where('org_id', '=', orgId)
-        .execute();
-
-      await this.db.kysely
-        .deleteFrom('data.data_sources')
-        .where('id', '=', existing.id)
-        .where('org_id', '=', orgId)
-        .execute();
-    }
+    await this.integrationsService.deleteDataSources(orgId, connectionId, externalId);
   }
 }
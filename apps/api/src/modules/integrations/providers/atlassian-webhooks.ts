@@ -0,0 +1,52 @@
+import type { DbId } from '@grabdy/common';
+
+import type { WebhookEvent, WebhookHandlerResult } from '../connector.interface';
+
+/** The site an Atlassian connection is to, as stored in its provider data. */
+interface AtlassianSite {
+  cloudId: string;
+  siteUrl?: string;
+}
+
+/**
+ * Whether a REST URL from a webhook payload (`self`) belongs to a site. Site
+ * URLs look like `https://acme.atlassian.net/rest/api/2/issue/10001`; URLs
+ * through the API gateway name the cloud ID instead:
+ * `https://api.atlassian.com/ex/jira/<cloudId>/rest/...`.
+ */
+export function isOnAtlassianSite(selfUrl: string, site: AtlassianSite): boolean {
+  let url: URL;
+  try {
+    url = new URL(selfUrl);
+  } catch {
+    return false;
+  }
+  if (url.hostname === 'api.atlassian.com') {
+    return url.pathname.split('/')[3] === site.cloudId;
+  }
+  if (!site.siteUrl) return false;
+  try {
+    return url.origin === new URL(site.siteUrl).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The connections a Jira or Confluence webhook is for. One webhook secret
+ * serves every site, so a payload is routed by the project or space key it
+ * names — which other sites may use too — and by the site its `self` URL
+ * points at. Payloads without one go to every connection tracking the key,
+ * each of which looks the item up on its own site.
+ */
+export function routeAtlassianWebhook<D extends AtlassianSite>(
+  connections: ReadonlyArray<{ id: DbId<'Connection'>; orgId: DbId<'Org'>; providerData: D }>,
+  event: WebhookEvent,
+  selfUrl: string | undefined,
+  tracks: (providerData: D) => boolean
+): NonNullable<WebhookHandlerResult['syncConnections']> {
+  return connections
+    .filter((conn) => tracks(conn.providerData))
+    .filter((conn) => !selfUrl || isOnAtlassianSite(selfUrl, conn.providerData))
+    .map((conn) => ({ id: conn.id, orgId: conn.orgId, event }));
+}
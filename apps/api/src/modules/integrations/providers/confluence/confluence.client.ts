@@ -0,0 +1,169 @@
+import { z } from 'zod';
+
+const ATLASSIAN_API_URL = 'https://api.atlassian.com';
+
+/** Listings ask for the largest page size the v2 API allows. */
+const PAGE_LIMIT = '250';
+
+export type ConfluenceContentKind = 'page' | 'blogpost';
+
+// ---------------------------------------------------------------------------
+// Response schemas (trust boundary)
+// ---------------------------------------------------------------------------
+
+const accessibleResourcesSchema = z.array(
+  z.object({ id: z.string(), url: z.string(), name: z.string(), scopes: z.array(z.string()) })
+);
+
+export type AtlassianSite = z.infer<typeof accessibleResourcesSchema>[number];
+
+const linksSchema = z.object({ next: z.string().optional() }).optional();
+
+const spaceSchema = z.object({ id: z.string(), key: z.string(), name: z.string() });
+
+export type ConfluenceSpace = z.infer<typeof spaceSchema>;
+
+export const confluenceContentSchema = z.object({
+  id: z.string(),
+  status: z.string(),
+  title: z.string(),
+  spaceId: z.string(),
+  version: z.object({ number: z.number(), createdAt: z.string() }).optional(),
+  body: z.object({ storage: z.object({ value: z.string() }).optional() }).optional(),
+  _links: z.object({ webui: z.string().optional() }).optional(),
+});
+
+export type ConfluenceContent = z.infer<typeof confluenceContentSchema>;
+
+const spaceListSchema = z.object({ results: z.array(spaceSchema), _links: linksSchema });
+
+const contentListSchema = z.object({
+  results: z.array(confluenceContentSchema),
+  _links: linksSchema,
+});
+
+const ancestorListSchema = z.object({
+  results: z.array(z.object({ id: z.string(), type: z.string().optional() })),
+});
+
+export class ConfluenceApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ConfluenceApiError';
+  }
+}
+
+/** Atlassian sites the token can reach; the first Confluence site is the one that gets connected. */
+export async function listAccessibleSites(accessToken: string): Promise<AtlassianSite[]> {
+  const response = await fetch(`${ATLASSIAN_API_URL}/oauth/token/accessible-resources`, {
+    headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw new ConfluenceApiError(
+      response.status,
+      `Atlassian accessible-resources failed: ${response.status} ${text}`
+    );
+  }
+  return accessibleResourcesSchema.parse(await response.json());
+}
+
+/** The `cursor` query parameter of a v2 `_links.next` URL. */
+function nextCursor(links: z.infer<typeof linksSchema>): string | undefined {
+  if (!links?.next) return undefined;
+  return new URL(links.next, ATLASSIAN_API_URL).searchParams.get('cursor') ?? undefined;
+}
+
+/** Minimal Confluence Cloud REST v2 client for one OAuth access token and site. */
+export class ConfluenceClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly accessToken: string,
+    cloudId: string
+  ) {
+    this.baseUrl = `${ATLASSIAN_API_URL}/ex/confluence/${encodeURIComponent(cloudId)}/wiki/api/v2`;
+  }
+
+  /** One page of current spaces, optionally only those with the given keys. */
+  async listSpaces(options: { keys?: string[]; cursor?: string } = {}) {
+    const data = await this.getJson(spaceListSchema, '/spaces', {
+      status: 'current',
+      limit: PAGE_LIMIT,
+      ...(options.keys ? { keys: options.keys.join(',') } : {}),
+      ...(options.cursor ? { cursor: options.cursor } : {}),
+    });
+    return { spaces: data.results, cursor: nextCursor(data._links) };
+  }
+
+  async getSpace(confluenceSpaceId: string): Promise<ConfluenceSpace> {
+    return this.getJson(spaceSchema, `/spaces/${encodeURIComponent(confluenceSpaceId)}`, {});
+  }
+
+  /** One page of a space's pages or blog posts, most recently modified first, without bodies. */
+  async listSpaceContent(kind: ConfluenceContentKind, confluenceSpaceId: string, cursor?: string) {
+    const data = await this.getJson(
+      contentListSchema,
+      `/spaces/${encodeURIComponent(confluenceSpaceId)}/${kind}s`,
+      { sort: '-modified-date', limit: PAGE_LIMIT, ...(cursor ? { cursor } : {}) }
+    );
+    return { contents: data.results, cursor: nextCursor(data._links) };
+  }
+
+  /** A page or blog post with its body in storage format (Confluence's XHTML). */
+  async getContent(
+    kind: ConfluenceContentKind,
+    confluenceContentId: string
+  ): Promise<ConfluenceContent> {
+    return this.getJson(
+      confluenceContentSchema,
+      `/${kind}s/${encodeURIComponent(confluenceContentId)}`,
+      {
+        'body-format': 'storage',
+      }
+    );
+  }
+
+  /** IDs of the pages above a page, top-level first. Folders and other content types are left out. */
+  async getAncestorIds(confluencePageId: string): Promise<string[]> {
+    const data = await this.getJson(
+      ancestorListSchema,
+      `/pages/${encodeURIComponent(confluencePageId)}/ancestors`,
+      { limit: PAGE_LIMIT }
+    );
+    return data.results.filter((a) => (a.type ?? 'page') === 'page').map((a) => a.id);
+  }
+
+  /** Titles of the given pages, keyed by page ID. */
+  async getPageTitles(confluencePageIds: string[]): Promise<Map<string, string>> {
+    if (confluencePageIds.length === 0) return new Map();
+    const data = await this.getJson(contentListSchema, '/pages', {
+      id: confluencePageIds.join(','),
+      limit: PAGE_LIMIT,
+    });
+    return new Map(data.results.map((p) => [p.id, p.title]));
+  }
+
+  private async getJson<T>(
+    schema: z.ZodType<T>,
+    path: string,
+    params: Record<string, string>
+  ): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${this.baseUrl}${path}${query ? `?${query}` : ''}`, {
+      headers: { Authorization: `Bearer ${this.accessToken}`, Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new ConfluenceApiError(
+        response.status,
+        `Confluence ${path} failed: ${response.status} ${text}`
+      );
+    }
+    return schema.parse(await response.json());
+  }
+}
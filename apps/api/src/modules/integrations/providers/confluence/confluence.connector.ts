@@ -0,0 +1,306 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import type { DbId } from '@grabdy/common';
+import { IntegrationProvider } from '@grabdy/contracts';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+
+import { InjectEnv } from '../../../../config/env.config';
+import {
+  type AccountInfo,
+  IntegrationConnector,
+  type OAuthTokens,
+  type RateLimitConfig,
+  type SyncedItem,
+  type SyncResult,
+  type WebhookEvent,
+  type WebhookHandlerResult,
+} from '../../connector.interface';
+import { routeAtlassianWebhook } from '../atlassian-webhooks';
+
+import { ConfluenceContentWebhook } from './webhooks/content.webhook';
+import { ConfluenceClient, type ConfluenceSpace, listAccessibleSites } from './confluence.client';
+import type { ConfluenceProviderData } from './confluence.types';
+
+const CONFLUENCE_SCOPES = [
+  'read:page:confluence',
+  'read:blogpost:confluence',
+  'read:space:confluence',
+  'read:hierarchical-content:confluence',
+  'offline_access',
+];
+
+/** The sync cursor is set this far before the sync started, to absorb clock skew with Atlassian. */
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// OAuth token response schema (trust boundary)
+// ---------------------------------------------------------------------------
+
+const atlassianTokenResponseSchema = z.object({
+  access_token: z.string(),
+  expires_in: z.number(),
+  /** Rotating: every refresh returns a new one and retires the old. */
+  refresh_token: z.string().optional(),
+  scope: z.string(),
+});
+
+@Injectable()
+export class ConfluenceConnector extends IntegrationConnector<'CONFLUENCE'> {
+  readonly provider = IntegrationProvider.CONFLUENCE;
+  readonly rateLimits: RateLimitConfig = { maxRequestsPerMinute: 300, maxRequestsPerHour: 10000 };
+  readonly syncSchedule = { every: 3_600_000 }; // Hourly safety net for missed webhooks
+
+  private readonly logger = new Logger(ConfluenceConnector.name);
+
+  constructor(
+    @InjectEnv('confluenceClientId') private readonly confluenceClientId: string,
+    @InjectEnv('confluenceClientSecret') private readonly confluenceClientSecret: string,
+    @InjectEnv('confluenceWebhookSecret') private readonly confluenceWebhookSecret: string,
+    private readonly contentWebhook: ConfluenceContentWebhook
+  ) {
+    super();
+  }
+
+  // ---- Auth ----------------------------------------------------------------
+
+  getAuthUrl(_orgId: DbId<'Org'>, state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      audience: 'api.atlassian.com',
+      client_id: this.confluenceClientId,
+      scope: CONFLUENCE_SCOPES.join(' '),
+      redirect_uri: redirectUri,
+      state,
+      response_type: 'code',
+      prompt: 'consent',
+    });
+    return `https://auth.atlassian.com/authorize?${params.toString()}`;
+  }
+
+  async exchangeCode(code: string, redirectUri: string): Promise<OAuthTokens<'CONFLUENCE'>> {
+    const data = await this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+    });
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? null,
+      expiresAt: new Date(Date.now() + data.expires_in * 1000),
+      scopes: data.scope.split(' '),
+    };
+  }
+
+  async refreshTokens(refreshToken: string): Promise<OAuthTokens<'CONFLUENCE'>> {
+    const data = await this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? refreshToken,
+      expiresAt: new Date(Date.now() + data.expires_in * 1000),
+      scopes: data.scope.split(' '),
+    };
+  }
+
+  /** The connection is to the first Confluence site the user granted access to. */
+  async getAccountInfo(accessToken: string): Promise<AccountInfo<'CONFLUENCE'>> {
+    const sites = await listAccessibleSites(accessToken);
+    const site = sites.find((s) => s.scopes.some((scope) => scope.endsWith(':confluence')));
+    if (!site) {
+      throw new Error('No Confluence site is accessible with this authorization');
+    }
+
+    return {
+      id: site.id,
+      name: site.name,
+      metadata: { cloudId: site.id, siteUrl: site.url },
+    };
+  }
+
+  // ---- Webhooks ------------------------------------------------------------
+
+  parseWebhook(
+    headers: Record<string, string>,
+    body: unknown,
+    secret: string | null,
+    rawBody?: string
+  ): WebhookEvent | null {
+    return this.parseContentWebhook(headers, body, secret, rawBody)?.event ?? null;
+  }
+
+  handleWebhookRequest(
+    headers: Record<string, string>,
+    body: unknown,
+    connections: ReadonlyArray<{
+      id: DbId<'Connection'>;
+      orgId: DbId<'Org'>;
+      providerData: ConfluenceProviderData;
+    }>,
+    rawBody?: string
+  ): WebhookHandlerResult {
+    const parsed = this.parseContentWebhook(headers, body, this.confluenceWebhookSecret, rawBody);
+    if (!parsed) {
+      return { response: { ok: true } };
+    }
+
+    const syncConnections = routeAtlassianWebhook(
+      connections,
+      parsed.event,
+      parsed.selfUrl,
+      (providerData) => providerData.selectedSpaceKeys?.includes(parsed.spaceKey) ?? false
+    );
+
+    return { response: { ok: true }, syncConnections };
+  }
+
+  // ---- Sync ----------------------------------------------------------------
+
+  /**
+   * Newly selected spaces are listed in full; the others only for content
+   * modified since the last sync. Content is fetched per item from the queued
+   * events.
+   */
+  async sync(accessToken: string, providerData: ConfluenceProviderData): Promise<SyncResult> {
+    const client = new ConfluenceClient(accessToken, providerData.cloudId);
+    const selectedSpaceKeys = providerData.selectedSpaceKeys ?? [];
+    const syncedUntil = new Date(Date.now() - CURSOR_OVERLAP_MS).toISOString();
+
+    const webhookEvents: WebhookEvent[] = [];
+    const listed = new Set(providerData.listedSpaceKeys);
+    for (const space of await this.listSpaces(client, selectedSpaceKeys)) {
+      const since = listed.has(space.key) ? providerData.lastSyncedAt : null;
+      webhookEvents.push(...(await this.contentWebhook.listSpaceEvents(client, space.id, since)));
+      listed.add(space.key);
+    }
+
+    this.logger.log(`Confluence sync discovered ${webhookEvents.length} pages to process`);
+
+    return {
+      items: [],
+      deletedExternalIds: [],
+      updatedProviderData: {
+        ...providerData,
+        // Deselected spaces are dropped, so selecting one again lists it again
+        listedSpaceKeys: selectedSpaceKeys.filter((key) => listed.has(key)),
+        lastSyncedAt: syncedUntil,
+      },
+      hasMore: false,
+      webhookEvents,
+    };
+  }
+
+  /**
+   * Deletions are confirmed against Confluence like updates: a webhook for
+   * another site's page with the same ID must not remove this one. Content
+   * that can't be fetched any more is removed.
+   */
+  async processWebhookItem(
+    accessToken: string,
+    providerData: ConfluenceProviderData,
+    event: WebhookEvent
+  ): Promise<{ item: SyncedItem | null; deletedExternalId: string | null }> {
+    const client = new ConfluenceClient(accessToken, providerData.cloudId);
+    const item = await this.contentWebhook.fetchItem(client, providerData, event.externalId);
+    if (!item) {
+      return { item: null, deletedExternalId: event.externalId };
+    }
+    return { item, deletedExternalId: null };
+  }
+
+  buildInitialProviderData(
+    tokenMetadata?: Partial<ConfluenceProviderData>,
+    accountMetadata?: Partial<ConfluenceProviderData>
+  ): ConfluenceProviderData {
+    return {
+      provider: 'CONFLUENCE',
+      cloudId: tokenMetadata?.cloudId ?? accountMetadata?.cloudId ?? '',
+      siteUrl: tokenMetadata?.siteUrl ?? accountMetadata?.siteUrl,
+      selectedSpaceKeys: [],
+      listedSpaceKeys: [],
+      lastSyncedAt: null,
+    };
+  }
+
+  /** Spaces are selected by key, which is what webhook payloads name them by. */
+  async listResources(
+    accessToken: string,
+    providerData: ConfluenceProviderData
+  ): Promise<Array<{ id: string; name: string; selected: boolean }>> {
+    const client = new ConfluenceClient(accessToken, providerData.cloudId);
+    const selectedKeys = new Set(providerData.selectedSpaceKeys ?? []);
+    const spaces = await this.listSpaces(client);
+    return spaces.map((space) => ({
+      id: space.key,
+      name: `${space.name} (${space.key})`,
+      selected: selectedKeys.has(space.key),
+    }));
+  }
+
+  // ---- Private -------------------------------------------------------------
+
+  /** All current spaces, or only those with the given keys. */
+  private async listSpaces(client: ConfluenceClient, keys?: string[]): Promise<ConfluenceSpace[]> {
+    if (keys?.length === 0) return [];
+
+    const spaces: ConfluenceSpace[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listSpaces({ keys, cursor });
+      spaces.push(...page.spaces);
+      cursor = page.cursor;
+    } while (cursor);
+    return spaces;
+  }
+
+  private async requestToken(
+    params: Record<string, string>
+  ): Promise<z.infer<typeof atlassianTokenResponseSchema>> {
+    const response = await fetch('https://auth.atlassian.com/oauth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: this.confluenceClientId,
+        client_secret: this.confluenceClientSecret,
+        ...params,
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Atlassian token request failed: ${response.status} ${text}`);
+    }
+
+    return atlassianTokenResponseSchema.parse(await response.json());
+  }
+
+  private parseContentWebhook(
+    headers: Record<string, string>,
+    body: unknown,
+    secret: string | null,
+    rawBody?: string
+  ): ReturnType<ConfluenceContentWebhook['extractEvent']> {
+    if (!body || typeof body !== 'object') return null;
+    if (!this.verifySignature(headers, secret, rawBody ?? JSON.stringify(body))) return null;
+    return this.contentWebhook.extractEvent(body);
+  }
+
+  /** Webhooks registered with a secret are signed as `X-Hub-Signature: sha256=<hex HMAC of the body>`. */
+  private verifySignature(
+    headers: Record<string, string>,
+    secret: string | null,
+    bodyString: string
+  ): boolean {
+    const signature = headers['x-hub-signature'];
+    if (!signature || !secret) return false;
+
+    const expected = `sha256=${createHmac('sha256', secret).update(bodyString).digest('hex')}`;
+
+    const sigBuffer = Buffer.from(signature);
+    const expectedBuffer = Buffer.from(expected);
+    return sigBuffer.length === expectedBuffer.length && timingSafeEqual(sigBuffer, expectedBuffer);
+  }
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export interface ConfluenceProviderData {
+  provider: 'CONFLUENCE';
+  /** Atlassian cloud ID of the connected site; every API call is routed through it. */
+  cloudId: string;
+  /** e.g. https://acme.atlassian.net */
+  siteUrl?: string;
+  /** Keys of the spaces the user selected for syncing. */
+  selectedSpaceKeys?: string[];
+  /** Selected spaces whose content has been listed; spaces selected later are listed in full on the next sync. */
+  listedSpaceKeys: string[];
+  /** ISO timestamp cursor — sync pages and blog posts modified after this time. */
+  lastSyncedAt: string | null;
+}
+
+export const confluenceProviderDataSchema = z.object({
+  provider: z.literal('CONFLUENCE'),
+  cloudId: z.string(),
+  siteUrl: z.string().optional(),
+  selectedSpaceKeys: z.array(z.string()).optional(),
+  listedSpaceKeys: z.array(z.string()).default([]),
+  lastSyncedAt: z.string().nullable(),
+});
+
+/** Public schema — strips the cloud ID and the sync bookkeeping. */
+export const confluencePublicSchema = z.object({
+  provider: z.literal('CONFLUENCE'),
+  siteUrl: z.string().optional(),
+  selectedSpaceKeys: z.array(z.string()).optional(),
+  lastSyncedAt: z.string().nullable(),
+});
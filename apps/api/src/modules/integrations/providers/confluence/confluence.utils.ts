@@ -0,0 +1,73 @@
+import { htmlToMarkdown } from '../../../data-sources/chunking/html-to-markdown';
+
+import type { ConfluenceContent, ConfluenceContentKind } from './confluence.client';
+
+/**
+ * Pages and blog posts share one externalId namespace: `page-123`, `blogpost-456`.
+ * The externalId ends up in BullMQ job IDs, which must not contain `:`.
+ */
+export function contentExternalId(
+  kind: ConfluenceContentKind,
+  confluenceContentId: string
+): string {
+  return `${kind}-${confluenceContentId}`;
+}
+
+/** Also accepts the earlier `page:123` form still stored on older data sources. */
+export function parseContentExternalId(
+  externalId: string
+): { kind: ConfluenceContentKind; confluenceContentId: string } | null {
+  const match = /^(page|blogpost)[-:](\d+)$/.exec(externalId);
+  if (!match) return null;
+  return { kind: match[1] === 'page' ? 'page' : 'blogpost', confluenceContentId: match[2] };
+}
+
+export function contentUrl(siteUrl: string | undefined, content: ConfluenceContent): string {
+  const base = `${siteUrl ?? ''}/wiki`;
+  return content._links?.webui
+    ? `${base}${content._links.webui}`
+    : `${base}/pages/viewpage.action?pageId=${content.id}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Text inside `<![CDATA[...]]>` sections, joined. */
+function cdataText(xml: string): string {
+  return [...xml.matchAll(/<!\[CDATA\[([\s\S]*?)\]\]>/g)].map((m) => m[1]).join('');
+}
+
+/**
+ * Convert a Confluence storage-format body (XHTML with `ac:` and `ri:` macro
+ * elements) to Markdown. Code macros become fenced blocks, links keep their
+ * text or target title, and task lists become checkboxes; macro parameters and
+ * placeholders are dropped. The rest is plain HTML for `htmlToMarkdown`.
+ */
+export function storageToMarkdown(storage: string): string {
+  const html = storage
+    .replace(
+      /<ac:structured-macro\b[^>]*ac:name="(?:code|noformat)"[^>]*>([\s\S]*?)<\/ac:structured-macro>/gi,
+      (_, inner: string) => {
+        const language =
+          /<ac:parameter\b[^>]*ac:name="language"[^>]*>([^<]*)<\/ac:parameter>/i.exec(inner)?.[1];
+        const codeClass = language ? ` class="language-${language.trim()}"` : '';
+        return `<pre><code${codeClass}>${escapeHtml(cdataText(inner))}</code></pre>`;
+      }
+    )
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, text: string) => escapeHtml(text))
+    .replace(/<ac:(parameter|placeholder|task-id|task-uuid)\b[^>]*>[\s\S]*?<\/ac:\1>/gi, '')
+    .replace(/<ac:link\b[^>]*>([\s\S]*?)<\/ac:link>/gi, (_, inner: string) => {
+      const body = /<ac:(?:plain-text-)?link-body>([\s\S]*?)<\/ac:(?:plain-text-)?link-body>/i.exec(
+        inner
+      )?.[1];
+      return body ?? /ri:(?:content-title|filename)="([^"]*)"/i.exec(inner)?.[1] ?? '';
+    })
+    .replace(/<ac:task-status>\s*complete\s*<\/ac:task-status>/gi, '[x] ')
+    .replace(/<ac:task-status>[\s\S]*?<\/ac:task-status>/gi, '[ ] ')
+    .replace(/<(\/?)ac:task-list>/gi, '<$1ul>')
+    .replace(/<(\/?)ac:task>/gi, '<$1li>')
+    .replace(/<time\b[^>]*datetime="([^"]*)"[^>]*\/?>/gi, '$1');
+
+  return htmlToMarkdown(html);
+}
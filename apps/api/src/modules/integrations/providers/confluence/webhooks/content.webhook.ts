@@ -0,0 +1,174 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { z } from 'zod';
+
+import type { SyncedItem, WebhookEvent } from '../../../connector.interface';
+import {
+  ConfluenceApiError,
+  type ConfluenceClient,
+  type ConfluenceContentKind,
+} from '../confluence.client';
+import type { ConfluenceProviderData } from '../confluence.types';
+import {
+  contentExternalId,
+  contentUrl,
+  parseContentExternalId,
+  storageToMarkdown,
+} from '../confluence.utils';
+
+// ---------------------------------------------------------------------------
+// Webhook payload schemas (trust boundary)
+// ---------------------------------------------------------------------------
+
+const confluenceWebhookContentSchema = z.object({
+  id: z.coerce.string(),
+  spaceKey: z.string(),
+  self: z.string().optional(),
+});
+
+const confluenceWebhookPayloadSchema = z.object({
+  event: z.string(),
+  page: confluenceWebhookContentSchema.optional(),
+  blog: confluenceWebhookContentSchema.optional(),
+});
+
+const CONTENT_KINDS: readonly ConfluenceContentKind[] = ['page', 'blogpost'];
+
+@Injectable()
+export class ConfluenceContentWebhook {
+  private readonly logger = new Logger(ConfluenceContentWebhook.name);
+
+  /**
+   * The page or blog post a webhook is about, with the key of the space it's
+   * in and its REST URL, which names the site.
+   */
+  extractEvent(
+    body: unknown
+  ): { event: WebhookEvent; spaceKey: string; selfUrl: string | undefined } | null {
+    const parsed = confluenceWebhookPayloadSchema.safeParse(body);
+    if (!parsed.success) return null;
+
+    const { event: eventType, page, blog } = parsed.data;
+    const content = eventType.startsWith('page_')
+      ? page
+      : eventType.startsWith('blog_')
+        ? blog
+        : null;
+    if (!content) return null;
+
+    // page_removed / blog_removed purge from the trash; *_trashed moves there
+    const action = /_(removed|trashed)$/.test(eventType) ? 'deleted' : 'updated';
+    const kind: ConfluenceContentKind = content === page ? 'page' : 'blogpost';
+    return {
+      event: { action, externalId: contentExternalId(kind, content.id) },
+      spaceKey: content.spaceKey,
+      selfUrl: content.self,
+    };
+  }
+
+  /**
+   * Pages and blog posts of a space modified after `since`, or all of them
+   * when `since` is null. Each is queued with its version number, so an
+   * unchanged page listed again is not fetched twice.
+   */
+  async listSpaceEvents(
+    client: ConfluenceClient,
+    confluenceSpaceId: string,
+    since: string | null
+  ): Promise<WebhookEvent[]> {
+    const events: WebhookEvent[] = [];
+    const sinceMs = since ? Date.parse(since) : null;
+
+    for (const kind of CONTENT_KINDS) {
+      let cursor: string | undefined;
+      do {
+        const page = await client.listSpaceContent(kind, confluenceSpaceId, cursor);
+        cursor = page.cursor;
+
+        for (const content of page.contents) {
+          const modifiedAt = content.version ? Date.parse(content.version.createdAt) : null;
+          // Listings are newest first, so everything after this was synced already
+          if (sinceMs !== null && modifiedAt !== null && modifiedAt <= sinceMs) {
+            cursor = undefined;
+            break;
+          }
+          events.push({
+            action: 'updated',
+            externalId: contentExternalId(kind, content.id),
+            version: content.version ? String(content.version.number) : undefined,
+          });
+        }
+      } while (cursor);
+    }
+
+    return events;
+  }
+
+  /**
+   * Fetch a page or blog post and convert its body to Markdown. Content that is
+   * gone, trashed, unreadable or outside the selected spaces yields null.
+   */
+  async fetchItem(
+    client: ConfluenceClient,
+    providerData: ConfluenceProviderData,
+    externalId: string
+  ): Promise<SyncedItem | null> {
+    const ref = parseContentExternalId(externalId);
+    if (!ref) return null;
+
+    try {
+      const content = await client.getContent(ref.kind, ref.confluenceContentId);
+      if (content.status !== 'current') return null;
+
+      const space = await client.getSpace(content.spaceId);
+      if (!providerData.selectedSpaceKeys?.includes(space.key)) return null;
+
+      const ancestors = ref.kind === 'page' ? await this.ancestorTitles(client, content.id) : [];
+      const sourceUrl = contentUrl(providerData.siteUrl, content);
+      const body = storageToMarkdown(content.body?.storage?.value ?? '');
+      const fullContent = body ? `${content.title}\n\n${body}` : content.title;
+
+      return {
+        externalId,
+        title: content.title,
+        content: fullContent,
+        messages: [
+          {
+            content: fullContent,
+            metadata: {
+              type: 'CONFLUENCE',
+              confluenceSpaceKey: space.key,
+              confluencePageId: content.id,
+              confluenceAncestors: ancestors,
+            },
+            sourceUrl,
+          },
+        ],
+        sourceUrl,
+        metadata: {
+          confluencePageId: content.id,
+          confluenceSpaceKey: space.key,
+          contentType: ref.kind,
+          ancestors,
+        },
+      };
+    } catch (err) {
+      // 403: no longer readable by the connected user; 404: deleted. Anything else is retried.
+      if (err instanceof ConfluenceApiError && (err.status === 403 || err.status === 404)) {
+        this.logger.warn(`Could not fetch Confluence ${externalId}: ${err.message}`);
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /** Titles of the pages above a page, top-level first. */
+  private async ancestorTitles(
+    client: ConfluenceClient,
+    confluencePageId: string
+  ): Promise<string[]> {
+    const ancestorIds = await client.getAncestorIds(confluencePageId);
+    const titles = await client.getPageTitles(ancestorIds);
+    return ancestorIds.flatMap((id) => titles.get(id) ?? []);
+  }
+}
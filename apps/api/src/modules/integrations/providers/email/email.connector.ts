@@ -0,0 +1,214 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import type { DbId } from '@grabdy/common';
+import { IntegrationProvider } from '@grabdy/contracts';
+
+import { InjectEnv } from '../../../../config/env.config';
+import {
+  type AccountInfo,
+  IntegrationConnector,
+  type OAuthTokens,
+  type RateLimitConfig,
+  type SyncedItem,
+  type SyncResult,
+  type WebhookEvent,
+  type WebhookHandlerResult,
+} from '../../connector.interface';
+import {
+  exchangeGoogleCode,
+  googleAuthUrl,
+  type GoogleOAuthClient,
+  refreshGoogleTokens,
+} from '../google-oauth';
+
+import { GmailMailbox } from './mailboxes/gmail.mailbox';
+import { ImapMailbox } from './mailboxes/imap.mailbox';
+import type { EmailProviderData, ImapSettings } from './email.types';
+import { buildEmailItems, type MailboxBatch } from './email.utils';
+import { GmailClient } from './gmail.client';
+
+const GMAIL_SCOPES = ['https://www.googleapis.com/auth/gmail.readonly'];
+
+/**
+ * Email from Gmail (OAuth) or any IMAP server (username and password). Both
+ * modes sync the selected labels or folders and index messages grouped by
+ * thread, with their attachments as files.
+ */
+@Injectable()
+export class EmailConnector extends IntegrationConnector<'EMAIL'> {
+  readonly provider = IntegrationProvider.EMAIL;
+  readonly rateLimits: RateLimitConfig = { maxRequestsPerMinute: 600, maxRequestsPerHour: 20000 };
+  readonly syncSchedule = { every: 900_000 }; // Every 15 minutes — mailboxes have no push to our API
+
+  private readonly oauthClient: GoogleOAuthClient;
+  private readonly logger = new Logger(EmailConnector.name);
+
+  constructor(
+    @InjectEnv('gmailClientId') gmailClientId: string,
+    @InjectEnv('gmailClientSecret') gmailClientSecret: string,
+    private readonly gmailMailbox: GmailMailbox,
+    private readonly imapMailbox: ImapMailbox
+  ) {
+    super();
+    this.oauthClient = { id: gmailClientId, secret: gmailClientSecret };
+  }
+
+  // ---- Auth ----------------------------------------------------------------
+
+  /** OAuth is for Gmail; IMAP mailboxes are connected with `connectImap`. */
+  getAuthUrl(_orgId: DbId<'Org'>, state: string, redirectUri: string): string {
+    return googleAuthUrl(this.oauthClient, GMAIL_SCOPES, state, redirectUri);
+  }
+
+  async exchangeCode(code: string, redirectUri: string): Promise<OAuthTokens<'EMAIL'>> {
+    return exchangeGoogleCode(this.oauthClient, code, redirectUri);
+  }
+
+  /** Only Gmail tokens expire; an IMAP connection's password is stored without an expiry. */
+  async refreshTokens(refreshToken: string): Promise<OAuthTokens<'EMAIL'>> {
+    return refreshGoogleTokens(this.oauthClient, refreshToken);
+  }
+
+  async getAccountInfo(accessToken: string): Promise<AccountInfo<'EMAIL'>> {
+    const profile = await new GmailClient(accessToken).getProfile();
+    return {
+      id: profile.emailAddress,
+      name: profile.emailAddress,
+      metadata: { mode: 'GMAIL', address: profile.emailAddress },
+    };
+  }
+
+  /**
+   * Sign in to an IMAP server to check the credentials, and return them in the
+   * shape an OAuth exchange would: the password becomes the access token.
+   */
+  async connectImap(
+    settings: ImapSettings,
+    password: string
+  ): Promise<{ tokens: OAuthTokens<'EMAIL'>; accountInfo: AccountInfo<'EMAIL'> }> {
+    try {
+      await this.imapMailbox.withClient(settings, password, (client) => client.list());
+    } catch (err) {
+      // imapflow reports a rejected login as a generic "Command failed"
+      if (err instanceof Error && 'authenticationFailed' in err && err.authenticationFailed) {
+        throw new Error('the username or password was rejected');
+      }
+      throw err;
+    }
+
+    const address = `${settings.username}@${settings.host}`;
+    return {
+      tokens: { accessToken: password, refreshToken: null, expiresAt: null, scopes: [] },
+      accountInfo: {
+        id: address,
+        name: settings.username,
+        metadata: { mode: 'IMAP', address: settings.username, imap: settings },
+      },
+    };
+  }
+
+  // ---- Webhooks ------------------------------------------------------------
+
+  parseWebhook(
+    _headers: Record<string, string>,
+    _body: unknown,
+    _secret: string | null,
+    _rawBody?: string
+  ): WebhookEvent | null {
+    // Mailboxes are polled on the sync schedule; nothing is pushed to us
+    return null;
+  }
+
+  handleWebhookRequest(): WebhookHandlerResult {
+    return { response: { ok: true } };
+  }
+
+  // ---- Sync ----------------------------------------------------------------
+
+  /**
+   * One batch of new messages per call. Threads are append-only: messages
+   * are added to their thread's data source as they arrive, and nothing is
+   * removed when mail is deleted.
+   */
+  async sync(accessToken: string, providerData: EmailProviderData): Promise<SyncResult> {
+    const batch = await this.fetchBatch(accessToken, providerData);
+    this.logger.log(`Email sync fetched ${batch.messages.length} messages`);
+
+    return {
+      items: buildEmailItems(batch.messages),
+      deletedExternalIds: [],
+      updatedProviderData: {
+        ...providerData,
+        ...batch.cursor,
+        lastSyncedAt: new Date().toISOString(),
+      },
+      hasMore: batch.hasMore,
+    };
+  }
+
+  async processWebhookItem(
+    _accessToken: string,
+    _providerData: EmailProviderData,
+    _event: WebhookEvent
+  ): Promise<{ item: SyncedItem | null; deletedExternalId: string | null }> {
+    // Messages are synced inline; no per-item events are ever queued
+    return { item: null, deletedExternalId: null };
+  }
+
+  buildInitialProviderData(
+    tokenMetadata?: Partial<EmailProviderData>,
+    accountMetadata?: Partial<EmailProviderData>
+  ): EmailProviderData {
+    const metadata = { ...accountMetadata, ...tokenMetadata };
+    return {
+      provider: 'EMAIL',
+      mode: metadata.mode ?? 'GMAIL',
+      address: metadata.address,
+      imap: metadata.imap,
+      selectedMailboxes: [],
+      listedMailboxes: [],
+      gmailHistoryId: null,
+      gmailListing: null,
+      imapCursors: {},
+      lastSyncedAt: null,
+    };
+  }
+
+  /** Gmail labels, or IMAP folders by path. */
+  async listResources(
+    accessToken: string,
+    providerData: EmailProviderData
+  ): Promise<Array<{ id: string; name: string; selected: boolean }>> {
+    const selected = new Set(providerData.selectedMailboxes ?? []);
+    const mailboxes =
+      providerData.mode === 'IMAP'
+        ? await this.imapMailbox.withClient(
+            this.imapSettings(providerData),
+            accessToken,
+            (client) => this.imapMailbox.listFolders(client)
+          )
+        : await this.gmailMailbox.listLabels(new GmailClient(accessToken));
+    return mailboxes.map((mailbox) => ({ ...mailbox, selected: selected.has(mailbox.id) }));
+  }
+
+  // ---- Private -------------------------------------------------------------
+
+  private async fetchBatch(
+    accessToken: string,
+    providerData: EmailProviderData
+  ): Promise<MailboxBatch> {
+    if (providerData.mode === 'IMAP') {
+      return this.imapMailbox.withClient(this.imapSettings(providerData), accessToken, (client) =>
+        this.imapMailbox.fetchBatch(client, providerData)
+      );
+    }
+    return this.gmailMailbox.fetchBatch(new GmailClient(accessToken), providerData);
+  }
+
+  private imapSettings(providerData: EmailProviderData): ImapSettings {
+    if (!providerData.imap) {
+      throw new Error('IMAP connection has no server settings');
+    }
+    return providerData.imap;
+  }
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+
+/** Gmail is connected through OAuth; IMAP with the mailbox's own credentials. */
+export type EmailMode = 'GMAIL' | 'IMAP';
+
+/** Where an IMAP mailbox is reached. The password is kept as the connection's (encrypted) access token. */
+export interface ImapSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+}
+
+/** Last synced UID of an IMAP folder; only valid while the folder keeps its UIDVALIDITY. */
+export interface ImapFolderCursor {
+  uidValidity: string;
+  lastUid: number;
+}
+
+export interface EmailProviderData {
+  provider: 'EMAIL';
+  mode: EmailMode;
+  address?: string;
+  imap?: ImapSettings;
+  /** Gmail label IDs or IMAP folder paths the user selected for syncing. */
+  selectedMailboxes?: string[];
+  /** Selected Gmail labels whose recent messages have been listed; labels selected later are listed on the next sync. */
+  listedMailboxes: string[];
+  /** Gmail history cursor — mailbox changes after this ID are synced incrementally. */
+  gmailHistoryId: string | null;
+  /** Gmail label being listed and the page to continue from, when listing spans several syncs. */
+  gmailListing: { labelId: string; pageToken: string } | null;
+  /** IMAP sync cursor per selected folder path. */
+  imapCursors: Record<string, ImapFolderCursor>;
+  /** ISO timestamp of the last completed sync. */
+  lastSyncedAt: string | null;
+}
+
+const imapSettingsSchema = z.object({
+  host: z.string(),
+  port: z.number(),
+  secure: z.boolean(),
+  username: z.string(),
+});
+
+export const emailProviderDataSchema = z.object({
+  provider: z.literal('EMAIL'),
+  mode: z.enum(['GMAIL', 'IMAP']),
+  address: z.string().optional(),
+  imap: imapSettingsSchema.optional(),
+  selectedMailboxes: z.array(z.string()).optional(),
+  listedMailboxes: z.array(z.string()).default([]),
+  gmailHistoryId: z.string().nullable().default(null),
+  gmailListing: z.object({ labelId: z.string(), pageToken: z.string() }).nullable().default(null),
+  imapCursors: z
+    .record(z.string(), z.object({ uidValidity: z.string(), lastUid: z.number() }))
+    .default({}),
+  lastSyncedAt: z.string().nullable(),
+});
+
+/**
+ * Public schema — strips the sync cursors and the IMAP server settings. The
+ * settings are left out of the config the UI can send back too, so a mailbox's
+ * stored password can never be pointed at another server.
+ */
+export const emailPublicSchema = z.object({
+  provider: z.literal('EMAIL'),
+  mode: z.enum(['GMAIL', 'IMAP']),
+  address: z.string().optional(),
+  selectedMailboxes: z.array(z.string()).optional(),
+  lastSyncedAt: z.string().nullable(),
+});
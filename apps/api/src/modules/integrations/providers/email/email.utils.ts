@@ -0,0 +1,208 @@
+import { resolveUploadsMime, type UploadsMime } from '@grabdy/contracts';
+import { type AddressObject, type ParsedMail, simpleParser } from 'mailparser';
+
+import { getMaxFileSizeForMime } from '../../../../config/constants';
+import { htmlToMarkdown } from '../../../data-sources/chunking/html-to-markdown';
+import type { SyncedItem } from '../../connector.interface';
+
+import type { EmailProviderData } from './email.types';
+
+/** One message of a mailbox, parsed from its raw RFC 822 source. */
+export interface EmailMessage {
+  /** Unique within the connection: the Gmail message ID, or the Message-ID header for IMAP. */
+  messageKey: string;
+  /** Messages with the same key belong to one thread. */
+  threadKey: string;
+  subject: string;
+  /** Senders as `Name <address>`. */
+  from: string[];
+  /** To and Cc recipients as `Name <address>`. */
+  to: string[];
+  date: Date;
+  /** Body as text, without the quoted messages it replies to. */
+  body: string;
+  attachments: Array<{ fileName: string; mimeType: UploadsMime; data: Buffer }>;
+  sourceUrl: string;
+}
+
+/** Messages fetched by one sync call, and the provider data fields that move its cursor on. */
+export interface MailboxBatch {
+  messages: EmailMessage[];
+  cursor: Partial<EmailProviderData>;
+  hasMore: boolean;
+}
+
+/**
+ * Gmail names its messages and threads. IMAP messages are known by their
+ * headers, or by `imapKey` (folder and UID) when they have no Message-ID.
+ */
+export type EmailMessageRef = { sourceUrl: string } & (
+  | { gmailMessageId: string; gmailThreadId: string }
+  | { imapKey: string }
+);
+
+/** Lines that introduce the quoted message of a reply; everything from them on is dropped. */
+const REPLY_HEADER_PATTERNS = [
+  /^On\s.*\bwrote:\s*$/,
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/i,
+  /^_{20,}\s*$/,
+  // Signature delimiter
+  /^-- ?$/,
+];
+
+/** `Re:`, `Fwd:` and their localized variants, possibly repeated or numbered (`Re[2]:`). */
+const SUBJECT_PREFIX_PATTERN = /^\s*(?:re|fwd?|aw|sv|wg|tr)(?:\[\d+\])?\s*:\s*/i;
+
+export async function parseEmail(source: Buffer, ref: EmailMessageRef): Promise<EmailMessage> {
+  const parsed = await simpleParser(source, {
+    skipHtmlToText: true,
+    skipTextToHtml: true,
+    skipImageLinks: true,
+  });
+
+  const messageKey =
+    'gmailMessageId' in ref ? ref.gmailMessageId : (parsed.messageId ?? ref.imapKey);
+  const threadKey = 'gmailThreadId' in ref ? ref.gmailThreadId : imapThreadKey(parsed, messageKey);
+  const text = parsed.text?.trim() ? parsed.text : parsed.html ? htmlToMarkdown(parsed.html) : '';
+
+  return {
+    messageKey,
+    threadKey,
+    subject: parsed.subject ?? '',
+    from: formatAddresses(parsed.from),
+    to: [...formatAddresses(parsed.to), ...formatAddresses(parsed.cc)],
+    date: parsed.date ?? new Date(),
+    body: stripQuotedReply(text),
+    attachments: indexableAttachments(parsed),
+    sourceUrl: ref.sourceUrl,
+  };
+}
+
+/**
+ * One item per thread, with a message per email, plus one item per
+ * attachment. Threads are append-only: messages synced later are added to the
+ * thread's existing chunks.
+ */
+export function buildEmailItems(messages: EmailMessage[]): SyncedItem[] {
+  const threads = new Map<string, EmailMessage[]>();
+  for (const message of messages) {
+    threads.set(message.threadKey, [...(threads.get(message.threadKey) ?? []), message]);
+  }
+
+  const items: SyncedItem[] = [];
+  for (const [threadKey, threadMessages] of threads) {
+    threadMessages.sort((a, b) => a.date.getTime() - b.date.getTime());
+    const subject = threadSubject(threadMessages[0].subject);
+    const emailMessages = threadMessages.map((message) => ({
+      content: formatMessage(message),
+      metadata: {
+        type: 'EMAIL' as const,
+        emailThreadId: threadKey,
+        emailSubject: subject,
+        emailFrom: message.from,
+        emailTo: message.to,
+        emailDate: message.date.toISOString(),
+      },
+      sourceUrl: message.sourceUrl,
+    }));
+
+    items.push({
+      externalId: `thread:${threadKey}`,
+      title: subject,
+      content: emailMessages.map((m) => m.content).join('\n\n'),
+      messages: emailMessages,
+      sourceUrl: threadMessages[0].sourceUrl,
+      metadata: { emailThreadId: threadKey, subject },
+      appendOnly: true,
+    });
+
+    for (const message of threadMessages) {
+      message.attachments.forEach((attachment, index) => {
+        items.push({
+          externalId: `attachment:${message.messageKey}:${index}`,
+          title: attachment.fileName,
+          content: '',
+          file: attachment,
+          sourceUrl: message.sourceUrl,
+          metadata: { emailThreadId: threadKey, subject, fileName: attachment.fileName },
+        });
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Drop the quoted message a reply carries below its own text (from the
+ * "On ... wrote:" line or an Outlook separator on), any other `>`-quoted
+ * lines, and the signature.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const kept: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    // Clients wrap long attribution lines, so "On ... wrote:" may span two
+    const wrapped = i + 1 < lines.length ? `${line} ${lines[i + 1].trim()}` : line;
+    if (REPLY_HEADER_PATTERNS.some((p) => p.test(line)) || /^On\s.*\bwrote:\s*$/.test(wrapped)) {
+      break;
+    }
+    if (!line.startsWith('>')) kept.push(line);
+  }
+
+  return kept
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function threadSubject(subject: string): string {
+  let normalized = subject.trim();
+  while (SUBJECT_PREFIX_PATTERN.test(normalized)) {
+    normalized = normalized.replace(SUBJECT_PREFIX_PATTERN, '');
+  }
+  return normalized || '(no subject)';
+}
+
+/** Each message starts with its headers, so a chunk of a thread says who wrote what and when. */
+function formatMessage(message: EmailMessage): string {
+  const headers = [
+    `From: ${message.from.join(', ')}`,
+    message.to.length > 0 ? `To: ${message.to.join(', ')}` : null,
+    `Date: ${message.date.toISOString()}`,
+    `Subject: ${message.subject}`,
+  ].filter((line) => line !== null);
+  return `${headers.join('\n')}\n\n${message.body}`;
+}
+
+/** IMAP threads are keyed by the first message they started with, as named by References or In-Reply-To. */
+function imapThreadKey(parsed: ParsedMail, messageKey: string): string {
+  const references =
+    typeof parsed.references === 'string' ? [parsed.references] : (parsed.references ?? []);
+  return references[0] ?? parsed.inReplyTo ?? messageKey;
+}
+
+function formatAddresses(addresses: AddressObject | AddressObject[] | undefined): string[] {
+  if (!addresses) return [];
+  const list = Array.isArray(addresses) ? addresses : [addresses];
+  return list
+    .flatMap((a) => a.value)
+    .flatMap((a) => a.group ?? [a])
+    .flatMap((a) => {
+      if (!a.address) return a.name ? [a.name] : [];
+      return a.name ? [`${a.name} <${a.address}>`] : [a.address];
+    });
+}
+
+/** Attachments of a type the upload extractors read, within their size limit. Inline images are skipped. */
+function indexableAttachments(parsed: ParsedMail): EmailMessage['attachments'] {
+  return parsed.attachments.flatMap((attachment, index) => {
+    if (attachment.related) return [];
+    const fileName = attachment.filename ?? `attachment-${index + 1}`;
+    const mimeType = resolveUploadsMime(attachment.contentType, fileName);
+    if (!mimeType || attachment.size > getMaxFileSizeForMime(mimeType)) return [];
+    return [{ fileName, mimeType, data: attachment.content }];
+  });
+}
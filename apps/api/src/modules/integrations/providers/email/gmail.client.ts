@@ -0,0 +1,127 @@
+import { z } from 'zod';
+
+const GMAIL_API_URL = 'https://gmail.googleapis.com/gmail/v1/users/me';
+
+// ---------------------------------------------------------------------------
+// Response schemas (trust boundary)
+// ---------------------------------------------------------------------------
+
+const profileSchema = z.object({
+  emailAddress: z.string(),
+  historyId: z.string(),
+});
+
+const labelListSchema = z.object({
+  labels: z
+    .array(z.object({ id: z.string(), name: z.string(), type: z.enum(['system', 'user']) }))
+    .default([]),
+});
+
+export type GmailLabel = z.infer<typeof labelListSchema>['labels'][number];
+
+const messageRefSchema = z.object({
+  id: z.string(),
+  threadId: z.string(),
+  labelIds: z.array(z.string()).optional(),
+});
+
+const messageListSchema = z.object({
+  messages: z.array(messageRefSchema).default([]),
+  nextPageToken: z.string().optional(),
+});
+
+const historyListSchema = z.object({
+  history: z
+    .array(
+      z.object({
+        id: z.string(),
+        messagesAdded: z.array(z.object({ message: messageRefSchema })).optional(),
+        labelsAdded: z
+          .array(z.object({ message: messageRefSchema, labelIds: z.array(z.string()) }))
+          .optional(),
+      })
+    )
+    .default([]),
+  nextPageToken: z.string().optional(),
+  historyId: z.string(),
+});
+
+export type GmailHistoryRecord = z.infer<typeof historyListSchema>['history'][number];
+
+const rawMessageSchema = messageRefSchema.extend({
+  /** The full RFC 822 message, base64url-encoded. */
+  raw: z.string(),
+});
+
+export class GmailApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'GmailApiError';
+  }
+}
+
+/** Minimal Gmail v1 REST client for one OAuth access token. */
+export class GmailClient {
+  constructor(private readonly accessToken: string) {}
+
+  async getProfile() {
+    return this.getJson(profileSchema, '/profile', {});
+  }
+
+  async listLabels(): Promise<GmailLabel[]> {
+    const data = await this.getJson(labelListSchema, '/labels', {});
+    return data.labels;
+  }
+
+  /** One page of the messages carrying a label, narrowed by a Gmail search query. */
+  async listMessages(labelId: string, query: string, pageToken?: string) {
+    return this.getJson(messageListSchema, '/messages', {
+      labelIds: labelId,
+      q: query,
+      maxResults: '50',
+      ...(pageToken ? { pageToken } : {}),
+    });
+  }
+
+  /**
+   * One page of mailbox changes after `startHistoryId`. Gmail keeps about a
+   * week of history; older start IDs fail with 404.
+   */
+  async listHistory(startHistoryId: string, pageToken?: string) {
+    const params = new URLSearchParams({ startHistoryId, maxResults: '50' });
+    params.append('historyTypes', 'messageAdded');
+    params.append('historyTypes', 'labelAdded');
+    if (pageToken) params.set('pageToken', pageToken);
+    return this.getJson(historyListSchema, '/history', params);
+  }
+
+  /** A message with its raw RFC 822 source. */
+  async getRawMessage(gmailMessageId: string) {
+    const data = await this.getJson(
+      rawMessageSchema,
+      `/messages/${encodeURIComponent(gmailMessageId)}`,
+      { format: 'raw' }
+    );
+    return { ...data, source: Buffer.from(data.raw, 'base64url') };
+  }
+
+  private async getJson<T>(
+    schema: z.ZodType<T>,
+    path: string,
+    params: Record<string, string> | URLSearchParams
+  ): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${GMAIL_API_URL}${path}${query ? `?${query}` : ''}`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new GmailApiError(response.status, `Gmail ${path} failed: ${response.status} ${text}`);
+    }
+    return schema.parse(await response.json());
+  }
+}
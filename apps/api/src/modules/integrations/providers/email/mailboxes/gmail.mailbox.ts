@@ -0,0 +1,158 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { INITIAL_SYNC_LOOKBACK_MS } from '../../../integrations.constants';
+import type { EmailProviderData } from '../email.types';
+import { type EmailMessage, type MailboxBatch, parseEmail } from '../email.utils';
+import { GmailApiError, type GmailClient, type GmailHistoryRecord } from '../gmail.client';
+
+/** System labels offered for syncing, with their display names. Other system labels (spam, drafts, ...) are not. */
+const SELECTABLE_SYSTEM_LABELS: Record<string, string> = {
+  INBOX: 'Inbox',
+  SENT: 'Sent',
+  IMPORTANT: 'Important',
+  STARRED: 'Starred',
+};
+
+@Injectable()
+export class GmailMailbox {
+  private readonly logger = new Logger(GmailMailbox.name);
+
+  async listLabels(client: GmailClient): Promise<Array<{ id: string; name: string }>> {
+    const labels = await client.listLabels();
+    return labels.flatMap((label) => {
+      if (label.type === 'user') return [{ id: label.id, name: label.name }];
+      const name = SELECTABLE_SYSTEM_LABELS[label.id];
+      return name ? [{ id: label.id, name }] : [];
+    });
+  }
+
+  /**
+   * The next batch of messages. Newly selected labels are listed first, one
+   * page per call and back to the initial lookback; after that the history
+   * feed yields the messages that arrived in, or were moved into, a selected
+   * label since the last sync.
+   */
+  async fetchBatch(client: GmailClient, providerData: EmailProviderData): Promise<MailboxBatch> {
+    const selected = providerData.selectedMailboxes ?? [];
+    // Taken before the first listing, so messages arriving while labels are listed come through history
+    const historyId = providerData.gmailHistoryId ?? (await client.getProfile()).historyId;
+    // Deselected labels are dropped, so selecting one again lists it again
+    const listed = providerData.listedMailboxes.filter((id) => selected.includes(id));
+    const pending = selected.filter((id) => !listed.includes(id));
+
+    if (pending.length > 0) {
+      const listing =
+        providerData.gmailListing && pending.includes(providerData.gmailListing.labelId)
+          ? providerData.gmailListing
+          : { labelId: pending[0], pageToken: '' };
+      const after = Math.floor((Date.now() - INITIAL_SYNC_LOOKBACK_MS) / 1000);
+      const page = await client.listMessages(
+        listing.labelId,
+        `after:${after}`,
+        listing.pageToken || undefined
+      );
+
+      // A message under several selected labels is synced with the first one listed
+      const messages = await this.fetchMessages(
+        client,
+        providerData,
+        page.messages.map((m) => m.id),
+        listed
+      );
+      const nextPageToken = page.nextPageToken;
+      return {
+        messages,
+        cursor: {
+          gmailHistoryId: historyId,
+          listedMailboxes: nextPageToken ? listed : [...listed, listing.labelId],
+          gmailListing: nextPageToken
+            ? { labelId: listing.labelId, pageToken: nextPageToken }
+            : null,
+        },
+        hasMore: nextPageToken !== undefined || pending.length > 1,
+      };
+    }
+
+    let page;
+    try {
+      page = await client.listHistory(historyId);
+    } catch (err) {
+      // Gmail keeps about a week of history; after a longer pause the feed starts over from now
+      if (err instanceof GmailApiError && err.status === 404) {
+        this.logger.warn(`Gmail history ${historyId} expired for ${providerData.address}`);
+        const { historyId: current } = await client.getProfile();
+        return {
+          messages: [],
+          cursor: { gmailHistoryId: current, listedMailboxes: listed },
+          hasMore: false,
+        };
+      }
+      throw err;
+    }
+
+    const messageIds = this.selectedHistoryMessages(page.history, new Set(selected));
+    const messages = await this.fetchMessages(client, providerData, messageIds, []);
+    // A page at a time: the next call continues after this page's last record
+    const lastRecord = page.history.at(-1);
+    const hasMore = page.nextPageToken !== undefined && lastRecord !== undefined;
+    return {
+      messages,
+      cursor: {
+        gmailHistoryId: hasMore && lastRecord ? lastRecord.id : page.historyId,
+        listedMailboxes: listed,
+      },
+      hasMore,
+    };
+  }
+
+  /** Messages added to a selected label, or labelled with one when they had none before. */
+  private selectedHistoryMessages(history: GmailHistoryRecord[], selected: Set<string>): string[] {
+    const ids = new Set<string>();
+    for (const record of history) {
+      for (const { message } of record.messagesAdded ?? []) {
+        if (message.labelIds?.some((id) => selected.has(id))) ids.add(message.id);
+      }
+      for (const { message, labelIds } of record.labelsAdded ?? []) {
+        const hadSelected = (message.labelIds ?? []).some(
+          (id) => selected.has(id) && !labelIds.includes(id)
+        );
+        if (!hadSelected && labelIds.some((id) => selected.has(id))) ids.add(message.id);
+      }
+    }
+    return [...ids];
+  }
+
+  /** Fetch and parse messages, skipping those deleted since and those under any of `skipLabelIds`. */
+  private async fetchMessages(
+    client: GmailClient,
+    providerData: EmailProviderData,
+    gmailMessageIds: string[],
+    skipLabelIds: string[]
+  ): Promise<EmailMessage[]> {
+    const messages: EmailMessage[] = [];
+    for (const gmailMessageId of gmailMessageIds) {
+      let raw;
+      try {
+        raw = await client.getRawMessage(gmailMessageId);
+      } catch (err) {
+        if (err instanceof GmailApiError && err.status === 404) continue;
+        throw err;
+      }
+      if (raw.labelIds?.some((id) => skipLabelIds.includes(id))) continue;
+
+      messages.push(
+        await parseEmail(raw.source, {
+          gmailMessageId: raw.id,
+          gmailThreadId: raw.threadId,
+          sourceUrl: gmailMessageUrl(providerData.address, raw.id),
+        })
+      );
+    }
+    return messages;
+  }
+}
+
+function gmailMessageUrl(address: string | undefined, gmailMessageId: string): string {
+  const account = address ? `?authuser=${encodeURIComponent(address)}` : '';
+  return `https://mail.google.com/mail/${account}#all/${gmailMessageId}`;
+}
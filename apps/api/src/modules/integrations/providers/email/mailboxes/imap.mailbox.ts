@@ -0,0 +1,173 @@
+import { Injectable } from '@nestjs/common';
+
+import { ImapFlow } from 'imapflow';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+import { InjectEnv } from '../../../../../config/env.config';
+import { INITIAL_SYNC_LOOKBACK_MS } from '../../../integrations.constants';
+import type { EmailProviderData, ImapFolderCursor, ImapSettings } from '../email.types';
+import { type EmailMessage, type MailboxBatch, parseEmail } from '../email.utils';
+
+/** Messages fetched per sync call; the rest follow in the next call. */
+const MAX_MESSAGES_PER_BATCH = 50;
+
+/** Addresses a user-supplied IMAP host must not resolve to: loopback, private and link-local ranges. */
+const INTERNAL_ADDRESSES = new BlockList();
+INTERNAL_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+INTERNAL_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+INTERNAL_ADDRESSES.addAddress('::', 'ipv6');
+INTERNAL_ADDRESSES.addAddress('::1', 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+INTERNAL_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+function isInternalAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it wraps
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return INTERNAL_ADDRESSES.check(mapped, 'ipv4');
+  return INTERNAL_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+@Injectable()
+export class ImapMailbox {
+  constructor(
+    @InjectEnv('allowPrivateImapHosts') private readonly allowPrivateImapHosts: boolean
+  ) {}
+
+  /**
+   * Sign in, run `fn` and sign out again, also when `fn` fails. Socket errors
+   * arrive as `'error'` events rather than rejections, so they fail `fn`
+   * instead of crashing the worker; a failing sign-out never masks them.
+   */
+  async withClient<T>(
+    settings: ImapSettings,
+    password: string,
+    fn: (client: ImapFlow) => Promise<T>
+  ): Promise<T> {
+    const address = await this.resolveHost(settings.host);
+    const client = new ImapFlow({
+      // Connect to the checked address, so a second DNS answer cannot point elsewhere
+      host: address,
+      servername: isIP(settings.host) ? undefined : settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: { user: settings.username, pass: password },
+      logger: false,
+    });
+    const connectionLost = new Promise<never>((_, reject) => {
+      client.on('error', (err: unknown) =>
+        reject(err instanceof Error ? err : new Error('IMAP connection failed'))
+      );
+    });
+    // Keeps an error that arrives after `fn` settled from going unhandled
+    connectionLost.catch(() => undefined);
+
+    await Promise.race([client.connect(), connectionLost]);
+    try {
+      return await Promise.race([fn(client), connectionLost]);
+    } finally {
+      try {
+        await client.logout();
+      } catch {
+        client.close();
+      }
+    }
+  }
+
+  /**
+   * Resolve the host to the address to connect to. Hosts on loopback, private
+   * or link-local addresses are refused unless `ALLOW_PRIVATE_IMAP_HOSTS` is set,
+   * so a connection cannot reach services inside our own network.
+   */
+  private async resolveHost(host: string): Promise<string> {
+    const addresses = await lookup(host, { all: true });
+    if (addresses.length === 0) throw new Error(`IMAP host ${host} did not resolve`);
+    if (!this.allowPrivateImapHosts && addresses.some((a) => isInternalAddress(a.address))) {
+      throw new Error(`IMAP host ${host} resolves to an internal address`);
+    }
+    return addresses[0].address;
+  }
+
+  /** Folders that hold messages; `\Noselect` containers are left out. */
+  async listFolders(client: ImapFlow): Promise<Array<{ id: string; name: string }>> {
+    const folders = await client.list();
+    return folders
+      .filter((folder) => !folder.flags.has('\\Noselect'))
+      .map((folder) => ({ id: folder.path, name: folder.path }));
+  }
+
+  /**
+   * The next batch of messages across the selected folders. A folder without
+   * a cursor, or whose UIDVALIDITY changed (its UIDs were reassigned), is read
+   * back to the initial lookback; otherwise only UIDs above the last synced one.
+   */
+  async fetchBatch(client: ImapFlow, providerData: EmailProviderData): Promise<MailboxBatch> {
+    const messages: EmailMessage[] = [];
+    const imapCursors: Record<string, ImapFolderCursor> = {};
+    let hasMore = false;
+
+    for (const path of providerData.selectedMailboxes ?? []) {
+      const previous = providerData.imapCursors[path];
+      if (messages.length >= MAX_MESSAGES_PER_BATCH) {
+        if (previous) imapCursors[path] = previous;
+        hasMore = true;
+        continue;
+      }
+
+      const mailbox = await client.mailboxOpen(path, { readOnly: true });
+      const uidValidity = mailbox.uidValidity.toString();
+      const cursor = previous?.uidValidity === uidValidity ? previous : null;
+
+      const found = cursor
+        ? await client.search({ uid: `${cursor.lastUid + 1}:*` }, { uid: true })
+        : await client.search(
+            { since: new Date(Date.now() - INITIAL_SYNC_LOOKBACK_MS) },
+            { uid: true }
+          );
+      // `n:*` always matches the newest message, even when its UID is below n
+      const uids = (found || [])
+        .filter((uid) => !cursor || uid > cursor.lastUid)
+        .sort((a, b) => a - b);
+      const batch = uids.slice(0, MAX_MESSAGES_PER_BATCH - messages.length);
+      if (batch.length < uids.length) hasMore = true;
+
+      if (batch.length > 0) {
+        const fetched = await client.fetchAll(batch.join(','), { source: true }, { uid: true });
+        for (const message of fetched) {
+          if (!message.source) continue;
+          messages.push(
+            await parseEmail(message.source, {
+              imapKey: `${path}:${uidValidity}:${message.uid}`,
+              sourceUrl: imapMessageUrl(providerData, path, uidValidity, message.uid),
+            })
+          );
+        }
+      }
+
+      imapCursors[path] = {
+        uidValidity,
+        lastUid: batch.at(-1) ?? cursor?.lastUid ?? mailbox.uidNext - 1,
+      };
+    }
+
+    return { messages, cursor: { imapCursors }, hasMore };
+  }
+}
+
+/** RFC 5092 IMAP URL of a message; mail clients that support them open the message directly. */
+function imapMessageUrl(
+  providerData: EmailProviderData,
+  path: string,
+  uidValidity: string,
+  uid: number
+): string {
+  const settings = providerData.imap;
+  const user = settings ? `${encodeURIComponent(settings.username)}@` : '';
+  const server = settings ? `${settings.host}:${settings.port}` : '';
+  return `imap://${user}${server}/${encodeURIComponent(path)};UIDVALIDITY=${uidValidity}/;UID=${uid}`;
+}
@@ -20,10 +20,11 @@ import {
 import { getInitialSyncSince } from '../../integrations.constants';
 
 import type { GitHubProviderData } from './github.types';
-import { webhookBasePayloadSchema } from './github.utils';
+import { parseFileExternalId, webhookBasePayloadSchema } from './github.utils';
 import { GitHubDiscussionWebhook } from './webhooks/discussion.webhook';
 import { GitHubIssueWebhook } from './webhooks/issue.webhook';
 import { GitHubPrWebhook } from './webhooks/pr.webhook';
+import { GitHubPushWebhook } from './webhooks/push.webhook';
 
 @Injectable()
 export class GitHubConnector extends IntegrationConnector<'GITHUB'> {
@@ -40,7 +41,8 @@ export class GitHubConnector extends IntegrationConnector<'GITHUB'> {
     @InjectEnv('githubWebhookSecret') private readonly githubWebhookSecret: string,
     private readonly issueWebhook: GitHubIssueWebhook,
     private readonly prWebhook: GitHubPrWebhook,
-    private readonly discussionWebhook: GitHubDiscussionWebhook
+    private readonly discussionWebhook: GitHubDiscussionWebhook,
+    private readonly pushWebhook: GitHubPushWebhook
   ) {
     super();
   }
@@ -138,6 +140,23 @@ export class GitHubConnector extends IntegrationConnector<'GITHUB'> {
       return { response: { ok: true } };
     }
 
+    // Branch pushes re-index files by diffing the new head against the indexed commit
+    if (eventType === 'push') {
+      const push = this.pushWebhook.extractEvent(body);
+      const matched = push
+        ? connections.filter(
+            (c) =>
+              (!payloadInstallationId ||
+                c.providerData.githubInstallationId === payloadInstallationId) &&
+              this.pushWebhook.tracksBranch(c.providerData, push)
+          )
+        : [];
+      return {
+        response: { ok: true },
+        discoverConnections: matched.map((c) => ({ id: c.id, orgId: c.orgId })),
+      };
+    }
+
     // Data events
     const event = this.extractWebhookEvent(headers, body);
     if (!event) return { response: { ok: true } };
@@ -217,21 +236,39 @@ export class GitHubConnector extends IntegrationConnector<'GITHUB'> {
       }
     }
 
+    // Files of the selected repositories, queued one job per changed path
+    const files = await this.pushWebhook.fetchChangedFiles(octokit, providerData);
+
     return {
       items,
-      deletedExternalIds: [],
-      updatedProviderData: { ...providerData, lastSyncedAt: maxUpdatedAt },
+      deletedExternalIds: files.deletedExternalIds,
+      updatedProviderData: {
+        ...providerData,
+        contentIndex: files.contentIndex,
+        lastSyncedAt: maxUpdatedAt,
+      },
       hasMore,
+      webhookEvents: files.webhookEvents,
     };
   }
 
   async processWebhookItem(
     accessToken: string,
-    _providerData: GitHubProviderData,
+    providerData: GitHubProviderData,
     event: WebhookEvent
   ): Promise<{ item: SyncedItem | null; deletedExternalId: string | null }> {
     if (event.action === 'deleted') return { item: null, deletedExternalId: event.externalId };
 
+    // Repository files are checked against the branch head and rules, which may have moved on
+    const file = parseFileExternalId(event.externalId);
+    if (file) {
+      const octokit = new Octokit({ auth: accessToken });
+      const item = await this.pushWebhook.fetchItem(octokit, providerData, file.repo, file.path);
+      return item
+        ? { item, deletedExternalId: null }
+        : { item: null, deletedExternalId: event.externalId };
+    }
+
     const match = /^(.+?)\/(.+?)#(\d+)$/.exec(event.externalId);
     if (!match) {
       this.logger.warn(`Invalid GitHub external ID format: ${event.externalId}`);
@@ -296,10 +333,28 @@ export class GitHubConnector extends IntegrationConnector<'GITHUB'> {
       provider: 'GITHUB',
       githubInstallationId,
       installationOwner: tokenMetadata?.installationOwner ?? accountMetadata?.installationOwner,
+      contentIndex: {},
       lastSyncedAt: null,
     };
   }
 
+  /** Repositories the installation can access, by full name; selected ones have their files indexed. */
+  async listResources(
+    accessToken: string,
+    providerData: GitHubProviderData
+  ): Promise<Array<{ id: string; name: string; selected: boolean }>> {
+    const octokit = new Octokit({ auth: accessToken });
+    const selected = new Set((providerData.contentRepos ?? []).map((r) => r.repo));
+    const repos = await octokit.paginate(octokit.apps.listReposAccessibleToInstallation, {
+      per_page: 100,
+    });
+    return repos.map((repo) => ({
+      id: repo.full_name,
+      name: repo.full_name,
+      selected: selected.has(repo.full_name),
+    }));
+  }
+
   // ---- Private: webhook routing ---------------------------------------------
 
   private extractWebhookEvent(headers: Record<string, string>, body: unknown): WebhookEvent | null {
@@ -1,22 +1,47 @@
+import { type GitHubContentRepo, githubContentRepoSchema } from '@grabdy/contracts';
 import { z } from 'zod';
 
+/** The commit and rules a repository's indexed files were last diffed at. */
+export interface GitHubContentIndexState {
+  branch: string;
+  commitSha: string;
+  include: string[];
+  exclude: string[];
+  maxFileBytes: number;
+}
+
 export interface GitHubProviderData {
   provider: 'GITHUB';
   githubInstallationId: number;
   installationOwner?: string;
+  /** Repositories the user selected for file indexing, with their path rules. */
+  contentRepos?: GitHubContentRepo[];
+  /** Per indexed repository, keyed by `owner/name`; the next sync indexes the diff from it. */
+  contentIndex: Record<string, GitHubContentIndexState>;
   lastSyncedAt: string | null;
 }
 
+const githubContentIndexStateSchema = z.object({
+  branch: z.string(),
+  commitSha: z.string(),
+  include: z.array(z.string()),
+  exclude: z.array(z.string()),
+  maxFileBytes: z.number(),
+});
+
 export const githubProviderDataSchema = z.object({
   provider: z.literal('GITHUB'),
   githubInstallationId: z.number(),
   installationOwner: z.string().optional(),
+  contentRepos: z.array(githubContentRepoSchema).optional(),
+  contentIndex: z.record(z.string(), githubContentIndexStateSchema).default({}),
   lastSyncedAt: z.string().nullable(),
 });
 
-/** Public schema — strip internal githubInstallationId. */
+/** Public schema — strip internal githubInstallationId and the content index. */
 export const githubPublicSchema = z.object({
   provider: z.literal('GITHUB'),
   installationOwner: z.string().optional(),
+  contentRepos: z.array(githubContentRepoSchema).optional(),
   lastSyncedAt: z.string().nullable(),
 });
@@ -1,6 +1,9 @@
 import type { RestEndpointMethodTypes } from '@octokit/rest';
+import picomatch from 'picomatch';
 import { z } from 'zod';
 
+import { CHUNK_SIZE_TOKENS } from '../../../../config/constants';
+import { countTokens } from '../../../data-sources/chunking/tokenizer';
 import type { SyncedItem } from '../../connector.interface';
 
 // ---------------------------------------------------------------------------
@@ -39,12 +42,17 @@ export const prWebhookSchema = webhookBasePayloadSchema.extend({
 export const discussionWebhookSchema = webhookBasePayloadSchema.extend({
   discussion: webhookNumberedItemSchema,
 });
+export const pushWebhookSchema = webhookBasePayloadSchema.extend({
+  /** `refs/heads/<branch>` for branch pushes, `refs/tags/<tag>` for tags. */
+  ref: z.string(),
+  repository: webhookRepoSchema.extend({ default_branch: z.string().optional() }),
+});
 
 // ---------------------------------------------------------------------------
 // Shared type aliases
 // ---------------------------------------------------------------------------
 
-export type GitHubItemType = 'issue' | 'pull_request' | 'discussion';
+export type GitHubItemType = 'issue' | 'pull_request' | 'discussion' | 'file';
 export type MessageList = NonNullable<SyncedItem['messages']>;
 
 // ---------------------------------------------------------------------------
@@ -116,6 +124,11 @@ export function buildSyncedItem(
   };
 }
 
+/** Octokit request errors carry the HTTP status of the failed call. */
+export function isNotFoundError(err: unknown): boolean {
+  return err instanceof Error && 'status' in err && err.status === 404;
+}
+
 export function extractLabels(labels: Array<{ name?: string } | string>): string[] {
   return labels
     .map((l) => (typeof l === 'string' ? l : l.name))
@@ -194,3 +207,97 @@ export function buildDiscussionItem(discussion: DiscussionNode, repoFullName: st
     { category: category || null, labels: labels.length > 0 ? labels : null }
   );
 }
+
+// ---------------------------------------------------------------------------
+// Repository files
+// ---------------------------------------------------------------------------
+
+/** Repository names can't contain `@`, so the first one after the name ends it. */
+export function fileExternalId(repoFullName: string, path: string): string {
+  return `${repoFullName}@${path}`;
+}
+
+export function parseFileExternalId(externalId: string): { repo: string; path: string } | null {
+  const match = /^([\w.-]+\/[\w.-]+)@(.+)$/.exec(externalId);
+  return match ? { repo: match[1], path: match[2] } : null;
+}
+
+/**
+ * Whether a path is indexed under a repository's rules: it matches an include
+ * glob (every path does when there are none) and no exclude glob. Globs match
+ * dotfiles too, so paths under `.github/` aren't skipped.
+ */
+export function createPathMatcher(rules: {
+  include: string[];
+  exclude: string[];
+}): (path: string) => boolean {
+  const isIncluded = rules.include.length > 0 ? picomatch(rules.include, { dot: true }) : null;
+  const isExcluded = rules.exclude.length > 0 ? picomatch(rules.exclude, { dot: true }) : null;
+  return (path) => (!isIncluded || isIncluded(path)) && !isExcluded?.(path);
+}
+
+/**
+ * A text file as consecutive blocks of whole lines, each about a chunk long
+ * with its header, so every chunk can cite the lines it came from. A line too
+ * long for a chunk (e.g. minified code) is a block of its own and split later.
+ */
+export function buildFileItem(file: {
+  repo: string;
+  path: string;
+  commitSha: string;
+  branch: string;
+  text: string;
+}): SyncedItem {
+  const header = `File ${file.repo}/${file.path} (${file.branch})`;
+  const budget = CHUNK_SIZE_TOKENS - countTokens(header);
+  const lines = file.text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  const blobUrl = `https://github.com/${file.repo}/blob/${file.commitSha}/${encodeURI(file.path)}`;
+
+  const messages: MessageList = [];
+  let blockStart = 0;
+  let blockTokens = 0;
+  const flush = (end: number) => {
+    if (end === blockStart) return;
+    const body = lines.slice(blockStart, end).join('\n');
+    if (body.trim()) {
+      messages.push({
+        content: `${header}\n${body}`,
+        metadata: {
+          type: 'GITHUB' as const,
+          githubItemType: 'file' as const,
+          githubCommentId: null,
+          filePath: file.path,
+          commitSha: file.commitSha,
+          lineStart: blockStart + 1,
+          lineEnd: end,
+        },
+        sourceUrl: `${blobUrl}#L${blockStart + 1}-L${end}`,
+      });
+    }
+    blockStart = end;
+    blockTokens = 0;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineTokens = countTokens(lines[i]) + 1;
+    if (blockTokens + lineTokens > budget) flush(i);
+    blockTokens += lineTokens;
+  }
+  flush(lines.length);
+
+  return {
+    externalId: fileExternalId(file.repo, file.path),
+    title: `${file.repo}/${file.path}`,
+    content: file.text,
+    messages,
+    sourceUrl: blobUrl,
+    metadata: {
+      githubItemType: 'file',
+      repo: file.repo,
+      path: file.path,
+      branch: file.branch,
+      commitSha: file.commitSha,
+      lineCount: lines.length,
+    },
+  };
+}
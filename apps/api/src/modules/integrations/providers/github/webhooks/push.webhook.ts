@@ -0,0 +1,289 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { GITHUB_CONTENT_DEFAULT_MAX_FILE_BYTES, type GitHubContentRepo } from '@grabdy/contracts';
+import type { Octokit } from '@octokit/rest';
+
+import type { SyncedItem, WebhookEvent } from '../../../connector.interface';
+import type { GitHubContentIndexState, GitHubProviderData } from '../github.types';
+import {
+  buildFileItem,
+  createPathMatcher,
+  fileExternalId,
+  isNotFoundError,
+  pushWebhookSchema,
+} from '../github.utils';
+
+/** Files beyond this many per repository (in path order) are left out. */
+const MAX_FILES_PER_REPO = 5000;
+
+/** Blob SHA by path. */
+type FileMap = Map<string, string>;
+
+type TreeEntry = Awaited<ReturnType<Octokit['git']['getTree']>>['data']['tree'][number];
+
+@Injectable()
+export class GitHubPushWebhook {
+  private readonly logger = new Logger(GitHubPushWebhook.name);
+
+  /** The branch a push updated. Tag pushes yield null. */
+  extractEvent(
+    body: unknown
+  ): { repo: string; branch: string; defaultBranch: string | null } | null {
+    const parsed = pushWebhookSchema.safeParse(body);
+    if (!parsed.success || !parsed.data.ref.startsWith('refs/heads/')) return null;
+
+    return {
+      repo: parsed.data.repository.full_name,
+      branch: parsed.data.ref.slice('refs/heads/'.length),
+      defaultBranch: parsed.data.repository.default_branch ?? null,
+    };
+  }
+
+  /** Whether a connection indexes the files of the branch a push updated. */
+  tracksBranch(
+    providerData: GitHubProviderData,
+    push: { repo: string; branch: string; defaultBranch: string | null }
+  ): boolean {
+    const config = providerData.contentRepos?.find((r) => r.repo === push.repo);
+    if (!config) return false;
+    return push.branch === (config.branch ?? push.defaultBranch);
+  }
+
+  /**
+   * Diff each selected repository's branch head, under its current rules,
+   * against the commit and rules it was last indexed at. Paths whose blob
+   * changed (or that came into scope) are queued, paths that left are deleted;
+   * repositories no longer selected have all their files deleted.
+   */
+  async fetchChangedFiles(
+    octokit: Octokit,
+    providerData: GitHubProviderData
+  ): Promise<{
+    webhookEvents: WebhookEvent[];
+    deletedExternalIds: string[];
+    contentIndex: Record<string, GitHubContentIndexState>;
+  }> {
+    const webhookEvents: WebhookEvent[] = [];
+    const deletedExternalIds: string[] = [];
+    const contentIndex: Record<string, GitHubContentIndexState> = {};
+    const configs = providerData.contentRepos ?? [];
+
+    for (const config of configs) {
+      const previous = providerData.contentIndex[config.repo];
+      try {
+        const diff = await this.diffRepo(octokit, config, previous);
+        contentIndex[config.repo] = diff.state;
+        webhookEvents.push(...diff.events);
+        deletedExternalIds.push(...diff.deletedPaths.map((p) => fileExternalId(config.repo, p)));
+      } catch (err) {
+        // Keep the last indexed state so the next sync diffs from it again
+        this.logger.warn(`Failed to diff files of ${config.repo}: ${err}`);
+        if (previous) contentIndex[config.repo] = previous;
+      }
+    }
+
+    for (const [repo, previous] of Object.entries(providerData.contentIndex)) {
+      if (configs.some((c) => c.repo === repo)) continue;
+      const [owner, name] = repo.split('/');
+      try {
+        const files = await this.listFiles(octokit, owner, name, previous.commitSha, previous);
+        if (!files) {
+          this.logger.warn(`Could not list the indexed files of deselected ${repo} to remove them`);
+          continue;
+        }
+        deletedExternalIds.push(...[...files.keys()].map((p) => fileExternalId(repo, p)));
+      } catch (err) {
+        // Kept until its files are removed
+        this.logger.warn(`Failed to list files of deselected ${repo}: ${err}`);
+        contentIndex[repo] = previous;
+      }
+    }
+
+    return { webhookEvents, deletedExternalIds, contentIndex };
+  }
+
+  /**
+   * Fetch a file at the head of its repository's branch, so jobs queued by
+   * successive pushes all index the latest version. Files that are gone, out
+   * of the rules, over the size limit or binary yield null.
+   */
+  async fetchItem(
+    octokit: Octokit,
+    providerData: GitHubProviderData,
+    repo: string,
+    path: string
+  ): Promise<SyncedItem | null> {
+    const config = providerData.contentRepos?.find((r) => r.repo === repo);
+    if (!config || !createPathMatcher(config)(path)) return null;
+
+    const [owner, name] = repo.split('/');
+    try {
+      const branch =
+        config.branch ??
+        providerData.contentIndex[repo]?.branch ??
+        (await this.getDefaultBranch(octokit, owner, name));
+      const { data: head } = await octokit.repos.getBranch({ owner, repo: name, branch });
+      const { data: file } = await octokit.repos.getContent({
+        owner,
+        repo: name,
+        path,
+        ref: head.commit.sha,
+      });
+      if (Array.isArray(file) || file.type !== 'file' || !('content' in file)) return null;
+      if (file.size > (config.maxFileBytes ?? GITHUB_CONTENT_DEFAULT_MAX_FILE_BYTES)) return null;
+
+      const data = Buffer.from(file.content, 'base64');
+      // A NUL byte is as good a sign of a binary file as any
+      if (data.includes(0)) return null;
+
+      const text = data.toString('utf8');
+      if (!text.trim()) return null;
+
+      return buildFileItem({ repo, path, commitSha: head.commit.sha, branch, text });
+    } catch (err) {
+      // 404: the file, branch or repository is gone. Anything else is retried.
+      if (isNotFoundError(err)) {
+        this.logger.warn(`Could not fetch ${repo}/${path}: ${err}`);
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  private async diffRepo(
+    octokit: Octokit,
+    config: GitHubContentRepo,
+    previous: GitHubContentIndexState | undefined
+  ): Promise<{
+    state: GitHubContentIndexState;
+    events: WebhookEvent[];
+    deletedPaths: string[];
+  }> {
+    const [owner, name] = config.repo.split('/');
+    const branch = config.branch ?? (await this.getDefaultBranch(octokit, owner, name));
+    const { data: head } = await octokit.repos.getBranch({ owner, repo: name, branch });
+
+    const state: GitHubContentIndexState = {
+      branch,
+      commitSha: head.commit.sha,
+      include: config.include,
+      exclude: config.exclude,
+      maxFileBytes: config.maxFileBytes ?? GITHUB_CONTENT_DEFAULT_MAX_FILE_BYTES,
+    };
+    if (previous && JSON.stringify(previous) === JSON.stringify(state)) {
+      return { state, events: [], deletedPaths: [] };
+    }
+
+    const current = await this.listFiles(octokit, owner, name, state.commitSha, state);
+    if (!current) throw new Error(`Commit ${state.commitSha} not found`);
+
+    let indexed: FileMap = new Map();
+    if (previous) {
+      const files = await this.listFiles(octokit, owner, name, previous.commitSha, previous);
+      // A force push may have taken the old commit; its removed files then stay until re-selected
+      if (files) indexed = files;
+      else this.logger.warn(`Indexed commit ${previous.commitSha} of ${config.repo} is gone`);
+    }
+
+    // A path can be queued again at the same commit after its rules change back
+    const version = `${state.commitSha}-${Date.now()}`;
+    const events: WebhookEvent[] = [];
+    for (const [path, sha] of current) {
+      if (indexed.get(path) === sha) continue;
+      events.push({
+        action: indexed.has(path) ? 'updated' : 'created',
+        externalId: fileExternalId(config.repo, path),
+        version,
+      });
+    }
+    const deletedPaths = [...indexed.keys()].filter((path) => !current.has(path));
+
+    this.logger.log(
+      `${config.repo}@${branch}: ${events.length} files changed, ${deletedPaths.length} removed`
+    );
+    return { state, events, deletedPaths };
+  }
+
+  /** The blobs of a commit that the rules index, or null when the commit is gone. */
+  private async listFiles(
+    octokit: Octokit,
+    owner: string,
+    name: string,
+    commitSha: string,
+    rules: Pick<GitHubContentIndexState, 'include' | 'exclude' | 'maxFileBytes'>
+  ): Promise<FileMap | null> {
+    let entries: TreeEntry[];
+    try {
+      entries = await this.walkTree(octokit, owner, name, commitSha, '');
+    } catch (err) {
+      if (isNotFoundError(err)) return null;
+      throw err;
+    }
+
+    const isIndexed = createPathMatcher(rules);
+    const paths = entries
+      .filter(
+        (entry) =>
+          entry.type === 'blob' &&
+          // Symlinks are blobs holding their target path
+          entry.mode !== '120000' &&
+          (entry.size ?? 0) <= rules.maxFileBytes &&
+          // BullMQ job IDs, which embed the external ID, can't contain ':'
+          !entry.path.includes(':') &&
+          isIndexed(entry.path)
+      )
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    if (paths.length > MAX_FILES_PER_REPO) {
+      this.logger.warn(
+        `${owner}/${name} has ${paths.length} matching files; indexing the first ${MAX_FILES_PER_REPO}`
+      );
+    }
+    return new Map(paths.slice(0, MAX_FILES_PER_REPO).map((entry) => [entry.path, entry.sha]));
+  }
+
+  /**
+   * Every entry below a tree, with paths from the repository root. A listing
+   * GitHub truncates is never used as is — diffing it would delete the files
+   * it left out — so the tree's own level is listed and each subtree walked on
+   * its own. A single level too large to list fails the sync of the repository.
+   */
+  private async walkTree(
+    octokit: Octokit,
+    owner: string,
+    name: string,
+    treeSha: string,
+    prefix: string
+  ): Promise<TreeEntry[]> {
+    const { data: tree } = await octokit.git.getTree({
+      owner,
+      repo: name,
+      tree_sha: treeSha,
+      recursive: 'true',
+    });
+    if (!tree.truncated) {
+      return tree.tree.map((entry) => ({ ...entry, path: `${prefix}${entry.path}` }));
+    }
+
+    const { data: level } = await octokit.git.getTree({ owner, repo: name, tree_sha: treeSha });
+    if (level.truncated) {
+      throw new Error(`Tree ${prefix || '/'} of ${owner}/${name} is too large to list`);
+    }
+
+    const entries: TreeEntry[] = [];
+    for (const entry of level.tree) {
+      const path = `${prefix}${entry.path}`;
+      if (entry.type === 'tree' && entry.sha) {
+        entries.push(...(await this.walkTree(octokit, owner, name, entry.sha, `${path}/`)));
+      } else {
+        entries.push({ ...entry, path });
+      }
+    }
+    return entries;
+  }
+
+  private async getDefaultBranch(octokit: Octokit, owner: string, name: string): Promise<string> {
+    const { data } = await octokit.repos.get({ owner, repo: name });
+    return data.default_branch;
+  }
+}
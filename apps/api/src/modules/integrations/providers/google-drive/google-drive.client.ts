@@ -0,0 +1,210 @@
+import { z } from 'zod';
+
+const DRIVE_API_URL = 'https://www.googleapis.com/drive/v3';
+
+/** File fields every listing asks for. */
+const FILE_FIELDS = 'id,name,mimeType,size,version,webViewLink,trashed,parents';
+
+// ---------------------------------------------------------------------------
+// Response schemas (trust boundary)
+// ---------------------------------------------------------------------------
+
+export const driveFileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mimeType: z.string(),
+  /** Bytes, as a string; absent for Google Docs, Sheets and Slides. */
+  size: z.string().optional(),
+  version: z.string().optional(),
+  webViewLink: z.string().optional(),
+  trashed: z.boolean().optional(),
+  parents: z.array(z.string()).optional(),
+});
+
+export type DriveFile = z.infer<typeof driveFileSchema>;
+
+const fileListSchema = z.object({
+  nextPageToken: z.string().optional(),
+  files: z.array(driveFileSchema),
+});
+
+const driveListSchema = z.object({
+  nextPageToken: z.string().optional(),
+  drives: z.array(z.object({ id: z.string(), name: z.string() })),
+});
+
+const changeListSchema = z.object({
+  nextPageToken: z.string().optional(),
+  newStartPageToken: z.string().optional(),
+  changes: z.array(
+    z.object({
+      fileId: z.string().optional(),
+      removed: z.boolean().optional(),
+      file: driveFileSchema.optional(),
+    })
+  ),
+});
+
+export type DriveChange = z.infer<typeof changeListSchema>['changes'][number];
+
+const startPageTokenSchema = z.object({ startPageToken: z.string() });
+
+const aboutSchema = z.object({
+  user: z.object({ emailAddress: z.string(), displayName: z.string(), permissionId: z.string() }),
+});
+
+const watchChannelResponseSchema = z.object({
+  id: z.string(),
+  resourceId: z.string(),
+  expiration: z.coerce.number(),
+});
+
+export class GoogleDriveApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'GoogleDriveApiError';
+  }
+}
+
+/**
+ * Minimal Drive v3 REST client for one OAuth access token. Every call includes
+ * shared drives, which the API otherwise leaves out.
+ */
+export class GoogleDriveClient {
+  constructor(private readonly accessToken: string) {}
+
+  async about() {
+    return this.getJson(aboutSchema, '/about', {
+      fields: 'user(emailAddress,displayName,permissionId)',
+    });
+  }
+
+  async getFile(driveFileId: string): Promise<DriveFile> {
+    return this.getJson(driveFileSchema, `/files/${encodeURIComponent(driveFileId)}`, {
+      fields: FILE_FIELDS,
+      supportsAllDrives: 'true',
+    });
+  }
+
+  /** One page of files matching a Drive search query. */
+  async listFiles(query: string, pageToken?: string, corpora: 'user' | 'allDrives' = 'allDrives') {
+    return this.getJson(fileListSchema, '/files', {
+      q: query,
+      corpora,
+      fields: `nextPageToken,files(${FILE_FIELDS})`,
+      pageSize: '1000',
+      supportsAllDrives: 'true',
+      includeItemsFromAllDrives: 'true',
+      ...(pageToken ? { pageToken } : {}),
+    });
+  }
+
+  async listSharedDrives(pageToken?: string) {
+    return this.getJson(driveListSchema, '/drives', {
+      pageSize: '100',
+      fields: 'nextPageToken,drives(id,name)',
+      ...(pageToken ? { pageToken } : {}),
+    });
+  }
+
+  /** Export a Google Docs, Sheets or Slides file to another format. Drive caps exports at 10 MB. */
+  async exportFile(driveFileId: string, mimeType: string): Promise<Buffer> {
+    const response = await this.request(`/files/${encodeURIComponent(driveFileId)}/export`, {
+      mimeType,
+    });
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async downloadFile(driveFileId: string): Promise<Buffer> {
+    const response = await this.request(`/files/${encodeURIComponent(driveFileId)}`, {
+      alt: 'media',
+      supportsAllDrives: 'true',
+    });
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async getStartPageToken(): Promise<string> {
+    const data = await this.getJson(startPageTokenSchema, '/changes/startPageToken', {
+      supportsAllDrives: 'true',
+    });
+    return data.startPageToken;
+  }
+
+  /** One page of the changes feed after `pageToken`, across My Drive and shared drives. */
+  async listChanges(pageToken: string) {
+    return this.getJson(changeListSchema, '/changes', {
+      pageToken,
+      pageSize: '100',
+      fields: `nextPageToken,newStartPageToken,changes(fileId,removed,file(${FILE_FIELDS}))`,
+      supportsAllDrives: 'true',
+      includeItemsFromAllDrives: 'true',
+    });
+  }
+
+  /** Ask Drive to POST to `address` whenever the changes feed moves past `pageToken`. */
+  async watchChanges(
+    pageToken: string,
+    channel: { id: string; token: string; address: string; expiration: number }
+  ) {
+    const response = await this.request(
+      '/changes/watch',
+      { pageToken, supportsAllDrives: 'true', includeItemsFromAllDrives: 'true' },
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          id: channel.id,
+          type: 'web_hook',
+          address: channel.address,
+          token: channel.token,
+          expiration: channel.expiration,
+        }),
+      }
+    );
+    return watchChannelResponseSchema.parse(await response.json());
+  }
+
+  async stopChannel(id: string, resourceId: string): Promise<void> {
+    await this.request(
+      '/channels/stop',
+      {},
+      { method: 'POST', body: JSON.stringify({ id, resourceId }) }
+    );
+  }
+
+  private async getJson<T>(
+    schema: z.ZodType<T>,
+    path: string,
+    params: Record<string, string>
+  ): Promise<T> {
+    const response = await this.request(path, params);
+    return schema.parse(await response.json());
+  }
+
+  private async request(
+    path: string,
+    params: Record<string, string>,
+    init: { method?: 'GET' | 'POST'; body?: string } = {}
+  ): Promise<Response> {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${DRIVE_API_URL}${path}${query ? `?${query}` : ''}`, {
+      method: init.method ?? 'GET',
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: init.body,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new GoogleDriveApiError(
+        response.status,
+        `Google Drive ${path} failed: ${response.status} ${text}`
+      );
+    }
+    return response;
+  }
+}
@@ -0,0 +1,289 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import type { DbId } from '@grabdy/common';
+import { IntegrationProvider } from '@grabdy/contracts';
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+
+import { InjectEnv } from '../../../../config/env.config';
+import {
+  type AccountInfo,
+  IntegrationConnector,
+  type OAuthTokens,
+  type RateLimitConfig,
+  type SyncedItem,
+  type SyncResult,
+  type WebhookEvent,
+  type WebhookHandlerResult,
+} from '../../connector.interface';
+import {
+  exchangeGoogleCode,
+  googleAuthUrl,
+  type GoogleOAuthClient,
+  refreshGoogleTokens,
+} from '../google-oauth';
+
+import { GoogleDriveChangesWebhook } from './webhooks/changes.webhook';
+import { GoogleDriveClient } from './google-drive.client';
+import type { GoogleDriveProviderData, GoogleDriveWatchChannel } from './google-drive.types';
+import { DRIVE_FOLDER_MIME } from './google-drive.utils';
+
+const GOOGLE_DRIVE_SCOPES = ['https://www.googleapis.com/auth/drive.readonly'];
+
+/** Drive allows watch channels of up to a week; they are renewed a day before they expire. */
+const WATCH_CHANNEL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const WATCH_CHANNEL_RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class GoogleDriveConnector extends IntegrationConnector<'GOOGLE_DRIVE'> {
+  readonly provider = IntegrationProvider.GOOGLE_DRIVE;
+  readonly rateLimits: RateLimitConfig = { maxRequestsPerMinute: 600, maxRequestsPerHour: 20000 };
+  readonly syncSchedule = { every: 3_600_000 }; // Hourly safety net for missed push notifications
+
+  private readonly oauthClient: GoogleOAuthClient;
+  private readonly logger = new Logger(GoogleDriveConnector.name);
+
+  constructor(
+    @InjectEnv('googleDriveClientId') googleDriveClientId: string,
+    @InjectEnv('googleDriveClientSecret') googleDriveClientSecret: string,
+    @InjectEnv('apiUrl') private readonly apiUrl: string,
+    private readonly changesWebhook: GoogleDriveChangesWebhook
+  ) {
+    super();
+    this.oauthClient = { id: googleDriveClientId, secret: googleDriveClientSecret };
+  }
+
+  // ---- Auth ----------------------------------------------------------------
+
+  getAuthUrl(_orgId: DbId<'Org'>, state: string, redirectUri: string): string {
+    return googleAuthUrl(this.oauthClient, GOOGLE_DRIVE_SCOPES, state, redirectUri);
+  }
+
+  async exchangeCode(code: string, redirectUri: string): Promise<OAuthTokens<'GOOGLE_DRIVE'>> {
+    return exchangeGoogleCode(this.oauthClient, code, redirectUri);
+  }
+
+  async refreshTokens(refreshToken: string): Promise<OAuthTokens<'GOOGLE_DRIVE'>> {
+    return refreshGoogleTokens(this.oauthClient, refreshToken);
+  }
+
+  async getAccountInfo(accessToken: string): Promise<AccountInfo<'GOOGLE_DRIVE'>> {
+    const { user } = await new GoogleDriveClient(accessToken).about();
+    return {
+      id: user.permissionId,
+      name: user.emailAddress,
+      metadata: { userEmail: user.emailAddress },
+    };
+  }
+
+  // ---- Webhooks ------------------------------------------------------------
+
+  parseWebhook(
+    _headers: Record<string, string>,
+    _body: unknown,
+    _secret: string | null,
+    _rawBody?: string
+  ): WebhookEvent | null {
+    // Drive notifications only say that the changes feed moved; they never name a file
+    return null;
+  }
+
+  handleWebhookRequest(
+    headers: Record<string, string>,
+    _body: unknown,
+    connections: ReadonlyArray<{
+      id: DbId<'Connection'>;
+      orgId: DbId<'Org'>;
+      providerData: GoogleDriveProviderData;
+    }>
+  ): WebhookHandlerResult {
+    const channelId = headers['x-goog-channel-id'];
+    const token = headers['x-goog-channel-token'];
+    // 'sync' is sent once when a channel is created, before anything has changed
+    if (!channelId || !token || headers['x-goog-resource-state'] === 'sync') {
+      return { response: { ok: true } };
+    }
+
+    const matched = connections.filter((conn) => {
+      const channel = conn.providerData.watchChannel;
+      return channel?.id === channelId && this.tokenMatches(channel.token, token);
+    });
+
+    return {
+      response: { ok: true },
+      discoverConnections: matched.map((conn) => ({ id: conn.id, orgId: conn.orgId })),
+    };
+  }
+
+  // ---- Sync ----------------------------------------------------------------
+
+  /**
+   * Newly selected folders are listed in full; after that the Drive changes
+   * feed is read one page per call. The feed cursor is taken before any
+   * listing, so nothing changed during the listing is missed.
+   */
+  async sync(accessToken: string, providerData: GoogleDriveProviderData): Promise<SyncResult> {
+    const client = new GoogleDriveClient(accessToken);
+    const selectedFolderIds = providerData.selectedFolderIds ?? [];
+
+    const startPageToken = providerData.changesPageToken ?? (await client.getStartPageToken());
+
+    const webhookEvents: WebhookEvent[] = [];
+    const deletedExternalIds: string[] = [];
+    const listed = new Set(providerData.listedFolderIds);
+    for (const driveFolderId of selectedFolderIds.filter((id) => !listed.has(id))) {
+      webhookEvents.push(...(await this.changesWebhook.listFolderEvents(client, driveFolderId)));
+      listed.add(driveFolderId);
+    }
+
+    let changesPageToken = startPageToken;
+    let hasMore = false;
+    if (providerData.changesPageToken) {
+      const changes = await this.changesWebhook.fetchChanges(
+        client,
+        providerData.changesPageToken,
+        selectedFolderIds
+      );
+      webhookEvents.push(...changes.webhookEvents);
+      deletedExternalIds.push(...changes.deletedExternalIds);
+      changesPageToken = changes.nextPageToken ?? changes.newStartPageToken ?? changesPageToken;
+      hasMore = changes.nextPageToken !== null;
+    }
+
+    const watchChannel = hasMore
+      ? providerData.watchChannel
+      : await this.renewWatchChannel(client, changesPageToken, providerData.watchChannel);
+
+    this.logger.log(
+      `Google Drive sync discovered ${webhookEvents.length} files to process, ${deletedExternalIds.length} removed`
+    );
+
+    return {
+      items: [],
+      deletedExternalIds,
+      updatedProviderData: {
+        ...providerData,
+        // Deselected folders are dropped, so selecting one again lists it again
+        listedFolderIds: selectedFolderIds.filter((id) => listed.has(id)),
+        changesPageToken,
+        watchChannel,
+        lastSyncedAt: new Date().toISOString(),
+      },
+      hasMore,
+      webhookEvents,
+    };
+  }
+
+  async processWebhookItem(
+    accessToken: string,
+    _providerData: GoogleDriveProviderData,
+    event: WebhookEvent
+  ): Promise<{ item: SyncedItem | null; deletedExternalId: string | null }> {
+    if (event.action === 'deleted') {
+      return { item: null, deletedExternalId: event.externalId };
+    }
+
+    const client = new GoogleDriveClient(accessToken);
+    const item = await this.changesWebhook.fetchItem(client, event.externalId);
+    if (!item) {
+      this.logger.warn(`Skipped Google Drive file ${event.externalId}`);
+    }
+    return { item, deletedExternalId: null };
+  }
+
+  buildInitialProviderData(
+    tokenMetadata?: Partial<GoogleDriveProviderData>,
+    accountMetadata?: Partial<GoogleDriveProviderData>
+  ): GoogleDriveProviderData {
+    return {
+      provider: 'GOOGLE_DRIVE',
+      userEmail: tokenMetadata?.userEmail ?? accountMetadata?.userEmail,
+      selectedFolderIds: [],
+      listedFolderIds: [],
+      changesPageToken: null,
+      watchChannel: null,
+      lastSyncedAt: null,
+    };
+  }
+
+  /** Shared drives and the top-level folders of My Drive. */
+  async listResources(
+    accessToken: string,
+    providerData: GoogleDriveProviderData
+  ): Promise<Array<{ id: string; name: string; selected: boolean }>> {
+    const client = new GoogleDriveClient(accessToken);
+    const resources: Array<{ id: string; name: string }> = [];
+
+    let pageToken: string | undefined;
+    do {
+      const page = await client.listSharedDrives(pageToken);
+      // A shared drive's ID is also the ID of its root folder
+      resources.push(...page.drives.map((d) => ({ id: d.id, name: `${d.name} (shared drive)` })));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    do {
+      const page = await client.listFiles(
+        `'root' in parents and mimeType = '${DRIVE_FOLDER_MIME}' and trashed = false`,
+        pageToken,
+        'user'
+      );
+      resources.push(...page.files.map((f) => ({ id: f.id, name: f.name })));
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    const selectedIds = new Set(providerData.selectedFolderIds ?? []);
+    return resources.map((r) => ({ ...r, selected: selectedIds.has(r.id) }));
+  }
+
+  // ---- Private -------------------------------------------------------------
+
+  /**
+   * Keep a push-notification channel open on the changes feed, replacing it a
+   * day before it expires. Drive only delivers to public HTTPS addresses, so in
+   * local development this fails and the hourly sync is all there is.
+   */
+  private async renewWatchChannel(
+    client: GoogleDriveClient,
+    pageToken: string,
+    current: GoogleDriveWatchChannel | null
+  ): Promise<GoogleDriveWatchChannel | null> {
+    if (current && current.expiration - Date.now() > WATCH_CHANNEL_RENEW_BEFORE_MS) {
+      return current;
+    }
+
+    try {
+      const token = randomBytes(32).toString('hex');
+      const channel = await client.watchChanges(pageToken, {
+        id: randomUUID(),
+        token,
+        address: `${this.apiUrl}/integrations/webhook/google_drive`,
+        expiration: Date.now() + WATCH_CHANNEL_TTL_MS,
+      });
+
+      if (current) {
+        await client.stopChannel(current.id, current.resourceId).catch((err) => {
+          this.logger.warn(`Could not stop Google Drive channel ${current.id}: ${err}`);
+        });
+      }
+
+      return {
+        id: channel.id,
+        resourceId: channel.resourceId,
+        token,
+        expiration: channel.expiration,
+      };
+    } catch (err) {
+      this.logger.warn(`Could not watch Google Drive changes: ${err}`);
+      return current;
+    }
+  }
+
+  private tokenMatches(expected: string, received: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const receivedBuffer = Buffer.from(received);
+    return (
+      expectedBuffer.length === receivedBuffer.length &&
+      timingSafeEqual(expectedBuffer, receivedBuffer)
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+/** Push-notification channel watching a connection's Drive changes feed. */
+export interface GoogleDriveWatchChannel {
+  id: string;
+  resourceId: string;
+  /** Echoed back in X-Goog-Channel-Token on every notification; proves it came from our watch. */
+  token: string;
+  /** Epoch ms after which Google stops sending notifications. */
+  expiration: number;
+}
+
+export interface GoogleDriveProviderData {
+  provider: 'GOOGLE_DRIVE';
+  userEmail?: string;
+  /** IDs of the folders and shared drives the user selected for syncing. */
+  selectedFolderIds?: string[];
+  /** Selected folders whose files have been listed; folders selected later are listed on the next sync. */
+  listedFolderIds: string[];
+  /** Drive changes feed cursor — changes after this token are synced incrementally. */
+  changesPageToken: string | null;
+  watchChannel: GoogleDriveWatchChannel | null;
+  /** ISO timestamp of the last completed sync. */
+  lastSyncedAt: string | null;
+}
+
+const googleDriveWatchChannelSchema = z.object({
+  id: z.string(),
+  resourceId: z.string(),
+  token: z.string(),
+  expiration: z.number(),
+});
+
+export const googleDriveProviderDataSchema = z.object({
+  provider: z.literal('GOOGLE_DRIVE'),
+  userEmail: z.string().optional(),
+  selectedFolderIds: z.array(z.string()).optional(),
+  listedFolderIds: z.array(z.string()).default([]),
+  changesPageToken: z.string().nullable().default(null),
+  watchChannel: googleDriveWatchChannelSchema.nullable().default(null),
+  lastSyncedAt: z.string().nullable(),
+});
+
+/** Public schema — strips the sync cursor and the watch channel's token. */
+export const googleDrivePublicSchema = z.object({
+  provider: z.literal('GOOGLE_DRIVE'),
+  userEmail: z.string().optional(),
+  selectedFolderIds: z.array(z.string()).optional(),
+  lastSyncedAt: z.string().nullable(),
+});
@@ -0,0 +1,67 @@
+import { resolveUploadsMime, type UploadsMime } from '@grabdy/contracts';
+
+import { getMaxFileSizeForMime } from '../../../../config/constants';
+
+import type { DriveFile } from './google-drive.client';
+
+export const DRIVE_FOLDER_MIME = 'application/vnd.google-apps.folder';
+
+/**
+ * Google Docs, Sheets and Slides have no file content of their own; Drive
+ * exports them into a format the upload extractors already read.
+ */
+const GOOGLE_APPS_EXPORTS: Record<string, { mimeType: UploadsMime; ext: string }> = {
+  'application/vnd.google-apps.document': {
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ext: 'docx',
+  },
+  'application/vnd.google-apps.spreadsheet': {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ext: 'xlsx',
+  },
+  'application/vnd.google-apps.presentation': { mimeType: 'application/pdf', ext: 'pdf' },
+};
+
+/** How a Drive file's content is fetched, or null when it can't be indexed. */
+export type DriveFileSource =
+  | { kind: 'export'; mimeType: UploadsMime; fileName: string }
+  | { kind: 'download'; mimeType: UploadsMime; fileName: string }
+  | { kind: 'text' };
+
+export function isDriveFolder(file: DriveFile): boolean {
+  return file.mimeType === DRIVE_FOLDER_MIME;
+}
+
+/**
+ * Decide how to index a Drive file: Google Docs, Sheets and Slides are
+ * exported, files of a supported upload type are downloaded as-is, and other
+ * small text files are read as plain text. Folders, shortcuts, other Google
+ * formats and oversized files are skipped.
+ */
+export function resolveDriveFileSource(file: DriveFile): DriveFileSource | null {
+  const exported = GOOGLE_APPS_EXPORTS[file.mimeType];
+  if (exported) {
+    return {
+      kind: 'export',
+      mimeType: exported.mimeType,
+      fileName: `${file.name}.${exported.ext}`,
+    };
+  }
+  if (file.mimeType.startsWith('application/vnd.google-apps.')) return null;
+
+  const size = Number(file.size ?? 0);
+  const mimeType = resolveUploadsMime(file.mimeType, file.name);
+  if (mimeType) {
+    return size <= getMaxFileSizeForMime(mimeType)
+      ? { kind: 'download', mimeType, fileName: file.name }
+      : null;
+  }
+  if (file.mimeType.startsWith('text/') && size <= getMaxFileSizeForMime('text/plain')) {
+    return { kind: 'text' };
+  }
+  return null;
+}
+
+export function driveFileUrl(file: DriveFile): string {
+  return file.webViewLink ?? `https://drive.google.com/file/d/${file.id}/view`;
+}
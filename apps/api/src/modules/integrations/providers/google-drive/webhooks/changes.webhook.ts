@@ -0,0 +1,180 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import { getMaxFileSizeForMime } from '../../../../../config/constants';
+import type { SyncedItem, WebhookEvent } from '../../../connector.interface';
+import {
+  type DriveFile,
+  GoogleDriveApiError,
+  type GoogleDriveClient,
+} from '../google-drive.client';
+import { driveFileUrl, isDriveFolder, resolveDriveFileSource } from '../google-drive.utils';
+
+/** Folder nesting deeper than this is not followed when checking whether a file is selected. */
+const MAX_FOLDER_DEPTH = 20;
+
+@Injectable()
+export class GoogleDriveChangesWebhook {
+  private readonly logger = new Logger(GoogleDriveChangesWebhook.name);
+
+  /** Every indexable file under a folder or shared drive, subfolders included. */
+  async listFolderEvents(
+    client: GoogleDriveClient,
+    driveFolderId: string
+  ): Promise<WebhookEvent[]> {
+    const events: WebhookEvent[] = [];
+    const folders = [driveFolderId];
+    const seen = new Set(folders);
+
+    for (let id = folders.shift(); id; id = folders.shift()) {
+      let pageToken: string | undefined;
+      do {
+        const page = await client.listFiles(`'${id}' in parents and trashed = false`, pageToken);
+        for (const file of page.files) {
+          if (isDriveFolder(file)) {
+            if (!seen.has(file.id)) {
+              seen.add(file.id);
+              folders.push(file.id);
+            }
+          } else if (resolveDriveFileSource(file)) {
+            events.push({ action: 'updated', externalId: file.id, version: file.version });
+          }
+        }
+        pageToken = page.nextPageToken;
+      } while (pageToken);
+    }
+
+    return events;
+  }
+
+  /**
+   * One page of the changes feed. Changed files inside the selected folders are
+   * queued for indexing; removed, trashed and moved-out files are deleted. A
+   * changed folder inside the selection is listed again, so folders moved in
+   * bring their files with them.
+   */
+  async fetchChanges(
+    client: GoogleDriveClient,
+    pageToken: string,
+    selectedFolderIds: string[]
+  ): Promise<{
+    webhookEvents: WebhookEvent[];
+    deletedExternalIds: string[];
+    nextPageToken: string | null;
+    newStartPageToken: string | null;
+  }> {
+    const page = await client.listChanges(pageToken);
+    const selected = new Set(selectedFolderIds);
+    const insideCache = new Map<string, boolean>();
+    const webhookEvents: WebhookEvent[] = [];
+    const deletedExternalIds: string[] = [];
+
+    for (const change of page.changes) {
+      const fileId = change.file?.id ?? change.fileId;
+      if (!fileId) continue;
+
+      const file = change.file;
+      if (change.removed || !file || file.trashed) {
+        deletedExternalIds.push(fileId);
+        continue;
+      }
+
+      const inside = await this.isInside(client, file.parents ?? [], selected, insideCache);
+      if (isDriveFolder(file)) {
+        if (inside) webhookEvents.push(...(await this.listFolderEvents(client, file.id)));
+      } else if (!inside) {
+        // Never indexed, or moved out of the selection; deleting an unknown item is a no-op
+        deletedExternalIds.push(file.id);
+      } else if (resolveDriveFileSource(file)) {
+        webhookEvents.push({ action: 'updated', externalId: file.id, version: file.version });
+      }
+    }
+
+    return {
+      webhookEvents,
+      deletedExternalIds,
+      nextPageToken: page.nextPageToken ?? null,
+      newStartPageToken: page.newStartPageToken ?? null,
+    };
+  }
+
+  /**
+   * Fetch a file's content. Docs, Sheets and Slides are exported and files of a
+   * supported type downloaded; both are indexed like uploads. Files that are
+   * gone, unreadable or unsupported yield null.
+   */
+  async fetchItem(client: GoogleDriveClient, driveFileId: string): Promise<SyncedItem | null> {
+    try {
+      const file = await client.getFile(driveFileId);
+      const source = resolveDriveFileSource(file);
+      if (file.trashed || !source) return null;
+
+      const sourceUrl = driveFileUrl(file);
+      const base = {
+        externalId: file.id,
+        title: file.name,
+        sourceUrl,
+        metadata: { driveFileId: file.id, mimeType: file.mimeType },
+      };
+
+      if (source.kind === 'text') {
+        const content = (await client.downloadFile(file.id)).toString('utf-8');
+        return {
+          ...base,
+          content,
+          messages: [
+            { content, metadata: { type: 'GOOGLE_DRIVE', driveFileId: file.id }, sourceUrl },
+          ],
+        };
+      }
+
+      const data =
+        source.kind === 'export'
+          ? await client.exportFile(file.id, source.mimeType)
+          : await client.downloadFile(file.id);
+      if (data.length > getMaxFileSizeForMime(source.mimeType)) {
+        this.logger.warn(
+          `Skipping Drive file ${driveFileId}: ${data.length} bytes is over the limit`
+        );
+        return null;
+      }
+      return {
+        ...base,
+        content: '',
+        file: { data, mimeType: source.mimeType, fileName: source.fileName },
+      };
+    } catch (err) {
+      // 403: no access or over the export limit; 404: deleted. Anything else is retried.
+      if (err instanceof GoogleDriveApiError && (err.status === 403 || err.status === 404)) {
+        this.logger.warn(`Could not fetch Drive file ${driveFileId}: ${err.message}`);
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /** Whether any of `parents` is, or sits under, a selected folder. Looked-up folders are cached. */
+  private async isInside(
+    client: GoogleDriveClient,
+    parents: string[],
+    selected: Set<string>,
+    cache: Map<string, boolean>,
+    depth = 0
+  ): Promise<boolean> {
+    if (depth > MAX_FOLDER_DEPTH) return false;
+
+    for (const parentId of parents) {
+      if (selected.has(parentId)) return true;
+
+      let inside = cache.get(parentId);
+      if (inside === undefined) {
+        const parent: DriveFile | null = await client.getFile(parentId).catch(() => null);
+        inside = parent
+          ? await this.isInside(client, parent.parents ?? [], selected, cache, depth + 1)
+          : false;
+        cache.set(parentId, inside);
+      }
+      if (inside) return true;
+    }
+    return false;
+  }
+}
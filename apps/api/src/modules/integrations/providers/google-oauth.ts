@@ -0,0 +1,103 @@
+import { z } from 'zod';
+
+import type { OAuthTokens } from '../connector.interface';
+
+/**
+ * Google OAuth 2.0 for the connectors that sign in with a Google account
+ * (Drive, Gmail). Each connector has its own OAuth client and scopes.
+ */
+export interface GoogleOAuthClient {
+  id: string;
+  secret: string;
+}
+
+type GoogleTokens = Omit<OAuthTokens, 'metadata'>;
+
+// ---------------------------------------------------------------------------
+// OAuth token response schema (trust boundary)
+// ---------------------------------------------------------------------------
+
+const googleTokenResponseSchema = z.object({
+  access_token: z.string(),
+  expires_in: z.number(),
+  /** Only sent on the first consent; refreshes keep the original. */
+  refresh_token: z.string().optional(),
+  scope: z.string(),
+});
+
+export function googleAuthUrl(
+  client: GoogleOAuthClient,
+  scopes: string[],
+  state: string,
+  redirectUri: string
+): string {
+  const params = new URLSearchParams({
+    client_id: client.id,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    scope: scopes.join(' '),
+    // Offline access with forced consent so Google always returns a refresh token
+    access_type: 'offline',
+    prompt: 'consent',
+    state,
+  });
+  return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
+}
+
+export async function exchangeGoogleCode(
+  client: GoogleOAuthClient,
+  code: string,
+  redirectUri: string
+): Promise<GoogleTokens> {
+  const data = await requestGoogleToken(client, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+  });
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? null,
+    expiresAt: new Date(Date.now() + data.expires_in * 1000),
+    scopes: data.scope.split(' '),
+  };
+}
+
+export async function refreshGoogleTokens(
+  client: GoogleOAuthClient,
+  refreshToken: string
+): Promise<GoogleTokens> {
+  const data = await requestGoogleToken(client, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+  });
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? refreshToken,
+    expiresAt: new Date(Date.now() + data.expires_in * 1000),
+    scopes: data.scope.split(' '),
+  };
+}
+
+async function requestGoogleToken(
+  client: GoogleOAuthClient,
+  params: Record<string, string>
+): Promise<z.infer<typeof googleTokenResponseSchema>> {
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: client.id,
+      client_secret: client.secret,
+      ...params,
+    }),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Google token request failed: ${response.status} ${text}`);
+  }
+
+  return googleTokenResponseSchema.parse(await response.json());
+}
@@ -0,0 +1,206 @@
+import { z } from 'zod';
+
+const ATLASSIAN_API_URL = 'https://api.atlassian.com';
+
+/** Issues per search page; each is followed by a comment fetch when its comments don't fit inline. */
+export const ISSUE_PAGE_SIZE = 50;
+
+/** The largest page size the comment and project listings allow. */
+const LIST_PAGE_SIZE = 100;
+
+/** Issue fields the sync reads; everything else is left out of search responses. */
+const ISSUE_FIELDS = [
+  'summary',
+  'description',
+  'status',
+  'priority',
+  'assignee',
+  'issuetype',
+  'labels',
+  'parent',
+  'subtasks',
+  'project',
+  'updated',
+  'comment',
+].join(',');
+
+// ---------------------------------------------------------------------------
+// Response schemas (trust boundary)
+// ---------------------------------------------------------------------------
+
+const namedSchema = z.object({ name: z.string() });
+
+const userSchema = z.object({ displayName: z.string() });
+
+const commentSchema = z.object({
+  id: z.string(),
+  author: userSchema.optional(),
+  created: z.string(),
+  /** HTML, with `expand=renderedBody`. */
+  renderedBody: z.string().optional(),
+});
+
+export type JiraComment = z.infer<typeof commentSchema>;
+
+const relatedIssueSchema = z.object({
+  key: z.string(),
+  fields: z.object({ summary: z.string(), status: namedSchema.optional() }).optional(),
+});
+
+export const jiraIssueSchema = z.object({
+  id: z.string(),
+  key: z.string(),
+  fields: z.object({
+    summary: z.string(),
+    status: namedSchema,
+    priority: namedSchema.nullish(),
+    assignee: userSchema.nullish(),
+    issuetype: namedSchema.nullish(),
+    labels: z.array(z.string()).default([]),
+    parent: relatedIssueSchema.nullish(),
+    subtasks: z.array(relatedIssueSchema).default([]),
+    project: z.object({ key: z.string(), name: z.string() }),
+    updated: z.string(),
+    comment: z
+      .object({
+        comments: z.array(commentSchema.omit({ renderedBody: true })),
+        total: z.number(),
+      })
+      .optional(),
+  }),
+  /** HTML renderings of the rich-text fields, with `expand=renderedFields`. */
+  renderedFields: z
+    .object({
+      description: z.string().nullish(),
+      comment: z
+        .object({ comments: z.array(z.object({ id: z.string(), body: z.string() })) })
+        .nullish(),
+    })
+    .optional(),
+});
+
+export type JiraIssue = z.infer<typeof jiraIssueSchema>;
+
+const issueSearchSchema = z.object({
+  issues: z.array(jiraIssueSchema),
+  nextPageToken: z.string().optional(),
+});
+
+const commentListSchema = z.object({
+  comments: z.array(commentSchema),
+  startAt: z.number(),
+  total: z.number(),
+});
+
+const projectSchema = z.object({ id: z.string(), key: z.string(), name: z.string() });
+
+export type JiraProject = z.infer<typeof projectSchema>;
+
+const projectSearchSchema = z.object({
+  values: z.array(projectSchema),
+  isLast: z.boolean(),
+});
+
+const myselfSchema = z.object({ timeZone: z.string().optional() });
+
+export class JiraApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'JiraApiError';
+  }
+}
+
+/** Minimal Jira Cloud REST v3 client for one OAuth access token and site. */
+export class JiraClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly accessToken: string,
+    cloudId: string
+  ) {
+    this.baseUrl = `${ATLASSIAN_API_URL}/ex/jira/${encodeURIComponent(cloudId)}/rest/api/3`;
+  }
+
+  /** The connected user's time zone, which JQL dates are read in. */
+  async getTimeZone(): Promise<string> {
+    const myself = await this.getJson(myselfSchema, '/myself', {});
+    return myself.timeZone ?? 'UTC';
+  }
+
+  /** One page of issues matching `jql`, with rendered descriptions and the first comments inline. */
+  async searchIssues(jql: string, pageToken?: string) {
+    const data = await this.getJson(issueSearchSchema, '/search/jql', {
+      jql,
+      fields: ISSUE_FIELDS,
+      expand: 'renderedFields',
+      maxResults: String(ISSUE_PAGE_SIZE),
+      ...(pageToken ? { nextPageToken: pageToken } : {}),
+    });
+    return { issues: data.issues, pageToken: data.nextPageToken };
+  }
+
+  async getIssue(jiraIssueId: string): Promise<JiraIssue> {
+    return this.getJson(jiraIssueSchema, `/issue/${encodeURIComponent(jiraIssueId)}`, {
+      fields: ISSUE_FIELDS,
+      expand: 'renderedFields',
+    });
+  }
+
+  /** All comments of an issue, oldest first, with their bodies rendered as HTML. */
+  async listComments(jiraIssueId: string): Promise<JiraComment[]> {
+    const comments: JiraComment[] = [];
+    let total = Infinity;
+    while (comments.length < total) {
+      const page = await this.getJson(
+        commentListSchema,
+        `/issue/${encodeURIComponent(jiraIssueId)}/comment`,
+        {
+          startAt: String(comments.length),
+          maxResults: String(LIST_PAGE_SIZE),
+          orderBy: 'created',
+          expand: 'renderedBody',
+        }
+      );
+      if (page.comments.length === 0) break;
+      comments.push(...page.comments);
+      total = page.total;
+    }
+    return comments;
+  }
+
+  /** All projects the connected user can browse. */
+  async listProjects(): Promise<JiraProject[]> {
+    const projects: JiraProject[] = [];
+    let isLast = false;
+    while (!isLast) {
+      const page = await this.getJson(projectSearchSchema, '/project/search', {
+        startAt: String(projects.length),
+        maxResults: String(LIST_PAGE_SIZE),
+        orderBy: 'name',
+      });
+      projects.push(...page.values);
+      isLast = page.isLast || page.values.length === 0;
+    }
+    return projects;
+  }
+
+  private async getJson<T>(
+    schema: z.ZodType<T>,
+    path: string,
+    params: Record<string, string>
+  ): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${this.baseUrl}${path}${query ? `?${query}` : ''}`, {
+      headers: { Authorization: `Bearer ${this.accessToken}`, Accept: 'application/json' },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new JiraApiError(response.status, `Jira ${path} failed: ${response.status} ${text}`);
+    }
+    return schema.parse(await response.json());
+  }
+}
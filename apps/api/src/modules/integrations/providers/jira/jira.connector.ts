@@ -0,0 +1,278 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import type { DbId } from '@grabdy/common';
+import { IntegrationProvider } from '@grabdy/contracts';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+
+import { InjectEnv } from '../../../../config/env.config';
+import {
+  type AccountInfo,
+  IntegrationConnector,
+  type OAuthTokens,
+  type RateLimitConfig,
+  type SyncedItem,
+  type SyncResult,
+  type WebhookEvent,
+  type WebhookHandlerResult,
+} from '../../connector.interface';
+import { routeAtlassianWebhook } from '../atlassian-webhooks';
+import { listAccessibleSites } from '../confluence/confluence.client';
+
+import { JiraIssueWebhook } from './webhooks/issue.webhook';
+import { JiraClient } from './jira.client';
+import type { JiraProviderData } from './jira.types';
+
+const JIRA_SCOPES = ['read:jira-work', 'read:jira-user', 'offline_access'];
+
+// ---------------------------------------------------------------------------
+// OAuth token response schema (trust boundary)
+// ---------------------------------------------------------------------------
+
+const atlassianTokenResponseSchema = z.object({
+  access_token: z.string(),
+  expires_in: z.number(),
+  /** Rotating: every refresh returns a new one and retires the old. */
+  refresh_token: z.string().optional(),
+  scope: z.string(),
+});
+
+/**
+ * Jira Cloud issues and their comments from the selected projects. Webhooks
+ * keep issues current; the sync lists issues updated since each project's
+ * cursor with JQL.
+ */
+@Injectable()
+export class JiraConnector extends IntegrationConnector<'JIRA'> {
+  readonly provider = IntegrationProvider.JIRA;
+  readonly rateLimits: RateLimitConfig = { maxRequestsPerMinute: 300, maxRequestsPerHour: 10000 };
+  readonly syncSchedule = { every: 3_600_000 }; // Hourly safety net for missed webhooks
+
+  private readonly logger = new Logger(JiraConnector.name);
+
+  constructor(
+    @InjectEnv('jiraClientId') private readonly jiraClientId: string,
+    @InjectEnv('jiraClientSecret') private readonly jiraClientSecret: string,
+    @InjectEnv('jiraWebhookSecret') private readonly jiraWebhookSecret: string,
+    private readonly issueWebhook: JiraIssueWebhook
+  ) {
+    super();
+  }
+
+  // ---- Auth ----------------------------------------------------------------
+
+  getAuthUrl(_orgId: DbId<'Org'>, state: string, redirectUri: string): string {
+    const params = new URLSearchParams({
+      audience: 'api.atlassian.com',
+      client_id: this.jiraClientId,
+      scope: JIRA_SCOPES.join(' '),
+      redirect_uri: redirectUri,
+      state,
+      response_type: 'code',
+      prompt: 'consent',
+    });
+    return `https://auth.atlassian.com/authorize?${params.toString()}`;
+  }
+
+  async exchangeCode(code: string, redirectUri: string): Promise<OAuthTokens<'JIRA'>> {
+    const data = await this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+    });
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? null,
+      expiresAt: new Date(Date.now() + data.expires_in * 1000),
+      scopes: data.scope.split(' '),
+    };
+  }
+
+  async refreshTokens(refreshToken: string): Promise<OAuthTokens<'JIRA'>> {
+    const data = await this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? refreshToken,
+      expiresAt: new Date(Date.now() + data.expires_in * 1000),
+      scopes: data.scope.split(' '),
+    };
+  }
+
+  /** The connection is to the first Jira site the user granted access to. */
+  async getAccountInfo(accessToken: string): Promise<AccountInfo<'JIRA'>> {
+    const sites = await listAccessibleSites(accessToken);
+    const site = sites.find((s) => s.scopes.some((scope) => scope.endsWith(':jira-work')));
+    if (!site) {
+      throw new Error('No Jira site is accessible with this authorization');
+    }
+
+    return {
+      id: site.id,
+      name: site.name,
+      metadata: { cloudId: site.id, siteUrl: site.url },
+    };
+  }
+
+  // ---- Webhooks ------------------------------------------------------------
+
+  parseWebhook(
+    headers: Record<string, string>,
+    body: unknown,
+    secret: string | null,
+    rawBody?: string
+  ): WebhookEvent | null {
+    return this.parseIssueWebhook(headers, body, secret, rawBody)?.event ?? null;
+  }
+
+  handleWebhookRequest(
+    headers: Record<string, string>,
+    body: unknown,
+    connections: ReadonlyArray<{
+      id: DbId<'Connection'>;
+      orgId: DbId<'Org'>;
+      providerData: JiraProviderData;
+    }>,
+    rawBody?: string
+  ): WebhookHandlerResult {
+    const parsed = this.parseIssueWebhook(headers, body, this.jiraWebhookSecret, rawBody);
+    if (!parsed) {
+      return { response: { ok: true } };
+    }
+
+    const syncConnections = routeAtlassianWebhook(
+      connections,
+      parsed.event,
+      parsed.selfUrl,
+      (providerData) => providerData.selectedProjectKeys?.includes(parsed.projectKey) ?? false
+    );
+
+    return { response: { ok: true }, syncConnections };
+  }
+
+  // ---- Sync ----------------------------------------------------------------
+
+  async sync(accessToken: string, providerData: JiraProviderData): Promise<SyncResult> {
+    const client = new JiraClient(accessToken, providerData.cloudId);
+    const result = await this.issueWebhook.fetchUpdatedItems(client, providerData);
+
+    this.logger.log(`Jira sync fetched ${result.items.length} issues`);
+
+    return {
+      items: result.items,
+      deletedExternalIds: [],
+      updatedProviderData: {
+        ...providerData,
+        projectCursors: result.projectCursors,
+        lastSyncedAt: new Date().toISOString(),
+      },
+      hasMore: result.hasMore,
+    };
+  }
+
+  /**
+   * Deletions are confirmed against Jira like updates: a webhook for another
+   * site's issue with the same ID must not remove this one. Issues that can't
+   * be fetched any more, or moved out of the selected projects, are removed.
+   */
+  async processWebhookItem(
+    accessToken: string,
+    providerData: JiraProviderData,
+    event: WebhookEvent
+  ): Promise<{ item: SyncedItem | null; deletedExternalId: string | null }> {
+    const client = new JiraClient(accessToken, providerData.cloudId);
+    const item = await this.issueWebhook.fetchItem(client, providerData, event.externalId);
+    if (!item) {
+      return { item: null, deletedExternalId: event.externalId };
+    }
+    return { item, deletedExternalId: null };
+  }
+
+  buildInitialProviderData(
+    tokenMetadata?: Partial<JiraProviderData>,
+    accountMetadata?: Partial<JiraProviderData>
+  ): JiraProviderData {
+    return {
+      provider: 'JIRA',
+      cloudId: tokenMetadata?.cloudId ?? accountMetadata?.cloudId ?? '',
+      siteUrl: tokenMetadata?.siteUrl ?? accountMetadata?.siteUrl,
+      selectedProjectKeys: [],
+      projectCursors: {},
+      lastSyncedAt: null,
+    };
+  }
+
+  /** Projects are selected by key, which is what webhook payloads name them by. */
+  async listResources(
+    accessToken: string,
+    providerData: JiraProviderData
+  ): Promise<Array<{ id: string; name: string; selected: boolean }>> {
+    const client = new JiraClient(accessToken, providerData.cloudId);
+    const selectedKeys = new Set(providerData.selectedProjectKeys ?? []);
+    const projects = await client.listProjects();
+    return projects.map((project) => ({
+      id: project.key,
+      name: `${project.name} (${project.key})`,
+      selected: selectedKeys.has(project.key),
+    }));
+  }
+
+  // ---- Private -------------------------------------------------------------
+
+  private async requestToken(
+    params: Record<string, string>
+  ): Promise<z.infer<typeof atlassianTokenResponseSchema>> {
+    const response = await fetch('https://auth.atlassian.com/oauth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: this.jiraClientId,
+        client_secret: this.jiraClientSecret,
+        ...params,
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Atlassian token request failed: ${response.status} ${text}`);
+    }
+
+    return atlassianTokenResponseSchema.parse(await response.json());
+  }
+
+  private parseIssueWebhook(
+    headers: Record<string, string>,
+    body: unknown,
+    secret: string | null,
+    rawBody?: string
+  ): ReturnType<JiraIssueWebhook['extractEvent']> {
+    if (!body || typeof body !== 'object') return null;
+    if (!this.verifySignature(headers, secret, rawBody ?? JSON.stringify(body))) return null;
+    return this.issueWebhook.extractEvent(body);
+  }
+
+  /** Webhooks registered with a secret are signed as `X-Hub-Signature: sha256=<hex HMAC of the body>`. */
+  private verifySignature(
+    headers: Record<string, string>,
+    secret: string | null,
+    bodyString: string
+  ): boolean {
+    const signature = headers['x-hub-signature'];
+    if (!signature || !secret) return false;
+
+    const expected = `sha256=${createHmac('sha256', secret).update(bodyString).digest('hex')}`;
+
+    const sigBuffer = Buffer.from(signature);
+    const expectedBuffer = Buffer.from(expected);
+    const valid =
+      sigBuffer.length === expectedBuffer.length && timingSafeEqual(sigBuffer, expectedBuffer);
+    if (!valid) {
+      this.logger.warn('Jira webhook signature verification failed');
+    }
+    return valid;
+  }
+}
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+/** Where a project's issue listing stands. */
+export interface JiraProjectCursor {
+  /** ISO timestamp — the next listing covers issues updated at or after it. */
+  updatedSince: string;
+  /** A listing cut off at the per-sync limit, continued by the next sync with the same JQL. */
+  listing: { jql: string; pageToken: string; startedAt: string } | null;
+}
+
+export interface JiraProviderData {
+  provider: 'JIRA';
+  /** Atlassian cloud ID of the connected site; every API call is routed through it. */
+  cloudId: string;
+  /** e.g. https://acme.atlassian.net */
+  siteUrl?: string;
+  /** Keys of the projects the user selected for syncing. */
+  selectedProjectKeys?: string[];
+  /** Per selected project; projects selected later start from the initial lookback. */
+  projectCursors: Record<string, JiraProjectCursor>;
+  /** ISO timestamp of the last completed sync. */
+  lastSyncedAt: string | null;
+}
+
+const jiraProjectCursorSchema = z.object({
+  updatedSince: z.string(),
+  listing: z.object({ jql: z.string(), pageToken: z.string(), startedAt: z.string() }).nullable(),
+});
+
+export const jiraProviderDataSchema = z.object({
+  provider: z.literal('JIRA'),
+  cloudId: z.string(),
+  siteUrl: z.string().optional(),
+  selectedProjectKeys: z.array(z.string()).optional(),
+  projectCursors: z.record(z.string(), jiraProjectCursorSchema).default({}),
+  lastSyncedAt: z.string().nullable(),
+});
+
+/** Public schema — strips the cloud ID and the sync cursors. */
+export const jiraPublicSchema = z.object({
+  provider: z.literal('JIRA'),
+  siteUrl: z.string().optional(),
+  selectedProjectKeys: z.array(z.string()).optional(),
+  lastSyncedAt: z.string().nullable(),
+});
@@ -0,0 +1,183 @@
+import { z } from 'zod';
+
+import { htmlToMarkdown } from '../../../data-sources/chunking/html-to-markdown';
+import type { SyncedItem } from '../../connector.interface';
+
+// ---------------------------------------------------------------------------
+// Zod schema for Jira webhook payloads (trust boundary)
+// ---------------------------------------------------------------------------
+
+export const jiraWebhookBodySchema = z.object({
+  webhookEvent: z.string(),
+  issue: z
+    .object({ id: z.coerce.string(), key: z.string(), self: z.string().optional() })
+    .optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+export function formatJiraDate(iso: string): string {
+  return new Date(iso)
+    .toISOString()
+    .replace('T', ' ')
+    .replace(/\.\d+Z$/, ' UTC');
+}
+
+/** Issue keys are `<project key>-<number>`; the key changes when the issue moves project. */
+export function projectKeyOf(jiraIssueKey: string): string {
+  return jiraIssueKey.slice(0, jiraIssueKey.lastIndexOf('-'));
+}
+
+/**
+ * JQL for the issues of a project updated at or after `since`, oldest update
+ * first. JQL dates have minute precision and are read in the user's time
+ * zone, so `since` is rounded down to the minute in `timeZone`.
+ */
+export function buildUpdatedSinceJql(projectKey: string, since: string, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(since));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '00';
+  const date = `${part('year')}-${part('month')}-${part('day')} ${part('hour')}:${part('minute')}`;
+
+  const escapedKey = projectKey.replace(/["\\]/g, '\\$&');
+  return `project = "${escapedKey}" AND updated >= "${date}" ORDER BY updated ASC`;
+}
+
+/** Jira renders rich text as HTML; Markdown keeps its code blocks, lists and tables apart. */
+export function renderedToMarkdown(html: string | null | undefined): string {
+  return html ? htmlToMarkdown(html) : '';
+}
+
+// ---------------------------------------------------------------------------
+// Issue types
+// ---------------------------------------------------------------------------
+
+export interface JiraIssueFields {
+  id: string;
+  key: string;
+  projectKey: string;
+  projectName: string;
+  title: string;
+  /** Markdown; empty when the issue has no description. */
+  description: string;
+  url: string;
+  updatedAt: Date;
+  status: string;
+  priority: string | null;
+  assignee: string | null;
+  issueType: string | null;
+  labels: string[];
+  parent: { key: string; title: string } | null;
+  subtasks: Array<{ key: string; title: string; status: string | null }>;
+  comments: Array<{
+    id: string;
+    /** Markdown. */
+    body: string;
+    author: string | null;
+    createdAt: Date;
+    url: string;
+  }>;
+}
+
+// ---------------------------------------------------------------------------
+// Item builders
+// ---------------------------------------------------------------------------
+
+export function buildIssueContextHeader(issue: JiraIssueFields): string {
+  const lines: string[] = [];
+
+  lines.push(`Issue ${issue.key}: ${issue.title}`);
+
+  const statusParts = [`Status: ${issue.status}`];
+  if (issue.issueType) statusParts.push(`Type: ${issue.issueType}`);
+  if (issue.priority) statusParts.push(`Priority: ${issue.priority}`);
+  if (issue.assignee) statusParts.push(`Assignee: ${issue.assignee}`);
+  statusParts.push(`Project: ${issue.projectName}`);
+  lines.push(statusParts.join(' | '));
+
+  if (issue.labels.length > 0) lines.push(`Labels: ${issue.labels.join(', ')}`);
+
+  if (issue.parent) {
+    lines.push(`Parent: ${issue.parent.key} ${issue.parent.title}`);
+  }
+
+  if (issue.subtasks.length > 0) {
+    const subtaskParts = issue.subtasks.map(
+      (s) => `${s.key} ${s.title}${s.status ? ` (${s.status})` : ''}`
+    );
+    lines.push(`Sub-tasks: ${subtaskParts.join(', ')}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function buildCommentContextLine(issue: JiraIssueFields): string {
+  const parts = [`Comment on ${issue.key} (${issue.title})`, issue.status];
+  if (issue.priority) parts.push(issue.priority);
+  return parts.join(' | ');
+}
+
+export function buildSyncedItemFromIssue(issue: JiraIssueFields): SyncedItem {
+  const messages: NonNullable<SyncedItem['messages']> = [];
+  const contextHeader = buildIssueContextHeader(issue);
+  const chunkMeta = {
+    type: 'JIRA' as const,
+    jiraIssueKey: issue.key,
+    jiraProjectKey: issue.projectKey,
+    jiraStatus: issue.status,
+  };
+
+  // Issue description (or header-only) as first message
+  const descriptionContent = issue.description
+    ? `${contextHeader}\n\n${issue.description}`
+    : contextHeader;
+
+  messages.push({
+    content: descriptionContent,
+    metadata: { ...chunkMeta, jiraCommentId: null },
+    sourceUrl: issue.url,
+  });
+
+  // Each comment as a separate message with context line
+  const commentContext = buildCommentContextLine(issue);
+  for (const comment of issue.comments) {
+    const author = comment.author ?? 'Unknown';
+    const time = formatJiraDate(comment.createdAt.toISOString());
+    messages.push({
+      content: `${commentContext}\n[${time}] ${author}: ${comment.body}`,
+      metadata: { ...chunkMeta, jiraCommentId: comment.id },
+      sourceUrl: comment.url,
+    });
+  }
+
+  const content = messages.map((m) => m.content).join('\n\n');
+
+  return {
+    externalId: issue.id,
+    title: `[${issue.key}] ${issue.title}`,
+    content,
+    messages,
+    sourceUrl: issue.url,
+    metadata: {
+      jiraIssueId: issue.id,
+      jiraIssueKey: issue.key,
+      jiraProjectKey: issue.projectKey,
+      commentCount: issue.comments.length,
+      status: issue.status,
+      issueType: issue.issueType,
+      priority: issue.priority,
+      assignee: issue.assignee,
+      labels: issue.labels.length > 0 ? issue.labels : null,
+    },
+  };
+}
@@ -0,0 +1,196 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+import type { SyncedItem, WebhookEvent } from '../../../connector.interface';
+import { getInitialSyncSince } from '../../../integrations.constants';
+import {
+  ISSUE_PAGE_SIZE,
+  JiraApiError,
+  type JiraClient,
+  type JiraComment,
+  type JiraIssue,
+} from '../jira.client';
+import type { JiraProjectCursor, JiraProviderData } from '../jira.types';
+import {
+  buildSyncedItemFromIssue,
+  buildUpdatedSinceJql,
+  type JiraIssueFields,
+  jiraWebhookBodySchema,
+  projectKeyOf,
+  renderedToMarkdown,
+} from '../jira.utils';
+
+/** A listing's successor starts this far before it, to absorb clock skew and updates made while it ran. */
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class JiraIssueWebhook {
+  private readonly logger = new Logger(JiraIssueWebhook.name);
+
+  /**
+   * The issue a webhook is about, with the key of the project it's in and its
+   * REST URL, which names the site. Comment events name their issue.
+   */
+  extractEvent(
+    body: unknown
+  ): { event: WebhookEvent; projectKey: string; selfUrl: string | undefined } | null {
+    const parsed = jiraWebhookBodySchema.safeParse(body);
+    if (!parsed.success || !parsed.data.issue) return null;
+
+    const { webhookEvent, issue } = parsed.data;
+    let action: WebhookEvent['action'];
+    if (webhookEvent === 'jira:issue_created') action = 'created';
+    else if (webhookEvent === 'jira:issue_updated') action = 'updated';
+    else if (webhookEvent === 'jira:issue_deleted') action = 'deleted';
+    else if (/^comment_(created|updated|deleted)$/.test(webhookEvent)) action = 'updated';
+    else return null;
+
+    return {
+      event: { action, externalId: issue.id },
+      projectKey: projectKeyOf(issue.key),
+      selfUrl: issue.self,
+    };
+  }
+
+  /**
+   * Fetch an issue with its comments. Issues that are gone, unreadable or
+   * outside the selected projects (they may have moved) yield null.
+   */
+  async fetchItem(
+    client: JiraClient,
+    providerData: JiraProviderData,
+    jiraIssueId: string
+  ): Promise<SyncedItem | null> {
+    try {
+      const issue = await client.getIssue(jiraIssueId);
+      if (!providerData.selectedProjectKeys?.includes(issue.fields.project.key)) return null;
+
+      const fields = await this.loadIssueFields(client, providerData, issue);
+      return buildSyncedItemFromIssue(fields);
+    } catch (err) {
+      // 403: no longer readable by the connected user; 404: deleted. Anything else is retried.
+      if (err instanceof JiraApiError && (err.status === 403 || err.status === 404)) {
+        this.logger.warn(`Could not fetch Jira issue ${jiraIssueId}: ${err.message}`);
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * The next page of updated issues for each selected project, up to a page
+   * per call in all. A project's listing runs `updated >=` its cursor, oldest
+   * first, page by page over as many calls as it takes; once complete, the
+   * cursor moves to when it started.
+   */
+  async fetchUpdatedItems(
+    client: JiraClient,
+    providerData: JiraProviderData
+  ): Promise<{
+    items: SyncedItem[];
+    projectCursors: Record<string, JiraProjectCursor>;
+    hasMore: boolean;
+  }> {
+    const items: SyncedItem[] = [];
+    // Deselected projects are dropped, so selecting one again starts from the initial lookback
+    const projectCursors: Record<string, JiraProjectCursor> = {};
+    let hasMore = false;
+    let timeZone: string | null = null;
+
+    for (const projectKey of providerData.selectedProjectKeys ?? []) {
+      const cursor = providerData.projectCursors[projectKey] ?? {
+        updatedSince: getInitialSyncSince(),
+        listing: null,
+      };
+      if (items.length >= ISSUE_PAGE_SIZE) {
+        projectCursors[projectKey] = cursor;
+        hasMore = true;
+        continue;
+      }
+
+      let { jql, startedAt } = cursor.listing ?? { jql: '', startedAt: '' };
+      if (!cursor.listing) {
+        timeZone ??= await client.getTimeZone();
+        jql = buildUpdatedSinceJql(projectKey, cursor.updatedSince, timeZone);
+        startedAt = new Date().toISOString();
+      }
+
+      const page = await client.searchIssues(jql, cursor.listing?.pageToken);
+      for (const issue of page.issues) {
+        const fields = await this.loadIssueFields(client, providerData, issue);
+        items.push(buildSyncedItemFromIssue(fields));
+      }
+
+      if (page.pageToken) {
+        projectCursors[projectKey] = {
+          updatedSince: cursor.updatedSince,
+          listing: { jql, pageToken: page.pageToken, startedAt },
+        };
+        hasMore = true;
+      } else {
+        projectCursors[projectKey] = {
+          updatedSince: new Date(Date.parse(startedAt) - CURSOR_OVERLAP_MS).toISOString(),
+          listing: null,
+        };
+      }
+    }
+
+    return { items, projectCursors, hasMore };
+  }
+
+  private async loadIssueFields(
+    client: JiraClient,
+    providerData: JiraProviderData,
+    issue: JiraIssue
+  ): Promise<JiraIssueFields> {
+    const { fields } = issue;
+    const url = `${providerData.siteUrl ?? ''}/browse/${issue.key}`;
+    const comments = await this.loadComments(client, issue);
+
+    return {
+      id: issue.id,
+      key: issue.key,
+      projectKey: fields.project.key,
+      projectName: fields.project.name,
+      title: fields.summary,
+      description: renderedToMarkdown(issue.renderedFields?.description),
+      url,
+      updatedAt: new Date(fields.updated),
+      status: fields.status.name,
+      priority: fields.priority?.name ?? null,
+      assignee: fields.assignee?.displayName ?? null,
+      issueType: fields.issuetype?.name ?? null,
+      labels: fields.labels,
+      parent: fields.parent
+        ? { key: fields.parent.key, title: fields.parent.fields?.summary ?? '' }
+        : null,
+      subtasks: fields.subtasks.map((s) => ({
+        key: s.key,
+        title: s.fields?.summary ?? '',
+        status: s.fields?.status?.name ?? null,
+      })),
+      comments: comments.map((c) => ({
+        id: c.id,
+        body: renderedToMarkdown(c.renderedBody),
+        author: c.author?.displayName ?? null,
+        createdAt: new Date(c.created),
+        url: `${url}?focusedCommentId=${c.id}`,
+      })),
+    };
+  }
+
+  /** The comments returned inline with the issue when they are all there, else fetched separately. */
+  private async loadComments(client: JiraClient, issue: JiraIssue): Promise<JiraComment[]> {
+    const inline = issue.fields.comment;
+    const rendered = new Map(
+      (issue.renderedFields?.comment?.comments ?? []).map((c) => [c.id, c.body])
+    );
+    if (
+      inline &&
+      inline.comments.length >= inline.total &&
+      inline.comments.every((c) => rendered.has(c.id))
+    ) {
+      return inline.comments.map((c) => ({ ...c, renderedBody: rendered.get(c.id) }));
+    }
+    return client.listComments(issue.id);
+  }
+}
@@ -4,7 +4,11 @@ import type { IntegrationProvider } from '@grabdy/contracts';
 
 import type { IntegrationConnector } from '../connector.interface';
 
+import { ConfluenceConnector } from './confluence/confluence.connector';
+import { EmailConnector } from './email/email.connector';
 import { GitHubConnector } from './github/github.connector';
+import { GoogleDriveConnector } from './google-drive/google-drive.connector';
+import { JiraConnector } from './jira/jira.connector';
 import { LinearConnector } from './linear/linear.connector';
 import { NotionConnector } from './notion/notion.connector';
 import { SlackConnector } from './slack/slack.connector';
@@ -17,13 +21,21 @@ export class ProviderRegistry {
     slackConnector: SlackConnector,
     linearConnector: LinearConnector,
     gitHubConnector: GitHubConnector,
-    notionConnector: NotionConnector
+    notionConnector: NotionConnector,
+    googleDriveConnector: GoogleDriveConnector,
+    confluenceConnector: ConfluenceConnector,
+    jiraConnector: JiraConnector,
+    emailConnector: EmailConnector
   ) {
     this.connectors = new Map<string, IntegrationConnector>([
       ['SLACK', slackConnector],
       ['LINEAR', linearConnector],
       ['GITHUB', gitHubConnector],
       ['NOTION', notionConnector],
+      ['GOOGLE_DRIVE', googleDriveConnector],
+      ['CONFLUENCE', confluenceConnector],
+      ['JIRA', jiraConnector],
+      ['EMAIL', emailConnector],
     ]);
   }
 
@@ -1,7 +1,12 @@
 import { Injectable } from '@nestjs/common';
 
 import { type DbId, dbIdSchema, extractOrgNumericId, idBelongsToOrg } from '@grabdy/common';
-import { type MetadataFilter, metadataFilterSchema } from '@grabdy/contracts';
+import {
+  type ContentLanguage,
+  contentLanguageEnum,
+  type MetadataFilter,
+  metadataFilterSchema,
+} from '@grabdy/contracts';
 import { Tool } from '@rekog/mcp-nest';
 import type { Request } from 'express';
 import { z } from 'zod';
@@ -37,7 +42,12 @@ export class McpTools {
       filters: z
         .array(metadataFilterSchema)
         .optional()
-        .describe('Metadata filters to narrow results (e.g., by type, slackAuthors)'),
+        .describe(
+          'Metadata filters to narrow results: { field, operator, value } conditions on chunk metadata (e.g. type, pages, slackAuthors) with eq/neq/in/gt/lt/contains/exists, composable with { and }, { or }, { not }'
+        ),
+      language: contentLanguageEnum
+        .optional()
+        .describe('Only return content in this language (ISO 639-1 code, e.g. de, fr)'),
       hyde: z.boolean().optional().describe('Enable HyDE for better semantic matching'),
       expandContext: z.boolean().optional().describe('Include surrounding chunk context'),
     }),
@@ -48,6 +58,7 @@ export class McpTools {
       collectionIds: rawCollectionIds,
       limit,
       filters,
+      language,
       hyde,
       expandContext,
     }: {
@@ -55,6 +66,7 @@ export class McpTools {
       collectionIds?: DbId<'Collection'>[];
       limit: number;
       filters?: MetadataFilter[];
+      language?: ContentLanguage;
       hyde?: boolean;
       expandContext?: boolean;
     },
@@ -76,6 +88,7 @@ export class McpTools {
       collectionIds: rawCollectionIds,
       limit,
       filters,
+      language,
       hyde: hyde ?? false,
       expandContext: expandContext ?? false,
     });
@@ -1,4 +1,4 @@
-import { Controller } from '@nestjs/common';
+import { Controller, NotFoundException } from '@nestjs/common';
 
 import { orgsContract } from '@grabdy/contracts';
 import { TsRestHandler, tsRestHandler } from '@ts-rest/nest';
@@ -28,6 +28,7 @@ export class OrgsController {
             data: {
               id: org.id,
               name: org.name,
+              embeddingModel: org.embeddingModel,
               createdAt: toISOString(org.createdAt),
               updatedAt: toISOString(org.updatedAt),
             },
@@ -58,6 +59,7 @@ export class OrgsController {
             data: {
               id: org.id,
               name: org.name,
+              embeddingModel: org.embeddingModel,
               createdAt: toISOString(org.createdAt),
               updatedAt: toISOString(org.updatedAt),
             },
@@ -85,6 +87,7 @@ export class OrgsController {
             data: {
               id: org.id,
               name: org.name,
+              embeddingModel: org.embeddingModel,
               createdAt: toISOString(org.createdAt),
               updatedAt: toISOString(org.updatedAt),
             },
@@ -102,6 +105,43 @@ export class OrgsController {
     });
   }
 
+  @OrgAccess(orgsContract.updateEmbeddingModel, { roles: ['OWNER', 'ADMIN'], params: ['orgId'] })
+  @TsRestHandler(orgsContract.updateEmbeddingModel)
+  async updateEmbeddingModel() {
+    return tsRestHandler(orgsContract.updateEmbeddingModel, async ({ params, body }) => {
+      try {
+        const org = await this.orgsService.updateEmbeddingModel(params.orgId, body.model);
+        return {
+          status: 200 as const,
+          body: {
+            success: true as const,
+            data: {
+              id: org.id,
+              name: org.name,
+              embeddingModel: org.embeddingModel,
+              createdAt: toISOString(org.createdAt),
+              updatedAt: toISOString(org.updatedAt),
+            },
+          },
+        };
+      } catch (error) {
+        if (error instanceof NotFoundException) {
+          return {
+            status: 404 as const,
+            body: { success: false as const, error: 'Organization not found' },
+          };
+        }
+        return {
+          status: 400 as const,
+          body: {
+            success: false as const,
+            error: error instanceof Error ? error.message : 'Failed to update embedding model',
+          },
+        };
+      }
+    });
+  }
+
   @OrgAccess(orgsContract.invite, { roles: ['OWNER'], params: ['orgId'] })
   @TsRestHandler(orgsContract.invite)
   async invite() {
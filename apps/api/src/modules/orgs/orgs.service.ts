@@ -6,13 +6,14 @@ import {
 } from '@nestjs/common';
 
 import { type DbId, packId } from '@grabdy/common';
-import { OrgRole } from '@grabdy/contracts';
+import { type EmbeddingModelId, OrgRole } from '@grabdy/contracts';
 import { randomBytes } from 'crypto';
 
 import { authLinks } from '../../common/auth-links';
 import { INVITE_EXPIRY_MS, INVITE_TOKEN_BYTES } from '../../config/constants';
 import { DbService } from '../../db/db.module';
 import { EmailService } from '../email/email.service';
+import { EmbeddingService } from '../embeddings/embedding.service';
 
 function generateInviteToken(): string {
   return randomBytes(INVITE_TOKEN_BYTES).toString('hex');
@@ -22,7 +23,8 @@ function generateInviteToken(): string {
 export class OrgsService {
   constructor(
     private db: DbService,
-    private emailService: EmailService
+    private emailService: EmailService,
+    private embeddingService: EmbeddingService
   ) {}
 
   async create(data: { name: string }, userId: DbId<'User'>) {
@@ -52,6 +54,7 @@ export class OrgsService {
     return {
       id: result.id,
       name: result.name,
+      embeddingModel: result.embedding_model,
       createdAt: result.created_at,
       updatedAt: result.updated_at,
     };
@@ -71,6 +74,7 @@ export class OrgsService {
     return {
       id: org.id,
       name: org.name,
+      embeddingModel: org.embedding_model,
       createdAt: org.created_at,
       updatedAt: org.updated_at,
     };
@@ -92,6 +96,35 @@ export class OrgsService {
     return {
       id: org.id,
       name: org.name,
+      embeddingModel: org.embedding_model,
+      createdAt: org.created_at,
+      updatedAt: org.updated_at,
+    };
+  }
+
+  /**
+   * Switch the org's embedding model and queue re-embedding of its chunks.
+   * Newly indexed content uses the new model right away.
+   */
+  async updateEmbeddingModel(id: DbId<'Org'>, model: EmbeddingModelId) {
+    const current = await this.findById(id);
+    if (current.embeddingModel === model) {
+      return current;
+    }
+
+    const org = await this.db.kysely
+      .updateTable('org.orgs')
+      .set({ embedding_model: model, updated_at: new Date() })
+      .where('id', '=', id)
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    await this.embeddingService.reembed(id, null);
+
+    return {
+      id: org.id,
+      name: org.name,
+      embeddingModel: org.embedding_model,
       createdAt: org.created_at,
       updatedAt: org.updated_at,
     };
@@ -0,0 +1,135 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+
+import { type DbId, packId } from '@grabdy/common';
+import { sql } from 'kysely';
+
+import { THREAD_TITLE_MAX_LENGTH } from '../../config/constants';
+import { DbService } from '../../db/db.module';
+import { AgentMemoryService } from '../agent/services/memory.service';
+
+import { RetrievalService } from './retrieval.service';
+
+function toPublicConversation(thread: {
+  id: DbId<'ChatThread'>;
+  title: string | null;
+  collection_id: DbId<'Collection'> | null;
+  created_at: Date;
+  updated_at: Date;
+}) {
+  return {
+    id: thread.id,
+    title: thread.title,
+    collectionId: thread.collection_id,
+    createdAt: new Date(thread.created_at).toISOString(),
+    updatedAt: new Date(thread.updated_at).toISOString(),
+  };
+}
+
+/**
+ * Multi-turn conversations for the public API. Conversations are regular
+ * chat threads owned by an API key instead of an org membership, so they
+ * never show up in members' chat lists but share the web chat's memory.
+ */
+@Injectable()
+export class ConversationsService {
+  constructor(
+    private db: DbService,
+    private agentMemory: AgentMemoryService,
+    private retrievalService: RetrievalService
+  ) {}
+
+  async create(
+    orgId: DbId<'Org'>,
+    apiKeyId: DbId<'ApiKey'>,
+    options: { title?: string; collectionId?: DbId<'Collection'> }
+  ) {
+    const thread = await this.db.kysely
+      .insertInto('data.chat_threads')
+      .values({
+        id: packId('ChatThread', orgId),
+        title: options.title ?? null,
+        collection_id: options.collectionId ?? null,
+        org_id: orgId,
+        membership_id: null,
+        api_key_id: apiKeyId,
+        updated_at: new Date(),
+      })
+      .returningAll()
+      .executeTakeFirstOrThrow();
+
+    return toPublicConversation(thread);
+  }
+
+  async get(orgId: DbId<'Org'>, threadId: DbId<'ChatThread'>) {
+    const thread = await this.findConversation(orgId, threadId);
+    const messages = await this.agentMemory.getHistory(thread.id);
+
+    return {
+      ...toPublicConversation(thread),
+      messages: messages.map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        createdAt: m.createdAt ? m.createdAt.toISOString() : new Date().toISOString(),
+      })),
+    };
+  }
+
+  async sendMessage(
+    orgId: DbId<'Org'>,
+    threadId: DbId<'ChatThread'>,
+    message: string,
+    options: { topK?: number }
+  ) {
+    const thread = await this.findConversation(orgId, threadId);
+    if (!thread.api_key_id) throw new NotFoundException('Conversation not found');
+
+    await this.db.kysely
+      .updateTable('data.chat_threads')
+      .set({
+        title: sql`COALESCE(title, ${message.slice(0, THREAD_TITLE_MAX_LENGTH)})`,
+        updated_at: new Date(),
+      })
+      .where('id', '=', thread.id)
+      .where('org_id', '=', orgId)
+      .execute();
+
+    const result = await this.retrievalService.publicQuery(orgId, message, {
+      collectionIds: thread.collection_id ? [thread.collection_id] : undefined,
+      topK: options.topK,
+      conversation: { threadId: thread.id, apiKeyId: thread.api_key_id },
+    });
+
+    return { conversationId: thread.id, ...result };
+  }
+
+  async delete(orgId: DbId<'Org'>, threadId: DbId<'ChatThread'>): Promise<void> {
+    const result = await this.db.kysely
+      .deleteFrom('data.chat_threads')
+      .where('id', '=', threadId)
+      .where('org_id', '=', orgId)
+      .where('api_key_id', 'is not', null)
+      .executeTakeFirst();
+
+    if (result.numDeletedRows === 0n) {
+      throw new NotFoundException('Conversation not found');
+    }
+  }
+
+  /** Only API-owned threads are reachable through the public API. */
+  private async findConversation(orgId: DbId<'Org'>, threadId: DbId<'ChatThread'>) {
+    const thread = await this.db.kysely
+      .selectFrom('data.chat_threads')
+      .select(['id', 'title', 'collection_id', 'api_key_id', 'created_at', 'updated_at'])
+      .where('id', '=', threadId)
+      .where('org_id', '=', orgId)
+      .where('api_key_id', 'is not', null)
+      .executeTakeFirst();
+
+    if (!thread) {
+      throw new NotFoundException('Conversation not found');
+    }
+
+    return thread;
+  }
+}
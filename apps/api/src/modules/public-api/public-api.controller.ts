@@ -1,13 +1,38 @@
-import { Controller, Req, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Logger,
+  NotFoundException,
+  Post,
+  Req,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 
-import { type DbId, extractOrgNumericId, idBelongsToOrg } from '@grabdy/common';
-import { publicApiContract } from '@grabdy/contracts';
+import { type DbId, dbIdSchema, extractOrgNumericId, idBelongsToOrg } from '@grabdy/common';
+import type {
+  ContentLanguage,
+  DataSourceMetadata,
+  DataSourceStatus,
+  DataSourceType,
+  MetadataFilter,
+  QueryStreamEvent,
+} from '@grabdy/contracts';
+import { parseDataSourceMetadataJson, publicApiContract, queryBodySchema } from '@grabdy/contracts';
 import { TsRestHandler, tsRestHandler } from '@ts-rest/nest';
-import { Request } from 'express';
+import { Request, Response } from 'express';
 
 import { Public } from '../../common/decorators/public.decorator';
 import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { MAX_FILE_SIZE_BYTES } from '../../config/constants';
 import { CollectionsService } from '../collections/collections.service';
+import { DataSourcesService } from '../data-sources/data-sources.service';
+import type { SearchScope } from '../retrieval/search.service';
+
+import { ConversationsService } from './conversations.service';
 import { RetrievalService } from './retrieval.service';
 
 function apiError(code: string, message: string) {
@@ -23,6 +48,73 @@ function ensureCollectionsBelongToOrg(ids: DbId<'Collection'>[], orgId: DbId<'Or
   }
 }
 
+function toSearchScope(
+  body: {
+    filters?: MetadataFilter[];
+    dataSourceIds?: DbId<'DataSource'>[];
+    dateRange?: { from?: string; to?: string };
+    language?: ContentLanguage;
+  },
+  orgId: DbId<'Org'>
+): SearchScope {
+  const orgNumericId = extractOrgNumericId(orgId);
+  for (const id of body.dataSourceIds ?? []) {
+    if (!idBelongsToOrg(id, orgNumericId)) {
+      throw new Error('Invalid data source ID');
+    }
+  }
+
+  return {
+    filters: body.filters,
+    dataSourceIds: body.dataSourceIds,
+    dateRange: body.dateRange && {
+      from: body.dateRange.from ? new Date(body.dateRange.from) : undefined,
+      to: body.dateRange.to ? new Date(body.dateRange.to) : undefined,
+    },
+    language: body.language,
+  };
+}
+
+function toPublicDataSource(ds: {
+  id: DbId<'DataSource'>;
+  title: string;
+  mimeType: string;
+  fileSize: number;
+  type: DataSourceType;
+  status: DataSourceStatus;
+  pageCount: number | null;
+  collectionId: DbId<'Collection'> | null;
+  externalId: string | null;
+  metadata: DataSourceMetadata;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: ds.id,
+    name: ds.title,
+    mimeType: ds.mimeType,
+    fileSize: ds.fileSize,
+    type: ds.type,
+    status: ds.status,
+    pageCount: ds.pageCount,
+    collectionId: ds.collectionId,
+    externalId: ds.externalId,
+    metadata: ds.metadata,
+    createdAt: ds.createdAt.toISOString(),
+    updatedAt: ds.updatedAt.toISOString(),
+  };
+}
+
+/** Multipart form fields may arrive JSON-encoded (double-quoted strings). */
+function stripQuotes(value: string | undefined): string | undefined {
+  return value ? value.replace(/^"|"$/g, '') : undefined;
+}
+
+/** One SSE message per event, named after the event type. */
+function writeSseEvent(res: Response, event: QueryStreamEvent) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
 // ApiKeyGuard guarantees request.apiKey is set before any handler runs.
 // Helper to access it without redundant null checks.
 function getApiKeyContext(req: Request) {
@@ -35,9 +127,13 @@ function getApiKeyContext(req: Request) {
 @Public()
 @UseGuards(ApiKeyGuard)
 export class PublicApiController {
+  private readonly logger = new Logger(PublicApiController.name);
+
   constructor(
     private retrievalService: RetrievalService,
-    private collectionsService: CollectionsService
+    private collectionsService: CollectionsService,
+    private conversationsService: ConversationsService,
+    private dataSourcesService: DataSourcesService
   ) {}
 
   @TsRestHandler(publicApiContract.search)
@@ -49,6 +145,7 @@ export class PublicApiController {
         if (body.collectionIds) ensureCollectionsBelongToOrg(body.collectionIds, ctx.orgId);
 
         const { results, queryTimeMs } = await this.retrievalService.query(ctx.orgId, body.query, {
+          ...toSearchScope(body, ctx.orgId),
           collectionIds: body.collectionIds,
           limit: body.topK,
           rerank: body.rerank ?? false,
@@ -66,6 +163,7 @@ export class PublicApiController {
                 score: r.score,
                 dataSource: { id: r.dataSourceId, name: r.dataSourceName },
                 metadata: r.metadata,
+                customMetadata: r.customMetadata,
               })),
               queryTimeMs,
             },
@@ -91,6 +189,7 @@ export class PublicApiController {
         const result = await this.retrievalService.publicQuery(ctx.orgId, body.query, {
           collectionIds: body.collectionIds,
           topK: body.topK,
+          scope: toSearchScope(body, ctx.orgId),
         });
         // Note: rerank for /v1/query happens inside the agent via RagSearchTool (rerank: true by default)
 
@@ -107,6 +206,71 @@ export class PublicApiController {
     });
   }
 
+  /**
+   * Streaming variant of /v1/query as Server-Sent Events.
+   * Raw Express handler since ts-rest doesn't support streaming.
+   */
+  @Post('/v1/query/stream')
+  async streamQuery(@Req() req: Request, @Body() rawBody: unknown, @Res() res: Response) {
+    const ctx = getApiKeyContext(req);
+
+    const parsed = queryBodySchema.safeParse(rawBody);
+    if (!parsed.success) {
+      res.status(400).json(apiError('INVALID_REQUEST', parsed.error.message));
+      return;
+    }
+    const body = parsed.data;
+
+    let scope: SearchScope;
+    try {
+      if (body.collectionIds) ensureCollectionsBelongToOrg(body.collectionIds, ctx.orgId);
+      scope = toSearchScope(body, ctx.orgId);
+    } catch (error) {
+      res
+        .status(400)
+        .json(apiError('QUERY_FAILED', error instanceof Error ? error.message : 'Query failed'));
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // Stop pulling from the agent once the client goes away
+    let clientClosed = false;
+    res.on('close', () => {
+      clientClosed = true;
+    });
+
+    try {
+      const events = this.retrievalService.streamPublicQuery(ctx.orgId, body.query, {
+        collectionIds: body.collectionIds,
+        topK: body.topK,
+        scope,
+      });
+
+      for await (const event of events) {
+        if (clientClosed) break;
+        writeSseEvent(res, event);
+      }
+    } catch (error) {
+      this.logger.error(`Query stream failed: ${error instanceof Error ? error.message : error}`);
+      if (!clientClosed) {
+        writeSseEvent(res, {
+          type: 'error',
+          error: {
+            code: 'QUERY_FAILED',
+            message: error instanceof Error ? error.message : 'Query failed',
+          },
+        });
+      }
+    }
+
+    res.end();
+  }
+
   @TsRestHandler(publicApiContract.listCollections)
   async listCollections(@Req() req: Request) {
     return tsRestHandler(publicApiContract.listCollections, async () => {
@@ -140,4 +304,332 @@ export class PublicApiController {
       }
     });
   }
+
+  @TsRestHandler(publicApiContract.uploadDataSource)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_FILE_SIZE_BYTES } }))
+  async uploadDataSource(@Req() req: Request, @UploadedFile() file: Express.Multer.File) {
+    return tsRestHandler(publicApiContract.uploadDataSource, async ({ body }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        if (!file) {
+          return {
+            status: 400 as const,
+            body: apiError('NO_FILE', 'No file uploaded. Send it as the "file" multipart field.'),
+          };
+        }
+
+        const rawCollectionId = stripQuotes(body.collectionId);
+        const collectionId = rawCollectionId
+          ? dbIdSchema('Collection').parse(rawCollectionId)
+          : undefined;
+        if (collectionId) ensureCollectionsBelongToOrg([collectionId], ctx.orgId);
+
+        const dataSource = await this.dataSourcesService.upload(ctx.orgId, null, file, {
+          name: stripQuotes(body.name),
+          collectionId,
+          metadata: body.metadata ? parseDataSourceMetadataJson(body.metadata) : undefined,
+        });
+
+        return {
+          status: 200 as const,
+          body: { success: true as const, data: toPublicDataSource(dataSource) },
+        };
+      } catch (error) {
+        return {
+          status: 400 as const,
+          body: apiError('UPLOAD_FAILED', error instanceof Error ? error.message : 'Upload failed'),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.listDataSources)
+  async listDataSources(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.listDataSources, async ({ query }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        if (query.collectionId) ensureCollectionsBelongToOrg([query.collectionId], ctx.orgId);
+
+        const { items, total } = await this.dataSourcesService.listPage(ctx.orgId, {
+          collectionId: query.collectionId,
+          status: query.status,
+          page: query.page,
+          limit: query.limit,
+        });
+
+        return {
+          status: 200 as const,
+          body: {
+            success: true as const,
+            data: {
+              items: items.map(toPublicDataSource),
+              total,
+              page: query.page,
+              limit: query.limit,
+            },
+          },
+        };
+      } catch (error) {
+        return {
+          status: 400 as const,
+          body: apiError(
+            'LIST_FAILED',
+            error instanceof Error ? error.message : 'Failed to list data sources'
+          ),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.getDataSource)
+  async getDataSource(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.getDataSource, async ({ params }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        const dataSource = await this.dataSourcesService.findById(ctx.orgId, params.id);
+        return {
+          status: 200 as const,
+          body: { success: true as const, data: toPublicDataSource(dataSource) },
+        };
+      } catch {
+        return {
+          status: 404 as const,
+          body: apiError('NOT_FOUND', 'Data source not found'),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.deleteDataSource)
+  async deleteDataSource(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.deleteDataSource, async ({ params }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        await this.dataSourcesService.delete(ctx.orgId, params.id);
+        return {
+          status: 200 as const,
+          body: { success: true as const },
+        };
+      } catch {
+        return {
+          status: 404 as const,
+          body: apiError('NOT_FOUND', 'Data source not found'),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.reprocessDataSource)
+  async reprocessDataSource(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.reprocessDataSource, async ({ params }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        const dataSource = await this.dataSourcesService.reprocess(ctx.orgId, params.id);
+        return {
+          status: 200 as const,
+          body: { success: true as const, data: toPublicDataSource(dataSource) },
+        };
+      } catch (error) {
+        if (error instanceof NotFoundException) {
+          return {
+            status: 404 as const,
+            body: apiError('NOT_FOUND', 'Data source not found'),
+          };
+        }
+        return {
+          status: 400 as const,
+          body: apiError(
+            'REPROCESS_FAILED',
+            error instanceof Error ? error.message : 'Failed to reprocess data source'
+          ),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.updateDataSourceMetadata)
+  async updateDataSourceMetadata(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.updateDataSourceMetadata, async ({ params, body }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        const dataSource = await this.dataSourcesService.updateMetadata(
+          ctx.orgId,
+          params.id,
+          body.metadata
+        );
+        return {
+          status: 200 as const,
+          body: { success: true as const, data: toPublicDataSource(dataSource) },
+        };
+      } catch (error) {
+        if (error instanceof NotFoundException) {
+          return {
+            status: 404 as const,
+            body: apiError('NOT_FOUND', 'Data source not found'),
+          };
+        }
+        return {
+          status: 400 as const,
+          body: apiError(
+            'UPDATE_FAILED',
+            error instanceof Error ? error.message : 'Failed to update data source metadata'
+          ),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.upsertDocument)
+  async upsertDocument(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.upsertDocument, async ({ body }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        if (body.collectionId) ensureCollectionsBelongToOrg([body.collectionId], ctx.orgId);
+
+        const { dataSource, created } = await this.dataSourcesService.upsertDocument(
+          ctx.orgId,
+          body
+        );
+
+        return {
+          status: created ? (201 as const) : (200 as const),
+          body: { success: true as const, data: toPublicDataSource(dataSource) },
+        };
+      } catch (error) {
+        return {
+          status: 400 as const,
+          body: apiError(
+            'INGEST_FAILED',
+            error instanceof Error ? error.message : 'Failed to ingest document'
+          ),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.deleteDocument)
+  async deleteDocument(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.deleteDocument, async ({ params }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        await this.dataSourcesService.deleteDocument(ctx.orgId, params.externalId);
+        return {
+          status: 200 as const,
+          body: { success: true as const },
+        };
+      } catch {
+        return {
+          status: 404 as const,
+          body: apiError('NOT_FOUND', 'Document not found'),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.createConversation)
+  async createConversation(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.createConversation, async ({ body }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        if (body.collectionId) ensureCollectionsBelongToOrg([body.collectionId], ctx.orgId);
+
+        const conversation = await this.conversationsService.create(ctx.orgId, ctx.apiKeyId, {
+          title: body.title,
+          collectionId: body.collectionId,
+        });
+        return {
+          status: 201 as const,
+          body: { success: true as const, data: conversation },
+        };
+      } catch (error) {
+        return {
+          status: 400 as const,
+          body: apiError(
+            'CREATE_FAILED',
+            error instanceof Error ? error.message : 'Failed to create conversation'
+          ),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.getConversation)
+  async getConversation(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.getConversation, async ({ params }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        const conversation = await this.conversationsService.get(ctx.orgId, params.id);
+        return {
+          status: 200 as const,
+          body: { success: true as const, data: conversation },
+        };
+      } catch {
+        return {
+          status: 404 as const,
+          body: apiError('NOT_FOUND', 'Conversation not found'),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.sendConversationMessage)
+  async sendConversationMessage(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.sendConversationMessage, async ({ params, body }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        const result = await this.conversationsService.sendMessage(
+          ctx.orgId,
+          params.id,
+          body.message,
+          { topK: body.topK }
+        );
+        return {
+          status: 200 as const,
+          body: { success: true as const, data: result },
+        };
+      } catch (error) {
+        if (error instanceof NotFoundException) {
+          return {
+            status: 404 as const,
+            body: apiError('NOT_FOUND', 'Conversation not found'),
+          };
+        }
+        return {
+          status: 400 as const,
+          body: apiError('QUERY_FAILED', error instanceof Error ? error.message : 'Query failed'),
+        };
+      }
+    });
+  }
+
+  @TsRestHandler(publicApiContract.deleteConversation)
+  async deleteConversation(@Req() req: Request) {
+    return tsRestHandler(publicApiContract.deleteConversation, async ({ params }) => {
+      const ctx = getApiKeyContext(req);
+
+      try {
+        await this.conversationsService.delete(ctx.orgId, params.id);
+        return {
+          status: 200 as const,
+          body: { success: true as const },
+        };
+      } catch {
+        return {
+          status: 404 as const,
+          body: apiError('NOT_FOUND', 'Conversation not found'),
+        };
+      }
+    });
+  }
 }
@@ -1,14 +1,16 @@
 import { Module } from '@nestjs/common';
 
 import { CollectionsModule } from '../collections/collections.module';
+import { DataSourcesModule } from '../data-sources/data-sources.module';
 
+import { ConversationsService } from './conversations.service';
 import { PublicApiController } from './public-api.controller';
 import { RetrievalService } from './retrieval.service';
 
 @Module({
-  imports: [CollectionsModule],
+  imports: [CollectionsModule, DataSourcesModule],
   controllers: [PublicApiController],
-  providers: [RetrievalService],
+  providers: [RetrievalService, ConversationsService],
   exports: [RetrievalService],
 })
 export class PublicApiModule {}
@@ -6,13 +6,15 @@ import {
   AiCallerType,
   CHAT_MODEL,
   type ChunkMeta,
-  type MetadataFilter,
+  type DataSourceMetadata,
+  type QueryStreamEvent,
 } from '@grabdy/contracts';
-import { chunkMetaSchema } from '@grabdy/contracts';
+import { chunkMetaSchema, dataSourceMetadataSchema } from '@grabdy/contracts';
 import { z } from 'zod';
 
 import { AgentFactory } from '../agent/services/agent.factory';
-import type { SearchResult } from '../retrieval/search.service';
+import { AgentMemoryService } from '../agent/services/memory.service';
+import type { SearchResult, SearchScope } from '../retrieval/search.service';
 import { SearchService } from '../retrieval/search.service';
 
 const ragResultItemSchema = z.object({
@@ -21,27 +23,58 @@ const ragResultItemSchema = z.object({
   content: z.string(),
   score: z.number(),
   metadata: chunkMetaSchema.optional(),
+  customMetadata: dataSourceMetadataSchema.optional(),
   sourceUrl: z.string().nullable().optional(),
 });
 
 const ragResultsSchema = z.object({ results: z.array(z.unknown()) });
 
+const ragSearchArgsSchema = z.object({ query: z.string() });
+
+export interface PublicSource {
+  content: string;
+  score: number;
+  dataSource: { id: string; name: string };
+  metadata: ChunkMeta | null;
+  customMetadata: DataSourceMetadata;
+}
+
+interface PublicQueryOptions {
+  collectionIds?: DbId<'Collection'>[];
+  topK?: number;
+  scope?: SearchScope;
+  /** Answer within a conversation thread so earlier turns are remembered. */
+  conversation?: { threadId: DbId<'ChatThread'>; apiKeyId: DbId<'ApiKey'> };
+}
+
+export interface PublicUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+function toPublicUsage(usage: { inputTokens?: number; outputTokens?: number }): PublicUsage {
+  const promptTokens = usage.inputTokens ?? 0;
+  const completionTokens = usage.outputTokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
 @Injectable()
 export class RetrievalService {
   private readonly logger = new Logger(RetrievalService.name);
 
   constructor(
     private searchService: SearchService,
-    private agentFactory: AgentFactory
+    private agentFactory: AgentFactory,
+    private agentMemory: AgentMemoryService
   ) {}
 
   async query(
     orgId: DbId<'Org'>,
     queryText: string,
-    options: {
+    options: SearchScope & {
       collectionIds?: DbId<'Collection'>[];
       limit?: number;
-      filters?: MetadataFilter[];
       rerank?: boolean;
       hyde?: boolean;
       expandContext?: boolean;
@@ -51,6 +84,9 @@ export class RetrievalService {
       collectionIds: options.collectionIds,
       limit: options.limit,
       filters: options.filters,
+      dataSourceIds: options.dataSourceIds,
+      dateRange: options.dateRange,
+      language: options.language,
       rerank: options.rerank,
       hyde: options.hyde,
       expandContext: options.expandContext,
@@ -62,71 +98,119 @@ export class RetrievalService {
   async publicQuery(
     orgId: DbId<'Org'>,
     queryText: string,
-    options: { collectionIds?: DbId<'Collection'>[]; topK?: number }
+    options: PublicQueryOptions
   ): Promise<{
     answer: string;
-    sources: Array<{
-      content: string;
-      score: number;
-      dataSource: { id: string; name: string };
-      metadata: ChunkMeta | null;
-    }>;
+    sources: PublicSource[];
     model: string;
-    usage: { promptTokens: number; completionTokens: number; totalTokens: number };
+    usage: PublicUsage;
   }> {
-    const agent = this.agentFactory.createDataAgent({
-      orgId,
-      source: 'API',
-      collectionIds: options.collectionIds,
-      callerType: AiCallerType.API_KEY,
-      defaultTopK: options.topK,
-    });
-
-    const result = await agent.generate(queryText);
+    const agent = this.createQueryAgent(orgId, options);
+    const result = await agent.generate(
+      queryText,
+      options.conversation?.threadId,
+      options.conversation?.apiKeyId
+    );
 
     // Extract sources from rag-search tool results across all steps
-    const sources: Array<{
-      content: string;
-      score: number;
-      dataSource: { id: string; name: string };
-      metadata: ChunkMeta | null;
-    }> = [];
-
+    const sources: PublicSource[] = [];
     for (const step of result.steps) {
       for (const tr of step.toolResults) {
-        if (tr.payload.toolName !== 'rag-search') continue;
-        const parsed = ragResultsSchema.safeParse(tr.payload.result);
-        if (!parsed.success) {
-          this.logger.warn(`Failed to parse rag-search result: ${parsed.error.message}`);
-          continue;
-        }
-
-        for (const rawItem of parsed.data.results) {
-          const item = ragResultItemSchema.safeParse(rawItem);
-          if (!item.success) continue;
-          sources.push({
-            content: item.data.content,
-            score: item.data.score,
-            dataSource: { id: item.data.dataSourceId, name: item.data.dataSourceName },
-            metadata: item.data.metadata ?? null,
-          });
-        }
+        sources.push(...this.parseRagSources(tr.payload.toolName, tr.payload.result));
       }
     }
 
-    const totalUsage = result.totalUsage;
-    const promptTokens = totalUsage.inputTokens ?? 0;
-    const completionTokens = totalUsage.outputTokens ?? 0;
-
     return {
       answer: result.text,
       sources,
       model: CHAT_MODEL,
-      usage: {
-        promptTokens,
-        completionTokens,
-        totalTokens: promptTokens + completionTokens,
-      },
+      usage: toPublicUsage(result.totalUsage),
+    };
+  }
+
+  /**
+   * Streaming variant of `publicQuery`, driven by the same agent stream as the
+   * web chat. Yields search progress, reasoning and answer deltas as they
+   * arrive, then a final `done` event with sources and token usage.
+   */
+  async *streamPublicQuery(
+    orgId: DbId<'Org'>,
+    queryText: string,
+    options: PublicQueryOptions
+  ): AsyncGenerator<QueryStreamEvent> {
+    const agent = this.createQueryAgent(orgId, options);
+    const streamResult = await agent.stream(queryText);
+
+    const sources: PublicSource[] = [];
+    const searchQueries = new Map<string, string>();
+
+    for await (const part of streamResult.fullStream) {
+      if (part.type === 'text-delta') {
+        yield { type: 'text', text: part.payload.text };
+      } else if (part.type === 'reasoning-delta') {
+        yield { type: 'thinking', text: part.payload.text };
+      } else if (part.type === 'tool-call') {
+        if (part.payload.toolName !== 'rag-search') continue;
+        const args = ragSearchArgsSchema.safeParse(part.payload.args);
+        const query = args.success ? args.data.query : queryText;
+        searchQueries.set(part.payload.toolCallId, query);
+        yield { type: 'progress', stage: 'searching', query };
+      } else if (part.type === 'tool-result') {
+        if (part.payload.toolName !== 'rag-search') continue;
+        const found = this.parseRagSources(part.payload.toolName, part.payload.result);
+        sources.push(...found);
+        yield {
+          type: 'progress',
+          stage: 'retrieved',
+          query: searchQueries.get(part.payload.toolCallId) ?? queryText,
+          resultCount: found.length,
+        };
+      } else if (part.type === 'error') {
+        throw part.payload instanceof Error ? part.payload : new Error('Query stream failed');
+      }
+    }
+
+    yield {
+      type: 'done',
+      sources,
+      model: CHAT_MODEL,
+      usage: toPublicUsage(await streamResult.totalUsage),
     };
   }
+
+  private createQueryAgent(orgId: DbId<'Org'>, options: PublicQueryOptions) {
+    return this.agentFactory.createDataAgent({
+      orgId,
+      source: 'API',
+      collectionIds: options.collectionIds,
+      callerType: AiCallerType.API_KEY,
+      defaultTopK: options.topK,
+      searchScope: options.scope,
+      memory: options.conversation ? this.agentMemory.getMemory() : undefined,
+    });
+  }
+
+  private parseRagSources(toolName: string, result: unknown): PublicSource[] {
+    if (toolName !== 'rag-search') return [];
+
+    const parsed = ragResultsSchema.safeParse(result);
+    if (!parsed.success) {
+      this.logger.warn(`Failed to parse rag-search result: ${parsed.error.message}`);
+      return [];
+    }
+
+    const sources: PublicSource[] = [];
+    for (const rawItem of parsed.data.results) {
+      const item = ragResultItemSchema.safeParse(rawItem);
+      if (!item.success) continue;
+      sources.push({
+        content: item.data.content,
+        score: item.data.score,
+        dataSource: { id: item.data.dataSourceId, name: item.data.dataSourceName },
+        metadata: item.data.metadata ?? null,
+        customMetadata: item.data.customMetadata ?? {},
+      });
+    }
+    return sources;
+  }
 }
@@ -0,0 +1,57 @@
+import { ContentLanguage } from '@grabdy/contracts';
+
+import {
+  LANGUAGE_DETECTION_MIN_MATCHES,
+  LANGUAGE_DETECTION_SAMPLE_CHARS,
+} from '../../config/constants';
+
+/**
+ * Common function words of each language. They make up a large share of any
+ * running text, so counting them tells languages apart without a model.
+ */
+const STOPWORDS: Record<ContentLanguage, string> = {
+  en: 'the and of to is that it for with was are this be have not you from they we which would there been has were what when an our will',
+  de: 'der die das und ist nicht ein eine ich zu den mit sich des auf für dem im auch es wir werden wird sind oder aber nach bei wie noch kann über',
+  fr: 'le la les et des est une du que pour dans pas sur qui au avec ce sont nous vous il elle mais ou plus aux être cette très',
+  es: 'el los las del que y en es por una con para no se lo como más pero sus su está son también fue muy hay este esta',
+  it: 'il di che è non per una sono della con gli del alla anche come più nel questo ma ha le dei delle essere molto ci sul loro',
+  pt: 'o os as do da dos das não uma em que com para por é mais mas ao pelo pela também são está isso você nós foi muito seu sua',
+  nl: 'de het een en van is dat niet op te zijn met voor ook maar er aan bij wordt hij wij ze naar dit deze nog kan worden hebben heeft',
+  sv: 'och att det som är inte på för med en ett av till den har jag vi om men också från var kan eller så sig hade skulle detta när',
+  da: 'og at det som er ikke på for med en et af til den har jeg vi om men også fra var kan eller så sig havde skulle hvad når meget',
+  no: 'og at det som er ikke på for med en et av til den har jeg vi om men også fra var kan eller så seg hadde skulle hva når mye',
+  fi: 'ja on ei se että oli hän ovat mutta tai kun niin myös joka kuin tämä mitä ole olla vain jo sitä nyt sen jos voi',
+  ru: 'и в не на что с по это как а к но из у за для он она мы вы они так же был от или бы все',
+};
+
+const LANGUAGES_BY_WORD = new Map<string, ContentLanguage[]>();
+for (const language of Object.values(ContentLanguage)) {
+  for (const word of STOPWORDS[language].split(' ')) {
+    LANGUAGES_BY_WORD.set(word, [...(LANGUAGES_BY_WORD.get(word) ?? []), language]);
+  }
+}
+
+/**
+ * Detect the language of `text` by counting stopwords of each language. Returns
+ * null when fewer than `minMatches` are found or two languages tie, e.g. for
+ * code, tables of numbers or very short text.
+ */
+export function detectLanguage(
+  text: string,
+  minMatches = LANGUAGE_DETECTION_MIN_MATCHES
+): ContentLanguage | null {
+  const counts = new Map<ContentLanguage, number>();
+  const words = text
+    .slice(0, LANGUAGE_DETECTION_SAMPLE_CHARS)
+    .toLowerCase()
+    .match(/\p{L}+/gu);
+  for (const word of words ?? []) {
+    for (const language of LANGUAGES_BY_WORD.get(word) ?? []) {
+      counts.set(language, (counts.get(language) ?? 0) + 1);
+    }
+  }
+
+  const [best, second] = [...counts].sort(([, a], [, b]) => b - a);
+  if (!best || best[1] < minMatches || (second && second[1] === best[1])) return null;
+  return best[0];
+}
@@ -0,0 +1,151 @@
+import {
+  CHUNK_META_FIELDS,
+  customMetadataKey,
+  type MetadataCondition,
+  type MetadataFilter,
+  type MetadataFilterOperator,
+} from '@grabdy/contracts';
+import { type RawBuilder, sql } from 'kysely';
+
+/** Slack chunks indexed before `slackAuthors` stored a single `slackAuthor` string. */
+const LEGACY_SCALAR_FIELDS: Record<string, string> = { slackAuthors: 'slackAuthor' };
+
+type ComparisonOperator = Exclude<MetadataFilterOperator, 'neq' | 'exists'>;
+
+function compare(
+  operand: RawBuilder<unknown>,
+  operator: ComparisonOperator,
+  value: MetadataCondition['value']
+): RawBuilder<boolean> {
+  switch (operator) {
+    case 'eq':
+      return sql<boolean>`${operand} = ${value}`;
+    case 'in': {
+      const values = Array.isArray(value) ? value : [value];
+      return sql<boolean>`${operand} IN (${sql.join(values.map((v) => sql`${v}`))})`;
+    }
+    case 'gt':
+      return sql<boolean>`${operand} > ${value}`;
+    case 'lt':
+      return sql<boolean>`${operand} < ${value}`;
+    case 'contains':
+      return sql<boolean>`strpos(lower(${operand}), lower(${value})) > 0`;
+    default: {
+      const exhaustive: never = operator;
+      throw new Error(`Unhandled metadata filter operator: ${exhaustive}`);
+    }
+  }
+}
+
+/**
+ * Compile a condition on a `custom.<key>` field. Keys are user-supplied, so they are
+ * bound as parameters; equality goes through `@>` so it can use the GIN index.
+ */
+function compileCustomCondition(key: string, condition: MetadataCondition): RawBuilder<boolean> {
+  const json = sql`data.chunks.custom_metadata->${key}::text`;
+  const containsValue = (v: unknown) =>
+    sql<boolean>`data.chunks.custom_metadata @> ${JSON.stringify({ [key]: v })}::jsonb`;
+
+  switch (condition.operator) {
+    case 'exists': {
+      const present = sql<boolean>`${json} IS NOT NULL`;
+      return condition.value === false ? sql<boolean>`NOT (${present})` : present;
+    }
+    case 'eq':
+      return containsValue(condition.value);
+    case 'neq':
+      return sql<boolean>`NOT (${containsValue(condition.value)})`;
+    case 'in': {
+      const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+      return sql<boolean>`(${sql.join(values.map(containsValue), sql` OR `)})`;
+    }
+    case 'gt':
+    case 'lt': {
+      const operand =
+        typeof condition.value === 'number'
+          ? sql`(CASE WHEN jsonb_typeof(${json}) = 'number' THEN (${json})::numeric END)`
+          : sql`(CASE WHEN jsonb_typeof(${json}) = 'string' THEN ${json} #>> '{}' END)`;
+      return compare(operand, condition.operator, condition.value);
+    }
+    case 'contains':
+      return compare(sql`${json} #>> '{}'`, 'contains', condition.value);
+    default: {
+      const exhaustive: never = condition.operator;
+      throw new Error(`Unhandled metadata filter operator: ${exhaustive}`);
+    }
+  }
+}
+
+/**
+ * Compile a single field condition. The result may be NULL when the field is
+ * missing, which WHERE treats as no match; negations use `IS NOT TRUE` so
+ * chunks without the field are included.
+ */
+function compileCondition(condition: MetadataCondition): RawBuilder<boolean> {
+  const customKey = customMetadataKey(condition.field);
+  if (customKey !== null) return compileCustomCondition(customKey, condition);
+
+  const spec = CHUNK_META_FIELDS[condition.field];
+  if (!spec) throw new Error(`Unknown metadata field: ${condition.field}`);
+
+  // Field names are whitelisted by CHUNK_META_FIELDS, so inlining them is safe —
+  // and keeps `metadata->>'type'` matching the expression index on chunks.
+  const key = sql.lit(condition.field);
+  const json = sql`data.chunks.metadata->${key}`;
+
+  if (condition.operator === 'exists') {
+    const present = sql<boolean>`COALESCE(jsonb_typeof(${json}), 'null') <> 'null'`;
+    return condition.value === false ? sql<boolean>`NOT (${present})` : present;
+  }
+
+  const operator = condition.operator === 'neq' ? 'eq' : condition.operator;
+  let match: RawBuilder<boolean>;
+
+  if (spec.array) {
+    // Lists match when any element satisfies the condition; `contains` means membership.
+    const elementOperator = operator === 'contains' ? 'eq' : operator;
+    const element = spec.kind === 'number' ? sql`el.value::numeric` : sql`el.value`;
+    match = sql<boolean>`EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(${json}) = 'array' THEN ${json} ELSE '[]'::jsonb END
+      ) AS el(value)
+      WHERE ${compare(element, elementOperator, condition.value)}
+    )`;
+
+    const legacyField = LEGACY_SCALAR_FIELDS[condition.field];
+    if (legacyField) {
+      const legacy = sql`data.chunks.metadata->>${sql.lit(legacyField)}`;
+      match = sql<boolean>`(${match} OR ${compare(legacy, elementOperator, condition.value)})`;
+    }
+  } else {
+    const operand =
+      spec.kind === 'number'
+        ? sql`(CASE WHEN jsonb_typeof(${json}) = 'number' THEN (${json})::numeric END)`
+        : sql`data.chunks.metadata->>${key}`;
+    match = compare(operand, operator, condition.value);
+  }
+
+  return condition.operator === 'neq' ? sql<boolean>`(${match}) IS NOT TRUE` : match;
+}
+
+function compileFilter(filter: MetadataFilter): RawBuilder<boolean> {
+  if ('and' in filter) {
+    return sql<boolean>`(${sql.join(filter.and.map(compileFilter), sql` AND `)})`;
+  }
+  if ('or' in filter) {
+    return sql<boolean>`(${sql.join(filter.or.map(compileFilter), sql` OR `)})`;
+  }
+  if ('not' in filter) {
+    return sql<boolean>`(${compileFilter(filter.not)}) IS NOT TRUE`;
+  }
+  return compileCondition(filter);
+}
+
+/**
+ * Build raw SQL conditions from metadata filters (one per top-level filter, ANDed by the caller).
+ * Filters are validated by `metadataFilterSchema` before reaching here; values are always bound
+ * as parameters.
+ */
+export function buildMetadataConditions(filters: MetadataFilter[]): Array<RawBuilder<boolean>> {
+  return filters.map(compileFilter);
+}
@@ -4,10 +4,11 @@ import { bedrockProvider } from '../agent/providers/bedrock.provider';
 
 import { RerankService } from './rerank.service';
 import { SearchService } from './search.service';
+import { TableQueryService } from './table-query.service';
 
 @Global()
 @Module({
-  providers: [SearchService, RerankService, bedrockProvider],
-  exports: [SearchService, RerankService],
+  providers: [SearchService, RerankService, TableQueryService, bedrockProvider],
+  exports: [SearchService, RerankService, TableQueryService],
 })
 export class RetrievalModule {}
@@ -7,12 +7,13 @@ import {
   type AiRequestSource,
   AiRequestType,
   type ChunkMeta,
-  EMBEDDING_MODEL,
+  type ContentLanguage,
+  type DataSourceMetadata,
+  type EmbeddingModelId,
   HYDE_MODEL,
   type MetadataFilter,
 } from '@grabdy/contracts';
-import { embed, generateText } from 'ai';
-import type { RawBuilder } from 'kysely';
+import { generateText } from 'ai';
 import { sql } from 'kysely';
 
 import {
@@ -20,11 +21,15 @@ import {
   DEFAULT_SEARCH_LIMIT,
   HYDE_MAX_LENGTH,
   HYDE_TIMEOUT_MS,
+  QUERY_LANGUAGE_MIN_MATCHES,
 } from '../../config/constants';
 import { DbService } from '../../db/db.module';
 import { AiUsageService } from '../ai/ai-usage.service';
+import { EmbeddingService } from '../embeddings/embedding.service';
 
 import { reciprocalRankFusion } from './hybrid-search';
+import { detectLanguage } from './language-detection';
+import { buildMetadataConditions } from './metadata-filter';
 import { RerankService } from './rerank.service';
 
 export interface SearchResult {
@@ -32,6 +37,7 @@ export interface SearchResult {
   content: string;
   score: number;
   metadata: ChunkMeta | null;
+  customMetadata: DataSourceMetadata;
   dataSourceName: string;
   dataSourceId: DbId<'DataSource'>;
   sourceUrl: string | null;
@@ -40,10 +46,19 @@ export interface SearchResult {
   contextAfter?: string;
 }
 
-export interface SearchOptions {
+/** Narrows which chunks a search may return, on top of the org and collection scope. */
+export interface SearchScope {
+  filters?: MetadataFilter[];
+  dataSourceIds?: DbId<'DataSource'>[];
+  /** Bounds on when a chunk was indexed (inclusive). */
+  dateRange?: { from?: Date; to?: Date };
+  /** Only chunks detected as this language; full-text search also stems the query in it. */
+  language?: ContentLanguage;
+}
+
+export interface SearchOptions extends SearchScope {
   collectionIds?: DbId<'Collection'>[];
   limit?: number;
-  filters?: MetadataFilter[];
   callerType: AiCallerType;
   source: AiRequestSource;
   userId?: DbId<'User'> | null;
@@ -54,54 +69,6 @@ export interface SearchOptions {
 
 type NeighborKey = `${string}:${number}`;
 
-/**
- * Build raw SQL conditions from metadata filters.
- * All filter values are Zod-validated (enum or string) before reaching here.
- */
-function buildMetadataConditions(filters: MetadataFilter[]): Array<RawBuilder<boolean>> {
-  const conditions: Array<RawBuilder<boolean>> = [];
-
-  for (const filter of filters) {
-    switch (filter.field) {
-      case 'type': {
-        if (filter.operator === 'eq') {
-          conditions.push(sql<boolean>`data.chunks.metadata->>'type' = ${filter.value}`);
-        } else {
-          const values: string[] = Array.isArray(filter.value) ? filter.value : [filter.value];
-          conditions.push(
-            sql<boolean>`data.chunks.metadata->>'type' IN (${sql.join(values.map((v: string) => sql`${v}`))})`
-          );
-        }
-        break;
-      }
-      case 'slackChannelId':
-        conditions.push(sql<boolean>`data.chunks.metadata->>'slackChannelId' = ${filter.value}`);
-        break;
-      case 'slackAuthors':
-        // Handle both old format (slackAuthor string) and new format (slackAuthors array)
-        conditions.push(
-          sql<boolean>`(
-            data.chunks.metadata->'slackAuthors' @> ${sql`${JSON.stringify([filter.value])}::jsonb`}
-            OR data.chunks.metadata->>'slackAuthor' = ${filter.value}
-          )`
-        );
-        break;
-      case 'notionPageId':
-        conditions.push(sql<boolean>`data.chunks.metadata->>'notionPageId' = ${filter.value}`);
-        break;
-      case 'linearIssueId':
-        conditions.push(sql<boolean>`data.chunks.metadata->>'linearIssueId' = ${filter.value}`);
-        break;
-      default: {
-        const exhaustive: never = filter;
-        throw new Error(`Unhandled metadata filter field: ${JSON.stringify(exhaustive)}`);
-      }
-    }
-  }
-
-  return conditions;
-}
-
 @Injectable()
 export class SearchService {
   private readonly logger = new Logger(SearchService.name);
@@ -109,6 +76,7 @@ export class SearchService {
   constructor(
     private db: DbService,
     private aiUsageService: AiUsageService,
+    private embeddingService: EmbeddingService,
     private rerankService: RerankService
   ) {}
 
@@ -129,31 +97,18 @@ export class SearchService {
       }
     }
 
-    const { embedding, usage: embedUsage } = await embed({
-      model: openai.embedding('text-embedding-3-small'),
-      value: vectorQueryText,
-    });
-
-    // Log embedding usage (fire-and-forget)
-    this.aiUsageService
-      .logUsage(
-        EMBEDDING_MODEL,
-        embedUsage.tokens,
-        0,
-        options.callerType,
-        AiRequestType.EMBEDDING,
-        { orgId, userId: options.userId, source: options.source }
-      )
-      .catch((err) => this.logger.error(`Search embedding usage logging failed: ${err}`));
-
-    const embeddingStr = `[${embedding.join(',')}]`;
+    const { vector: embeddingStr, model: embeddingModel } = await this.embeddingService.embedQuery(
+      orgId,
+      vectorQueryText,
+      { callerType: options.callerType, source: options.source, userId: options.userId }
+    );
 
     // Over-fetch for RRF merging (and more for reranking)
     const fetchLimit = options.rerank ? limit * 3 : limit * 2;
 
     // Run vector + full-text + trigram search in parallel
     const searchResults = await Promise.all([
-      this.vectorSearch(orgId, embeddingStr, fetchLimit, options),
+      this.vectorSearch(orgId, embeddingStr, embeddingModel, fetchLimit, options),
       this.fullTextSearch(orgId, queryText, fetchLimit, options),
       this.trigramSearch(orgId, queryText, fetchLimit, options),
     ]);
@@ -265,17 +220,35 @@ export class SearchService {
         'data.chunks.id as chunk_id',
         'data.chunks.content',
         'data.chunks.metadata',
+        'data.chunks.custom_metadata',
         'data.chunks.source_url',
         'data.data_sources.title as data_source_name',
         'data.data_sources.id as data_source_id',
         'data.chunks.collection_id',
       ])
-      .where('data.chunks.org_id', '=', orgId);
+      .where('data.chunks.org_id', '=', orgId)
+      // Chunks staged by an in-flight reindex aren't live until they're swapped in
+      .where('data.chunks.staged', '=', false);
 
     if (options.collectionIds && options.collectionIds.length > 0) {
       query = query.where('data.chunks.collection_id', 'in', options.collectionIds);
     }
 
+    if (options.dataSourceIds && options.dataSourceIds.length > 0) {
+      query = query.where('data.chunks.data_source_id', 'in', options.dataSourceIds);
+    }
+
+    if (options.dateRange?.from) {
+      query = query.where('data.chunks.created_at', '>=', options.dateRange.from);
+    }
+    if (options.dateRange?.to) {
+      query = query.where('data.chunks.created_at', '<=', options.dateRange.to);
+    }
+
+    if (options.language) {
+      query = query.where(sql<string>`data.chunks.metadata->>'language'`, '=', options.language);
+    }
+
     if (options.filters && options.filters.length > 0) {
       for (const condition of buildMetadataConditions(options.filters)) {
         query = query.where(condition);
@@ -291,6 +264,7 @@ export class SearchService {
       content: string;
       score: number;
       metadata: ChunkMeta | null;
+      custom_metadata: DataSourceMetadata;
       data_source_name: string;
       data_source_id: DbId<'DataSource'>;
       source_url: string | null;
@@ -302,6 +276,7 @@ export class SearchService {
       content: r.content,
       score: Number(r.score),
       metadata: r.metadata,
+      customMetadata: r.custom_metadata,
       dataSourceName: r.data_source_name,
       dataSourceId: r.data_source_id,
       sourceUrl: r.source_url,
@@ -312,10 +287,13 @@ export class SearchService {
   private async vectorSearch(
     orgId: DbId<'Org'>,
     embeddingStr: string,
+    embeddingModel: EmbeddingModelId,
     limit: number,
     options: SearchOptions
   ): Promise<SearchResult[]> {
+    // Vectors from different models live in different spaces and can't be compared
     const results = await this.baseChunkQuery(orgId, options)
+      .where('data.chunks.embedding_model', '=', embeddingModel)
       .select(sql<number>`1 - (data.chunks.embedding <=> ${embeddingStr}::vector)`.as('score'))
       .orderBy(sql`data.chunks.embedding <=> ${embeddingStr}::vector`)
       .limit(limit)
@@ -330,17 +308,20 @@ export class SearchService {
     limit: number,
     options: SearchOptions
   ): Promise<SearchResult[]> {
+    // Stem the query the way chunks in its language were indexed. A query too
+    // short to tell also matches unstemmed through `simple`, so a wrong guess
+    // (or the English config of undetected queries) can't hide every match.
+    const language = options.language ?? detectLanguage(queryText, QUERY_LANGUAGE_MIN_MATCHES);
+    const guess = language ?? detectLanguage(queryText, 1);
+    const stemmed = sql`websearch_to_tsquery(data.text_search_config(${guess}), ${queryText})`;
+    const tsQuery = language
+      ? stemmed
+      : sql`(${stemmed} || websearch_to_tsquery('simple', ${queryText}))`;
+
     const results = await this.baseChunkQuery(orgId, options)
-      .select(
-        sql<number>`ts_rank_cd(data.chunks.tsv, websearch_to_tsquery('english', ${queryText}))`.as(
-          'score'
-        )
-      )
-      .where(sql<boolean>`data.chunks.tsv @@ websearch_to_tsquery('english', ${queryText})`)
-      .orderBy(
-        sql`ts_rank_cd(data.chunks.tsv, websearch_to_tsquery('english', ${queryText}))`,
-        'desc'
-      )
+      .select(sql<number>`ts_rank_cd(data.chunks.tsv, ${tsQuery})`.as('score'))
+      .where(sql<boolean>`data.chunks.tsv @@ ${tsQuery}`)
+      .orderBy(sql`ts_rank_cd(data.chunks.tsv, ${tsQuery})`, 'desc')
       .limit(limit)
       .execute();
 
@@ -422,6 +403,7 @@ export class SearchService {
       .selectFrom('data.chunks')
       .select(['data_source_id', 'chunk_index', 'content'])
       .where('org_id', '=', orgId)
+      .where('staged', '=', false)
       .where(
         sql<boolean>`(data.chunks.data_source_id, data.chunks.chunk_index) IN (VALUES ${sql.join(valuesRows)})`
       )
@@ -0,0 +1,359 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+
+import type { DbId } from '@grabdy/common';
+import { type Expression, type RawBuilder, sql, type SqlBool } from 'kysely';
+
+import {
+  TABLE_QUERY_CITED_ROWS,
+  TABLE_QUERY_MAX_RESULTS,
+  TABLE_QUERY_TIMEOUT_MS,
+} from '../../config/constants';
+import { DbService, escapeIlike } from '../../db/db.module';
+import {
+  type DataTableCell,
+  type DataTableColumn,
+  parseDate,
+  parseNumber,
+} from '../data-sources/tables/table-builder';
+
+export type TableFilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in';
+export type TableAggregateFn = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export interface TableFilter {
+  column: string;
+  operator: TableFilterOperator;
+  value: string | number | Array<string | number>;
+}
+
+export interface TableAggregate {
+  fn: TableAggregateFn;
+  /** Omitted for a plain row count. */
+  column?: string;
+}
+
+export interface TableQuery {
+  filters?: TableFilter[];
+  groupBy?: string[];
+  aggregates?: TableAggregate[];
+  /** A column name, an aggregate label such as `sum(Revenue)`, or `count`. */
+  sortBy?: string;
+  sortDirection?: 'asc' | 'desc';
+  limit?: number;
+}
+
+export interface TableScope {
+  collectionIds?: DbId<'Collection'>[];
+  dataSourceIds?: DbId<'DataSource'>[];
+}
+
+interface ResolvedColumn extends DataTableColumn {
+  index: number;
+}
+
+export interface TableInfo {
+  id: DbId<'DataTable'>;
+  dataSourceId: DbId<'DataSource'>;
+  dataSourceName: string;
+  sheet: string | null;
+  columns: DataTableColumn[];
+  rowCount: number;
+}
+
+function toTableInfo(table: {
+  id: DbId<'DataTable'>;
+  data_source_id: DbId<'DataSource'>;
+  title: string;
+  sheet: string | null;
+  columns: DataTableColumn[];
+  row_count: number;
+}): TableInfo {
+  return {
+    id: table.id,
+    dataSourceId: table.data_source_id,
+    dataSourceName: table.title,
+    sheet: table.sheet,
+    columns: table.columns,
+    rowCount: table.row_count,
+  };
+}
+
+/** The value of a cell, cast to its column type. Dates stay text so pg doesn't turn them into `Date`s. */
+function cellExpr(column: ResolvedColumn, forComparison = false): RawBuilder<unknown> {
+  const text = sql`(cells->>${sql.lit(column.index)})`;
+  if (column.type === 'number') return sql`${text}::numeric`;
+  if (column.type === 'date' && forComparison) return sql`${text}::date`;
+  return text;
+}
+
+function aggregateLabel(aggregate: TableAggregate, column: ResolvedColumn | null): string {
+  return column ? `${aggregate.fn}(${column.name})` : 'count';
+}
+
+/**
+ * Read-only aggregate queries over the typed tables parsed from CSV and
+ * spreadsheet uploads. Queries are built from a validated spec rather than SQL,
+ * so the caller (usually the agent) can only name columns that exist and every
+ * value is bound as a parameter.
+ */
+@Injectable()
+export class TableQueryService {
+  constructor(private db: DbService) {}
+
+  async listTables(orgId: DbId<'Org'>, scope: TableScope, search?: string): Promise<TableInfo[]> {
+    let query = this.tablesQuery(orgId, scope);
+    if (search?.trim()) {
+      const pattern = `%${escapeIlike(search.trim())}%`;
+      query = query.where((eb) =>
+        eb.or([
+          eb('data.data_sources.title', 'ilike', pattern),
+          eb('data.data_tables.sheet', 'ilike', pattern),
+          eb(sql<string>`data.data_tables.columns::text`, 'ilike', pattern),
+        ])
+      );
+    }
+
+    const tables = await query
+      .orderBy('data.data_sources.title')
+      .orderBy('data.data_tables.sheet')
+      .limit(TABLE_QUERY_MAX_RESULTS)
+      .execute();
+
+    return tables.map(toTableInfo);
+  }
+
+  async getTable(
+    orgId: DbId<'Org'>,
+    tableId: DbId<'DataTable'>,
+    scope: TableScope
+  ): Promise<TableInfo> {
+    const table = await this.tablesQuery(orgId, scope)
+      .where('data.data_tables.id', '=', tableId)
+      .executeTakeFirst();
+
+    if (!table) {
+      throw new NotFoundException('Table not found');
+    }
+
+    return toTableInfo(table);
+  }
+
+  /**
+   * Run a query against one table. Without aggregates or grouping it returns the
+   * matching rows; otherwise one result per group. Every result carries the
+   * source row numbers it was computed from, so answers can cite them.
+   */
+  async query(
+    orgId: DbId<'Org'>,
+    tableId: DbId<'DataTable'>,
+    spec: TableQuery,
+    scope: TableScope = {}
+  ) {
+    const table = await this.getTable(orgId, tableId, scope);
+    const resolve = (name: string): ResolvedColumn => {
+      const wanted = name.trim().toLowerCase();
+      const index = table.columns.findIndex((c) => c.name.trim().toLowerCase() === wanted);
+      if (index === -1) {
+        throw new BadRequestException(
+          `Unknown column "${name}". Columns: ${table.columns.map((c) => c.name).join(', ')}`
+        );
+      }
+      return { ...table.columns[index], index };
+    };
+
+    const conditions = (spec.filters ?? []).map((f) => this.buildCondition(resolve(f.column), f));
+    const groups = (spec.groupBy ?? []).map(resolve);
+    const aggregates = (spec.aggregates ?? []).map((a) => {
+      const column = a.column ? resolve(a.column) : null;
+      if (a.fn !== 'count' && !column) {
+        throw new BadRequestException(`${a.fn} needs a column`);
+      }
+      if ((a.fn === 'sum' || a.fn === 'avg') && column?.type !== 'number') {
+        throw new BadRequestException(
+          `${a.fn} needs a number column; "${column?.name}" is ${column?.type}`
+        );
+      }
+      return { fn: a.fn, column, label: aggregateLabel(a, column) };
+    });
+    const limit = Math.min(spec.limit ?? 20, TABLE_QUERY_MAX_RESULTS);
+    const direction = spec.sortDirection ?? (aggregates.length > 0 ? 'desc' : 'asc');
+
+    const citation = {
+      tableId: table.id,
+      dataSourceId: table.dataSourceId,
+      dataSourceName: table.dataSourceName,
+      sheet: table.sheet,
+    };
+
+    return this.db.kysely.transaction().execute(async (trx) => {
+      await sql`SET TRANSACTION READ ONLY`.execute(trx);
+      await sql`SET LOCAL statement_timeout = ${sql.lit(TABLE_QUERY_TIMEOUT_MS)}`.execute(trx);
+
+      let base = trx
+        .selectFrom('data.data_table_rows')
+        .where('table_id', '=', table.id)
+        .where('org_id', '=', orgId);
+      for (const condition of conditions) {
+        base = base.where(condition);
+      }
+
+      if (groups.length === 0 && aggregates.length === 0) {
+        let rowsQuery = base.select(['row', 'cells', sql<string>`count(*) over ()`.as('matched')]);
+        if (spec.sortBy) {
+          const sortColumn = resolve(spec.sortBy);
+          rowsQuery = rowsQuery.orderBy(
+            sql`${cellExpr(sortColumn, true)} ${sql.raw(direction)} NULLS LAST`
+          );
+        }
+        const rows = await rowsQuery.orderBy('row').limit(limit).execute();
+
+        return {
+          ...citation,
+          matchedRows: rows.length > 0 ? Number(rows[0].matched) : 0,
+          rows: rows.map((r) => ({
+            row: r.row,
+            values: Object.fromEntries(
+              table.columns.map((c, i): [string, DataTableCell] => [c.name, r.cells[i] ?? null])
+            ),
+          })),
+        };
+      }
+
+      const aggregateExprs = aggregates.map(({ fn, column }) => {
+        if (!column) return sql`count(*)`;
+        const value = cellExpr(column, true);
+        // Dates come back as text so pg doesn't turn them into `Date`s
+        return column.type === 'date' && fn !== 'count'
+          ? sql`${sql.raw(fn)}(${value})::text`
+          : sql`${sql.raw(fn)}(${value})`;
+      });
+
+      const sortKey = (): Expression<unknown> => {
+        const wanted = spec.sortBy?.trim().toLowerCase();
+        const aggregateIdx = aggregates.findIndex((a) => a.label.toLowerCase() === wanted);
+        if (aggregateIdx !== -1) return aggregateExprs[aggregateIdx];
+        if (wanted === 'count') return sql`count(*)`;
+        if (spec.sortBy) return cellExpr(resolve(spec.sortBy), true);
+        return aggregateExprs[0] ?? cellExpr(groups[0], true);
+      };
+
+      const results = await base
+        .select([
+          ...groups.map((g, i) => cellExpr(g).as(`g${i}`)),
+          ...aggregateExprs.map((expr, i) => expr.as(`a${i}`)),
+          sql<string>`count(*)`.as('row_count'),
+          sql<number[]>`(array_agg("row" ORDER BY "row"))[1:${sql.lit(TABLE_QUERY_CITED_ROWS)}]`.as(
+            'cited_rows'
+          ),
+        ])
+        .$if(groups.length > 0, (qb) => qb.groupBy(groups.map((g) => cellExpr(g))))
+        .orderBy(sql`${sortKey()} ${sql.raw(direction)} NULLS LAST`)
+        .limit(limit)
+        .execute();
+
+      return {
+        ...citation,
+        results: results.map((r) => {
+          const row: Record<string, unknown> = r;
+          return {
+            group: Object.fromEntries(
+              groups.map((g, i) => [g.name, this.toValue(row[`g${i}`], g.type === 'number')])
+            ),
+            values: Object.fromEntries(
+              aggregates.map((a, i) => [
+                a.label,
+                this.toValue(row[`a${i}`], a.fn === 'count' || a.column?.type === 'number'),
+              ])
+            ),
+            rowCount: Number(r.row_count),
+            rows: r.cited_rows,
+          };
+        }),
+      };
+    });
+  }
+
+  private tablesQuery(orgId: DbId<'Org'>, scope: TableScope) {
+    let query = this.db.kysely
+      .selectFrom('data.data_tables')
+      .innerJoin('data.data_sources', 'data.data_sources.id', 'data.data_tables.data_source_id')
+      .select([
+        'data.data_tables.id',
+        'data.data_tables.data_source_id',
+        'data.data_sources.title',
+        'data.data_tables.sheet',
+        'data.data_tables.columns',
+        'data.data_tables.row_count',
+      ])
+      .where('data.data_tables.org_id', '=', orgId);
+
+    if (scope.collectionIds && scope.collectionIds.length > 0) {
+      query = query.where('data.data_sources.collection_id', 'in', scope.collectionIds);
+    }
+    if (scope.dataSourceIds && scope.dataSourceIds.length > 0) {
+      query = query.where('data.data_tables.data_source_id', 'in', scope.dataSourceIds);
+    }
+
+    return query;
+  }
+
+  private buildCondition(column: ResolvedColumn, filter: TableFilter): RawBuilder<SqlBool> {
+    const values = (Array.isArray(filter.value) ? filter.value : [filter.value]).map((v) =>
+      this.coerce(column, v)
+    );
+    if (values.length === 0) {
+      throw new BadRequestException(`Filter on "${column.name}" needs a value`);
+    }
+
+    const caseless = column.type === 'text';
+    const expr = caseless ? sql`lower(${cellExpr(column)})` : cellExpr(column, true);
+    const param = (v: string | number) => {
+      if (caseless) return sql`lower(${String(v)})`;
+      return column.type === 'number' ? sql`${v}::numeric` : sql`${v}::date`;
+    };
+
+    switch (filter.operator) {
+      case 'eq':
+        return sql<SqlBool>`${expr} = ${param(values[0])}`;
+      case 'neq':
+        return sql<SqlBool>`${expr} IS DISTINCT FROM ${param(values[0])}`;
+      case 'gt':
+        return sql<SqlBool>`${expr} > ${param(values[0])}`;
+      case 'gte':
+        return sql<SqlBool>`${expr} >= ${param(values[0])}`;
+      case 'lt':
+        return sql<SqlBool>`${expr} < ${param(values[0])}`;
+      case 'lte':
+        return sql<SqlBool>`${expr} <= ${param(values[0])}`;
+      case 'in':
+        return sql<SqlBool>`${expr} IN (${sql.join(values.map(param))})`;
+      case 'contains':
+        return sql<SqlBool>`(cells->>${sql.lit(column.index)}) ILIKE ${`%${escapeIlike(String(values[0]))}%`}`;
+    }
+  }
+
+  /** Check a filter value against the column type, normalising numbers and dates. */
+  private coerce(column: ResolvedColumn, value: string | number): string | number {
+    if (column.type === 'number') {
+      const n = typeof value === 'number' ? value : parseNumber(value);
+      if (n === null) {
+        throw new BadRequestException(`"${value}" is not a number (column "${column.name}")`);
+      }
+      return n;
+    }
+    if (column.type === 'date') {
+      const date = parseDate(String(value));
+      if (!date) {
+        throw new BadRequestException(`"${value}" is not a date (column "${column.name}")`);
+      }
+      return date;
+    }
+    return String(value);
+  }
+
+  /** pg returns numeric as text. */
+  private toValue(value: unknown, numeric: boolean): DataTableCell {
+    if (value === null || value === undefined) return null;
+    if (numeric) return Number(value);
+    return String(value);
+  }
+}
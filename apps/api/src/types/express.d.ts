@@ -4,6 +4,7 @@ import type { JwtMembership, JwtPayload } from '../common/guards/auth.guard';
 
 interface ApiKeyContext {
   orgId: DbId<'Org'>;
+  apiKeyId: DbId<'ApiKey'>;
 }
 
 declare global {
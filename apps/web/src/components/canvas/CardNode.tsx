@@ -58,6 +58,12 @@ function cardSourcesToChat(sources: CardSource[]): ChatSource[] {
     let full: Record<string, unknown> = base;
     if (s.type === 'PDF' || s.type === 'DOCX') {
       full = { ...base, pages: s.pages ?? [] };
+    } else if (s.type === 'PPTX') {
+      full = { ...base, slides: s.slides ?? [] };
+    } else if (s.type === 'JSON') {
+      full = { ...base, pointers: s.pointers };
+    } else if (s.type === 'MEDIA') {
+      full = { ...base, startSec: s.startSec, endSec: s.endSec };
     } else if (s.type === 'XLSX') {
       full = { ...base, sheet: s.sheet ?? '', rows: s.rows ?? [], columns: s.columns ?? [] };
     } else if (s.type === 'CSV') {
@@ -79,6 +79,12 @@ export function renderComponent(
         let full: Record<string, unknown> = base;
         if (t === 'PDF' || t === 'DOCX') {
           full = { ...base, pages: s.pages ?? [] };
+        } else if (t === 'PPTX') {
+          full = { ...base, slides: s.slides ?? [] };
+        } else if (t === 'JSON') {
+          full = { ...base, pointers: s.pointers };
+        } else if (t === 'MEDIA') {
+          full = { ...base, startSec: s.startSec, endSec: s.endSec };
         } else if (t === 'XLSX') {
           full = { ...base, sheet: s.sheet ?? '', rows: s.rows ?? [], columns: s.columns ?? [] };
         } else if (t === 'CSV') {
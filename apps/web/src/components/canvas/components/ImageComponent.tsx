@@ -1,10 +1,14 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 
-import { alpha, Box, TextField, Typography, useTheme } from '@mui/material';
+import type { DbId } from '@grabdy/common';
+import { alpha, Box, CircularProgress, TextField, Typography, useTheme } from '@mui/material';
 import { ImageBrokenIcon } from '@phosphor-icons/react';
 
 import { useEditMode } from '../hooks/useEditMode';
 
+import { useOptionalAuth } from '@/context/AuthContext';
+import { api } from '@/lib/api';
+
 interface ImageComponentProps {
   data: {
     src: string;
@@ -13,6 +17,8 @@ interface ImageComponentProps {
     fit: 'contain' | 'cover' | 'fill';
     height?: number;
     borderRadius?: number;
+    dataSourceId?: DbId<'DataSource'>;
+    imageId?: DbId<'ExtractedImage'>;
   };
   onSave?: (data: Record<string, unknown>) => void;
 }
@@ -23,9 +29,42 @@ export function ImageComponent({ data, onSave }: ImageComponentProps) {
   const [draftSrc, setDraftSrc] = useState(data.src);
   const [draftCaption, setDraftCaption] = useState(data.caption ?? '');
   const [hasError, setHasError] = useState(false);
+  const [extractedSrc, setExtractedSrc] = useState<string | null>(null);
+  const orgId = useOptionalAuth()?.selectedOrgId;
+  const { dataSourceId, imageId } = data;
+
+  // Figures extracted from documents live in private storage and need a signed URL
+  useEffect(() => {
+    if (!orgId || !dataSourceId || !imageId) return;
+    let cancelled = false;
+    api.dataSources
+      .imageUrl({ params: { orgId, id: dataSourceId, imageId } })
+      .then((res) => {
+        if (cancelled) return;
+        if (res.status === 200) setExtractedSrc(res.body.data.url);
+        else setHasError(true);
+      })
+      .catch(() => {
+        if (!cancelled) setHasError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId, dataSourceId, imageId]);
+
+  const src = imageId ? extractedSrc : data.src;
+  // Without an org (e.g. a shared canvas) an extracted figure cannot be resolved
+  const isLoading = !src && Boolean(imageId && dataSourceId && orgId);
 
   const handleSave = useCallback(() => {
-    onSave?.({ ...data, src: draftSrc, caption: draftCaption || undefined });
+    // A new URL replaces the extracted figure
+    const replacesFigure = draftSrc !== data.src;
+    onSave?.({
+      ...data,
+      src: draftSrc,
+      caption: draftCaption || undefined,
+      ...(replacesFigure ? { dataSourceId: undefined, imageId: undefined } : {}),
+    });
     setIsEditing(false);
     setHasError(false);
   }, [data, draftSrc, draftCaption, onSave]);
@@ -82,7 +121,7 @@ export function ImageComponent({ data, onSave }: ImageComponentProps) {
 
   return (
     <Box sx={{ position: 'relative' }}>
-      {hasError ? (
+      {hasError || (!src && !isLoading) ? (
         <Box
           sx={{
             height: data.height ?? 160,
@@ -104,10 +143,21 @@ export function ImageComponent({ data, onSave }: ImageComponentProps) {
             Image failed to load
           </Typography>
         </Box>
+      ) : isLoading ? (
+        <Box
+          sx={{
+            height: data.height ?? 160,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+          }}
+        >
+          <CircularProgress size={20} />
+        </Box>
       ) : (
         <Box
           component="img"
-          src={data.src}
+          src={src ?? undefined}
           alt={data.alt ?? ''}
           onError={() => setHasError(true)}
           sx={{
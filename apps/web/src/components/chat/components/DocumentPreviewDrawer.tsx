@@ -23,9 +23,15 @@ export function canPreview(mimeType: string): boolean {
 interface DocumentPreviewDrawerProps extends DrawerProps {
   dataSourceId: DbId<'DataSource'>;
   page?: number;
+  /** Position in seconds to open an audio or video file at. */
+  startSec?: number;
 }
 
-export function DocumentPreviewDrawer({ dataSourceId, page }: DocumentPreviewDrawerProps) {
+export function DocumentPreviewDrawer({
+  dataSourceId,
+  page,
+  startSec,
+}: DocumentPreviewDrawerProps) {
   const { selectedOrgId } = useAuth();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -55,8 +61,14 @@ export function DocumentPreviewDrawer({ dataSourceId, page }: DocumentPreviewDra
         const mime = res.body.data.mimeType;
         const url = res.body.data.url;
 
-        // Text-based: TXT, JSON
-        if (mime === 'text/plain' || mime === 'application/json') {
+        // Text-based: TXT, JSON, JSONL, Markdown and HTML (shown as source)
+        if (
+          mime === 'text/plain' ||
+          mime === 'application/json' ||
+          mime === 'application/x-ndjson' ||
+          mime === 'text/markdown' ||
+          mime === 'text/html'
+        ) {
           try {
             const textRes = await fetch(url, { credentials: 'include' });
             if (!cancelled && textRes.ok) {
@@ -68,8 +80,8 @@ export function DocumentPreviewDrawer({ dataSourceId, page }: DocumentPreviewDra
           }
         }
 
-        // CSV
-        if (mime === 'text/csv') {
+        // CSV / TSV (Papa Parse detects the delimiter)
+        if (mime === 'text/csv' || mime === 'text/tab-separated-values') {
           try {
             const textRes = await fetch(url, { credentials: 'include' });
             if (!cancelled && textRes.ok) {
@@ -177,8 +189,8 @@ export function DocumentPreviewDrawer({ dataSourceId, page }: DocumentPreviewDra
     return <DocxViewer blob={docxBlob} />;
   }
 
-  // CSV
-  if (data.mimeType === 'text/csv' && csvData) {
+  // CSV / TSV
+  if ((data.mimeType === 'text/csv' || data.mimeType === 'text/tab-separated-values') && csvData) {
     return <SpreadsheetViewer rows={csvData} />;
   }
 
@@ -214,6 +226,32 @@ export function DocumentPreviewDrawer({ dataSourceId, page }: DocumentPreviewDra
     );
   }
 
+  // Audio / video — a media fragment (#t=) seeks the player to the cited timestamp
+  if (data.mimeType.startsWith('audio/') || data.mimeType.startsWith('video/')) {
+    const mediaUrl = startSec ? `${data.url}#t=${Math.floor(startSec)}` : data.url;
+    return (
+      <Box sx={{ flex: 1, display: 'flex', justifyContent: 'center', alignItems: 'center', p: 2 }}>
+        {data.mimeType.startsWith('video/') ? (
+          <Box
+            component="video"
+            src={mediaUrl}
+            controls
+            title={data.title}
+            sx={{ width: '100%', maxHeight: '70vh', bgcolor: 'common.black' }}
+          />
+        ) : (
+          <Box
+            component="audio"
+            src={mediaUrl}
+            controls
+            title={data.title}
+            sx={{ width: '100%' }}
+          />
+        )}
+      </Box>
+    );
+  }
+
   // Plain text
   if (textContent !== null) {
     return (
@@ -4,10 +4,16 @@ import {
   UPLOADS_FILE_TYPES,
 } from '@grabdy/contracts';
 import {
+  BookOpenIcon,
+  FileAudioIcon,
   FileCsvIcon,
   FileDocIcon,
+  FileHtmlIcon,
+  FileMdIcon,
   FilePdfIcon,
+  FilePptIcon,
   FileTextIcon,
+  FileVideoIcon,
   FileXlsIcon,
   ImageIcon,
 } from '@phosphor-icons/react';
@@ -20,6 +26,10 @@ export const SOURCE_NOUN: Record<IntegrationProvider, string> = {
   LINEAR: 'issue',
   GITHUB: 'item',
   NOTION: 'page',
+  GOOGLE_DRIVE: 'file',
+  CONFLUENCE: 'page',
+  JIRA: 'issue',
+  EMAIL: 'thread',
 };
 
 /** Integration providers (everything except UPLOAD) -- derived from the enum */
@@ -32,14 +42,31 @@ export const FILE_EXTS: ReadonlySet<string> = new Set(UPLOADS_FILE_TYPES.map((f)
 export const ICON_BY_EXT: Record<UploadsExt, IconComponent> = {
   pdf: FilePdfIcon,
   csv: FileCsvIcon,
+  tsv: FileCsvIcon,
   json: FileTextIcon,
+  jsonl: FileTextIcon,
   txt: FileTextIcon,
   docx: FileDocIcon,
   doc: FileDocIcon,
+  odt: FileDocIcon,
   xlsx: FileXlsIcon,
   xls: FileXlsIcon,
+  ods: FileXlsIcon,
+  pptx: FilePptIcon,
+  odp: FilePptIcon,
   png: ImageIcon,
   jpg: ImageIcon,
   webp: ImageIcon,
   gif: ImageIcon,
+  mp3: FileAudioIcon,
+  m4a: FileAudioIcon,
+  wav: FileAudioIcon,
+  ogg: FileAudioIcon,
+  flac: FileAudioIcon,
+  mp4: FileVideoIcon,
+  mov: FileVideoIcon,
+  webm: FileVideoIcon,
+  md: FileMdIcon,
+  html: FileHtmlIcon,
+  epub: BookOpenIcon,
 };
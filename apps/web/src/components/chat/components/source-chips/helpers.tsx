@@ -10,12 +10,36 @@ export function pluralize(count: number, noun: string): string {
   return count === 1 ? `${count} ${noun}` : `${count} ${noun}s`;
 }
 
+/** `m:ss`, or `h:mm:ss` past the first hour, for a position in a recording. */
+export function formatTimestamp(sec: number): string {
+  const total = Math.floor(sec);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
 export function formatLocation(source: ChatSource): string {
   const parts: string[] = [];
   if ('sheet' in source && source.sheet) parts.push(source.sheet);
   if ('pages' in source && source.pages.length > 0) parts.push(`p. ${source.pages.join(', ')}`);
+  if ('slides' in source && source.slides.length > 0) {
+    parts.push(`slide ${source.slides.join(', ')}`);
+  }
   if ('rows' in source && source.rows.length > 0) parts.push(`row ${source.rows.join(', ')}`);
   if ('columns' in source && source.columns.length > 0) parts.push(source.columns.join(', '));
+  if ('pointers' in source && source.pointers && source.pointers.length > 0) {
+    parts.push(source.pointers.join(', '));
+  }
+  if ('startSec' in source && source.startSec !== undefined) {
+    parts.push(
+      source.endSec !== undefined
+        ? `${formatTimestamp(source.startSec)}–${formatTimestamp(source.endSec)}`
+        : formatTimestamp(source.startSec)
+    );
+  }
   return parts.length > 0 ? ` ${parts.join(', ')}` : '';
 }
 
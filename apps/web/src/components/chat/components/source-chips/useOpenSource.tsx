@@ -19,11 +19,14 @@ export function useOpenSource() {
         window.open(source.sourceUrl, '_blank', 'noopener,noreferrer');
         return;
       }
-      // Uploaded files open the preview drawer
+      // Uploaded files open the preview drawer, recordings at the cited timestamp
       const parsed = dbIdSchema('DataSource').safeParse(source.dataSourceId);
       if (!parsed.success) return;
+      const startSec = source.type === 'MEDIA' ? source.startSec : undefined;
       pushDrawer(
-        (onClose) => <DocumentPreviewDrawer onClose={onClose} dataSourceId={parsed.data} />,
+        (onClose) => (
+          <DocumentPreviewDrawer onClose={onClose} dataSourceId={parsed.data} startSec={startSec} />
+        ),
         { title: source.dataSourceName, mode: 'dialog', maxWidth: 'lg' }
       );
     },
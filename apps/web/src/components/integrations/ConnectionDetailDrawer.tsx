@@ -1,6 +1,6 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 
-import type { ConnectionStatus, IntegrationProvider } from '@grabdy/contracts';
+import type { ConnectionStatus, GitHubContentRepo, IntegrationProvider } from '@grabdy/contracts';
 import {
   alpha,
   Box,
@@ -12,10 +12,15 @@ import {
   Typography,
   useTheme,
 } from '@mui/material';
+import type { Icon } from '@phosphor-icons/react';
 import {
+  BooksIcon,
   CheckIcon,
+  EnvelopeSimpleIcon,
   FloppyDiskIcon,
+  FolderIcon,
   HashIcon,
+  KanbanIcon,
   MagnifyingGlassIcon,
   PauseIcon,
   PlugsConnectedIcon,
@@ -24,6 +29,7 @@ import {
 } from '@phosphor-icons/react';
 import { toast } from 'sonner';
 
+import { GitHubContentSettings } from './GitHubContentSettings';
 import { getProviderLabel, ProviderIcon } from './ProviderIcon';
 
 import { useAuth } from '@/context/AuthContext';
@@ -36,6 +42,8 @@ interface ConnectionDetailDrawerProps extends DrawerProps {
   lastSyncedAt: string | null;
   externalAccountName: string | null;
   syncScheduleLabel: string | null;
+  /** Repositories whose files are indexed, for GitHub connections. */
+  githubContentRepos?: GitHubContentRepo[];
   onRefresh: () => void;
   onConnect?: (provider: IntegrationProvider) => void;
 }
@@ -112,15 +120,68 @@ interface Resource {
   selected: boolean;
 }
 
-function ChannelPicker({
+interface ResourcePickerConfig {
+  /** Plural, capitalized (e.g. "Channels"). */
+  label: string;
+  hint: string;
+  icon: Icon;
+  toConfig: (
+    selectedIds: string[]
+  ) =>
+    | { provider: 'SLACK'; selectedChannelIds: string[] }
+    | { provider: 'GOOGLE_DRIVE'; selectedFolderIds: string[] }
+    | { provider: 'CONFLUENCE'; selectedSpaceKeys: string[] }
+    | { provider: 'JIRA'; selectedProjectKeys: string[] }
+    | { provider: 'EMAIL'; selectedMailboxes: string[] };
+}
+
+/** Providers whose synced resources are chosen by the user. */
+const RESOURCE_PICKERS: Partial<Record<IntegrationProvider, ResourcePickerConfig>> = {
+  SLACK: {
+    label: 'Channels',
+    hint: 'Select public channels to sync. Private channels require a manual /invite.',
+    icon: HashIcon,
+    toConfig: (selectedIds) => ({ provider: 'SLACK', selectedChannelIds: selectedIds }),
+  },
+  GOOGLE_DRIVE: {
+    label: 'Folders',
+    hint: 'Select folders and shared drives to sync. Files in subfolders are included.',
+    icon: FolderIcon,
+    toConfig: (selectedIds) => ({ provider: 'GOOGLE_DRIVE', selectedFolderIds: selectedIds }),
+  },
+  CONFLUENCE: {
+    label: 'Spaces',
+    hint: 'Select spaces to sync. Their pages and blog posts are indexed.',
+    icon: BooksIcon,
+    toConfig: (selectedIds) => ({ provider: 'CONFLUENCE', selectedSpaceKeys: selectedIds }),
+  },
+  JIRA: {
+    label: 'Projects',
+    hint: 'Select projects to sync. Their issues and comments are indexed.',
+    icon: KanbanIcon,
+    toConfig: (selectedIds) => ({ provider: 'JIRA', selectedProjectKeys: selectedIds }),
+  },
+  EMAIL: {
+    label: 'Mailboxes',
+    hint: 'Select Gmail labels or IMAP folders to sync. Messages from the last 30 days are indexed first.',
+    icon: EnvelopeSimpleIcon,
+    toConfig: (selectedIds) => ({ provider: 'EMAIL', selectedMailboxes: selectedIds }),
+  },
+};
+
+function ResourcePicker({
   provider,
+  config,
   orgId,
   onRefresh,
 }: {
   provider: IntegrationProvider;
+  config: ResourcePickerConfig;
   orgId: string;
   onRefresh: () => void;
 }) {
+  const noun = config.label.toLowerCase();
+  const ResourceIcon = config.icon;
   const theme = useTheme();
   const [resources, setResources] = useState<Resource[]>([]);
   const [loading, setLoading] = useState(true);
@@ -145,7 +206,7 @@ function ChannelPicker({
           setInitialSelectedIds(selected);
         }
       } catch {
-        if (!cancelled) toast.error('Failed to load channels');
+        if (!cancelled) toast.error(`Failed to load ${noun}`);
       } finally {
         if (!cancelled) setLoading(false);
       }
@@ -154,7 +215,7 @@ function ChannelPicker({
     return () => {
       cancelled = true;
     };
-  }, [orgId, provider]);
+  }, [orgId, provider, noun]);
 
   const filteredResources = useMemo(() => {
     if (!search) return resources;
@@ -170,13 +231,13 @@ function ChannelPicker({
     return false;
   }, [selectedIds, initialSelectedIds]);
 
-  const toggleChannel = useCallback((channelId: string) => {
+  const toggleResource = useCallback((resourceId: string) => {
     setSelectedIds((prev) => {
       const next = new Set(prev);
-      if (next.has(channelId)) {
-        next.delete(channelId);
+      if (next.has(resourceId)) {
+        next.delete(resourceId);
       } else {
-        next.add(channelId);
+        next.add(resourceId);
       }
       return next;
     });
@@ -187,15 +248,15 @@ function ChannelPicker({
     try {
       const res = await api.integrations.updateConfig({
         params: { orgId, provider },
-        body: { config: { provider: 'SLACK', selectedChannelIds: [...selectedIds] } },
+        body: { config: config.toConfig([...selectedIds]) },
       });
       if (res.status === 200) {
-        toast.success('Channels updated — sync started');
+        toast.success(`${config.label} updated — sync started`);
         setInitialSelectedIds(new Set(selectedIds));
         onRefresh();
       }
     } catch {
-      toast.error('Failed to save channels');
+      toast.error(`Failed to save ${noun}`);
     } finally {
       setSaving(false);
     }
@@ -221,14 +282,14 @@ function ChannelPicker({
           color: 'text.secondary',
         }}
       >
-        Channels ({selectedIds.size} selected)
+        {config.label} ({selectedIds.size} selected)
       </Typography>
       <Typography variant="caption" color="text.secondary">
-        Select public channels to sync. Private channels require a manual /invite.
+        {config.hint}
       </Typography>
       <TextField
         size="small"
-        placeholder="Search channels..."
+        placeholder={`Search ${noun}...`}
         value={search}
         onChange={(e) => setSearch(e.target.value)}
         slotProps={{
@@ -256,13 +317,13 @@ function ChannelPicker({
       >
         {filteredResources.length === 0 ? (
           <Typography variant="body2" color="text.secondary" sx={{ p: 2, textAlign: 'center' }}>
-            {search ? 'No channels match your search' : 'No channels found'}
+            {search ? `No ${noun} match your search` : `No ${noun} found`}
           </Typography>
         ) : (
           filteredResources.map((resource) => (
             <Box
               key={resource.id}
-              onClick={() => toggleChannel(resource.id)}
+              onClick={() => toggleResource(resource.id)}
               sx={{
                 display: 'flex',
                 alignItems: 'center',
@@ -282,7 +343,7 @@ function ChannelPicker({
                 sx={{ p: 0.5 }}
                 tabIndex={-1}
               />
-              <HashIcon size={14} weight="light" color={theme.palette.text.secondary} />
+              <ResourceIcon size={14} weight="light" color={theme.palette.text.secondary} />
               <Typography variant="body2" sx={{ flex: 1, minWidth: 0 }} noWrap>
                 {resource.name}
               </Typography>
@@ -298,7 +359,7 @@ function ChannelPicker({
         startIcon={<FloppyDiskIcon size={15} weight="light" />}
         sx={{ borderRadius: 1.5, alignSelf: 'flex-start' }}
       >
-        {saving ? 'Saving...' : 'Save Channels'}
+        {saving ? 'Saving...' : `Save ${config.label}`}
       </Button>
     </Box>
   );
@@ -311,6 +372,7 @@ export function ConnectionDetailDrawer({
   lastSyncedAt,
   externalAccountName,
   syncScheduleLabel,
+  githubContentRepos,
   onRefresh,
   onConnect,
 }: ConnectionDetailDrawerProps) {
@@ -325,6 +387,7 @@ export function ConnectionDetailDrawer({
 
   const isDisconnected = currentStatus === 'DISCONNECTED';
   const isActive = currentStatus === 'ACTIVE';
+  const pickerConfig = RESOURCE_PICKERS[provider];
 
   const handleDisconnect = async () => {
     if (!selectedOrgId) return;
@@ -488,8 +551,20 @@ export function ConnectionDetailDrawer({
           </Box>
         ) : (
           <>
-            {provider === 'SLACK' && isActive && selectedOrgId && (
-              <ChannelPicker provider={provider} orgId={selectedOrgId} onRefresh={onRefresh} />
+            {pickerConfig && isActive && selectedOrgId && (
+              <ResourcePicker
+                provider={provider}
+                config={pickerConfig}
+                orgId={selectedOrgId}
+                onRefresh={onRefresh}
+              />
+            )}
+            {provider === 'GITHUB' && isActive && selectedOrgId && (
+              <GitHubContentSettings
+                orgId={selectedOrgId}
+                contentRepos={githubContentRepos ?? []}
+                onRefresh={onRefresh}
+              />
             )}
             <Divider />
             <Box sx={{ display: 'flex', gap: 1.5 }}>
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+
+import {
+  Box,
+  Button,
+  Checkbox,
+  Divider,
+  FormControlLabel,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { toast } from 'sonner';
+
+import { GmailLogo } from '../landing/IntegrationLogos';
+
+import { useAuth } from '@/context/AuthContext';
+import type { DrawerProps } from '@/context/DrawerContext';
+import { api } from '@/lib/api';
+
+interface EmailConnectDialogProps extends DrawerProps {
+  /** Start the Gmail OAuth flow. */
+  onConnectGmail: () => void;
+  onConnected: () => void;
+}
+
+/** Connect a mailbox: Gmail through Google sign-in, anything else over IMAP. */
+export function EmailConnectDialog({
+  onClose,
+  onConnectGmail,
+  onConnected,
+}: EmailConnectDialogProps) {
+  const { selectedOrgId } = useAuth();
+  const [host, setHost] = useState('');
+  const [port, setPort] = useState('993');
+  const [secure, setSecure] = useState(true);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const portNumber = Number(port);
+  const canConnect =
+    host.trim() !== '' &&
+    username.trim() !== '' &&
+    password !== '' &&
+    Number.isInteger(portNumber) &&
+    portNumber > 0;
+
+  const handleConnectImap = async () => {
+    if (!selectedOrgId || !canConnect) return;
+    setIsConnecting(true);
+    try {
+      const res = await api.integrations.connectImap({
+        params: { orgId: selectedOrgId },
+        body: {
+          host: host.trim(),
+          port: portNumber,
+          secure,
+          username: username.trim(),
+          password,
+        },
+      });
+      if (res.status === 200) {
+        toast.success('Mailbox connected');
+        onConnected();
+        onClose();
+      } else if (res.status === 400) {
+        toast.error(res.body.error);
+      }
+    } catch {
+      toast.error('Failed to connect mailbox');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3, display: 'flex', flexDirection: 'column', gap: 2 }}>
+      <Button
+        variant="outlined"
+        startIcon={<GmailLogo size={18} />}
+        onClick={onConnectGmail}
+        sx={{ alignSelf: 'stretch' }}
+      >
+        Continue with Gmail
+      </Button>
+
+      <Divider>
+        <Typography variant="caption" color="text.secondary">
+          or connect any mailbox over IMAP
+        </Typography>
+      </Divider>
+
+      <Box sx={{ display: 'flex', gap: 1.5 }}>
+        <TextField
+          label="IMAP server"
+          value={host}
+          onChange={(e) => setHost(e.target.value)}
+          placeholder="imap.example.com"
+          size="small"
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          label="Port"
+          value={port}
+          onChange={(e) => setPort(e.target.value)}
+          size="small"
+          sx={{ width: 96 }}
+        />
+      </Box>
+      <FormControlLabel
+        control={
+          <Checkbox size="small" checked={secure} onChange={(e) => setSecure(e.target.checked)} />
+        }
+        label={
+          <Typography variant="body2">Use TLS (STARTTLS is used otherwise when offered)</Typography>
+        }
+      />
+      <TextField
+        label="Username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        autoComplete="username"
+        size="small"
+      />
+      <TextField
+        label="Password"
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        autoComplete="current-password"
+        helperText="Stored encrypted. Use an app password if your provider offers them."
+        size="small"
+      />
+
+      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleConnectImap}
+          disabled={isConnecting || !canConnect}
+        >
+          {isConnecting ? 'Connecting...' : 'Connect'}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
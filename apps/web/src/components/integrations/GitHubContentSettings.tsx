@@ -0,0 +1,324 @@
+import { useEffect, useMemo, useState } from 'react';
+
+import {
+  GITHUB_CONTENT_DEFAULT_MAX_FILE_BYTES,
+  GITHUB_CONTENT_MAX_FILE_BYTES,
+  type GitHubContentRepo,
+} from '@grabdy/contracts';
+import {
+  alpha,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  TextField,
+  Typography,
+  useTheme,
+} from '@mui/material';
+import { FloppyDiskIcon, GitBranchIcon, MagnifyingGlassIcon } from '@phosphor-icons/react';
+import { toast } from 'sonner';
+
+import { api } from '@/lib/api';
+
+const MAX_FILE_KB = GITHUB_CONTENT_MAX_FILE_BYTES / 1024;
+const DEFAULT_MAX_FILE_KB = GITHUB_CONTENT_DEFAULT_MAX_FILE_BYTES / 1024;
+
+/** A repository's rules as typed: globs one per line or comma-separated, size in KB. */
+interface RepoRulesDraft {
+  branch: string;
+  include: string;
+  exclude: string;
+  maxFileKb: string;
+}
+
+const EMPTY_DRAFT: RepoRulesDraft = { branch: '', include: '', exclude: '', maxFileKb: '' };
+
+function toDraft(repo: GitHubContentRepo): RepoRulesDraft {
+  return {
+    branch: repo.branch ?? '',
+    include: repo.include.join('\n'),
+    exclude: repo.exclude.join('\n'),
+    maxFileKb: repo.maxFileBytes ? String(Math.round(repo.maxFileBytes / 1024)) : '',
+  };
+}
+
+function parseGlobs(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((glob) => glob.trim())
+    .filter((glob) => glob.length > 0);
+}
+
+function isValidMaxFileKb(text: string): boolean {
+  if (text.trim() === '') return true;
+  const kb = Number(text);
+  return Number.isInteger(kb) && kb > 0 && kb <= MAX_FILE_KB;
+}
+
+function toContentRepo(repo: string, draft: RepoRulesDraft): GitHubContentRepo {
+  const branch = draft.branch.trim();
+  const maxFileKb = draft.maxFileKb.trim();
+  return {
+    repo,
+    ...(branch ? { branch } : {}),
+    include: parseGlobs(draft.include),
+    exclude: parseGlobs(draft.exclude),
+    ...(maxFileKb ? { maxFileBytes: Number(maxFileKb) * 1024 } : {}),
+  };
+}
+
+/**
+ * Pick the repositories whose files are indexed, each with a branch, path
+ * globs and a file size limit.
+ */
+export function GitHubContentSettings({
+  orgId,
+  contentRepos,
+  onRefresh,
+}: {
+  orgId: string;
+  contentRepos: GitHubContentRepo[];
+  onRefresh: () => void;
+}) {
+  const theme = useTheme();
+  const [repoNames, setRepoNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [search, setSearch] = useState('');
+  const [drafts, setDrafts] = useState<Map<string, RepoRulesDraft>>(
+    () => new Map(contentRepos.map((r) => [r.repo, toDraft(r)]))
+  );
+  const [savedRepos, setSavedRepos] = useState(contentRepos);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      setLoading(true);
+      try {
+        const res = await api.integrations.listResources({
+          params: { orgId, provider: 'GITHUB' },
+        });
+        if (cancelled) return;
+        if (res.status === 200) {
+          setRepoNames(res.body.data.map((r) => r.id));
+        }
+      } catch {
+        if (!cancelled) toast.error('Failed to load repositories');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId]);
+
+  const filteredRepos = useMemo(() => {
+    if (!search) return repoNames;
+    const lower = search.toLowerCase();
+    return repoNames.filter((name) => name.toLowerCase().includes(lower));
+  }, [repoNames, search]);
+
+  const nextRepos = useMemo(
+    () => [...drafts].map(([repo, draft]) => toContentRepo(repo, draft)),
+    [drafts]
+  );
+  const hasChanges = JSON.stringify(nextRepos) !== JSON.stringify(savedRepos);
+  const isValid = [...drafts.values()].every((draft) => isValidMaxFileKb(draft.maxFileKb));
+
+  const toggleRepo = (repo: string) => {
+    setDrafts((prev) => {
+      const next = new Map(prev);
+      if (next.has(repo)) {
+        next.delete(repo);
+      } else {
+        next.set(repo, EMPTY_DRAFT);
+      }
+      return next;
+    });
+  };
+
+  const updateDraft = (repo: string, patch: Partial<RepoRulesDraft>) => {
+    setDrafts((prev) => {
+      const current = prev.get(repo);
+      if (!current) return prev;
+      return new Map(prev).set(repo, { ...current, ...patch });
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await api.integrations.updateConfig({
+        params: { orgId, provider: 'GITHUB' },
+        body: { config: { provider: 'GITHUB', contentRepos: nextRepos } },
+      });
+      if (res.status === 200) {
+        toast.success('Repositories updated — sync started');
+        setSavedRepos(nextRepos);
+        onRefresh();
+      }
+    } catch {
+      toast.error('Failed to save repositories');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <Typography
+        variant="caption"
+        sx={{
+          fontWeight: 600,
+          fontSize: 11,
+          textTransform: 'uppercase',
+          letterSpacing: '0.06em',
+          color: 'text.secondary',
+        }}
+      >
+        Repository files ({drafts.size} selected)
+      </Typography>
+      <Typography variant="caption" color="text.secondary">
+        Select repositories to index the files of. Files are re-indexed on every push to the branch.
+        Globs such as docs/** or src/**/*.ts, one per line; no include globs means every file.
+      </Typography>
+      <TextField
+        size="small"
+        placeholder="Search repositories..."
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        slotProps={{
+          input: {
+            startAdornment: (
+              <MagnifyingGlassIcon
+                size={16}
+                weight="light"
+                color={theme.palette.text.secondary}
+                style={{ marginRight: 8 }}
+              />
+            ),
+          },
+        }}
+        sx={{ '& .MuiOutlinedInput-root': { borderRadius: 1.5 } }}
+      />
+      <Box
+        sx={{
+          maxHeight: 420,
+          overflow: 'auto',
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1.5,
+        }}
+      >
+        {filteredRepos.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ p: 2, textAlign: 'center' }}>
+            {search ? 'No repositories match your search' : 'No repositories found'}
+          </Typography>
+        ) : (
+          filteredRepos.map((repo) => {
+            const draft = drafts.get(repo);
+            return (
+              <Box
+                key={repo}
+                sx={{
+                  borderBottom: 1,
+                  borderColor: 'divider',
+                  '&:last-child': { borderBottom: 0 },
+                }}
+              >
+                <Box
+                  onClick={() => toggleRepo(repo)}
+                  sx={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 1,
+                    px: 1.5,
+                    py: 0.75,
+                    cursor: 'pointer',
+                    '&:hover': { bgcolor: alpha(theme.palette.text.primary, 0.04) },
+                  }}
+                >
+                  <Checkbox checked={!!draft} size="small" sx={{ p: 0.5 }} tabIndex={-1} />
+                  <GitBranchIcon size={14} weight="light" color={theme.palette.text.secondary} />
+                  <Typography variant="body2" sx={{ flex: 1, minWidth: 0 }} noWrap>
+                    {repo}
+                  </Typography>
+                </Box>
+                {draft && (
+                  <Box
+                    sx={{ display: 'flex', flexDirection: 'column', gap: 1.25, px: 1.5, pb: 1.5 }}
+                  >
+                    <Box sx={{ display: 'flex', gap: 1.25 }}>
+                      <TextField
+                        size="small"
+                        label="Branch"
+                        placeholder="Default branch"
+                        value={draft.branch}
+                        onChange={(e) => updateDraft(repo, { branch: e.target.value })}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                        sx={{ flex: 1 }}
+                      />
+                      <TextField
+                        size="small"
+                        label="Max file size (KB)"
+                        placeholder={String(DEFAULT_MAX_FILE_KB)}
+                        value={draft.maxFileKb}
+                        onChange={(e) => updateDraft(repo, { maxFileKb: e.target.value })}
+                        error={!isValidMaxFileKb(draft.maxFileKb)}
+                        helperText={
+                          isValidMaxFileKb(draft.maxFileKb) ? undefined : `1 to ${MAX_FILE_KB}`
+                        }
+                        slotProps={{ inputLabel: { shrink: true } }}
+                        sx={{ width: 150 }}
+                      />
+                    </Box>
+                    <TextField
+                      size="small"
+                      label="Include"
+                      placeholder="Every file"
+                      value={draft.include}
+                      onChange={(e) => updateDraft(repo, { include: e.target.value })}
+                      multiline
+                      minRows={1}
+                      slotProps={{ inputLabel: { shrink: true } }}
+                    />
+                    <TextField
+                      size="small"
+                      label="Exclude"
+                      placeholder="e.g. **/node_modules/**"
+                      value={draft.exclude}
+                      onChange={(e) => updateDraft(repo, { exclude: e.target.value })}
+                      multiline
+                      minRows={1}
+                      slotProps={{ inputLabel: { shrink: true } }}
+                    />
+                  </Box>
+                )}
+              </Box>
+            );
+          })
+        )}
+      </Box>
+      <Button
+        variant="contained"
+        size="small"
+        disabled={!hasChanges || !isValid || saving}
+        onClick={handleSave}
+        startIcon={<FloppyDiskIcon size={15} weight="light" />}
+        sx={{ borderRadius: 1.5, alignSelf: 'flex-start' }}
+      >
+        {saving ? 'Saving...' : 'Save Repositories'}
+      </Button>
+    </Box>
+  );
+}
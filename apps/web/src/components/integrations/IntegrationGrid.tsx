@@ -1,4 +1,4 @@
-import type { IntegrationProvider } from '@grabdy/contracts';
+import type { GitHubContentRepo, IntegrationProvider } from '@grabdy/contracts';
 import { alpha, Box, Typography, useTheme } from '@mui/material';
 
 import { IntegrationCard } from './IntegrationCard';
@@ -11,6 +11,8 @@ export interface ConnectionSummary {
   lastSyncedAt: string | null;
   externalAccountName: string | null;
   syncScheduleLabel: string | null;
+  /** Only the GitHub file indexing rules are read here. */
+  providerData: { provider: IntegrationProvider; contentRepos?: GitHubContentRepo[] };
 }
 
 interface IntegrationGridProps {
@@ -122,6 +124,38 @@ export function IntegrationGrid({ connections, onConnect, onManage }: Integratio
               onManage={onManage}
             />
           )}
+          {!connections.some((c) => c.provider === 'GOOGLE_DRIVE') && (
+            <IntegrationCard
+              provider="GOOGLE_DRIVE"
+              connection={null}
+              onConnect={onConnect}
+              onManage={onManage}
+            />
+          )}
+          {!connections.some((c) => c.provider === 'CONFLUENCE') && (
+            <IntegrationCard
+              provider="CONFLUENCE"
+              connection={null}
+              onConnect={onConnect}
+              onManage={onManage}
+            />
+          )}
+          {!connections.some((c) => c.provider === 'JIRA') && (
+            <IntegrationCard
+              provider="JIRA"
+              connection={null}
+              onConnect={onConnect}
+              onManage={onManage}
+            />
+          )}
+          {!connections.some((c) => c.provider === 'EMAIL') && (
+            <IntegrationCard
+              provider="EMAIL"
+              connection={null}
+              onConnect={onConnect}
+              onManage={onManage}
+            />
+          )}
           {/* Coming soon cards */}
           {COMING_SOON_PROVIDERS.map((provider) => (
             <IntegrationCard
@@ -2,6 +2,7 @@ import { Box } from '@mui/material';
 
 import {
   ConfluenceLogo,
+  GmailLogo,
   GoogleDriveLogo,
   LinearLogo,
   NotionLogo,
@@ -85,15 +86,13 @@ export type ProviderKey =
   | 'NOTION'
   | 'CONFLUENCE'
   | 'GOOGLE_DRIVE'
+  | 'EMAIL'
   | 'ASANA'
   | 'LINEAR'
   | 'FIGMA'
   | 'TRELLO';
 
 export const COMING_SOON_PROVIDERS = [
-  'JIRA',
-  'CONFLUENCE',
-  'GOOGLE_DRIVE',
   'ASANA',
   'FIGMA',
   'TRELLO',
@@ -153,6 +152,13 @@ const PROVIDER_CONFIG: Record<ProviderKey, ProviderConfig> = {
     description: 'Docs, Sheets & Slides',
     details: 'Indexes documents, spreadsheets & presentations for full-text search',
   },
+  EMAIL: {
+    icon: GmailLogo,
+    label: 'Email',
+    color: '#EA4335',
+    description: 'Gmail & IMAP mailboxes',
+    details: 'Indexes email threads & attachments from the labels or folders you choose',
+  },
   ASANA: {
     icon: AsanaLogo,
     label: 'Asana',
@@ -1,4 +1,6 @@
 export { ConnectionDetailDrawer } from './ConnectionDetailDrawer';
+export { EmailConnectDialog } from './EmailConnectDialog';
+export { GitHubContentSettings } from './GitHubContentSettings';
 export { IntegrationCard } from './IntegrationCard';
 export type { ConnectionSummary } from './IntegrationGrid';
 export { IntegrationGrid } from './IntegrationGrid';
@@ -1,6 +1,12 @@
 import { useCallback, useState } from 'react';
 
-import { UPLOADS_EXTENSIONS, UPLOADS_LABELS, UPLOADS_MIMES } from '@grabdy/contracts';
+import {
+  ARCHIVE_EXTENSIONS,
+  resolveArchiveFormat,
+  resolveUploadsMime,
+  UPLOADS_EXTENSIONS,
+  UPLOADS_LABELS,
+} from '@grabdy/contracts';
 import { Box, Typography } from '@mui/material';
 import { UploadSimpleIcon } from '@phosphor-icons/react';
 
@@ -19,7 +25,7 @@ export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
       if (disabled) return;
 
       const file = e.dataTransfer.files[0];
-      if (file && UPLOADS_MIMES.has(file.type)) {
+      if (file && (resolveUploadsMime(file.type, file.name) || resolveArchiveFormat(file.name))) {
         onFileSelect(file);
       }
     },
@@ -69,7 +75,7 @@ export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
     >
       <input
         type="file"
-        accept={UPLOADS_EXTENSIONS}
+        accept={`${UPLOADS_EXTENSIONS},${ARCHIVE_EXTENSIONS}`}
         onChange={handleFileInput}
         disabled={disabled}
         style={{ display: 'none' }}
@@ -81,7 +87,7 @@ export function FileUpload({ onFileSelect, disabled }: FileUploadProps) {
         Drop a file here or click to browse
       </Typography>
       <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
-        {UPLOADS_LABELS}
+        {UPLOADS_LABELS}, or a ZIP / TAR.GZ archive of them
       </Typography>
     </Box>
   );
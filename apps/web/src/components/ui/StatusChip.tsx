@@ -1,6 +1,6 @@
-import { type DataSourceStatus } from '@grabdy/contracts';
+import { type DataSourceOcrStatus, type DataSourceStatus } from '@grabdy/contracts';
 import { Chip } from '@mui/material';
-import { green, grey, red } from '@mui/material/colors';
+import { amber, green, grey, red } from '@mui/material/colors';
 
 const STATUS_CONFIG: Record<DataSourceStatus, { label: string; color: string; bgColor: string }> = {
   UPLOADED: { label: 'Uploaded', color: grey[600], bgColor: grey[100] },
@@ -9,12 +9,17 @@ const STATUS_CONFIG: Record<DataSourceStatus, { label: string; color: string; bg
   FAILED: { label: 'Failed', color: red[700], bgColor: red[50] },
 };
 
+/** Shown instead of READY when some scanned pages could not be read reliably. */
+const PARTIAL_OCR_CONFIG = { label: "Partially OCR'd", color: amber[900], bgColor: amber[50] };
+
 interface StatusChipProps {
   status: DataSourceStatus;
+  ocrStatus?: DataSourceOcrStatus;
 }
 
-export function StatusChip({ status }: StatusChipProps) {
-  const config = STATUS_CONFIG[status];
+export function StatusChip({ status, ocrStatus }: StatusChipProps) {
+  const config =
+    status === 'READY' && ocrStatus === 'PARTIAL' ? PARTIAL_OCR_CONFIG : STATUS_CONFIG[status];
   return (
     <Chip
       label={config.label}
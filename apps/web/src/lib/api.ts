@@ -55,10 +55,34 @@ export function uploadDataSource(
   file: File,
   collectionId: string,
   onProgress: (pct: number) => void
+): Promise<{ status: number; body: unknown }> {
+  return uploadWithProgress(`/orgs/${orgId}/data-sources/upload`, file, collectionId, onProgress);
+}
+
+/** Upload a ZIP/TAR archive; the API unpacks it into one data source per file. */
+export function uploadArchive(
+  orgId: string,
+  file: File,
+  collectionId: string,
+  onProgress: (pct: number) => void
+): Promise<{ status: number; body: unknown }> {
+  return uploadWithProgress(
+    `/orgs/${orgId}/data-sources/upload-archive`,
+    file,
+    collectionId,
+    onProgress
+  );
+}
+
+function uploadWithProgress(
+  path: string,
+  file: File,
+  collectionId: string,
+  onProgress: (pct: number) => void
 ): Promise<{ status: number; body: unknown }> {
   return new Promise((resolve, reject) => {
     const xhr = new XMLHttpRequest();
-    xhr.open('POST', `${baseUrl}/orgs/${orgId}/data-sources/upload`);
+    xhr.open('POST', `${baseUrl}${path}`);
     xhr.withCredentials = true;
     xhr.timeout = UPLOAD_TIMEOUT_MS;
 
@@ -8,7 +8,11 @@ import { createFileRoute, useNavigate, useSearch } from '@tanstack/react-router'
 import { toast } from 'sonner';
 import { z } from 'zod';
 
-import { ConnectionDetailDrawer, IntegrationGrid } from '@/components/integrations';
+import {
+  ConnectionDetailDrawer,
+  EmailConnectDialog,
+  IntegrationGrid,
+} from '@/components/integrations';
 import type { ConnectionSummary } from '@/components/integrations/IntegrationGrid';
 import type { ProviderKey } from '@/components/integrations/ProviderIcon';
 import { DashboardPage } from '@/components/ui/DashboardPage';
@@ -31,6 +35,10 @@ const ALLOWED_PROVIDERS: readonly string[] = [
   'LINEAR',
   'GITHUB',
   'NOTION',
+  'GOOGLE_DRIVE',
+  'CONFLUENCE',
+  'JIRA',
+  'EMAIL',
 ] satisfies readonly IntegrationProvider[];
 
 function isAvailableProvider(provider: ProviderKey): provider is IntegrationProvider {
@@ -66,9 +74,9 @@ function IntegrationsPage() {
     fetchConnections();
   }, [fetchConnections]);
 
-  const handleConnect = useCallback(
-    async (provider: ProviderKey) => {
-      if (!selectedOrgId || !isAvailableProvider(provider)) return;
+  const startOAuth = useCallback(
+    async (provider: IntegrationProvider) => {
+      if (!selectedOrgId) return;
       try {
         const res = await api.integrations.connect({
           params: { orgId: selectedOrgId, provider },
@@ -83,6 +91,28 @@ function IntegrationsPage() {
     [selectedOrgId]
   );
 
+  const handleConnect = useCallback(
+    (provider: ProviderKey) => {
+      if (!isAvailableProvider(provider)) return;
+      // Email offers IMAP sign-in next to Gmail's OAuth, so it asks how to connect first
+      if (provider === 'EMAIL') {
+        pushDrawer(
+          (onClose) => (
+            <EmailConnectDialog
+              onClose={onClose}
+              onConnectGmail={() => startOAuth('EMAIL')}
+              onConnected={fetchConnections}
+            />
+          ),
+          { title: 'Connect email', mode: 'dialog', maxWidth: 'sm' }
+        );
+        return;
+      }
+      startOAuth(provider);
+    },
+    [pushDrawer, startOAuth, fetchConnections]
+  );
+
   const openDrawer = useCallback(
     (connection: ConnectionSummary) => {
       pushDrawer(
@@ -94,6 +124,7 @@ function IntegrationsPage() {
             lastSyncedAt={connection.lastSyncedAt}
             externalAccountName={connection.externalAccountName}
             syncScheduleLabel={connection.syncScheduleLabel}
+            githubContentRepos={connection.providerData.contentRepos}
             onRefresh={fetchConnections}
             onConnect={handleConnect}
           />
@@ -2,7 +2,8 @@ import type { ComponentType } from 'react';
 import { useCallback, useEffect, useState } from 'react';
 
 import { dbIdSchema } from '@grabdy/common';
-import type { DataSourceStatus, UploadsExt } from '@grabdy/contracts';
+import type { DataSourceOcr, DataSourceStatus, UploadsExt } from '@grabdy/contracts';
+import { dataSourcesContract, resolveArchiveFormat } from '@grabdy/contracts';
 import {
   Box,
   Button,
@@ -15,14 +16,20 @@ import {
 import type { IconProps } from '@phosphor-icons/react';
 import {
   ArrowsClockwiseIcon,
+  BookOpenIcon,
   DatabaseIcon,
   DownloadSimpleIcon,
   EyeIcon,
+  FileAudioIcon,
   FileCsvIcon,
   FileDocIcon,
+  FileHtmlIcon,
   FileImageIcon,
+  FileMdIcon,
   FilePdfIcon,
+  FilePptIcon,
   FileTextIcon,
+  FileVideoIcon,
   FileXlsIcon,
   PencilSimpleIcon,
   TrashIcon,
@@ -43,7 +50,7 @@ import { MainTable } from '@/components/ui/main-table';
 import { StatusChip } from '@/components/ui/StatusChip';
 import { useAuth } from '@/context/AuthContext';
 import { type DrawerProps, useDrawer } from '@/context/DrawerContext';
-import { api, uploadDataSource } from '@/lib/api';
+import { api, uploadArchive, uploadDataSource } from '@/lib/api';
 
 interface DataSource {
   id: string;
@@ -53,6 +60,7 @@ interface DataSource {
   status: DataSourceStatus;
   fileSize: number;
   pageCount: number | null;
+  ocr: DataSourceOcr | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -82,16 +90,33 @@ function relativeDate(iso: string): string {
 const ICON_BY_EXT: Record<UploadsExt, ComponentType<IconProps>> = {
   pdf: FilePdfIcon,
   csv: FileCsvIcon,
+  tsv: FileCsvIcon,
   docx: FileDocIcon,
   doc: FileDocIcon,
+  odt: FileDocIcon,
   xlsx: FileXlsIcon,
   xls: FileXlsIcon,
+  ods: FileXlsIcon,
+  pptx: FilePptIcon,
+  odp: FilePptIcon,
   txt: FileTextIcon,
   json: FileTextIcon,
+  jsonl: FileTextIcon,
   png: FileImageIcon,
   jpg: FileImageIcon,
   webp: FileImageIcon,
   gif: FileImageIcon,
+  mp3: FileAudioIcon,
+  m4a: FileAudioIcon,
+  wav: FileAudioIcon,
+  ogg: FileAudioIcon,
+  flac: FileAudioIcon,
+  mp4: FileVideoIcon,
+  mov: FileVideoIcon,
+  webm: FileVideoIcon,
+  md: FileMdIcon,
+  html: FileHtmlIcon,
+  epub: BookOpenIcon,
 };
 
 function isFileExt(ext: string): ext is UploadsExt {
@@ -175,6 +200,45 @@ function RenameDrawer({ onClose, dataSource, onRenamed }: RenameDrawerProps) {
   );
 }
 
+// ── Archive Report Drawer ──────────────────────────────────────────
+
+const archiveUploadResponseSchema = dataSourcesContract.uploadArchive.responses[200];
+
+interface ArchiveFileResult {
+  path: string;
+  status: 'UPLOADED' | 'SKIPPED' | 'FAILED';
+  error: string | null;
+}
+
+interface ArchiveReportDrawerProps extends DrawerProps {
+  files: ArchiveFileResult[];
+}
+
+/** Lists the files of an archive upload that were skipped or failed, with the reason. */
+function ArchiveReportDrawer({ files }: ArchiveReportDrawerProps) {
+  const notUploaded = files.filter((f) => f.status !== 'UPLOADED');
+  return (
+    <Box sx={{ p: 3, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <Typography variant="body2" color="text.secondary">
+        {files.length - notUploaded.length} of {files.length} files were added.
+      </Typography>
+      {notUploaded.map((f) => (
+        <Box key={f.path}>
+          <Typography variant="body2" fontWeight={500} sx={{ wordBreak: 'break-all' }}>
+            {f.path}
+          </Typography>
+          <Typography
+            variant="caption"
+            color={f.status === 'FAILED' ? 'error.main' : 'text.secondary'}
+          >
+            {f.status === 'FAILED' ? 'Failed' : 'Skipped'}: {f.error}
+          </Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
 // ── Main Page ──────────────────────────────────────────────────────
 
 function CollectionDetailPage() {
@@ -222,10 +286,39 @@ function CollectionDetailPage() {
     fetchData();
   }, [fetchData]);
 
+  const handleArchiveUpload = async (file: File) => {
+    if (!selectedOrgId) return;
+    const res = await uploadArchive(selectedOrgId, file, collectionId, setUploadProgress);
+    const parsed = archiveUploadResponseSchema.safeParse(res.body);
+    if (!parsed.success) return;
+
+    const { files } = parsed.data.data;
+    const uploaded = files.filter((f) => f.status === 'UPLOADED').length;
+    if (files.length === 0) {
+      toast.error('No supported files found in the archive');
+    } else if (uploaded === files.length) {
+      toast.success(`${uploaded} files uploaded`);
+    } else {
+      if (uploaded === 0) {
+        toast.error('No files uploaded');
+      } else {
+        toast.warning(`${uploaded} of ${files.length} files uploaded`);
+      }
+      pushDrawer((onClose) => <ArchiveReportDrawer onClose={onClose} files={files} />, {
+        title: file.name,
+      });
+    }
+    fetchData();
+  };
+
   const handleUpload = async (file: File) => {
     if (!selectedOrgId) return;
     setUploadProgress(0);
     try {
+      if (resolveArchiveFormat(file.name)) {
+        await handleArchiveUpload(file);
+        return;
+      }
       const res = await uploadDataSource(selectedOrgId, file, collectionId, setUploadProgress);
 
       if (res.status === 200) {
@@ -368,7 +461,11 @@ function CollectionDetailPage() {
       )}
 
       <Box sx={{ mb: 3 }}>
-        <FileUpload onFileSelect={handleUpload} disabled={uploadProgress !== null} uploadProgress={uploadProgress} />
+        <FileUpload
+          onFileSelect={handleUpload}
+          disabled={uploadProgress !== null}
+          uploadProgress={uploadProgress}
+        />
       </Box>
 
       {dataSources.length === 0 ? (
@@ -428,7 +525,7 @@ function CollectionDetailPage() {
                 {ds.type}
               </Typography>
             ),
-            status: (ds) => <StatusChip status={ds.status} />,
+            status: (ds) => <StatusChip status={ds.status} ocrStatus={ds.ocr?.status} />,
             size: (ds) => formatFileSize(ds.fileSize),
             uploaded: (ds) => relativeDate(ds.createdAt),
             actions: (ds) => (
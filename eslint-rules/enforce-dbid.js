@@ -49,6 +49,26 @@ const EXTERNAL_PATTERNS = [
   'notionPageId',
   'notionBlockId',
   'notionWorkspaceId',
+  'googleDriveClientId',
+  'driveFileId',
+  'driveFolderId',
+  'FolderIds',
+  'resourceId',
+  'confluenceClientId',
+  'confluenceSpaceId',
+  'confluenceContentId',
+  'confluencePageId',
+  'cloudId',
+  'gmailClientId',
+  'gmailMessageId',
+  'gmailThreadId',
+  'emailThreadId',
+  'HistoryId',
+  'labelId',
+  'LabelIds',
+  'jiraClientId',
+  'jiraIssueId',
+  'jiraCommentId',
 ];
 
 /**
@@ -17,6 +17,8 @@ export type TableIdName =
   | 'DataSource'
   | 'Chunk'
   | 'ExtractedImage'
+  | 'ReindexJob'
+  | 'DataTable'
   | 'ApiKey'
   | 'UsageLog'
   | 'ChatThread'
@@ -50,6 +52,8 @@ export const ENTITY_TYPE_MAP = {
   DataSource: 0x11,
   Chunk: 0x12,
   ExtractedImage: 0x13,
+  ReindexJob: 0x14,
+  DataTable: 0x15,
   // API
   ApiKey: 0x20,
   UsageLog: 0x21,
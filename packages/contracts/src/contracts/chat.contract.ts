@@ -28,6 +28,7 @@ const chatSourceBase = {
 export const chatSourceSchema = z.discriminatedUnion('type', [
   z.object({ ...chatSourceBase, type: z.literal('PDF'), pages: z.array(z.number()) }),
   z.object({ ...chatSourceBase, type: z.literal('DOCX'), pages: z.array(z.number()) }),
+  z.object({ ...chatSourceBase, type: z.literal('PPTX'), slides: z.array(z.number()) }),
   z.object({
     ...chatSourceBase,
     type: z.literal('XLSX'),
@@ -42,12 +43,33 @@ export const chatSourceSchema = z.discriminatedUnion('type', [
     columns: z.array(z.string()),
   }),
   z.object({ ...chatSourceBase, type: z.literal('TXT') }),
-  z.object({ ...chatSourceBase, type: z.literal('JSON') }),
+  z.object({ ...chatSourceBase, type: z.literal('MARKDOWN') }),
+  z.object({ ...chatSourceBase, type: z.literal('HTML') }),
+  z.object({
+    ...chatSourceBase,
+    type: z.literal('EPUB'),
+    chapter: z.string().nullable().optional(),
+  }),
+  z.object({
+    ...chatSourceBase,
+    type: z.literal('JSON'),
+    pointers: z.array(z.string()).optional(),
+  }),
   z.object({ ...chatSourceBase, type: z.literal('IMAGE') }),
+  z.object({
+    ...chatSourceBase,
+    type: z.literal('MEDIA'),
+    startSec: z.number().optional(),
+    endSec: z.number().optional(),
+  }),
   z.object({ ...chatSourceBase, type: z.literal('SLACK') }),
   z.object({ ...chatSourceBase, type: z.literal('LINEAR') }),
   z.object({ ...chatSourceBase, type: z.literal('GITHUB') }),
   z.object({ ...chatSourceBase, type: z.literal('NOTION') }),
+  z.object({ ...chatSourceBase, type: z.literal('GOOGLE_DRIVE') }),
+  z.object({ ...chatSourceBase, type: z.literal('CONFLUENCE') }),
+  z.object({ ...chatSourceBase, type: z.literal('JIRA') }),
+  z.object({ ...chatSourceBase, type: z.literal('EMAIL') }),
 ]);
 
 export type ChatSource = z.infer<typeof chatSourceSchema>;
@@ -2,6 +2,8 @@ import { dbIdSchema } from '@grabdy/common';
 import { initContract } from '@ts-rest/core';
 import { z } from 'zod';
 
+import { chunkingStrategyEnum } from '../enums/index.js';
+
 const c = initContract();
 
 const collectionSchema = z.object({
@@ -11,6 +13,8 @@ const collectionSchema = z.object({
   orgId: dbIdSchema('Org'),
   sourceCount: z.number(),
   chunkCount: z.number(),
+  /** Overrides the per-type default chunking strategy for sources in this collection. */
+  chunkingStrategy: chunkingStrategyEnum.nullable(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -24,6 +28,7 @@ export const collectionsContract = c.router(
       body: z.object({
         name: z.string().min(1),
         description: z.string().optional(),
+        chunkingStrategy: chunkingStrategyEnum.nullable().optional(),
       }),
       responses: {
         200: z.object({ success: z.literal(true), data: collectionSchema }),
@@ -60,6 +65,7 @@ export const collectionsContract = c.router(
       body: z.object({
         name: z.string().min(1).optional(),
         description: z.string().nullable().optional(),
+        chunkingStrategy: chunkingStrategyEnum.nullable().optional(),
       }),
       responses: {
         200: z.object({ success: z.literal(true), data: collectionSchema }),
@@ -79,6 +85,19 @@ export const collectionsContract = c.router(
         404: z.object({ success: z.literal(false), error: z.string() }),
       },
     },
+    reembed: {
+      method: 'POST',
+      path: '/orgs/:orgId/collections/:collectionId/reembed',
+      pathParams: z.object({
+        orgId: dbIdSchema('Org'),
+        collectionId: dbIdSchema('Collection'),
+      }),
+      body: z.object({}),
+      responses: {
+        200: z.object({ success: z.literal(true) }),
+        404: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
   },
   { pathPrefix: '' }
 );
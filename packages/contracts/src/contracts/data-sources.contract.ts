@@ -2,7 +2,14 @@ import { dbIdSchema } from '@grabdy/common';
 import { initContract } from '@ts-rest/core';
 import { z } from 'zod';
 
-import { dataSourceStatusEnum, dataSourceTypeEnum } from '../enums/index.js';
+import {
+  dataSourceStatusEnum,
+  dataSourceTypeEnum,
+  reindexJobStatusEnum,
+  reindexSkipReasonEnum,
+} from '../enums/index.js';
+import { dataSourceMetadataSchema } from '../schemas/data-source-metadata.js';
+import { dataSourceOcrSchema } from '../schemas/data-source-ocr.js';
 
 const c = initContract();
 
@@ -14,13 +21,48 @@ const dataSourceSchema = z.object({
   type: dataSourceTypeEnum,
   status: dataSourceStatusEnum,
   pageCount: z.number().nullable(),
+  /** OCR results for scanned PDFs; null when every page had a text layer. */
+  ocr: dataSourceOcrSchema.nullable(),
   collectionId: dbIdSchema('Collection').nullable(),
   orgId: dbIdSchema('Org'),
   uploadedById: dbIdSchema('User').nullable(),
+  metadata: dataSourceMetadataSchema,
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 
+/** What happened to one file of an uploaded archive. */
+const archiveFileResultSchema = z.object({
+  /** Path of the file inside the archive. */
+  path: z.string(),
+  status: z.enum(['UPLOADED', 'SKIPPED', 'FAILED']),
+  dataSourceId: dbIdSchema('DataSource').nullable(),
+  /** Why the file was skipped or failed. */
+  error: z.string().nullable(),
+});
+
+const reindexJobSchema = z.object({
+  id: dbIdSchema('ReindexJob'),
+  orgId: dbIdSchema('Org'),
+  collectionId: dbIdSchema('Collection').nullable(),
+  status: reindexJobStatusEnum,
+  totalSources: z.number(),
+  processedSources: z.number(),
+  failedSources: z.number(),
+  /** Sources that could not be rebuilt; `skippedReasons` counts them by reason. */
+  skippedSources: z.number(),
+  skippedReasons: z.partialRecord(reindexSkipReasonEnum, z.number()),
+  error: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  completedAt: z.string().nullable(),
+});
+
+const reindexJobPathParams = z.object({
+  orgId: dbIdSchema('Org'),
+  reindexJobId: dbIdSchema('ReindexJob'),
+});
+
 export const dataSourcesContract = c.router(
   {
     upload: {
@@ -32,12 +74,38 @@ export const dataSourcesContract = c.router(
         file: z.any(),
         name: z.string().optional(),
         collectionId: z.string().optional(),
+        /** JSON-encoded `DataSourceMetadata` object. */
+        metadata: z.string().optional(),
       }),
       responses: {
         200: z.object({ success: z.literal(true), data: dataSourceSchema }),
         400: z.object({ success: z.literal(false), error: z.string() }),
       },
     },
+    uploadArchive: {
+      method: 'POST',
+      path: '/orgs/:orgId/data-sources/upload-archive',
+      pathParams: z.object({ orgId: dbIdSchema('Org') }),
+      contentType: 'multipart/form-data',
+      body: z.object({
+        file: z.any(),
+        collectionId: z.string().optional(),
+        /** "true" to put each top-level folder in a collection of the same name, created if missing. */
+        foldersAsCollections: z.string().optional(),
+        /** JSON-encoded `DataSourceMetadata` object, applied to every file. */
+        metadata: z.string().optional(),
+      }),
+      responses: {
+        200: z.object({
+          success: z.literal(true),
+          data: z.object({
+            dataSources: z.array(dataSourceSchema),
+            files: z.array(archiveFileResultSchema),
+          }),
+        }),
+        400: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
     list: {
       method: 'GET',
       path: '/orgs/:orgId/data-sources',
@@ -100,6 +168,19 @@ export const dataSourcesContract = c.router(
         404: z.object({ success: z.literal(false), error: z.string() }),
       },
     },
+    updateMetadata: {
+      method: 'PUT',
+      path: '/orgs/:orgId/data-sources/:id/metadata',
+      pathParams: z.object({
+        orgId: dbIdSchema('Org'),
+        id: dbIdSchema('DataSource'),
+      }),
+      body: z.object({ metadata: dataSourceMetadataSchema }),
+      responses: {
+        200: z.object({ success: z.literal(true), data: dataSourceSchema }),
+        404: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
     previewUrl: {
       method: 'GET',
       path: '/orgs/:orgId/data-sources/:id/preview-url',
@@ -119,6 +200,80 @@ export const dataSourcesContract = c.router(
         404: z.object({ success: z.literal(false), error: z.string() }),
       },
     },
+    imageUrl: {
+      method: 'GET',
+      path: '/orgs/:orgId/data-sources/:id/images/:imageId/url',
+      pathParams: z.object({
+        orgId: dbIdSchema('Org'),
+        id: dbIdSchema('DataSource'),
+        imageId: dbIdSchema('ExtractedImage'),
+      }),
+      responses: {
+        200: z.object({
+          success: z.literal(true),
+          data: z.object({
+            url: z.string(),
+            mimeType: z.string(),
+            page: z.number().nullable(),
+            description: z.string().nullable(),
+          }),
+        }),
+        404: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
+    startReindex: {
+      method: 'POST',
+      path: '/orgs/:orgId/reindex-jobs',
+      pathParams: z.object({ orgId: dbIdSchema('Org') }),
+      body: z.object({
+        /** Reindex a single collection; omit to reindex the whole org. */
+        collectionId: dbIdSchema('Collection').optional(),
+      }),
+      responses: {
+        200: z.object({ success: z.literal(true), data: reindexJobSchema }),
+        400: z.object({ success: z.literal(false), error: z.string() }),
+        404: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
+    listReindexJobs: {
+      method: 'GET',
+      path: '/orgs/:orgId/reindex-jobs',
+      pathParams: z.object({ orgId: dbIdSchema('Org') }),
+      responses: {
+        200: z.object({ success: z.literal(true), data: z.array(reindexJobSchema) }),
+      },
+    },
+    getReindexJob: {
+      method: 'GET',
+      path: '/orgs/:orgId/reindex-jobs/:reindexJobId',
+      pathParams: reindexJobPathParams,
+      responses: {
+        200: z.object({ success: z.literal(true), data: reindexJobSchema }),
+        404: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
+    cancelReindexJob: {
+      method: 'POST',
+      path: '/orgs/:orgId/reindex-jobs/:reindexJobId/cancel',
+      pathParams: reindexJobPathParams,
+      body: z.object({}),
+      responses: {
+        200: z.object({ success: z.literal(true), data: reindexJobSchema }),
+        400: z.object({ success: z.literal(false), error: z.string() }),
+        404: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
+    resumeReindexJob: {
+      method: 'POST',
+      path: '/orgs/:orgId/reindex-jobs/:reindexJobId/resume',
+      pathParams: reindexJobPathParams,
+      body: z.object({}),
+      responses: {
+        200: z.object({ success: z.literal(true), data: reindexJobSchema }),
+        400: z.object({ success: z.literal(false), error: z.string() }),
+        404: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
   },
   { pathPrefix: '' }
 );
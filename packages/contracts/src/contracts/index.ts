@@ -49,14 +49,33 @@ export {
   sharedChatSnapshotSchema,
 } from './shared-chats.contract.js';
 export {
+  conversationHistoryResponseSchema,
+  conversationMessageResponseSchema,
+  conversationResponseSchema,
+  createConversationBodySchema,
+  dataSourceResponseSchema,
+  deleteConversationResponseSchema,
+  deleteDataSourceResponseSchema,
+  documentMessageSchema,
   listCollectionsResponseSchema,
+  listDataSourcesQuerySchema,
+  listDataSourcesResponseSchema,
   publicApiErrorSchema,
   publicCollectionSchema,
+  publicConversationMessageSchema,
+  publicConversationSchema,
+  publicDataSourceSchema,
   publicSourceSchema,
   queryBodySchema,
   queryResponseSchema,
+  type QueryStreamEvent,
+  queryStreamEventSchema,
   searchBodySchema,
   searchResponseSchema,
+  sendConversationMessageBodySchema,
+  updateDataSourceMetadataBodySchema,
+  uploadDataSourceBodySchema,
+  upsertDocumentBodySchema,
 } from './public-api.contract.js';
 
 export type Contract = typeof contract;
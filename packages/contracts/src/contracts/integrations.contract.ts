@@ -3,6 +3,7 @@ import { initContract } from '@ts-rest/core';
 import { z } from 'zod';
 
 import { connectionStatusEnum, integrationProviderEnum } from '../enums/index.js';
+import { githubContentRepoSchema } from '../schemas/github-content.js';
 
 const c = initContract();
 
@@ -23,6 +24,7 @@ const linearProviderDataSchema = z.object({
 const githubProviderDataSchema = z.object({
   provider: z.literal('GITHUB'),
   installationOwner: z.string().optional(),
+  contentRepos: z.array(githubContentRepoSchema).max(20).optional(),
   lastSyncedAt: z.string().nullable(),
 });
 
@@ -33,11 +35,44 @@ const notionProviderDataSchema = z.object({
   lastSyncedAt: z.string().nullable(),
 });
 
+const googleDriveProviderDataSchema = z.object({
+  provider: z.literal('GOOGLE_DRIVE'),
+  userEmail: z.string().optional(),
+  selectedFolderIds: z.array(z.string()).optional(),
+  lastSyncedAt: z.string().nullable(),
+});
+
+const confluenceProviderDataSchema = z.object({
+  provider: z.literal('CONFLUENCE'),
+  siteUrl: z.string().optional(),
+  selectedSpaceKeys: z.array(z.string()).optional(),
+  lastSyncedAt: z.string().nullable(),
+});
+
+const jiraProviderDataSchema = z.object({
+  provider: z.literal('JIRA'),
+  siteUrl: z.string().optional(),
+  selectedProjectKeys: z.array(z.string()).optional(),
+  lastSyncedAt: z.string().nullable(),
+});
+
+const emailProviderDataSchema = z.object({
+  provider: z.literal('EMAIL'),
+  mode: z.enum(['GMAIL', 'IMAP']),
+  address: z.string().optional(),
+  selectedMailboxes: z.array(z.string()).optional(),
+  lastSyncedAt: z.string().nullable(),
+});
+
 const providerDataSchema = z.discriminatedUnion('provider', [
   slackProviderDataSchema,
   linearProviderDataSchema,
   githubProviderDataSchema,
   notionProviderDataSchema,
+  googleDriveProviderDataSchema,
+  confluenceProviderDataSchema,
+  jiraProviderDataSchema,
+  emailProviderDataSchema,
 ]);
 
 const partialProviderDataSchema = z.union([
@@ -45,6 +80,10 @@ const partialProviderDataSchema = z.union([
   linearProviderDataSchema.partial(),
   githubProviderDataSchema.partial(),
   notionProviderDataSchema.partial(),
+  googleDriveProviderDataSchema.partial(),
+  confluenceProviderDataSchema.partial(),
+  jiraProviderDataSchema.partial(),
+  emailProviderDataSchema.partial(),
 ]);
 
 const connectionSchema = z.object({
@@ -89,6 +128,23 @@ export const integrationsContract = c.router(
         400: z.object({ success: z.literal(false), error: z.string() }),
       },
     },
+    connectImap: {
+      method: 'POST',
+      path: '/orgs/:orgId/integrations/EMAIL/imap',
+      pathParams: z.object({ orgId: dbIdSchema('Org') }),
+      body: z.object({
+        host: z.string().min(1),
+        port: z.number().int().min(1).max(65535),
+        /** TLS from the start (usually port 993); otherwise STARTTLS is used when offered. */
+        secure: z.boolean(),
+        username: z.string().min(1),
+        password: z.string().min(1),
+      }),
+      responses: {
+        200: z.object({ success: z.literal(true) }),
+        400: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
     disconnect: {
       method: 'POST',
       path: '/orgs/:orgId/integrations/:provider/disconnect',
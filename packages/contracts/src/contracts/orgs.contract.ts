@@ -2,13 +2,14 @@ import { dbIdSchema } from '@grabdy/common';
 import { initContract } from '@ts-rest/core';
 import { z } from 'zod';
 
-import { orgRoleEnum } from '../enums/index.js';
+import { embeddingModelEnum, orgRoleEnum } from '../enums/index.js';
 
 const c = initContract();
 
 const orgSchema = z.object({
   id: dbIdSchema('Org'),
   name: z.string(),
+  embeddingModel: embeddingModelEnum,
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -64,6 +65,17 @@ export const orgsContract = c.router(
         404: z.object({ success: z.literal(false), error: z.string() }),
       },
     },
+    updateEmbeddingModel: {
+      method: 'PUT',
+      path: '/orgs/:orgId/embedding-model',
+      pathParams: z.object({ orgId: dbIdSchema('Org') }),
+      body: z.object({ model: embeddingModelEnum }),
+      responses: {
+        200: z.object({ success: z.literal(true), data: orgSchema }),
+        400: z.object({ success: z.literal(false), error: z.string() }),
+        404: z.object({ success: z.literal(false), error: z.string() }),
+      },
+    },
     invite: {
       method: 'POST',
       path: '/orgs/:orgId/invite',
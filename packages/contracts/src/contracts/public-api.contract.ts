@@ -2,7 +2,10 @@ import { dbIdSchema } from '@grabdy/common';
 import { initContract } from '@ts-rest/core';
 import { z } from 'zod';
 
+import { contentLanguageEnum, dataSourceStatusEnum, dataSourceTypeEnum } from '../enums/index.js';
 import { chunkMetaSchema } from '../schemas/chunk-meta.js';
+import { dataSourceMetadataSchema } from '../schemas/data-source-metadata.js';
+import { metadataFilterSchema } from '../schemas/metadata-filter.js';
 
 const c = initContract();
 
@@ -16,6 +19,9 @@ export const publicSourceSchema = z.object({
     name: z.string().describe('Data source file name'),
   }),
   metadata: chunkMetaSchema.nullable().describe('Chunk metadata (page number, section, etc.)'),
+  customMetadata: dataSourceMetadataSchema.describe(
+    'Custom metadata of the data source the chunk belongs to'
+  ),
 });
 
 export const publicCollectionSchema = z.object({
@@ -28,6 +34,26 @@ export const publicCollectionSchema = z.object({
   updatedAt: z.string().describe('ISO 8601 timestamp'),
 });
 
+export const publicDataSourceSchema = z.object({
+  id: z.string().describe('Data source ID'),
+  name: z.string().describe('Data source name (defaults to the uploaded file name)'),
+  mimeType: z.string().describe('MIME type of the uploaded file'),
+  fileSize: z.number().describe('File size in bytes'),
+  type: dataSourceTypeEnum.describe('Data source type (PDF, CSV, DOCX, ...)'),
+  status: dataSourceStatusEnum.describe(
+    'Processing status — UPLOADED and PROCESSING sources are not searchable yet'
+  ),
+  pageCount: z.number().nullable().describe('Number of pages (or chunks) once processed'),
+  collectionId: z.string().nullable().describe('Collection the data source belongs to'),
+  externalId: z
+    .string()
+    .nullable()
+    .describe('Your ID for documents ingested via /v1/documents, null for file uploads'),
+  metadata: dataSourceMetadataSchema.describe('Custom key/value metadata'),
+  createdAt: z.string().describe('ISO 8601 timestamp'),
+  updatedAt: z.string().describe('ISO 8601 timestamp'),
+});
+
 export const publicApiErrorSchema = z.object({
   success: z.literal(false),
   error: z.object({
@@ -36,14 +62,52 @@ export const publicApiErrorSchema = z.object({
   }),
 });
 
+const publicUsageSchema = z
+  .object({
+    promptTokens: z.number().describe('Number of input tokens'),
+    completionTokens: z.number().describe('Number of output tokens'),
+    totalTokens: z.number().describe('Total tokens used'),
+  })
+  .describe('Token usage for this request');
+
 // ── Request / Response schemas ──────────────────────────────────
 
+/** Result filters shared by /v1/search and /v1/query. */
+const searchFilterFields = {
+  filters: z
+    .array(metadataFilterSchema)
+    .optional()
+    .describe(
+      'Chunk metadata filters, combined with AND — e.g. { "field": "type", "operator": "eq", "value": "LINEAR" } ' +
+        'or, for custom data source metadata, { "field": "custom.department", "operator": "eq", "value": "legal" }. ' +
+        'Operators: eq, neq, in, gt, lt, contains, exists; compose with { "and": [...] }, { "or": [...] }, { "not": {...} }'
+    ),
+  dataSourceIds: z
+    .array(dbIdSchema('DataSource'))
+    .optional()
+    .describe('Limit search to specific data sources'),
+  dateRange: z
+    .object({
+      from: z.iso.datetime({ offset: true }).optional().describe('ISO 8601 start (inclusive)'),
+      to: z.iso.datetime({ offset: true }).optional().describe('ISO 8601 end (inclusive)'),
+    })
+    .optional()
+    .describe('Only include content indexed within this time range'),
+  language: contentLanguageEnum
+    .optional()
+    .describe(
+      'Only include content detected as this language (ISO 639-1 code), and stem the query in it. ' +
+        'By default the query language is detected and content in every language is searched'
+    ),
+};
+
 export const searchBodySchema = z.object({
   query: z.string().min(1).describe('The search query'),
   collectionIds: z
     .array(dbIdSchema('Collection'))
     .optional()
     .describe('Limit search to specific collections'),
+  ...searchFilterFields,
   topK: z.number().min(1).max(50).default(10).describe('Number of results to return (default: 10)'),
   rerank: z
     .boolean()
@@ -73,6 +137,7 @@ export const queryBodySchema = z.object({
     .array(dbIdSchema('Collection'))
     .optional()
     .describe('Limit search to specific collections'),
+  ...searchFilterFields,
   topK: z
     .number()
     .min(1)
@@ -87,21 +152,192 @@ export const queryResponseSchema = z.object({
     answer: z.string().describe('AI-generated answer based on the retrieved sources'),
     sources: z.array(publicSourceSchema).describe('Source chunks used to generate the answer'),
     model: z.string().describe('The model used to generate the answer'),
-    usage: z
-      .object({
-        promptTokens: z.number().describe('Number of input tokens'),
-        completionTokens: z.number().describe('Number of output tokens'),
-        totalTokens: z.number().describe('Total tokens used'),
-      })
-      .describe('Token usage for this request'),
+    usage: publicUsageSchema,
   }),
 });
 
+/**
+ * Events emitted by `POST /v1/query/stream`. The endpoint uses raw Express SSE
+ * (ts-rest doesn't support streaming), so it is not part of `publicApiContract`.
+ * Each SSE message carries the event `type` as its `event:` name and the
+ * JSON-encoded event as its `data:` line.
+ */
+export const queryStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('progress'),
+    stage: z.enum(['searching', 'retrieved']),
+    query: z.string().describe('The search query the agent issued against your data'),
+    resultCount: z.number().optional().describe('Number of chunks found (retrieved stage only)'),
+  }),
+  z.object({
+    type: z.literal('thinking'),
+    text: z.string().describe('Incremental model reasoning, when the model exposes it'),
+  }),
+  z.object({
+    type: z.literal('text'),
+    text: z.string().describe('Incremental answer text — concatenate to build the answer'),
+  }),
+  z.object({
+    type: z.literal('done'),
+    sources: z.array(publicSourceSchema).describe('Source chunks used to generate the answer'),
+    model: z.string().describe('The model used to generate the answer'),
+    usage: publicUsageSchema,
+  }),
+  z.object({
+    type: z.literal('error'),
+    error: publicApiErrorSchema.shape.error,
+  }),
+]);
+
+export type QueryStreamEvent = z.infer<typeof queryStreamEventSchema>;
+
 export const listCollectionsResponseSchema = z.object({
   success: z.literal(true),
   data: z.array(publicCollectionSchema),
 });
 
+export const uploadDataSourceBodySchema = z.object({
+  file: z.any().meta({ type: 'string', format: 'binary', description: 'The file to upload' }),
+  name: z.string().optional().describe('Display name (defaults to the file name)'),
+  collectionId: z.string().optional().describe('Collection to add the data source to'),
+  metadata: z
+    .string()
+    .optional()
+    .describe('Custom key/value metadata as a JSON object, e.g. {"department":"legal"}'),
+});
+
+export const listDataSourcesQuerySchema = z.object({
+  collectionId: dbIdSchema('Collection')
+    .optional()
+    .describe('Only return sources in this collection'),
+  status: dataSourceStatusEnum.optional().describe('Only return sources with this status'),
+  page: z.coerce.number().min(1).default(1).describe('Page number, starting at 1 (default: 1)'),
+  limit: z.coerce
+    .number()
+    .min(1)
+    .max(100)
+    .default(20)
+    .describe('Number of sources per page (default: 20, max: 100)'),
+});
+
+export const dataSourceResponseSchema = z.object({
+  success: z.literal(true),
+  data: publicDataSourceSchema,
+});
+
+export const listDataSourcesResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    items: z.array(publicDataSourceSchema).describe('Data sources, newest first'),
+    total: z.number().describe('Total number of data sources matching the filters'),
+    page: z.number().describe('Current page'),
+    limit: z.number().describe('Page size'),
+  }),
+});
+
+export const deleteDataSourceResponseSchema = z.object({
+  success: z.literal(true),
+});
+
+export const updateDataSourceMetadataBodySchema = z.object({
+  metadata: dataSourceMetadataSchema.describe(
+    'Replaces all custom metadata. Filter on it in search with fields like "custom.department".'
+  ),
+});
+
+const dataSourcePathParams = z.object({ id: dbIdSchema('DataSource') });
+
+export const documentMessageSchema = z.object({
+  content: z.string().min(1).describe('Message text'),
+  author: z.string().optional().describe('Who wrote the message (name or email)'),
+  timestamp: z.string().optional().describe('ISO 8601 timestamp of the message'),
+  sourceUrl: z.string().optional().describe('Link to this message in the source system'),
+});
+
+export const upsertDocumentBodySchema = z
+  .object({
+    externalId: z
+      .string()
+      .min(1)
+      .max(255)
+      .describe('Your stable ID for the document. Sending the same ID again replaces it.'),
+    title: z.string().min(1).max(255).describe('Document title'),
+    content: z.string().min(1).optional().describe('Plain text or Markdown content'),
+    messages: z
+      .array(documentMessageSchema)
+      .min(1)
+      .optional()
+      .describe('Conversation messages (e.g. a support ticket thread), in chronological order'),
+    sourceUrl: z.string().optional().describe('Link to the document in the source system'),
+    collectionId: dbIdSchema('Collection').optional().describe('Collection to add the document to'),
+    metadata: dataSourceMetadataSchema.optional().describe('Custom key/value metadata'),
+  })
+  .refine((body) => (body.content === undefined) !== (body.messages === undefined), {
+    message: 'Provide exactly one of content or messages',
+    path: ['content'],
+  });
+
+const documentPathParams = z.object({
+  externalId: z.string().min(1).describe('The externalId the document was ingested with'),
+});
+
+export const publicConversationSchema = z.object({
+  id: z.string().describe('Conversation ID'),
+  title: z.string().nullable().describe('Conversation title (defaults to the first message)'),
+  collectionId: z.string().nullable().describe('Collection the conversation searches'),
+  createdAt: z.string().describe('ISO 8601 timestamp'),
+  updatedAt: z.string().describe('ISO 8601 timestamp'),
+});
+
+export const publicConversationMessageSchema = z.object({
+  id: z.string().describe('Message ID'),
+  role: z.enum(['user', 'assistant']).describe('Who sent the message'),
+  content: z.string().describe('Message text'),
+  createdAt: z.string().describe('ISO 8601 timestamp'),
+});
+
+export const createConversationBodySchema = z.object({
+  title: z.string().min(1).max(255).optional().describe('Conversation title'),
+  collectionId: dbIdSchema('Collection')
+    .optional()
+    .describe('Limit every answer in this conversation to one collection'),
+});
+
+export const conversationResponseSchema = z.object({
+  success: z.literal(true),
+  data: publicConversationSchema,
+});
+
+export const conversationHistoryResponseSchema = z.object({
+  success: z.literal(true),
+  data: publicConversationSchema.extend({
+    messages: z.array(publicConversationMessageSchema).describe('Messages, oldest first'),
+  }),
+});
+
+export const sendConversationMessageBodySchema = z.object({
+  message: z.string().min(1).describe('The next question in the conversation'),
+  topK: z
+    .number()
+    .min(1)
+    .max(50)
+    .default(10)
+    .describe('Number of source chunks to retrieve (default: 10)'),
+});
+
+export const conversationMessageResponseSchema = z.object({
+  success: z.literal(true),
+  data: queryResponseSchema.shape.data.extend({
+    conversationId: z.string().describe('Conversation ID'),
+  }),
+});
+
+export const deleteConversationResponseSchema = z.object({
+  success: z.literal(true),
+});
+
+const conversationPathParams = z.object({ id: dbIdSchema('ChatThread') });
+
 // ── Contract ────────────────────────────────────────────────────
 
 export const publicApiContract = c.router(
@@ -121,6 +357,7 @@ export const publicApiContract = c.router(
       },
       metadata: {
         openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Search'],
       },
     },
     query: {
@@ -129,7 +366,8 @@ export const publicApiContract = c.router(
       summary: 'Query your data with AI',
       description:
         'Searches your uploaded data for relevant context and generates an AI answer based on the results. ' +
-        'Returns both the answer and the source documents used.',
+        'Returns both the answer and the source documents used. ' +
+        'Use POST /v1/query/stream to receive the answer incrementally as Server-Sent Events.',
       body: queryBodySchema,
       responses: {
         200: queryResponseSchema,
@@ -138,6 +376,7 @@ export const publicApiContract = c.router(
       },
       metadata: {
         openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Query'],
       },
     },
     listCollections: {
@@ -151,6 +390,224 @@ export const publicApiContract = c.router(
       },
       metadata: {
         openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Collections'],
+      },
+    },
+    uploadDataSource: {
+      method: 'POST',
+      path: '/v1/data-sources',
+      summary: 'Upload a data source',
+      description:
+        'Uploads a file and queues it for processing. The returned data source starts in the UPLOADED ' +
+        'status and becomes searchable once it reaches READY — poll `GET /v1/data-sources/{id}` to track it.',
+      contentType: 'multipart/form-data',
+      body: uploadDataSourceBodySchema,
+      responses: {
+        200: dataSourceResponseSchema,
+        400: publicApiErrorSchema,
+        401: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Data Sources'],
+      },
+    },
+    listDataSources: {
+      method: 'GET',
+      path: '/v1/data-sources',
+      summary: 'List data sources',
+      description:
+        'Returns the data sources in your organization, newest first. ' +
+        'Filter by collection or processing status and page through the results.',
+      query: listDataSourcesQuerySchema,
+      responses: {
+        200: listDataSourcesResponseSchema,
+        400: publicApiErrorSchema,
+        401: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Data Sources'],
+      },
+    },
+    getDataSource: {
+      method: 'GET',
+      path: '/v1/data-sources/:id',
+      summary: 'Get a data source',
+      description: 'Returns a single data source, including its processing status.',
+      pathParams: dataSourcePathParams,
+      responses: {
+        200: dataSourceResponseSchema,
+        401: publicApiErrorSchema,
+        404: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Data Sources'],
+      },
+    },
+    deleteDataSource: {
+      method: 'DELETE',
+      path: '/v1/data-sources/:id',
+      summary: 'Delete a data source',
+      description: 'Deletes a data source, its indexed chunks and the stored file.',
+      pathParams: dataSourcePathParams,
+      body: z.object({}),
+      responses: {
+        200: deleteDataSourceResponseSchema,
+        401: publicApiErrorSchema,
+        404: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Data Sources'],
+      },
+    },
+    reprocessDataSource: {
+      method: 'POST',
+      path: '/v1/data-sources/:id/reprocess',
+      summary: 'Reprocess a data source',
+      description:
+        'Drops the indexed chunks of a data source and queues it for extraction and embedding again.',
+      pathParams: dataSourcePathParams,
+      body: z.object({}),
+      responses: {
+        200: dataSourceResponseSchema,
+        400: publicApiErrorSchema,
+        401: publicApiErrorSchema,
+        404: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Data Sources'],
+      },
+    },
+    updateDataSourceMetadata: {
+      method: 'PUT',
+      path: '/v1/data-sources/:id/metadata',
+      summary: 'Update data source metadata',
+      description:
+        'Replaces the custom key/value metadata of a data source (e.g. department, region, confidentiality). ' +
+        'The new metadata applies to its indexed chunks immediately, without reprocessing.',
+      pathParams: dataSourcePathParams,
+      body: updateDataSourceMetadataBodySchema,
+      responses: {
+        200: dataSourceResponseSchema,
+        400: publicApiErrorSchema,
+        401: publicApiErrorSchema,
+        404: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Data Sources'],
+      },
+    },
+    upsertDocument: {
+      method: 'POST',
+      path: '/v1/documents',
+      summary: 'Ingest a document',
+      description:
+        'Ingests text content or a conversation without uploading a file — e.g. CMS articles or support tickets. ' +
+        'Documents are keyed by `externalId`: sending an existing ID replaces the previous version (200), ' +
+        'a new ID creates a data source (201).',
+      body: upsertDocumentBodySchema,
+      responses: {
+        200: dataSourceResponseSchema,
+        201: dataSourceResponseSchema,
+        400: publicApiErrorSchema,
+        401: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Documents'],
+      },
+    },
+    deleteDocument: {
+      method: 'DELETE',
+      path: '/v1/documents/:externalId',
+      summary: 'Delete a document',
+      description: 'Deletes a document ingested via /v1/documents, along with its indexed chunks.',
+      pathParams: documentPathParams,
+      body: z.object({}),
+      responses: {
+        200: deleteDataSourceResponseSchema,
+        401: publicApiErrorSchema,
+        404: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Documents'],
+      },
+    },
+    createConversation: {
+      method: 'POST',
+      path: '/v1/conversations',
+      summary: 'Start a conversation',
+      description:
+        'Creates a multi-turn conversation. Messages posted to it are answered with the previous ' +
+        'turns as context, so follow-up questions work the same way they do in the web chat.',
+      body: createConversationBodySchema,
+      responses: {
+        201: conversationResponseSchema,
+        400: publicApiErrorSchema,
+        401: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Conversations'],
+      },
+    },
+    getConversation: {
+      method: 'GET',
+      path: '/v1/conversations/:id',
+      summary: 'Get a conversation',
+      description: 'Returns a conversation with its full message history.',
+      pathParams: conversationPathParams,
+      responses: {
+        200: conversationHistoryResponseSchema,
+        401: publicApiErrorSchema,
+        404: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Conversations'],
+      },
+    },
+    sendConversationMessage: {
+      method: 'POST',
+      path: '/v1/conversations/:id/messages',
+      summary: 'Send a message',
+      description:
+        'Asks a question within a conversation. The answer takes earlier messages into account ' +
+        'and returns the source documents used, like /v1/query.',
+      pathParams: conversationPathParams,
+      body: sendConversationMessageBodySchema,
+      responses: {
+        200: conversationMessageResponseSchema,
+        400: publicApiErrorSchema,
+        401: publicApiErrorSchema,
+        404: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Conversations'],
+      },
+    },
+    deleteConversation: {
+      method: 'DELETE',
+      path: '/v1/conversations/:id',
+      summary: 'Delete a conversation',
+      description: 'Deletes a conversation and its message history.',
+      pathParams: conversationPathParams,
+      body: z.object({}),
+      responses: {
+        200: deleteConversationResponseSchema,
+        401: publicApiErrorSchema,
+        404: publicApiErrorSchema,
+      },
+      metadata: {
+        openApiSecurity: [{ BearerAuth: [] }],
+        openApiTags: ['Conversations'],
       },
     },
   },
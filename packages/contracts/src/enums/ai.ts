@@ -1,3 +1,7 @@
+import { z } from 'zod';
+
+import { EMBEDDING_MODELS, type EmbeddingModelId } from '../models.js';
+
 export const AiCallerType = {
   MEMBER: 'MEMBER',
   SYSTEM: 'SYSTEM',
@@ -29,3 +33,7 @@ export const StreamBlock = {
   SOURCES: 'sources',
 } as const;
 export type StreamBlock = (typeof StreamBlock)[keyof typeof StreamBlock];
+
+export const embeddingModelEnum = z.enum(
+  Object.keys(EMBEDDING_MODELS) as [EmbeddingModelId, ...EmbeddingModelId[]]
+);
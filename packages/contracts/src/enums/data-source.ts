@@ -16,6 +16,57 @@ export type DataSourceStatus = (typeof DataSourceStatus)[keyof typeof DataSource
 
 export const dataSourceStatusEnum = z.enum(objectValues(DataSourceStatus));
 
+/**
+ * Outcome of OCR on a scanned document. COMPLETE when every page without a text
+ * layer was read; PARTIAL when some could not be read or were read with low
+ * confidence, so parts of the document may be missing from search.
+ */
+export const DataSourceOcrStatus = {
+  COMPLETE: 'COMPLETE',
+  PARTIAL: 'PARTIAL',
+} as const;
+export type DataSourceOcrStatus = (typeof DataSourceOcrStatus)[keyof typeof DataSourceOcrStatus];
+
+export const dataSourceOcrStatusEnum = z.enum(objectValues(DataSourceOcrStatus));
+
+export const ReindexJobStatus = {
+  QUEUED: 'QUEUED',
+  RUNNING: 'RUNNING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED',
+  CANCELLED: 'CANCELLED',
+} as const;
+export type ReindexJobStatus = (typeof ReindexJobStatus)[keyof typeof ReindexJobStatus];
+
+export const reindexJobStatusEnum = z.enum(objectValues(ReindexJobStatus));
+
+/**
+ * Why a reindex left a source as it was. NO_STORED_TEXT: a synced item or pushed
+ * document indexed before its text was kept, rebuilt when its source sends it
+ * again. UNSUPPORTED_FILE: a stored file of a type that is no longer extracted.
+ */
+export const ReindexSkipReason = {
+  NO_STORED_TEXT: 'NO_STORED_TEXT',
+  UNSUPPORTED_FILE: 'UNSUPPORTED_FILE',
+} as const;
+export type ReindexSkipReason = (typeof ReindexSkipReason)[keyof typeof ReindexSkipReason];
+
+export const reindexSkipReasonEnum = z.enum(objectValues(ReindexSkipReason));
+
+/**
+ * How extracted text is split into chunks. RECURSIVE splits on paragraphs, lines
+ * and sentences; MARKDOWN and HTML follow the document's headings and keep code
+ * blocks and tables whole.
+ */
+export const ChunkingStrategy = {
+  RECURSIVE: 'RECURSIVE',
+  MARKDOWN: 'MARKDOWN',
+  HTML: 'HTML',
+} as const;
+export type ChunkingStrategy = (typeof ChunkingStrategy)[keyof typeof ChunkingStrategy];
+
+export const chunkingStrategyEnum = z.enum(objectValues(ChunkingStrategy));
+
 // ── DataSourceType ──────────────────────────────────────────────────
 // Derived from UPLOADS_FILE_TYPES (upload types) + IntegrationProvider
 // (integration types). Adding a new file type to UPLOADS_FILE_TYPES or
@@ -4,3 +4,4 @@ export * from './data-source.js';
 export * from './integration.js';
 export * from './ai.js';
 export * from './uploads.js';
+export * from './language.js';
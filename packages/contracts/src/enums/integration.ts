@@ -7,6 +7,10 @@ export const IntegrationProvider = {
   LINEAR: 'LINEAR',
   GITHUB: 'GITHUB',
   NOTION: 'NOTION',
+  GOOGLE_DRIVE: 'GOOGLE_DRIVE',
+  CONFLUENCE: 'CONFLUENCE',
+  JIRA: 'JIRA',
+  EMAIL: 'EMAIL',
 } as const;
 export type IntegrationProvider = (typeof IntegrationProvider)[keyof typeof IntegrationProvider];
 
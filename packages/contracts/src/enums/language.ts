@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+import { objectValues } from './helpers.js';
+
+/**
+ * Languages detected in indexed text, as ISO 639-1 codes. Each has a PostgreSQL
+ * text-search configuration, so full-text search stems chunks in their own
+ * language. Text in any other language is indexed with the English one.
+ */
+export const ContentLanguage = {
+  EN: 'en',
+  DE: 'de',
+  FR: 'fr',
+  ES: 'es',
+  IT: 'it',
+  PT: 'pt',
+  NL: 'nl',
+  SV: 'sv',
+  DA: 'da',
+  NO: 'no',
+  FI: 'fi',
+  RU: 'ru',
+} as const;
+export type ContentLanguage = (typeof ContentLanguage)[keyof typeof ContentLanguage];
+
+export const contentLanguageEnum = z.enum(objectValues(ContentLanguage));
@@ -14,6 +14,7 @@ interface UploadFileType {
 export const UPLOADS_FILE_TYPES = [
   { mime: 'application/pdf', ext: 'pdf', type: 'PDF', label: 'PDF' },
   { mime: 'text/csv', ext: 'csv', type: 'CSV', label: 'CSV' },
+  { mime: 'text/tab-separated-values', ext: 'tsv', type: 'CSV', label: 'TSV' },
   {
     mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
     ext: 'docx',
@@ -21,6 +22,7 @@ export const UPLOADS_FILE_TYPES = [
     label: 'DOCX',
   },
   { mime: 'application/msword', ext: 'doc', type: 'DOCX', label: 'DOC' },
+  { mime: 'application/vnd.oasis.opendocument.text', ext: 'odt', type: 'DOCX', label: 'ODT' },
   {
     mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
     ext: 'xlsx',
@@ -28,12 +30,42 @@ export const UPLOADS_FILE_TYPES = [
     label: 'XLSX',
   },
   { mime: 'application/vnd.ms-excel', ext: 'xls', type: 'XLSX', label: 'XLS' },
+  {
+    mime: 'application/vnd.oasis.opendocument.spreadsheet',
+    ext: 'ods',
+    type: 'XLSX',
+    label: 'ODS',
+  },
+  {
+    mime: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ext: 'pptx',
+    type: 'PPTX',
+    label: 'PPTX',
+  },
+  {
+    mime: 'application/vnd.oasis.opendocument.presentation',
+    ext: 'odp',
+    type: 'PPTX',
+    label: 'ODP',
+  },
   { mime: 'text/plain', ext: 'txt', type: 'TXT', label: 'TXT' },
   { mime: 'application/json', ext: 'json', type: 'JSON', label: 'JSON' },
+  { mime: 'application/x-ndjson', ext: 'jsonl', type: 'JSON', label: 'JSONL' },
+  { mime: 'text/markdown', ext: 'md', type: 'MARKDOWN', label: 'Markdown' },
+  { mime: 'text/html', ext: 'html', type: 'HTML', label: 'HTML' },
+  { mime: 'application/epub+zip', ext: 'epub', type: 'EPUB', label: 'EPUB' },
   { mime: 'image/png', ext: 'png', type: 'IMAGE', label: 'PNG' },
   { mime: 'image/jpeg', ext: 'jpg', type: 'IMAGE', label: 'JPEG' },
   { mime: 'image/webp', ext: 'webp', type: 'IMAGE', label: 'WebP' },
   { mime: 'image/gif', ext: 'gif', type: 'IMAGE', label: 'GIF' },
+  { mime: 'audio/mpeg', ext: 'mp3', type: 'MEDIA', label: 'MP3' },
+  { mime: 'audio/mp4', ext: 'm4a', type: 'MEDIA', label: 'M4A' },
+  { mime: 'audio/wav', ext: 'wav', type: 'MEDIA', label: 'WAV' },
+  { mime: 'audio/ogg', ext: 'ogg', type: 'MEDIA', label: 'OGG' },
+  { mime: 'audio/flac', ext: 'flac', type: 'MEDIA', label: 'FLAC' },
+  { mime: 'video/mp4', ext: 'mp4', type: 'MEDIA', label: 'MP4' },
+  { mime: 'video/quicktime', ext: 'mov', type: 'MEDIA', label: 'MOV' },
+  { mime: 'video/webm', ext: 'webm', type: 'MEDIA', label: 'WebM' },
 ] as const satisfies readonly UploadFileType[];
 
 /** The DataSourceType values that come from file uploads (e.g. 'PDF', 'DOCX', 'IMAGE'). */
@@ -60,3 +92,54 @@ export const UPLOADS_MIME_TO_TYPE: Record<UploadsMime, UploadSourceType> = Objec
 export function isUploadsMime(mime: string): mime is UploadsMime {
   return UPLOADS_MIMES.has(mime);
 }
+
+/** Other extensions accepted for a supported type. */
+const UPLOADS_EXTENSION_ALIASES: Record<string, UploadsMime> = {
+  markdown: 'text/markdown',
+  ndjson: 'application/x-ndjson',
+  htm: 'text/html',
+  jpeg: 'image/jpeg',
+  oga: 'audio/ogg',
+  m4v: 'video/mp4',
+};
+
+/**
+ * The supported MIME type of an uploaded file. Browsers report some types
+ * inconsistently (`.md` as `text/plain`, `text/x-markdown` or nothing at all,
+ * `.epub` as `application/octet-stream`, `.m4a` as `audio/x-m4a`), so the extension decides when the
+ * reported type is generic or unrecognised.
+ */
+export function resolveUploadsMime(mime: string, filename: string): UploadsMime | null {
+  const ext = filename.includes('.') ? (filename.split('.').pop()?.toLowerCase() ?? '') : '';
+  const byExtension =
+    UPLOADS_FILE_TYPES.find((f) => f.ext === ext)?.mime ?? UPLOADS_EXTENSION_ALIASES[ext] ?? null;
+
+  if (isUploadsMime(mime) && (mime !== 'text/plain' || !byExtension)) return mime;
+  return byExtension;
+}
+
+// ── Archives ────────────────────────────────────────────────────────
+// Archives are not data sources themselves: they are unpacked on upload and
+// every supported file inside becomes a data source of its own.
+
+export const ARCHIVE_FILE_TYPES = [
+  { ext: 'zip', format: 'zip', label: 'ZIP' },
+  { ext: 'tar', format: 'tar', label: 'TAR' },
+  { ext: 'tar.gz', format: 'tar.gz', label: 'TAR.GZ' },
+  { ext: 'tgz', format: 'tar.gz', label: 'TGZ' },
+] as const;
+
+export type ArchiveFormat = (typeof ARCHIVE_FILE_TYPES)[number]['format'];
+
+/** Comma-separated archive extensions for HTML file input accept attribute */
+export const ARCHIVE_EXTENSIONS = ARCHIVE_FILE_TYPES.map((f) => `.${f.ext}`).join(',');
+
+/**
+ * The archive format of an uploaded file, by extension. Browsers disagree on
+ * archive MIME types (`application/x-zip-compressed`, `application/x-gzip`, ...)
+ * so the reported type is not used.
+ */
+export function resolveArchiveFormat(filename: string): ArchiveFormat | null {
+  const name = filename.toLowerCase();
+  return ARCHIVE_FILE_TYPES.find((f) => name.endsWith(`.${f.ext}`))?.format ?? null;
+}
@@ -33,6 +33,27 @@ export const MODEL_INFO = {
     maxOutput: 0,
     pricing: { inputPerMillion: 0.02, outputPerMillion: 0 },
   },
+  'bedrock/amazon.titan-embed-text-v2:0': {
+    label: 'Titan Text Embeddings V2',
+    provider: 'Bedrock',
+    contextWindow: 8192,
+    maxOutput: 0,
+    pricing: { inputPerMillion: 0.02, outputPerMillion: 0 },
+  },
+  'bedrock/cohere.embed-multilingual-v3': {
+    label: 'Cohere Embed Multilingual 3',
+    provider: 'Bedrock',
+    contextWindow: 512,
+    maxOutput: 0,
+    pricing: { inputPerMillion: 0.1, outputPerMillion: 0 },
+  },
+  'local/Xenova/bge-small-en-v1.5': {
+    label: 'BGE Small (local)',
+    provider: 'Local',
+    contextWindow: 512,
+    maxOutput: 0,
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+  },
   'bedrock/cohere.rerank-v3-5:0': {
     label: 'Cohere Rerank 3.5',
     provider: 'Bedrock',
@@ -52,7 +73,24 @@ export const MODEL_INFO = {
 export type ModelId = keyof typeof MODEL_INFO;
 
 export const CHAT_MODEL: ModelId = 'amazon-bedrock/us.anthropic.claude-haiku-4-5-20251001-v1:0';
-export const EMBEDDING_MODEL: ModelId = 'openai/text-embedding-3-small';
+/**
+ * Models that can embed chunks, selectable per org. Vectors narrower than
+ * `EMBEDDING_VECTOR_DIMENSIONS` are zero-padded to fit the chunks column,
+ * which leaves cosine distances unchanged.
+ */
+export const EMBEDDING_MODELS = {
+  'openai/text-embedding-3-small': { dimensions: 1536 },
+  'bedrock/amazon.titan-embed-text-v2:0': { dimensions: 1024 },
+  'bedrock/cohere.embed-multilingual-v3': { dimensions: 1024 },
+  'local/Xenova/bge-small-en-v1.5': { dimensions: 384 },
+} satisfies Partial<Record<ModelId, { dimensions: number }>>;
+
+export type EmbeddingModelId = keyof typeof EMBEDDING_MODELS;
+
+export const EMBEDDING_VECTOR_DIMENSIONS = 1536;
+
+/** Default embedding model for new orgs. */
+export const EMBEDDING_MODEL: EmbeddingModelId = 'openai/text-embedding-3-small';
 export const RERANK_MODEL: ModelId = 'bedrock/cohere.rerank-v3-5:0';
 export const HYDE_MODEL: ModelId = 'openai/gpt-4o-mini';
 export function calculateCost(model: ModelId, inputTokens: number, outputTokens: number): number {
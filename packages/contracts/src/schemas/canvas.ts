@@ -32,9 +32,13 @@ export const cardSourceSchema = z.object({
   type: chunkMetaTypeEnum.optional(),
   // Location metadata — populated from chunk metadata when the AI creates the card
   pages: z.array(z.number()).optional(),
+  slides: z.array(z.number()).optional(),
   sheet: z.string().optional(),
   rows: z.array(z.number()).optional(),
   columns: z.array(z.string()).optional(),
+  pointers: z.array(z.string()).optional(),
+  startSec: z.number().optional(),
+  endSec: z.number().optional(),
 });
 
 export type CardSource = z.infer<typeof cardSourceSchema>;
@@ -489,12 +493,15 @@ export const COMPONENT_DEFINITIONS = {
     usage: 'image display',
     dataSchema: z
       .object({
-        src: z.string(),
+        src: z.string().default(''),
         alt: z.string().optional(),
         caption: z.string().optional(),
         fit: z.enum(['contain', 'cover', 'fill']).default('contain'),
         height: z.number().optional(),
         borderRadius: z.number().optional(),
+        /** A figure extracted from an uploaded document, loaded in place of `src`. */
+        dataSourceId: dbIdSchema('DataSource').optional(),
+        imageId: dbIdSchema('ExtractedImage').optional(),
       })
       .describe('Image display'),
   },
@@ -1,20 +1,42 @@
+import { dbIdSchema } from '@grabdy/common';
 import { z } from 'zod';
 
 import type { DataSourceType } from '../enums/data-source.js';
 import { dataSourceTypeEnum } from '../enums/data-source.js';
+import { contentLanguageEnum } from '../enums/language.js';
+
+/** Fields every chunk type carries. */
+const chunkMetaBase = {
+  /** Detected language of the chunk's text; absent when it couldn't be told (short or mixed text). */
+  language: contentLanguageEnum.optional(),
+};
 
 // Upload types — location within a file
 const pdfChunkMetaSchema = z.object({
+  ...chunkMetaBase,
   type: z.literal('PDF'),
   pages: z.array(z.number()),
+  /** Lowest OCR confidence (0-100) of the scanned pages in the chunk; absent when none were OCR'd. */
+  ocrConfidence: z.number().optional(),
+  /** Set on chunks that describe an image embedded in the document rather than its text. */
+  imageId: dbIdSchema('ExtractedImage').optional(),
 });
 
 const docxChunkMetaSchema = z.object({
+  ...chunkMetaBase,
   type: z.literal('DOCX'),
   pages: z.array(z.number()),
+  imageId: dbIdSchema('ExtractedImage').optional(),
+});
+
+const pptxChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('PPTX'),
+  slides: z.array(z.number()),
 });
 
 const xlsxChunkMetaSchema = z.object({
+  ...chunkMetaBase,
   type: z.literal('XLSX'),
   sheet: z.string(),
   row: z.number(),
@@ -22,17 +44,62 @@ const xlsxChunkMetaSchema = z.object({
 });
 
 const csvChunkMetaSchema = z.object({
+  ...chunkMetaBase,
   type: z.literal('CSV'),
   row: z.number(),
   columns: z.array(z.string()),
 });
 
-const txtChunkMetaSchema = z.object({ type: z.literal('TXT') });
-const jsonChunkMetaSchema = z.object({ type: z.literal('JSON') });
-const imageChunkMetaSchema = z.object({ type: z.literal('IMAGE') });
+/** Heading breadcrumbs of the section a chunk came from, set by structure-aware chunking. */
+const sectionPathSchema = z.array(z.string()).optional();
+
+const txtChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('TXT'),
+  sectionPath: sectionPathSchema,
+});
+const markdownChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('MARKDOWN'),
+  sectionPath: sectionPathSchema,
+});
+const htmlChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('HTML'),
+  sectionPath: sectionPathSchema,
+});
+const epubChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('EPUB'),
+  /** Chapter title from the book's table of contents (or its first heading). */
+  chapter: z.string().nullable(),
+  /** 1-based position of the chapter in reading order. */
+  chapterIndex: z.number(),
+  sectionPath: sectionPathSchema,
+});
+const jsonChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('JSON'),
+  /** JSON pointers (e.g. `/items/42`) of the records in the chunk. */
+  pointers: z.array(z.string()).optional(),
+});
+const imageChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('IMAGE'),
+});
+const mediaChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('MEDIA'),
+  /** Span of the transcript in the chunk, in seconds from the start of the recording. */
+  startSec: z.number(),
+  endSec: z.number(),
+  /** Speaker of the whole chunk; null when the engine doesn't tell speakers apart or several speak. */
+  speaker: z.string().nullable(),
+});
 
 // Integration types — location within external system
 const slackChunkMetaSchema = z.object({
+  ...chunkMetaBase,
   type: z.literal('SLACK'),
   slackChannelId: z.string(),
   slackMessageTs: z.string(),
@@ -40,36 +107,111 @@ const slackChunkMetaSchema = z.object({
 });
 
 const linearChunkMetaSchema = z.object({
+  ...chunkMetaBase,
   type: z.literal('LINEAR'),
   linearIssueId: z.string(),
   linearCommentId: z.string().nullable(),
   linearTimestamp: z.string().nullable().optional(),
+  sectionPath: sectionPathSchema,
 });
 
 const githubChunkMetaSchema = z.object({
+  ...chunkMetaBase,
   type: z.literal('GITHUB'),
-  githubItemType: z.enum(['issue', 'pull_request', 'discussion']),
+  githubItemType: z.enum(['issue', 'pull_request', 'discussion', 'file']),
   githubCommentId: z.string().nullable(),
+  /** Repository files only: the path, the commit it was indexed at and the chunk's 1-based line range. */
+  filePath: z.string().optional(),
+  commitSha: z.string().optional(),
+  lineStart: z.number().optional(),
+  lineEnd: z.number().optional(),
+  sectionPath: sectionPathSchema,
 });
 
 const notionChunkMetaSchema = z.object({
+  ...chunkMetaBase,
   type: z.literal('NOTION'),
   notionPageId: z.string(),
   notionBlockId: z.string().nullable(),
+  sectionPath: sectionPathSchema,
+});
+
+/**
+ * Drive files are indexed through the upload extraction path of their format
+ * (PDF, DOCX, XLSX, ...) and carry that format's metadata. This type is for the
+ * text files no upload type covers (source code, config), indexed as plain text.
+ */
+const googleDriveChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('GOOGLE_DRIVE'),
+  driveFileId: z.string(),
+  sectionPath: sectionPathSchema,
+});
+
+const confluenceChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('CONFLUENCE'),
+  confluenceSpaceKey: z.string(),
+  /** Page or blog post ID. */
+  confluencePageId: z.string(),
+  /** Titles of the pages above this one, top-level first; empty for blog posts. */
+  confluenceAncestors: z.array(z.string()),
+  sectionPath: sectionPathSchema,
+});
+
+/** An issue's description, or one of its comments. */
+const jiraChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('JIRA'),
+  /** e.g. ENG-123 */
+  jiraIssueKey: z.string(),
+  jiraProjectKey: z.string(),
+  /** Null for the description. */
+  jiraCommentId: z.string().nullable(),
+  /** Workflow status name at the time of sync, e.g. "In Progress". */
+  jiraStatus: z.string(),
+  sectionPath: sectionPathSchema,
+});
+
+/**
+ * Emails are grouped by thread; each chunk holds one or more messages of a
+ * thread. Attachments are indexed through the upload path of their format.
+ */
+const emailChunkMetaSchema = z.object({
+  ...chunkMetaBase,
+  type: z.literal('EMAIL'),
+  /** Gmail thread ID, or the Message-ID that starts the thread for IMAP. */
+  emailThreadId: z.string(),
+  emailSubject: z.string(),
+  /** Senders of the messages in the chunk, as `Name <address>`. */
+  emailFrom: z.array(z.string()),
+  /** To and Cc recipients of the messages in the chunk. */
+  emailTo: z.array(z.string()),
+  /** ISO date of the earliest message in the chunk. */
+  emailDate: z.string(),
 });
 
 export const chunkMetaSchema = z.discriminatedUnion('type', [
   pdfChunkMetaSchema,
   docxChunkMetaSchema,
+  pptxChunkMetaSchema,
   xlsxChunkMetaSchema,
   csvChunkMetaSchema,
   txtChunkMetaSchema,
+  markdownChunkMetaSchema,
+  htmlChunkMetaSchema,
+  epubChunkMetaSchema,
   jsonChunkMetaSchema,
   imageChunkMetaSchema,
+  mediaChunkMetaSchema,
   slackChunkMetaSchema,
   linearChunkMetaSchema,
   githubChunkMetaSchema,
   notionChunkMetaSchema,
+  googleDriveChunkMetaSchema,
+  confluenceChunkMetaSchema,
+  jiraChunkMetaSchema,
+  emailChunkMetaSchema,
 ]);
 
 export type ChunkMeta = z.infer<typeof chunkMetaSchema>;
@@ -93,15 +235,28 @@ void _chunkMetaCheck;
  * Used by the RAG search tool to tell the LLM what metadata fields are available.
  */
 export const CHUNK_META_DESCRIPTIONS: Record<DataSourceType, string> = {
-  PDF: '{ type, pages[] }',
-  DOCX: '{ type, pages[] }',
+  PDF: '{ type, pages[], ocrConfidence, imageId }',
+  DOCX: '{ type, pages[], imageId }',
+  PPTX: '{ type, slides[] }',
   XLSX: '{ type, sheet, row, columns[] }',
   CSV: '{ type, row, columns[] }',
-  TXT: '{ type }',
-  JSON: '{ type }',
+  TXT: '{ type, sectionPath[] }',
+  MARKDOWN: '{ type, sectionPath[] }',
+  HTML: '{ type, sectionPath[] }',
+  EPUB: '{ type, chapter, chapterIndex, sectionPath[] }',
+  JSON: '{ type, pointers[] }',
   IMAGE: '{ type }',
+  MEDIA: '{ type, startSec, endSec, speaker } (audio/video transcript)',
   SLACK: '{ type, slackChannelId, slackMessageTs, slackAuthors[] }',
-  LINEAR: '{ type, linearIssueId, linearCommentId, linearTimestamp }',
-  GITHUB: '{ type, githubItemType (issue|pull_request|discussion), githubCommentId }',
-  NOTION: '{ type, notionPageId, notionBlockId }',
+  LINEAR: '{ type, linearIssueId, linearCommentId, linearTimestamp, sectionPath[] }',
+  GITHUB:
+    '{ type, githubItemType (issue|pull_request|discussion|file), githubCommentId, filePath, commitSha, lineStart, lineEnd (files only), sectionPath[] }',
+  NOTION: '{ type, notionPageId, notionBlockId, sectionPath[] }',
+  GOOGLE_DRIVE:
+    '{ type, driveFileId, sectionPath[] } (other Drive files carry their format type, e.g. PDF)',
+  CONFLUENCE:
+    '{ type, confluenceSpaceKey, confluencePageId, confluenceAncestors[] (parent page titles), sectionPath[] }',
+  JIRA: '{ type, jiraIssueKey, jiraProjectKey, jiraCommentId, jiraStatus, sectionPath[] }',
+  EMAIL:
+    '{ type, emailThreadId, emailSubject, emailFrom[], emailTo[], emailDate } (attachments carry their format type, e.g. PDF)',
 };
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+export const DATA_SOURCE_METADATA_MAX_KEYS = 50;
+
+export const dataSourceMetadataValueSchema = z.union([
+  z.string().max(1000),
+  z.number(),
+  z.boolean(),
+]);
+
+export const dataSourceMetadataKeySchema = z
+  .string()
+  .min(1)
+  .max(64)
+  .regex(/^[\w.-]+$/, 'Metadata keys may only contain letters, digits, "_", "." and "-"');
+
+/**
+ * User-supplied key/value metadata attached to a data source (e.g. `{ department: 'legal' }`).
+ * Copied onto every chunk of the source so it can be filtered on as `custom.<key>`.
+ */
+export const dataSourceMetadataSchema = z
+  .record(dataSourceMetadataKeySchema, dataSourceMetadataValueSchema)
+  .refine((m) => Object.keys(m).length <= DATA_SOURCE_METADATA_MAX_KEYS, {
+    message: `At most ${DATA_SOURCE_METADATA_MAX_KEYS} metadata keys are allowed`,
+  });
+
+export type DataSourceMetadata = z.infer<typeof dataSourceMetadataSchema>;
+
+/**
+ * Parse metadata sent as a JSON-encoded multipart form field.
+ * Throws a readable error when the field is not a valid metadata object.
+ */
+export function parseDataSourceMetadataJson(raw: string): DataSourceMetadata {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('metadata must be a JSON object');
+  }
+  const result = dataSourceMetadataSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(`Invalid metadata: ${result.error.issues.map((i) => i.message).join(', ')}`);
+  }
+  return result.data;
+}
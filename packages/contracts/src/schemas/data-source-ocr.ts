@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+import { dataSourceOcrStatusEnum } from '../enums/data-source.js';
+
+/** OCR results for a scanned document: the overall status and each page read by OCR. */
+export const dataSourceOcrSchema = z.object({
+  status: dataSourceOcrStatusEnum,
+  /** Confidence is 0-100, or null when nothing could be read from the page. */
+  pages: z.array(z.object({ page: z.number(), confidence: z.number().nullable() })),
+});
+
+export type DataSourceOcr = z.infer<typeof dataSourceOcrSchema>;
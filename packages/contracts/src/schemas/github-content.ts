@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+/** Files larger than this are skipped unless the repository sets its own limit. */
+export const GITHUB_CONTENT_DEFAULT_MAX_FILE_BYTES = 256 * 1024;
+
+/** The highest per-repository file size limit. */
+export const GITHUB_CONTENT_MAX_FILE_BYTES = 1024 * 1024;
+
+/**
+ * A repository whose files are indexed. A path is indexed when it matches an
+ * `include` glob (every path does when there are none) and no `exclude` glob.
+ */
+export const githubContentRepoSchema = z.object({
+  /** `owner/name` */
+  repo: z.string().regex(/^[\w.-]+\/[\w.-]+$/),
+  /** Defaults to the repository's default branch. */
+  branch: z.string().min(1).optional(),
+  include: z.array(z.string().min(1)).max(50).default([]),
+  exclude: z.array(z.string().min(1)).max(50).default([]),
+  maxFileBytes: z.number().int().positive().max(GITHUB_CONTENT_MAX_FILE_BYTES).optional(),
+});
+
+export type GitHubContentRepo = z.infer<typeof githubContentRepoSchema>;
@@ -1,5 +1,8 @@
 export * from './canvas.js';
 export * from './chunk-meta.js';
+export * from './data-source-metadata.js';
+export * from './data-source-ocr.js';
+export * from './github-content.js';
 export * from './metadata-filter.js';
 export * from './pagination.js';
 export * from './work-email.js';
@@ -1,42 +1,270 @@
 import { z } from 'zod';
 
-import { chunkMetaTypeEnum } from './chunk-meta.js';
-
-const typeEqFilter = z.object({
-  field: z.literal('type'),
-  operator: z.literal('eq'),
-  value: chunkMetaTypeEnum,
-});
-
-const typeInFilter = z.object({
-  field: z.literal('type'),
-  operator: z.literal('in'),
-  value: z.array(chunkMetaTypeEnum),
-});
-
-export const metadataFilterSchema = z.union([
-  typeEqFilter,
-  typeInFilter,
-  z.object({
-    field: z.literal('slackChannelId'),
-    operator: z.literal('eq'),
-    value: z.string(),
-  }),
-  z.object({
-    field: z.literal('slackAuthors'),
-    operator: z.literal('eq'),
-    value: z.string(),
-  }),
-  z.object({
-    field: z.literal('notionPageId'),
-    operator: z.literal('eq'),
-    value: z.string(),
-  }),
-  z.object({
-    field: z.literal('linearIssueId'),
-    operator: z.literal('eq'),
-    value: z.string(),
-  }),
+import { chunkMetaSchema, type ChunkMetaType } from './chunk-meta.js';
+import { dataSourceMetadataKeySchema } from './data-source-metadata.js';
+
+// ── Field catalog ───────────────────────────────────────────────
+
+export interface ChunkMetaFieldSpec {
+  kind: 'string' | 'number';
+  /** The field holds a list (e.g. `pages`, `slackAuthors`) — conditions match any element. */
+  array: boolean;
+  /** Allowed values for enum/literal fields (e.g. `type`, `githubItemType`), null when free-form. */
+  values: string[] | null;
+  /** Chunk types that carry this field. */
+  types: ChunkMetaType[];
+}
+
+function unwrapField(schema: unknown): unknown {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrapField(schema.unwrap());
+  }
+  return schema;
+}
+
+function describeScalar(schema: unknown): Pick<ChunkMetaFieldSpec, 'kind' | 'values'> | null {
+  if (schema instanceof z.ZodString) return { kind: 'string', values: null };
+  if (schema instanceof z.ZodNumber) return { kind: 'number', values: null };
+  if (schema instanceof z.ZodEnum) return { kind: 'string', values: schema.options.map(String) };
+  if (schema instanceof z.ZodLiteral)
+    return { kind: 'string', values: [...schema.values].map(String) };
+  return null;
+}
+
+/**
+ * Every filterable `ChunkMeta` field, derived from the `chunkMetaSchema` variants
+ * so new chunk types become filterable without touching the filter language.
+ */
+function buildFieldCatalog(): Record<string, ChunkMetaFieldSpec> {
+  const catalog: Record<string, ChunkMetaFieldSpec> = {};
+
+  for (const variant of chunkMetaSchema.options) {
+    const chunkType = variant.shape.type.value;
+
+    for (const [name, fieldSchema] of Object.entries(variant.shape)) {
+      const unwrapped = unwrapField(fieldSchema);
+      const array = unwrapped instanceof z.ZodArray;
+      const scalar = describeScalar(
+        unwrapped instanceof z.ZodArray ? unwrapField(unwrapped.element) : unwrapped
+      );
+      if (!scalar) continue;
+
+      const existing = catalog[name];
+      if (!existing) {
+        catalog[name] = { ...scalar, array, types: [chunkType] };
+        continue;
+      }
+      if (existing.kind !== scalar.kind || existing.array !== array) {
+        throw new Error(`ChunkMeta field "${name}" has conflicting types across chunk types`);
+      }
+      existing.types.push(chunkType);
+      if (existing.values && scalar.values) {
+        existing.values = [...new Set([...existing.values, ...scalar.values])];
+      } else {
+        existing.values = null;
+      }
+    }
+  }
+
+  return catalog;
+}
+
+export const CHUNK_META_FIELDS: Readonly<Record<string, ChunkMetaFieldSpec>> = buildFieldCatalog();
+
+// ── Filter language ─────────────────────────────────────────────
+
+export const METADATA_FILTER_MAX_DEPTH = 5;
+export const METADATA_FILTER_MAX_CONDITIONS = 50;
+
+export const metadataFilterOperatorEnum = z.enum([
+  'eq',
+  'neq',
+  'in',
+  'gt',
+  'lt',
+  'contains',
+  'exists',
 ]);
+export type MetadataFilterOperator = z.infer<typeof metadataFilterOperatorEnum>;
+
+const scalarValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+/** Conditions on user-defined data source metadata address it as `custom.<key>`. */
+export const CUSTOM_METADATA_FIELD_PREFIX = 'custom.';
+
+/** The custom metadata key a filter field targets, or null for `ChunkMeta` fields. */
+export function customMetadataKey(field: string): string | null {
+  return field.startsWith(CUSTOM_METADATA_FIELD_PREFIX)
+    ? field.slice(CUSTOM_METADATA_FIELD_PREFIX.length)
+    : null;
+}
+
+/** Custom metadata has no fixed schema, so only the value shape per operator is checked. */
+function validateCustomCondition(
+  key: string,
+  operator: MetadataFilterOperator,
+  value: unknown
+): string | null {
+  const parsedKey = dataSourceMetadataKeySchema.safeParse(key);
+  if (!parsedKey.success) {
+    return `Invalid custom metadata key "${key}": ${parsedKey.error.issues[0]?.message}`;
+  }
+
+  const isScalar = (v: unknown) => ['string', 'number', 'boolean'].includes(typeof v);
+
+  switch (operator) {
+    case 'exists':
+      return value === undefined || typeof value === 'boolean'
+        ? null
+        : '"exists" expects a boolean value';
+    case 'in':
+      return Array.isArray(value) && value.length > 0 && value.every(isScalar)
+        ? null
+        : '"in" expects a non-empty array of values';
+    case 'gt':
+    case 'lt':
+      return typeof value === 'string' || typeof value === 'number'
+        ? null
+        : `"${operator}" expects a string or number value`;
+    case 'contains':
+      return typeof value === 'string' ? null : '"contains" expects a string value';
+    case 'eq':
+    case 'neq':
+      return isScalar(value) ? null : `"${operator}" expects a string, number or boolean value`;
+    default: {
+      const exhaustive: never = operator;
+      return `Unknown operator ${String(exhaustive)}`;
+    }
+  }
+}
+
+function checkScalar(spec: ChunkMetaFieldSpec, field: string, value: unknown): string | null {
+  if (typeof value !== spec.kind) {
+    return `"${field}" expects a ${spec.kind} value`;
+  }
+  if (spec.values && typeof value === 'string' && !spec.values.includes(value)) {
+    return `"${field}" must be one of: ${spec.values.join(', ')}`;
+  }
+  return null;
+}
+
+/** Returns why a condition is invalid for the field it targets, or null if it is valid. */
+function validateCondition(condition: {
+  field: string;
+  operator: MetadataFilterOperator;
+  value?: unknown;
+}): string | null {
+  const { field, operator, value } = condition;
+  const customKey = customMetadataKey(field);
+  if (customKey !== null) return validateCustomCondition(customKey, operator, value);
+
+  const spec = CHUNK_META_FIELDS[field];
+  if (!spec) {
+    return `Unknown metadata field "${field}". Use custom.<key> for custom metadata, or one of: ${Object.keys(CHUNK_META_FIELDS).join(', ')}`;
+  }
+
+  switch (operator) {
+    case 'exists':
+      return value === undefined || typeof value === 'boolean'
+        ? null
+        : '"exists" expects a boolean value';
+    case 'in': {
+      if (!Array.isArray(value) || value.length === 0) {
+        return '"in" expects a non-empty array of values';
+      }
+      for (const item of value) {
+        const error = checkScalar(spec, field, item);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'gt':
+    case 'lt':
+      if (spec.values) return `"${operator}" is not supported on enum field "${field}"`;
+      return checkScalar(spec, field, value);
+    case 'contains':
+      if (spec.kind !== 'string' && !spec.array) {
+        return `"contains" needs a text or list field, "${field}" is a number`;
+      }
+      return checkScalar(spec, field, value);
+    case 'eq':
+    case 'neq':
+      return checkScalar(spec, field, value);
+    default: {
+      const exhaustive: never = operator;
+      return `Unknown operator ${String(exhaustive)}`;
+    }
+  }
+}
+
+export const metadataConditionSchema = z
+  .object({
+    field: z
+      .string()
+      .describe(
+        'ChunkMeta field (e.g. type, pages, sheet, slackChannelId) or custom.<key> for custom metadata'
+      ),
+    operator: metadataFilterOperatorEnum,
+    value: z
+      .union([scalarValueSchema, z.array(scalarValueSchema)])
+      .optional()
+      .describe('Value to compare against — an array for "in", a boolean for "exists"'),
+  })
+  .superRefine((condition, ctx) => {
+    const error = validateCondition(condition);
+    if (error) ctx.addIssue({ code: 'custom', message: error, path: ['value'] });
+  });
+
+export type MetadataCondition = z.infer<typeof metadataConditionSchema>;
+
+export type MetadataFilter =
+  | MetadataCondition
+  | { and: MetadataFilter[] }
+  | { or: MetadataFilter[] }
+  | { not: MetadataFilter };
+
+function filterSize(filter: MetadataFilter): { depth: number; conditions: number } {
+  if ('and' in filter || 'or' in filter) {
+    const children = ('and' in filter ? filter.and : filter.or).map(filterSize);
+    return {
+      depth: 1 + Math.max(0, ...children.map((c) => c.depth)),
+      conditions: children.reduce((sum, c) => sum + c.conditions, 0),
+    };
+  }
+  if ('not' in filter) {
+    const child = filterSize(filter.not);
+    return { depth: child.depth + 1, conditions: child.conditions };
+  }
+  return { depth: 1, conditions: 1 };
+}
 
-export type MetadataFilter = z.infer<typeof metadataFilterSchema>;
+/**
+ * A condition on one `ChunkMeta` field, or an `and`/`or`/`not` group of filters.
+ * Fields, operators and value types are checked against `CHUNK_META_FIELDS`,
+ * so anything that parses can be compiled to SQL without further checks.
+ */
+export const metadataFilterSchema: z.ZodType<MetadataFilter> = z
+  .lazy(() =>
+    z.union([
+      metadataConditionSchema,
+      z.strictObject({ and: z.array(metadataFilterSchema).min(1) }),
+      z.strictObject({ or: z.array(metadataFilterSchema).min(1) }),
+      z.strictObject({ not: metadataFilterSchema }),
+    ])
+  )
+  .superRefine((filter, ctx) => {
+    const { depth, conditions } = filterSize(filter);
+    if (depth > METADATA_FILTER_MAX_DEPTH) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Filters can be nested at most ${METADATA_FILTER_MAX_DEPTH} levels deep`,
+      });
+    }
+    if (conditions > METADATA_FILTER_MAX_CONDITIONS) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Filters can contain at most ${METADATA_FILTER_MAX_CONDITIONS} conditions`,
+      });
+    }
+  })
+  .meta({ id: 'MetadataFilter' });